@@ -77,6 +77,11 @@ async function main() {
   let shareToken = `smoke_${Date.now()}`;
   let privateScreenId = "";
   let privateShareToken = `smoke_private_${Date.now()}`;
+  let member = null;
+  let workspaceId = "";
+  let otherWorkspaceId = "";
+  let projectId = "";
+  let sharedScreenId = "";
 
   try {
     owner = await createUser("owner");
@@ -271,26 +276,121 @@ async function main() {
       assertBlockedMutation(result, "Delete should be blocked by RLS for non-owner");
     });
 
+    member = await createUser("member");
+    const memberClient = clientFor((await signIn(member.email)).access_token);
+
+    await check("invited editor joins the workspace of a shared project", async () => {
+      const workspace = await ownerClient.from("workspaces").insert({ name: "Smoke Team", owner_id: owner.id }).select("id").single();
+      if (workspace.error) throw workspace.error;
+      workspaceId = workspace.data.id;
+      const invite = await ownerClient
+        .from("workspace_invites")
+        .insert({ workspace_id: workspaceId, email: member.email, role: "editor", invited_by: owner.id })
+        .select("token")
+        .single();
+      if (invite.error) throw invite.error;
+      const accepted = await memberClient.rpc("accept_workspace_invite", { invite_token: invite.data.token });
+      if (accepted.error) throw accepted.error;
+
+      const project = await ownerClient
+        .from("projects")
+        .insert({ user_id: owner.id, name: "Smoke Project", workspace_id: workspaceId })
+        .select("id")
+        .single();
+      if (project.error) throw project.error;
+      projectId = project.data.id;
+      const screen = await ownerClient
+        .from("screens")
+        .insert({ user_id: owner.id, project_id: projectId, name: "Shared", message_content: "Hi", keyboard: [] })
+        .select("id")
+        .single();
+      if (screen.error) throw screen.error;
+      sharedScreenId = screen.data.id;
+
+      const edit = await memberClient.from("screens").update({ name: "Edited" }).eq("id", sharedScreenId).select("id");
+      if (edit.error || (edit.data ?? []).length !== 1) throw edit.error || new Error("Editor cannot edit shared screen");
+    });
+
+    await check("editors cannot take over shared projects", async () => {
+      if (!projectId) throw new Error("missing project id");
+      const result = await memberClient
+        .from("projects")
+        .update({ user_id: member.id })
+        .eq("id", projectId)
+        .select("id", { count: "exact" });
+      assertBlockedMutation(result, "Project owner should be immutable");
+    });
+
+    await check("editors cannot take shared screens private", async () => {
+      if (!sharedScreenId) throw new Error("missing shared screen id");
+      const result = await memberClient
+        .from("screens")
+        .update({ user_id: member.id, project_id: null })
+        .eq("id", sharedScreenId)
+        .select("id", { count: "exact" });
+      assertBlockedMutation(result, "Screen owner should be immutable");
+      const detached = await memberClient
+        .from("screens")
+        .update({ project_id: null })
+        .eq("id", sharedScreenId)
+        .select("id", { count: "exact" });
+      assertBlockedMutation(detached, "Editors should not move shared screens out of the project");
+    });
+
+    await check("owners cannot move member rows to other workspaces or users", async () => {
+      if (!workspaceId) throw new Error("missing workspace id");
+      const other = await memberClient.from("workspaces").insert({ name: "Other Team", owner_id: member.id }).select("id").single();
+      if (other.error) throw other.error;
+      otherWorkspaceId = other.data.id;
+      const moved = await ownerClient
+        .from("workspace_members")
+        .update({ workspace_id: otherWorkspaceId })
+        .eq("workspace_id", workspaceId)
+        .eq("user_id", member.id)
+        .select("user_id", { count: "exact" });
+      assertBlockedMutation(moved, "Member rows should not move to another workspace");
+      const retargeted = await ownerClient
+        .from("workspace_members")
+        .update({ user_id: viewer.id })
+        .eq("workspace_id", workspaceId)
+        .eq("user_id", member.id)
+        .select("user_id", { count: "exact" });
+      assertBlockedMutation(retargeted, "Member rows should not point at another user");
+    });
+
     if (results.length > 0) {
       throw new Error(`${results.length} RLS checks failed`);
     }
 
     console.log("🎉 RLS smoke passed");
   } finally {
-    await cleanup({ ownerId: owner?.id, viewerId: viewer?.id, screenId, privateScreenId });
+    await cleanup({
+      ownerId: owner?.id,
+      viewerId: viewer?.id,
+      memberId: member?.id,
+      screenId,
+      privateScreenId,
+      sharedScreenId,
+      projectId,
+      workspaceIds: [workspaceId, otherWorkspaceId],
+    });
   }
 }
 
-const cleanup = async ({ ownerId, viewerId, screenId, privateScreenId }) => {
+const cleanup = async ({ ownerId, viewerId, memberId, screenId, privateScreenId, sharedScreenId, projectId, workspaceIds }) => {
   try {
-    const screenIds = [screenId, privateScreenId].filter(Boolean);
+    const screenIds = [screenId, privateScreenId, sharedScreenId].filter(Boolean);
     if (screenIds.length > 0) {
       await admin.from("screen_layouts").delete().in("screen_id", screenIds);
       await admin.from("screens").delete().in("id", screenIds);
     }
+    if (projectId) await admin.from("projects").delete().eq("id", projectId);
+    const createdWorkspaces = workspaceIds.filter(Boolean);
+    if (createdWorkspaces.length > 0) await admin.from("workspaces").delete().in("id", createdWorkspaces);
     if (ownerId) await admin.from("user_pins").delete().eq("user_id", ownerId);
     if (ownerId) await admin.auth.admin.deleteUser(ownerId);
     if (viewerId) await admin.auth.admin.deleteUser(viewerId);
+    if (memberId) await admin.auth.admin.deleteUser(memberId);
   } catch (e) {
     console.warn("Cleanup warning:", e instanceof Error ? e.message : e);
   }
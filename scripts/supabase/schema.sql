@@ -1,4 +1,4 @@
--- Supabase schema for Telegram UI Builder (screens, pins, layouts)
+-- Supabase schema for Telegram UI Builder (screens, pins, layouts, projects, workspaces, realtime)
 create extension if not exists "pgcrypto";
 
 -- 1) Screens table: bot message screens with share tokens
@@ -8,6 +8,13 @@ create table if not exists public.screens (
   name text not null,
   message_content text not null,
   keyboard jsonb not null,
+  -- NULL: read from the message_content JSON (rows written before these columns existed)
+  parse_mode text check (parse_mode is null or parse_mode in ('HTML', 'MarkdownV2')),
+  message_type text check (
+    message_type is null
+    or message_type in ('text', 'photo', 'video', 'document', 'animation', 'audio', 'voice', 'video_note', 'media_group')
+  ),
+  media_url text,
   is_public boolean default false,
   share_token text unique,
   created_at timestamptz default now(),
@@ -86,6 +93,9 @@ returns table (
   name text,
   message_content text,
   keyboard jsonb,
+  parse_mode text,
+  message_type text,
+  media_url text,
   is_public boolean,
   share_token text,
   created_at timestamptz,
@@ -100,6 +110,9 @@ as $$
     s.name,
     s.message_content,
     s.keyboard,
+    s.parse_mode,
+    s.message_type,
+    s.media_url,
     s.is_public,
     s.share_token,
     s.created_at,
@@ -113,10 +126,11 @@ $$;
 revoke all on function public.get_public_screen_by_token(text) from public;
 grant execute on function public.get_public_screen_by_token(text) to anon, authenticated;
 
--- 2) Pins table: per-user list of pinned screen ids
+-- 2) Pins table: per-user list of pinned screen ids, and the entry screen of the screens without a project
 create table if not exists public.user_pins (
   user_id uuid primary key references auth.users(id) on delete cascade,
   pinned_ids text[] not null default '{}'::text[],
+  entry_screen_id uuid references public.screens(id) on delete set null,
   updated_at timestamptz not null default now()
 );
 
@@ -153,3 +167,480 @@ create policy if not exists screen_layouts_update on public.screen_layouts
   for update using (auth.uid() = user_id);
 
 create index if not exists idx_screen_layouts_user on public.screen_layouts(user_id);
+
+-- 4) Projects: one per bot; screens without a project are listed as "未分组"
+create table if not exists public.projects (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (char_length(btrim(name)) between 1 and 100),
+  bot_username text check (bot_username is null or bot_username ~ '^[A-Za-z][A-Za-z0-9_]{4,31}$'),
+  default_parse_mode text not null default 'HTML' check (default_parse_mode in ('HTML', 'MarkdownV2')),
+  entry_screen_id uuid references public.screens(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.projects enable row level security;
+
+create policy if not exists projects_select on public.projects
+  for select using (auth.uid() = user_id);
+
+create policy if not exists projects_insert on public.projects
+  for insert with check (auth.uid() = user_id);
+
+-- The entry screen must be one of the project's own screens.
+create policy if not exists projects_update on public.projects
+  for update using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      entry_screen_id is null
+      or exists (
+        select 1 from public.screens s
+        where s.id = entry_screen_id
+          and s.project_id = projects.id
+          and s.user_id = auth.uid()
+      )
+    )
+  );
+
+create policy if not exists projects_delete on public.projects
+  for delete using (auth.uid() = user_id);
+
+create index if not exists idx_projects_user_id on public.projects(user_id);
+
+drop trigger if exists update_projects_updated_at on public.projects;
+create trigger update_projects_updated_at
+before update on public.projects
+for each row
+execute function public.update_updated_at_column();
+
+alter table public.screens
+  add column if not exists project_id uuid references public.projects(id) on delete cascade;
+
+create index if not exists idx_screens_project_id on public.screens(project_id);
+
+-- Screen policies that check the project are defined with the workspaces (section 5).
+
+-- The entry screen stored with the pins must be one of the user's screens without a project.
+drop policy if exists user_pins_upsert on public.user_pins;
+create policy user_pins_upsert on public.user_pins
+  for insert with check (
+    auth.uid() = user_id
+    and (
+      entry_screen_id is null
+      or exists (
+        select 1 from public.screens s
+        where s.id = entry_screen_id and s.project_id is null and s.user_id = auth.uid()
+      )
+    )
+  );
+
+drop policy if exists user_pins_update on public.user_pins;
+create policy user_pins_update on public.user_pins
+  for update using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      entry_screen_id is null
+      or exists (
+        select 1 from public.screens s
+        where s.id = entry_screen_id and s.project_id is null and s.user_id = auth.uid()
+      )
+    )
+  );
+
+-- 5) Workspaces: members with a role (owner, editor, viewer) share the projects filed under the workspace
+create table if not exists public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(btrim(name)) between 1 and 100),
+  owner_id uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.workspace_members (
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  -- Copied from the invite (or the owner's session) so members can be listed without reading auth.users.
+  email text,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create table if not exists public.workspace_invites (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  email text not null check (email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$'),
+  role text not null default 'editor' check (role in ('editor', 'viewer')),
+  token text not null unique default encode(gen_random_bytes(24), 'hex'),
+  invited_by uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '7 days',
+  accepted_at timestamptz
+);
+
+create index if not exists idx_workspace_members_user_id on public.workspace_members(user_id);
+create index if not exists idx_workspace_invites_workspace_id on public.workspace_invites(workspace_id);
+
+drop trigger if exists update_workspaces_updated_at on public.workspaces;
+create trigger update_workspaces_updated_at
+before update on public.workspaces
+for each row
+execute function public.update_updated_at_column();
+
+-- Role of the current user in a workspace, or null. security definer so the membership policies can use it
+-- without recursing into workspace_members' own RLS.
+create or replace function public.workspace_role(target_workspace uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.role
+  from public.workspace_members m
+  where m.workspace_id = target_workspace
+    and m.user_id = auth.uid();
+$$;
+
+revoke all on function public.workspace_role(uuid) from public;
+grant execute on function public.workspace_role(uuid) to authenticated;
+
+-- The creator becomes the workspace's owner member.
+create or replace function public.add_workspace_owner()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  insert into public.workspace_members (workspace_id, user_id, email, role)
+  values (new.id, new.owner_id, auth.jwt() ->> 'email', 'owner');
+  return new;
+end;
+$$;
+
+drop trigger if exists add_workspace_owner on public.workspaces;
+create trigger add_workspace_owner
+after insert on public.workspaces
+for each row
+execute function public.add_workspace_owner();
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_invites enable row level security;
+
+drop policy if exists workspaces_select on public.workspaces;
+create policy workspaces_select on public.workspaces
+  for select using (auth.uid() = owner_id or public.workspace_role(id) is not null);
+
+drop policy if exists workspaces_insert on public.workspaces;
+create policy workspaces_insert on public.workspaces
+  for insert with check (auth.uid() = owner_id);
+
+drop policy if exists workspaces_update on public.workspaces;
+create policy workspaces_update on public.workspaces
+  for update using (public.workspace_role(id) = 'owner')
+  with check (auth.uid() = owner_id);
+
+drop policy if exists workspaces_delete on public.workspaces;
+create policy workspaces_delete on public.workspaces
+  for delete using (auth.uid() = owner_id);
+
+drop policy if exists workspace_members_select on public.workspace_members;
+create policy workspace_members_select on public.workspace_members
+  for select using (public.workspace_role(workspace_id) is not null);
+
+-- Only the owner row is inserted directly (by add_workspace_owner); everyone else joins through
+-- accept_workspace_invite.
+drop policy if exists workspace_members_insert on public.workspace_members;
+create policy workspace_members_insert on public.workspace_members
+  for insert with check (
+    auth.uid() = user_id
+    and role = 'owner'
+    and exists (select 1 from public.workspaces w where w.id = workspace_id and w.owner_id = auth.uid())
+  );
+
+drop policy if exists workspace_members_update on public.workspace_members;
+create policy workspace_members_update on public.workspace_members
+  for update using (public.workspace_role(workspace_id) = 'owner' and role <> 'owner')
+  with check (public.workspace_role(workspace_id) = 'owner' and role in ('editor', 'viewer'));
+
+-- Owners only change a member's role; moving the row to another workspace or user would skip the invite.
+create or replace function public.guard_workspace_member()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.workspace_id is distinct from old.workspace_id or new.user_id is distinct from old.user_id then
+    raise exception 'workspace members cannot be moved to another workspace or user' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_workspace_member on public.workspace_members;
+create trigger guard_workspace_member
+before update on public.workspace_members
+for each row
+execute function public.guard_workspace_member();
+
+-- Owners remove members; members may leave. The owner row stays.
+drop policy if exists workspace_members_delete on public.workspace_members;
+create policy workspace_members_delete on public.workspace_members
+  for delete using (
+    role <> 'owner'
+    and (auth.uid() = user_id or public.workspace_role(workspace_id) = 'owner')
+  );
+
+drop policy if exists workspace_invites_select on public.workspace_invites;
+create policy workspace_invites_select on public.workspace_invites
+  for select using (public.workspace_role(workspace_id) = 'owner');
+
+drop policy if exists workspace_invites_insert on public.workspace_invites;
+create policy workspace_invites_insert on public.workspace_invites
+  for insert with check (auth.uid() = invited_by and public.workspace_role(workspace_id) = 'owner');
+
+drop policy if exists workspace_invites_delete on public.workspace_invites;
+create policy workspace_invites_delete on public.workspace_invites
+  for delete using (public.workspace_role(workspace_id) = 'owner');
+
+-- Joins the workspace of a pending invite addressed to the caller's email; returns the workspace id.
+create or replace function public.accept_workspace_invite(invite_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.workspace_invites%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  select * into invite
+  from public.workspace_invites i
+  where i.token = invite_token
+    and i.accepted_at is null
+    and i.expires_at > now()
+  for update;
+
+  if not found then
+    raise exception 'invite not found or expired' using errcode = 'P0002';
+  end if;
+
+  if lower(invite.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) then
+    raise exception 'invite was sent to another email' using errcode = '42501';
+  end if;
+
+  insert into public.workspace_members (workspace_id, user_id, email, role)
+  values (invite.workspace_id, auth.uid(), invite.email, invite.role)
+  on conflict (workspace_id, user_id) do update
+    set role = excluded.role
+    where public.workspace_members.role <> 'owner';
+
+  update public.workspace_invites set accepted_at = now() where id = invite.id;
+
+  return invite.workspace_id;
+end;
+$$;
+
+revoke all on function public.accept_workspace_invite(text) from public;
+grant execute on function public.accept_workspace_invite(text) to authenticated;
+
+-- Projects filed under a workspace are shared with its members.
+alter table public.projects
+  add column if not exists workspace_id uuid references public.workspaces(id) on delete set null;
+
+create index if not exists idx_projects_workspace_id on public.projects(workspace_id);
+
+-- Role of the current user on a project: the project's creator is its owner, anyone else gets their role in
+-- the project's workspace (null for personal projects of others).
+create or replace function public.project_role(target_project uuid)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select case when p.user_id = auth.uid() then 'owner' else public.workspace_role(p.workspace_id) end
+  from public.projects p
+  where p.id = target_project;
+$$;
+
+-- The project's creator stays its owner, and only they move it between workspaces.
+create or replace function public.guard_project_workspace()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.user_id is distinct from old.user_id then
+    raise exception 'a project''s owner cannot be changed' using errcode = '42501';
+  end if;
+  if new.workspace_id is distinct from old.workspace_id and old.user_id <> auth.uid() then
+    raise exception 'only the project owner can change its workspace' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_project_workspace on public.projects;
+create trigger guard_project_workspace
+before update on public.projects
+for each row
+execute function public.guard_project_workspace();
+
+drop policy if exists projects_select on public.projects;
+create policy projects_select on public.projects
+  for select using (auth.uid() = user_id or public.workspace_role(workspace_id) is not null);
+
+drop policy if exists projects_insert on public.projects;
+create policy projects_insert on public.projects
+  for insert with check (
+    auth.uid() = user_id
+    and (workspace_id is null or public.workspace_role(workspace_id) in ('owner', 'editor'))
+  );
+
+-- Editors may edit shared projects; the entry screen must be one of the project's screens.
+drop policy if exists projects_update on public.projects;
+create policy projects_update on public.projects
+  for update using (auth.uid() = user_id or public.workspace_role(workspace_id) in ('owner', 'editor'))
+  with check (
+    (auth.uid() = user_id or public.workspace_role(workspace_id) in ('owner', 'editor'))
+    and (workspace_id is null or public.workspace_role(workspace_id) in ('owner', 'editor'))
+    and (
+      entry_screen_id is null
+      or exists (
+        select 1 from public.screens s
+        where s.id = entry_screen_id
+          and s.project_id = projects.id
+      )
+    )
+  );
+
+-- Screens follow their project: viewers read, editors and owners write. Screens without a project stay
+-- owner-only.
+drop policy if exists "Users can view own screens" on public.screens;
+create policy "Users can view own screens" on public.screens
+  for select using (
+    (project_id is null and auth.uid() = user_id)
+    or public.project_role(project_id) is not null
+  );
+
+drop policy if exists "Users can insert own screens" on public.screens;
+create policy "Users can insert own screens" on public.screens
+  for insert with check (
+    auth.uid() = user_id
+    and (project_id is null or public.project_role(project_id) in ('owner', 'editor'))
+  );
+
+drop policy if exists "Users can update own screens" on public.screens;
+create policy "Users can update own screens" on public.screens
+  for update using (
+    (project_id is null and auth.uid() = user_id)
+    or public.project_role(project_id) in ('owner', 'editor')
+  )
+  with check (
+    (project_id is null and auth.uid() = user_id)
+    or public.project_role(project_id) in ('owner', 'editor')
+  );
+
+-- A screen keeps its creator, so editors cannot take shared screens private. Moving a screen to another
+-- project needs write access to both projects unless it is the caller's own screen (the update policy still
+-- checks the new project).
+create or replace function public.guard_screen_owner()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.user_id is distinct from old.user_id then
+    raise exception 'a screen''s owner cannot be changed' using errcode = '42501';
+  end if;
+  if new.project_id is distinct from old.project_id
+    and old.user_id <> auth.uid()
+    and (
+      coalesce(public.project_role(old.project_id), '') not in ('owner', 'editor')
+      or coalesce(public.project_role(new.project_id), '') not in ('owner', 'editor')
+    ) then
+    raise exception 'moving a screen needs write access to both projects' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_screen_owner on public.screens;
+create trigger guard_screen_owner
+before update on public.screens
+for each row
+execute function public.guard_screen_owner();
+
+drop policy if exists "Users can delete own screens" on public.screens;
+create policy "Users can delete own screens" on public.screens
+  for delete using (
+    (project_id is null and auth.uid() = user_id)
+    or public.project_role(project_id) in ('owner', 'editor')
+  );
+
+-- 6) Realtime: open editors receive screen and layout changes (subject to the select policies above)
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'screens'
+    ) then
+      alter publication supabase_realtime add table public.screens;
+    end if;
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'screen_layouts'
+    ) then
+      alter publication supabase_realtime add table public.screen_layouts;
+    end if;
+  end if;
+end;
+$$;
+
+-- Presence and cursors use private channels: `project:<projectId>` for the project's members,
+-- `user:<userId>:ungrouped` for the screens of a user that belong to no project.
+create or replace function public.can_access_realtime_topic(topic text)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select case
+    when topic ~ '^project:[0-9a-f-]{36}$' then public.project_role(substr(topic, 9)::uuid) is not null
+    when topic ~ '^user:[0-9a-f-]{36}:ungrouped$' then split_part(topic, ':', 2) = auth.uid()::text
+    else false
+  end;
+$$;
+
+revoke all on function public.can_access_realtime_topic(text) from public;
+grant execute on function public.can_access_realtime_topic(text) to authenticated;
+
+do $$
+begin
+  if to_regclass('realtime.messages') is not null then
+    drop policy if exists "Members can receive presence and cursors" on realtime.messages;
+    create policy "Members can receive presence and cursors" on realtime.messages
+      for select to authenticated
+      using (
+        realtime.messages.extension in ('presence', 'broadcast')
+        and public.can_access_realtime_topic(realtime.topic())
+      );
+
+    drop policy if exists "Members can send presence and cursors" on realtime.messages;
+    create policy "Members can send presence and cursors" on realtime.messages
+      for insert to authenticated
+      with check (
+        realtime.messages.extension in ('presence', 'broadcast')
+        and public.can_access_realtime_topic(realtime.topic())
+      );
+  end if;
+end;
+$$;
@@ -31,6 +31,10 @@ const SCHEMA_PATH = path.join(ROOT, "scripts", "supabase", "schema.sql");
 
 const SECURITY_DEFINER_ALLOWED = new Set([
   "get_public_screen_by_token",
+  // Workspace membership lookup used by RLS policies (avoids recursive workspace_members policies).
+  "workspace_role",
+  // Invitees cannot read workspace_invites; the RPC checks the token and the caller's email.
+  "accept_workspace_invite",
 ]);
 
 const GRANT_EXECUTE_TO_ANON_ALLOWED = new Set([
@@ -31,9 +31,23 @@ if (!SUPABASE_URL || !SUPABASE_KEY) {
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
 
-const REQUIRED_TABLES = ["screens", "user_pins", "screen_layouts"];
+const REQUIRED_TABLES = [
+  "screens",
+  "user_pins",
+  "screen_layouts",
+  "projects",
+  "workspaces",
+  "workspace_members",
+  "workspace_invites",
+];
 
-const REQUIRED_FUNCTIONS = ["get_public_screen_by_token", "screen_contains_sensitive_data"];
+// Arguments used to probe each function; errors other than "does not exist" mean it is there.
+const REQUIRED_FUNCTIONS = {
+  get_public_screen_by_token: { token: "__test__" },
+  screen_contains_sensitive_data: { message_content: "", keyboard: {} },
+  workspace_role: { target_workspace: "00000000-0000-0000-0000-000000000000" },
+  accept_workspace_invite: { invite_token: "__test__" },
+};
 
 const REQUIRED_CONSTRAINTS = [
   { table: "screens", constraint: "screens_public_no_sensitive" },
@@ -62,6 +76,43 @@ for (const table of REQUIRED_TABLES) {
   }
 }
 
+// 1b. Check typed message columns
+const { error: columnsError } = await supabase.from("screens").select("parse_mode,message_type,media_url").limit(0);
+if (columnsError && columnsError.code === "42703") {
+  fail("Columns 'screens.parse_mode/message_type/media_url' missing (migration 20261019090000)");
+} else if (columnsError) {
+  warn(`Message columns check failed: ${columnsError.message}`);
+} else {
+  pass("Columns 'screens.parse_mode/message_type/media_url' exist");
+}
+
+const { error: projectColumnError } = await supabase.from("screens").select("project_id").limit(0);
+if (projectColumnError && projectColumnError.code === "42703") {
+  fail("Column 'screens.project_id' missing (migration 20261020090000)");
+} else if (projectColumnError) {
+  warn(`Project column check failed: ${projectColumnError.message}`);
+} else {
+  pass("Column 'screens.project_id' exists");
+}
+
+const { error: entryColumnError } = await supabase.from("user_pins").select("entry_screen_id").limit(0);
+if (entryColumnError && entryColumnError.code === "42703") {
+  fail("Column 'user_pins.entry_screen_id' missing (migration 20261021090000)");
+} else if (entryColumnError) {
+  warn(`Entry column check failed: ${entryColumnError.message}`);
+} else {
+  pass("Column 'user_pins.entry_screen_id' exists");
+}
+
+const { error: workspaceColumnError } = await supabase.from("projects").select("workspace_id").limit(0);
+if (workspaceColumnError && workspaceColumnError.code === "42703") {
+  fail("Column 'projects.workspace_id' missing (migration 20261022090000)");
+} else if (workspaceColumnError) {
+  warn(`Workspace column check failed: ${workspaceColumnError.message}`);
+} else {
+  pass("Column 'projects.workspace_id' exists");
+}
+
 // 2. Check RLS is enabled
 console.log("\n2. Row Level Security");
 const { data: rlsData, error: rlsError } = await supabase.rpc("exec_sql", {
@@ -69,7 +120,7 @@ const { data: rlsData, error: rlsError } = await supabase.rpc("exec_sql", {
     SELECT tablename, rowsecurity
     FROM pg_tables
     WHERE schemaname = 'public'
-      AND tablename IN ('screens', 'user_pins', 'screen_layouts')
+      AND tablename IN ('screens', 'user_pins', 'screen_layouts', 'projects')
   `,
 }).maybeSingle();
 
@@ -91,8 +142,8 @@ if (rlsError) {
 
 // 3. Check functions exist
 console.log("\n3. Required functions");
-for (const fn of REQUIRED_FUNCTIONS) {
-  const { data, error } = await supabase.rpc(fn, fn === "get_public_screen_by_token" ? { token: "__test__" } : { message_content: "", keyboard: {} });
+for (const [fn, args] of Object.entries(REQUIRED_FUNCTIONS)) {
+  const { data, error } = await supabase.rpc(fn, args);
   // Function exists if we don't get a "function does not exist" error
   if (error && error.message?.includes("does not exist")) {
     fail(`Function '${fn}' does not exist`);
@@ -10,6 +10,7 @@ import { lazy } from "react";
 const Index = lazy(() => import("./pages/Index"));
 const Auth = lazy(() => import("./pages/Auth"));
 const Share = lazy(() => import("./pages/Share"));
+const Invite = lazy(() => import("./pages/Invite"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 const REPO_URL = "https://github.com/tytsxai/telegram-ui-builder";
@@ -143,6 +144,7 @@ const App = () => (
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
             <Route path="/share/:token" element={<Share />} />
+            <Route path="/invite/:token" element={<Invite />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
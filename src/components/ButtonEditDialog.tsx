@@ -6,16 +6,84 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import type { KeyboardButton, Screen } from "@/types/telegram";
-import { BUTTON_TEXT_MAX, CALLBACK_DATA_MAX_BYTES, CALLBACK_DATA_ERROR_MESSAGE, getByteLength } from "@/lib/validation";
+import type { ButtonTransition, KeyboardButton, Screen, SwitchInlineQueryChosenChat } from "@/types/telegram";
+import {
+  BUTTON_TEXT_MAX,
+  CALLBACK_ANSWER_MAX,
+  CALLBACK_DATA_MAX_BYTES,
+  CALLBACK_DATA_ERROR_MESSAGE,
+  COPY_TEXT_MAX,
+  countGraphemes,
+  getByteLength,
+} from "@/lib/validation";
 import { toast } from "sonner";
 import { buildCallbackData } from "@/lib/callbackHelper";
+import { getButtonActionKind, type InlineButtonAction } from "@/lib/keyboard/buttonActions";
+import { ConditionError, parseCondition } from "@/lib/conditions";
+import { BUTTON_TRANSITIONS, BUTTON_TRANSITION_LABELS, buttonTransition, linkCallbackData } from "@/lib/keyboard/transitions";
 
-export type ButtonValidationErrors = { text?: string; callback?: string; url?: string; link?: string };
+export type ButtonValidationErrors = {
+  text?: string;
+  callback?: string;
+  url?: string;
+  link?: string;
+  answer?: string;
+  action?: string;
+  condition?: string;
+};
+
+type AdvancedButtonAction = Exclude<InlineButtonAction, "url" | "callback_data">;
+export type ButtonActionType = "callback" | "url" | "link" | AdvancedButtonAction;
+
+const ADVANCED_ACTIONS: Array<{ value: AdvancedButtonAction; label: string; hint: string }> = [
+  { value: "web_app", label: "Web App", hint: "在 Telegram 内打开 Mini App，需使用 HTTPS 链接" },
+  { value: "login_url", label: "登录链接 (Login URL)", hint: "通过 Telegram Login 自动授权后打开链接" },
+  { value: "switch_inline_query", label: "选择聊天发起内联查询", hint: "用户选择聊天后，在输入框插入 @bot 与查询内容（可为空）" },
+  { value: "switch_inline_query_current_chat", label: "当前聊天发起内联查询", hint: "在当前聊天输入框插入 @bot 与查询内容（可为空）" },
+  { value: "switch_inline_query_chosen_chat", label: "指定类型聊天发起内联查询", hint: "限制用户可选择的聊天类型" },
+  { value: "copy_text", label: "复制文本", hint: "点击后将指定文本复制到剪贴板" },
+  { value: "callback_game", label: "游戏 (Game)", hint: "启动 BotFather 中配置的游戏，仅用于 sendGame 消息，且必须位于第一行第一个" },
+  { value: "pay", label: "支付 (Pay)", hint: "仅用于发票消息 (sendInvoice)，且必须位于第一行第一个" },
+];
+
+const CHOSEN_CHAT_OPTIONS: Array<{ key: Exclude<keyof SwitchInlineQueryChosenChat, "query">; label: string }> = [
+  { key: "allow_user_chats", label: "用户私聊" },
+  { key: "allow_bot_chats", label: "机器人" },
+  { key: "allow_group_chats", label: "群组" },
+  { key: "allow_channel_chats", label: "频道" },
+];
+
+const isAdvancedAction = (actionType: ButtonActionType): actionType is AdvancedButtonAction =>
+  actionType !== "callback" && actionType !== "url" && actionType !== "link";
+
+const toActionType = (button: KeyboardButton): ButtonActionType => {
+  const kind = getButtonActionKind(button);
+  return kind === "callback_data" ? "callback" : kind;
+};
+
+const buildAdvancedAction = (button: KeyboardButton, actionType: ButtonActionType): Partial<KeyboardButton> => {
+  switch (actionType) {
+    case "pay":
+      return { pay: true };
+    case "callback_game":
+      return { callback_game: {} };
+    case "switch_inline_query":
+    case "switch_inline_query_current_chat":
+      return { [actionType]: button[actionType] ?? "" };
+    case "switch_inline_query_chosen_chat":
+      return { switch_inline_query_chosen_chat: button.switch_inline_query_chosen_chat ?? {} };
+    case "web_app":
+    case "login_url":
+    case "copy_text":
+      return { [actionType]: button[actionType] };
+    default:
+      return {};
+  }
+};
 
 export const validateButtonFields = (
   button: KeyboardButton,
-  actionType: "callback" | "url" | "link"
+  actionType: ButtonActionType
 ): ButtonValidationErrors => {
   const nextErrors: ButtonValidationErrors = {};
   const calcBytes = getByteLength;
@@ -39,7 +107,29 @@ export const validateButtonFields = (
     nextErrors.link = "请选择要链接的模版";
   }
 
-  if (actionType !== "url") {
+  if (actionType === "link" && (button.callback_answer?.text.length ?? 0) > CALLBACK_ANSWER_MAX) {
+    nextErrors.answer = `回调应答最多${CALLBACK_ANSWER_MAX}个字符`;
+  }
+
+  if (actionType === "web_app" || actionType === "login_url") {
+    const value = (actionType === "web_app" ? button.web_app?.url : button.login_url?.url)?.trim() ?? "";
+    if (!value) {
+      nextErrors.action = "请填写 HTTPS 链接";
+    } else if (!/^https:\/\//i.test(value)) {
+      nextErrors.action = "链接需以 https:// 开头";
+    }
+  }
+
+  if (actionType === "copy_text") {
+    const value = button.copy_text?.text ?? "";
+    if (!value) {
+      nextErrors.action = "复制文本不能为空";
+    } else if (countGraphemes(value) > COPY_TEXT_MAX) {
+      nextErrors.action = `复制文本最多${COPY_TEXT_MAX}个字符`;
+    }
+  }
+
+  if (actionType === "callback" || actionType === "link") {
     const value = button.callback_data ?? "";
     if (!value.trim() && actionType === "callback") {
       nextErrors.callback = "Callback data 不能为空";
@@ -48,6 +138,15 @@ export const validateButtonFields = (
     }
   }
 
+  if (button.visible_if?.trim()) {
+    try {
+      parseCondition(button.visible_if);
+    } catch (error) {
+      if (!(error instanceof ConditionError)) throw error;
+      nextErrors.condition = `显示条件无效：${error.message}`;
+    }
+  }
+
   return nextErrors;
 };
 
@@ -63,18 +162,16 @@ interface ButtonEditDialogProps {
 
 const ButtonEditDialog = ({ open, onOpenChange, button, onSave, screens = [], onOpenScreen, onCreateAndOpenScreen }: ButtonEditDialogProps) => {
   const [editedButton, setEditedButton] = useState(button);
-  const [actionType, setActionType] = useState<"callback" | "url" | "link">(
-    button.url ? "url" : button.linked_screen_id ? "link" : "callback"
-  );
+  const [actionType, setActionType] = useState<ButtonActionType>(toActionType(button));
   const [search, setSearch] = useState("");
-  const [errors, setErrors] = useState<{ text?: string; callback?: string; url?: string; link?: string }>({});
+  const [errors, setErrors] = useState<ButtonValidationErrors>({});
   const [callbackPrefix, setCallbackPrefix] = useState("btn");
   const [ttlSeconds, setTtlSeconds] = useState<string>("300");
   const [nonceEnabled, setNonceEnabled] = useState(true);
 
   useEffect(() => {
     setEditedButton(button);
-    setActionType(button.url ? "url" : button.linked_screen_id ? "link" : "callback");
+    setActionType(toActionType(button));
     setErrors({});
     setCallbackPrefix("btn");
     setTtlSeconds("300");
@@ -150,16 +247,26 @@ const ButtonEditDialog = ({ open, onOpenChange, button, onSave, screens = [], on
     const hasError = Object.values(newErrors).some(Boolean);
     if (hasError) {
       // Surface the first error prominently
-      const firstError = newErrors.text || newErrors.callback || newErrors.url || newErrors.link;
+      const firstError = newErrors.text || newErrors.callback || newErrors.url || newErrors.link || newErrors.answer || newErrors.action || newErrors.condition;
       toast.error(firstError ?? "请修正高亮字段后再保存");
       return;
     }
     
     // 确保所有按钮都有有效的 callback_data
     let callbackData = editedButton.callback_data;
-    
+    const answerText = editedButton.callback_answer?.text.trim();
+    const transitionFields: Pick<KeyboardButton, "transition" | "callback_answer"> =
+      actionType === "link"
+        ? {
+            ...(buttonTransition(editedButton) !== "edit" && { transition: editedButton.transition }),
+            ...(answerText && {
+              callback_answer: { text: answerText, ...(editedButton.callback_answer?.show_alert && { show_alert: true }) },
+            }),
+          }
+        : {};
+
     if (actionType === "link" && editedButton.linked_screen_id) {
-      callbackData = `goto_screen_${editedButton.linked_screen_id}`;
+      callbackData = linkCallbackData({ ...editedButton, ...transitionFields });
     } else if (actionType === "callback") {
       // If provided callback exceeds limit, hard-block save with error
       const bytes = getByteLength(editedButton.callback_data || "");
@@ -175,8 +282,11 @@ const ButtonEditDialog = ({ open, onOpenChange, button, onSave, screens = [], on
       id: editedButton.id,
       text: editedButton.text,
       url: actionType === "url" ? editedButton.url : undefined,
-      callback_data: actionType !== "url" ? callbackData : undefined,
+      callback_data: actionType === "callback" || actionType === "link" ? callbackData : undefined,
       linked_screen_id: actionType === "link" ? editedButton.linked_screen_id : undefined,
+      ...buildAdvancedAction(editedButton, actionType),
+      ...(editedButton.visible_if?.trim() && { visible_if: editedButton.visible_if.trim() }),
+      ...transitionFields,
     };
     
     onSave(updated);
@@ -207,11 +317,15 @@ const ButtonEditDialog = ({ open, onOpenChange, button, onSave, screens = [], on
             </div>
           </div>
           
-          <Tabs value={actionType} onValueChange={(v) => setActionType(v as "callback" | "url" | "link")}>
-            <TabsList className="grid w-full grid-cols-3">
+          <Tabs
+            value={isAdvancedAction(actionType) ? "more" : actionType}
+            onValueChange={(v) => setActionType(v === "more" ? "web_app" : (v as ButtonActionType))}
+          >
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="callback">回调数据</TabsTrigger>
               <TabsTrigger value="url">URL链接</TabsTrigger>
               <TabsTrigger value="link">链接模版</TabsTrigger>
+              <TabsTrigger value="more">更多类型</TabsTrigger>
             </TabsList>
             
             <TabsContent value="callback" className="space-y-2">
@@ -330,6 +444,55 @@ const ButtonEditDialog = ({ open, onOpenChange, button, onSave, screens = [], on
                     </SelectContent>
                   </Select>
                   {errors.link && <p className="text-xs text-destructive">{errors.link}</p>}
+                  <div className="grid gap-2 rounded-md border p-3">
+                    <Label htmlFor="link-transition">切换方式</Label>
+                    <Select
+                      value={buttonTransition(editedButton)}
+                      onValueChange={(value) =>
+                        setEditedButton({ ...editedButton, transition: value === "edit" ? undefined : (value as ButtonTransition) })
+                      }
+                    >
+                      <SelectTrigger id="link-transition">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BUTTON_TRANSITIONS.map((transition) => (
+                          <SelectItem key={transition} value={transition}>
+                            {BUTTON_TRANSITION_LABELS[transition]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Label htmlFor="link-callback-answer">回调应答（可选）</Label>
+                    <Input
+                      id="link-callback-answer"
+                      placeholder="点击后在顶部提示的文本"
+                      value={editedButton.callback_answer?.text ?? ""}
+                      maxLength={CALLBACK_ANSWER_MAX}
+                      onChange={(e) =>
+                        setEditedButton({
+                          ...editedButton,
+                          callback_answer: e.target.value ? { ...editedButton.callback_answer, text: e.target.value } : undefined,
+                        })
+                      }
+                      className={errors.answer ? "border-destructive" : undefined}
+                    />
+                    {errors.answer && <p className="text-xs text-destructive">{errors.answer}</p>}
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="link-callback-alert"
+                        checked={!!editedButton.callback_answer?.show_alert}
+                        disabled={!editedButton.callback_answer?.text}
+                        onCheckedChange={(val) =>
+                          setEditedButton({
+                            ...editedButton,
+                            callback_answer: { text: "", ...editedButton.callback_answer, show_alert: val || undefined },
+                          })
+                        }
+                      />
+                      <Label htmlFor="link-callback-alert">以弹窗显示（需用户点击确定）</Label>
+                    </div>
+                  </div>
                   <div className="flex gap-2">
                     <Button
                       variant="outline"
@@ -359,7 +522,173 @@ const ButtonEditDialog = ({ open, onOpenChange, button, onSave, screens = [], on
                 </>
               )}
             </TabsContent>
+
+            <TabsContent value="more" className="space-y-2">
+              <Label htmlFor="advanced-action">按钮类型</Label>
+              <select
+                id="advanced-action"
+                value={isAdvancedAction(actionType) ? actionType : "web_app"}
+                onChange={(e) => {
+                  setActionType(e.target.value as AdvancedButtonAction);
+                  setErrors((prev) => ({ ...prev, action: undefined }));
+                }}
+                className="w-full h-9 rounded-md border bg-background text-foreground text-sm px-2"
+              >
+                {ADVANCED_ACTIONS.map((item) => (
+                  <option key={item.value} value={item.value}>
+                    {item.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                {ADVANCED_ACTIONS.find((item) => item.value === actionType)?.hint}
+              </p>
+
+              {(actionType === "web_app" || actionType === "login_url") && (
+                <div className="space-y-2">
+                  <Label htmlFor="action-url">{actionType === "web_app" ? "Web App URL" : "登录 URL"}</Label>
+                  <Input
+                    id="action-url"
+                    placeholder="https://example.com/app"
+                    value={(actionType === "web_app" ? editedButton.web_app?.url : editedButton.login_url?.url) ?? ""}
+                    onChange={(e) =>
+                      setEditedButton(
+                        actionType === "web_app"
+                          ? { ...editedButton, web_app: { url: e.target.value } }
+                          : { ...editedButton, login_url: { ...editedButton.login_url, url: e.target.value } }
+                      )
+                    }
+                    className={errors.action ? "border-destructive" : undefined}
+                  />
+                </div>
+              )}
+
+              {actionType === "login_url" && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="login-bot-username">Bot 用户名（可选）</Label>
+                    <Input
+                      id="login-bot-username"
+                      placeholder="my_bot"
+                      value={editedButton.login_url?.bot_username ?? ""}
+                      onChange={(e) =>
+                        setEditedButton({
+                          ...editedButton,
+                          login_url: { url: "", ...editedButton.login_url, bot_username: e.target.value || undefined },
+                        })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="login-forward-text">转发文本（可选）</Label>
+                    <Input
+                      id="login-forward-text"
+                      value={editedButton.login_url?.forward_text ?? ""}
+                      onChange={(e) =>
+                        setEditedButton({
+                          ...editedButton,
+                          login_url: { url: "", ...editedButton.login_url, forward_text: e.target.value || undefined },
+                        })
+                      }
+                    />
+                  </div>
+                  <div className="col-span-2 flex items-center gap-2">
+                    <Switch
+                      id="login-write-access"
+                      checked={!!editedButton.login_url?.request_write_access}
+                      onCheckedChange={(val) =>
+                        setEditedButton({
+                          ...editedButton,
+                          login_url: { url: "", ...editedButton.login_url, request_write_access: val || undefined },
+                        })
+                      }
+                    />
+                    <Label htmlFor="login-write-access">请求向用户发送消息的权限</Label>
+                  </div>
+                </div>
+              )}
+
+              {(actionType === "switch_inline_query" || actionType === "switch_inline_query_current_chat") && (
+                <div className="space-y-1">
+                  <Label htmlFor="inline-query">内联查询内容</Label>
+                  <Input
+                    id="inline-query"
+                    placeholder="留空则仅插入 @bot"
+                    value={editedButton[actionType] ?? ""}
+                    onChange={(e) => setEditedButton({ ...editedButton, [actionType]: e.target.value })}
+                  />
+                </div>
+              )}
+
+              {actionType === "switch_inline_query_chosen_chat" && (
+                <div className="space-y-2">
+                  <Label htmlFor="chosen-chat-query">内联查询内容</Label>
+                  <Input
+                    id="chosen-chat-query"
+                    placeholder="留空则仅插入 @bot"
+                    value={editedButton.switch_inline_query_chosen_chat?.query ?? ""}
+                    onChange={(e) =>
+                      setEditedButton({
+                        ...editedButton,
+                        switch_inline_query_chosen_chat: { ...editedButton.switch_inline_query_chosen_chat, query: e.target.value },
+                      })
+                    }
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    {CHOSEN_CHAT_OPTIONS.map((option) => (
+                      <div key={option.key} className="flex items-center gap-2">
+                        <Switch
+                          id={`chosen-chat-${option.key}`}
+                          checked={!!editedButton.switch_inline_query_chosen_chat?.[option.key]}
+                          onCheckedChange={(val) =>
+                            setEditedButton({
+                              ...editedButton,
+                              switch_inline_query_chosen_chat: {
+                                ...editedButton.switch_inline_query_chosen_chat,
+                                [option.key]: val || undefined,
+                              },
+                            })
+                          }
+                        />
+                        <Label htmlFor={`chosen-chat-${option.key}`}>{option.label}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {actionType === "copy_text" && (
+                <div className="space-y-1">
+                  <Label htmlFor="copy-text">复制内容</Label>
+                  <Input
+                    id="copy-text"
+                    value={editedButton.copy_text?.text ?? ""}
+                    onChange={(e) => setEditedButton({ ...editedButton, copy_text: { text: e.target.value } })}
+                    className={errors.action ? "border-destructive" : undefined}
+                  />
+                </div>
+              )}
+
+              {errors.action && <p className="text-xs text-destructive">{errors.action}</p>}
+            </TabsContent>
           </Tabs>
+
+          <div className="grid gap-2">
+            <Label htmlFor="visible-if">显示条件（可选）</Label>
+            <Input
+              id="visible-if"
+              placeholder='例如 is_admin && plan == "pro"'
+              value={editedButton.visible_if ?? ""}
+              onChange={(e) => {
+                setEditedButton({ ...editedButton, visible_if: e.target.value });
+                setErrors((prev) => ({ ...prev, condition: undefined }));
+              }}
+              className={errors.condition ? "border-destructive" : undefined}
+            />
+            <span className={`text-xs ${errors.condition ? "text-destructive" : "text-muted-foreground"}`}>
+              {errors.condition ?? "基于流程变量，支持 == != > < && || ! 与括号；留空则始终显示"}
+            </span>
+          </div>
         </div>
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
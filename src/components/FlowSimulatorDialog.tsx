@@ -0,0 +1,296 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent, type FormEvent } from "react";
+import { Download, Paperclip, RotateCcw, Send, Upload } from "lucide-react";
+import { toast } from "sonner";
+import type { FlowVariable, Screen } from "@/types/telegram";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  applySimulatorAction,
+  buildSimulatorScript,
+  createSimulatorSession,
+  parseSimulatorScript,
+  replaySimulatorScript,
+  type AttachmentKind,
+  type ReplayFailure,
+  type SimulatorAction,
+  type SimulatorFlow,
+  type SimulatorSession,
+  type TranscriptEntry,
+} from "@/lib/flowSimulator";
+import { INPUT_STEP_LABELS, isTextInput, screenInputStep } from "@/lib/inputStep";
+import { sampleValues } from "@/lib/variables";
+
+type FlowSimulatorDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  screens: Screen[];
+  entryScreenId: string | null;
+  variables: FlowVariable[];
+};
+
+const NOTICE_STYLES: Record<Exclude<TranscriptEntry["type"], "message">, { label: string; className: string }> = {
+  callback_answer: { label: "回调应答", className: "bg-amber-500/10 text-amber-700 border-amber-500/40" },
+  alert: { label: "弹窗", className: "bg-orange-500/15 text-orange-800 border-orange-500/50 font-medium" },
+  client_action: { label: "客户端", className: "bg-sky-500/10 text-sky-700 border-sky-500/40" },
+  system: { label: "模拟器", className: "bg-muted text-muted-foreground border-border" },
+};
+
+const begin = (flow: SimulatorFlow) => {
+  try {
+    return applySimulatorAction(flow, createSimulatorSession(), { action: "start" });
+  } catch (error) {
+    toast.error(error instanceof Error ? error.message : "模拟器启动失败");
+    return createSimulatorSession();
+  }
+};
+
+/**
+ * Plays the saved flow from its entry screen as a chat transcript: edited messages stay in place and are
+ * marked as edited, deleted ones leave a placeholder, callback answers and client-side actions show between the messages, and the session can be
+ * exported as a test script or replaced by the replay of one. Variables take their sample values.
+ */
+const FlowSimulatorDialog = ({ open, onOpenChange, screens, entryScreenId, variables }: FlowSimulatorDialogProps) => {
+  const flow = useMemo<SimulatorFlow>(
+    () => ({ screens, entryScreenId, variables, values: sampleValues(variables) }),
+    [entryScreenId, screens, variables],
+  );
+  const [session, setSession] = useState<SimulatorSession>(createSimulatorSession);
+  const [text, setText] = useState("");
+  const [replay, setReplay] = useState<{ steps: number; failures: ReplayFailure[] } | null>(null);
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setSession(begin(flow));
+    setReplay(null);
+  }, [flow, open]);
+
+  useEffect(() => {
+    const container = transcriptRef.current;
+    if (container) container.scrollTop = container.scrollHeight;
+  }, [session.transcript]);
+
+  const screenName = (id: string) => screens.find((screen) => screen.id === id)?.name || id;
+  const waitingStep = useMemo(() => {
+    const screen = screens.find((item) => item.id === session.waitingFor);
+    return screen ? screenInputStep(screen) : null;
+  }, [screens, session.waitingFor]);
+
+  const act = (action: SimulatorAction) => {
+    try {
+      setSession(applySimulatorAction(flow, session, action));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "操作失败");
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+    act({ action: "send", text });
+    setText("");
+  };
+
+  const handleRestart = () => {
+    setSession(begin(flow));
+    setReplay(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(buildSimulatorScript(flow, session), null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "flow-test-script.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleReplayFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const script = parseSimulatorScript(await file.text());
+      const result = replaySimulatorScript(flow, script);
+      setSession(result.session);
+      setReplay({ steps: script.steps.length, failures: result.failures });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "回放失败");
+    }
+  };
+
+  const attachment = waitingStep && !isTextInput(waitingStep.expect) ? (waitingStep.expect as AttachmentKind) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>流程模拟器</DialogTitle>
+          <DialogDescription>从入口模版开始，按 Telegram 的方式演示整个流程</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid min-h-0 flex-1 gap-4 md:grid-cols-[1fr_240px]">
+          <div className="flex min-h-0 flex-col rounded-lg border bg-telegram-bg">
+            <div ref={transcriptRef} data-testid="flow-simulator-transcript" className="min-h-[320px] flex-1 space-y-2 overflow-y-auto p-3">
+              {session.transcript.map((entry, index) => {
+                if (entry.type !== "message") {
+                  const style = NOTICE_STYLES[entry.type];
+                  return (
+                    <div key={index} className="flex justify-center">
+                      <span className={`rounded-full border px-3 py-0.5 text-[11px] ${style.className}`}>
+                        {style.label}：{entry.text}
+                      </span>
+                    </div>
+                  );
+                }
+                const fromUser = entry.from === "user";
+                if (entry.deleted) {
+                  return (
+                    <div key={index} data-message-id={entry.id} className="flex justify-start">
+                      <span data-testid="deleted-message" className="rounded-lg border border-dashed px-3 py-1 text-[11px] text-muted-foreground">
+                        （已删除）#{entry.id}
+                      </span>
+                    </div>
+                  );
+                }
+                return (
+                  <div key={index} data-message-id={entry.id} className={`flex ${fromUser ? "justify-end" : "justify-start"}`}>
+                    <div className="max-w-[80%] space-y-1">
+                      <div
+                        className={`rounded-lg px-3 py-2 text-sm shadow-sm ${
+                          fromUser ? "bg-primary text-primary-foreground" : "bg-card text-card-foreground"
+                        }`}
+                      >
+                        {entry.media && (
+                          <div className="mb-1 rounded bg-muted px-2 py-4 text-center text-[11px] text-muted-foreground">
+                            {entry.media === "media_group" ? `相册 · ${entry.mediaCount} 个媒体` : entry.media}
+                          </div>
+                        )}
+                        {entry.text && <p className="whitespace-pre-wrap break-words">{entry.text}</p>}
+                        <div className="mt-1 text-right text-[10px] opacity-60">
+                          {entry.edits > 0 && <span data-testid="edited-mark">已编辑 · </span>}#{entry.id}
+                        </div>
+                      </div>
+                      {entry.keyboard.map((row) => (
+                        <div key={row.id} className="flex gap-1">
+                          {row.buttons.map((button) => (
+                            <Button
+                              key={button.id}
+                              variant="secondary"
+                              size="sm"
+                              className="h-7 flex-1 text-xs"
+                              onClick={() => act({ action: "press", message_id: entry.id, button: button.text })}
+                            >
+                              {button.text}
+                            </Button>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-2 border-t bg-background/80 p-2">
+              {waitingStep && (
+                <p className="text-[11px] text-muted-foreground">等待用户回复：{INPUT_STEP_LABELS[waitingStep.expect]}</p>
+              )}
+              {session.replyKeyboard?.keyboard.map((row) => (
+                <div key={row.id} className="flex gap-1">
+                  {row.buttons.map((button) => (
+                    <Button
+                      key={button.id}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 flex-1 text-xs"
+                      onClick={() => act({ action: "tap", button: button.text })}
+                    >
+                      {button.text}
+                    </Button>
+                  ))}
+                </div>
+              ))}
+              <form className="flex gap-2" onSubmit={handleSubmit}>
+                <Input
+                  aria-label="发送消息"
+                  placeholder={session.replyKeyboard?.placeholder || "输入消息…"}
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  className="h-8 text-xs"
+                />
+                <Button type="submit" size="icon" className="h-8 w-8 shrink-0" title="发送">
+                  <Send className="w-3 h-3" />
+                </Button>
+                {attachment && (
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="outline"
+                    className="h-8 w-8 shrink-0"
+                    title={`发送${INPUT_STEP_LABELS[attachment]}`}
+                    onClick={() => act({ action: "attach", kind: attachment })}
+                  >
+                    <Paperclip className="w-3 h-3" />
+                  </Button>
+                )}
+              </form>
+            </div>
+          </div>
+
+          <div className="space-y-4 overflow-y-auto text-xs">
+            <div className="space-y-1">
+              <h4 className="font-semibold text-foreground">导航路径</h4>
+              <ol data-testid="flow-simulator-path" className="space-y-1">
+                {session.path.map((id, index) => (
+                  <li key={index} className="truncate text-muted-foreground">
+                    {index + 1}. {screenName(id)}
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            <div className="grid gap-2">
+              <Button variant="outline" size="sm" onClick={handleRestart}>
+                <RotateCcw className="w-3 h-3 mr-2" />
+                重新开始
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={session.steps.length === 0}>
+                <Download className="w-3 h-3 mr-2" />
+                导出测试脚本
+              </Button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-3 h-3 mr-2" />
+                回放测试脚本
+              </Button>
+            </div>
+
+            {replay && (
+              <div
+                data-testid="flow-simulator-replay"
+                className={`space-y-1 rounded-md border p-2 ${
+                  replay.failures.length ? "border-destructive/50 bg-destructive/10" : "border-emerald-500/50 bg-emerald-500/10"
+                }`}
+              >
+                <p className="font-medium">
+                  {replay.failures.length ? `回放失败：${replay.failures.length} 处不一致` : `回放通过：${replay.steps} 步`}
+                </p>
+                {replay.failures.map((failure) => (
+                  <p key={failure.step} className="text-destructive">
+                    第{failure.step}步：{failure.message}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FlowSimulatorDialog;
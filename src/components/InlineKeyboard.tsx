@@ -15,15 +15,46 @@ import {
   horizontalListSortingStrategy,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import { X, Settings } from "lucide-react";
-import type { KeyboardRow, KeyboardButton, Screen } from "@/types/telegram";
+import {
+  X,
+  Settings,
+  AppWindow,
+  ArrowRight,
+  AtSign,
+  Copy,
+  CreditCard,
+  ExternalLink,
+  Gamepad2,
+  LogIn,
+  Share2,
+  Users,
+  type LucideIcon,
+} from "lucide-react";
+import type { KeyboardRow, KeyboardButton, KeyboardKind, ReplyKeyboardOptions, Screen } from "@/types/telegram";
 import ButtonEditDialog from "./ButtonEditDialog";
 import clsx from "clsx";
 import { CALLBACK_DATA_MAX_BYTES, MAX_BUTTONS_PER_ROW, MAX_KEYBOARD_ROWS, getByteLength, getKeyboardValidationErrors } from "@/lib/validation";
 import { toast } from "sonner";
+import { getButtonActionKind, type ButtonActionKind } from "@/lib/keyboard/buttonActions";
+
+/** Corner icon per action kind; plain callback buttons carry none. */
+const ACTION_ICONS: Partial<Record<ButtonActionKind, { icon: LucideIcon; label: string }>> = {
+  url: { icon: ExternalLink, label: "URL链接" },
+  link: { icon: ArrowRight, label: "跳转模版" },
+  web_app: { icon: AppWindow, label: "Web App" },
+  login_url: { icon: LogIn, label: "登录链接" },
+  switch_inline_query: { icon: Share2, label: "选择聊天发起内联查询" },
+  switch_inline_query_current_chat: { icon: AtSign, label: "当前聊天发起内联查询" },
+  switch_inline_query_chosen_chat: { icon: Users, label: "指定类型聊天发起内联查询" },
+  copy_text: { icon: Copy, label: "复制文本" },
+  callback_game: { icon: Gamepad2, label: "游戏" },
+  pay: { icon: CreditCard, label: "支付" },
+};
 
 interface InlineKeyboardProps {
   keyboard: KeyboardRow[];
+  kind?: KeyboardKind;
+  replyOptions?: ReplyKeyboardOptions;
   onButtonTextChange?: (rowId: string, buttonId: string, newText: string) => void;
   onButtonUpdate?: (rowId: string, buttonId: string, button: KeyboardButton) => void;
   onDeleteButton?: (rowId: string, buttonId: string) => void;
@@ -36,6 +67,8 @@ interface InlineKeyboardProps {
 
 const InlineKeyboard = React.memo(({
   keyboard,
+  kind = "inline",
+  replyOptions,
   onButtonTextChange,
   onButtonUpdate,
   onDeleteButton,
@@ -102,8 +135,8 @@ const InlineKeyboard = React.memo(({
 
   const validationErrors = useMemo(() => {
     if (readOnly) return [];
-    return getKeyboardValidationErrors(keyboard);
-  }, [keyboard, readOnly]);
+    return getKeyboardValidationErrors(keyboard, kind);
+  }, [keyboard, kind, readOnly]);
 
   const rowOverflow = keyboard.length > MAX_KEYBOARD_ROWS;
   const buttonOverflow = keyboard.some((row) => row.buttons.length > MAX_BUTTONS_PER_ROW);
@@ -193,6 +226,7 @@ const InlineKeyboard = React.memo(({
   const lastDialogTrigger = React.useRef<HTMLButtonElement | null>(null);
 
   const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+  const isReplyKeyboard = kind === "reply";
 
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
@@ -275,6 +309,8 @@ const InlineKeyboard = React.memo(({
       id: `btn:${row.id}_${button.id}`,
     });
     const callbackTooLong = !readOnly && !isPreviewMode && !!button.callback_data && getByteLength(button.callback_data) > CALLBACK_DATA_MAX_BYTES;
+    const actionKind = getButtonActionKind(button);
+    const actionIcon = ACTION_ICONS[actionKind];
     const style = {
       transform: CSS.Transform.toString(transform),
       transition,
@@ -364,10 +400,13 @@ const InlineKeyboard = React.memo(({
           id={`kbd-${row.id}-${button.id}`}
           tabIndex={0}
           role="button"
-          aria-label={`Inline keyboard button ${index + 1}: ${button.text || "(empty)"}`}
+          aria-label={`${isReplyKeyboard ? "Reply" : "Inline"} keyboard button ${index + 1}: ${button.text || "(empty)"}`}
           aria-pressed={false}
           className={clsx(
-            "w-full bg-telegram-button hover:bg-telegram-button/80 text-telegram-buttonText border-none rounded-md py-2 px-3 text-[15px] font-medium transition-colors relative overflow-hidden",
+            "w-full border-none rounded-md py-2 px-3 text-[15px] font-medium transition-colors relative overflow-hidden",
+            isReplyKeyboard
+              ? "bg-muted hover:bg-muted/80 text-foreground shadow-sm"
+              : "bg-telegram-button hover:bg-telegram-button/80 text-telegram-buttonText",
             callbackTooLong && "ring-1 ring-destructive/60"
           )}
           title={readOnly ? "仅供预览" : isPreviewMode ? "点击执行操作" : "双击编辑文本"}
@@ -395,6 +434,15 @@ const InlineKeyboard = React.memo(({
           ) : (
             <span className="truncate block">{button.text}</span>
           )}
+          {actionIcon && (
+            <actionIcon.icon
+              className="absolute top-1 right-1 w-3 h-3 opacity-70"
+              aria-hidden="true"
+              data-testid={`button-action-icon-${actionKind}`}
+            >
+              <title>{actionIcon.label}</title>
+            </actionIcon.icon>
+          )}
           {callbackTooLong && (
             <span
               className="absolute bottom-1 right-1 text-[10px] text-destructive bg-white/90 rounded px-1 shadow-sm"
@@ -404,6 +452,15 @@ const InlineKeyboard = React.memo(({
               超过 64B
             </span>
           )}
+          {button.visible_if && !isPreviewMode && (
+            <span
+              className="absolute bottom-1 left-1 text-[10px] font-mono bg-white/90 text-slate-700 rounded px-1 shadow-sm"
+              title={`显示条件：${button.visible_if}`}
+              data-testid="button-condition-badge"
+            >
+              if
+            </span>
+          )}
         </button>
         {!readOnly && (
           <>
@@ -419,7 +476,7 @@ const InlineKeyboard = React.memo(({
                 title="已配置URL链接"
               />
             )}
-            {!button.url && !button.linked_screen_id && (
+            {actionKind === "callback_data" && (
               <div
                 className="absolute -top-1 -left-1 w-3 h-3 bg-yellow-500 rounded-full opacity-0 pointer-events-none transition-opacity group-hover:opacity-90"
                 title="未配置跳转目标"
@@ -459,6 +516,25 @@ const InlineKeyboard = React.memo(({
     );
   };
 
+  if (kind === "remove" || kind === "force_reply") {
+    return (
+      <div
+        className="mt-4 rounded-md border border-dashed border-border bg-muted/40 text-muted-foreground text-xs px-3 py-2 space-y-1"
+        data-testid="reply-markup-notice"
+      >
+        <div className="font-medium text-foreground">
+          {kind === "remove" ? "ReplyKeyboardRemove" : "ForceReply"}
+          {replyOptions?.selective ? " · selective" : ""}
+        </div>
+        <div>
+          {kind === "remove"
+            ? "发送后将隐藏用户当前的回复键盘"
+            : `用户将被引导直接回复此消息${replyOptions?.input_field_placeholder ? `：${replyOptions.input_field_placeholder}` : ""}`}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <>
       {selectedButton && (
@@ -473,10 +549,11 @@ const InlineKeyboard = React.memo(({
       <div
         className={clsx(
           "space-y-4 mt-4",
+          isReplyKeyboard && "rounded-lg bg-telegram-header/20 p-2",
           displayRows.length > 6 && "max-h-[480px] overflow-y-auto pr-1",
           !readOnly && (rowOverflow || buttonOverflow) && "rounded-md ring-1 ring-amber-400/50 p-2"
         )}
-        data-testid="inline-keyboard"
+        data-testid={isReplyKeyboard ? "reply-keyboard" : "inline-keyboard"}
       >
         {!readOnly && overflowMessages.length > 0 && (
           <div
@@ -507,6 +584,17 @@ const InlineKeyboard = React.memo(({
             ))}
           </SortableContext>
         </DndContext>
+        {isReplyKeyboard && (replyOptions?.input_field_placeholder || replyOptions?.is_persistent || replyOptions?.one_time_keyboard) && (
+          <div className="flex flex-wrap items-center gap-2 text-[11px] text-muted-foreground px-1">
+            {replyOptions?.input_field_placeholder && (
+              <span className="flex-1 truncate rounded-full border border-border bg-background px-3 py-1">
+                {replyOptions.input_field_placeholder}
+              </span>
+            )}
+            {replyOptions?.is_persistent && <span>常驻</span>}
+            {replyOptions?.one_time_keyboard && <span>单次</span>}
+          </div>
+        )}
       </div>
     </>
   );
@@ -515,6 +603,8 @@ const InlineKeyboard = React.memo(({
   if (prevProps.isPreviewMode !== nextProps.isPreviewMode) return false;
   if (prevProps.readOnly !== nextProps.readOnly) return false;
   if (prevProps.keyboard !== nextProps.keyboard) return false; // Shallow check for array ref
+  if (prevProps.kind !== nextProps.kind) return false;
+  if (prevProps.replyOptions !== nextProps.replyOptions) return false;
 
   // Deep check for keyboard content if refs are different but content might be same?
   // For now, rely on parent passing new reference on change.
@@ -0,0 +1,93 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Contact, Image, MapPin, Send } from "lucide-react";
+import type { InputStep } from "@/types/telegram";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { INPUT_STEP_LABELS, acceptsReply, isTextInput, type SimulatedReply } from "@/lib/inputStep";
+
+type InputReplyBoxProps = {
+  step: InputStep;
+  /** Called with an accepted reply; rejected ones get the step's retry message instead. */
+  onAccepted: (reply: SimulatedReply) => void;
+};
+
+type Exchange = { from: "user" | "bot"; text: string };
+
+const ATTACHMENTS = {
+  photo: { icon: Image, label: "发送图片" },
+  location: { icon: MapPin, label: "发送位置" },
+  contact: { icon: Contact, label: "分享联系人" },
+} as const;
+
+/** Simulated chat input for a screen that waits for the user's reply, shown in preview mode. */
+const InputReplyBox = ({ step, onAccepted }: InputReplyBoxProps) => {
+  const [text, setText] = useState("");
+  const [exchanges, setExchanges] = useState<Exchange[]>([]);
+
+  useEffect(() => {
+    setText("");
+    setExchanges([]);
+  }, [step]);
+
+  const reply = (value: SimulatedReply, shown: string) => {
+    if (acceptsReply(step, value)) {
+      setExchanges([]);
+      setText("");
+      onAccepted(value);
+      return;
+    }
+    setExchanges((prev) => [...prev, { from: "user", text: shown }, { from: "bot", text: step.retry_message }]);
+    setText("");
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+    reply({ kind: "text", text }, text);
+  };
+
+  const attachment = isTextInput(step.expect) ? null : ATTACHMENTS[step.expect as keyof typeof ATTACHMENTS];
+
+  return (
+    <div data-testid="input-reply-box" className="space-y-2 rounded-md border border-dashed border-primary/40 p-2">
+      <p className="text-[11px] text-muted-foreground">等待用户回复：{INPUT_STEP_LABELS[step.expect]}</p>
+      {exchanges.map((exchange, index) => (
+        <div key={index} className={`flex ${exchange.from === "user" ? "justify-end" : "justify-start"}`}>
+          <span
+            className={`max-w-[80%] rounded-lg px-2 py-1 text-xs whitespace-pre-wrap ${
+              exchange.from === "user" ? "bg-primary text-primary-foreground" : "bg-card text-card-foreground shadow-sm"
+            }`}
+          >
+            {exchange.text}
+          </span>
+        </div>
+      ))}
+      <form className="flex gap-2" onSubmit={handleSubmit}>
+        <Input
+          aria-label="模拟回复"
+          placeholder="输入回复…"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="h-8 text-xs"
+        />
+        <Button type="submit" size="icon" className="h-8 w-8 shrink-0" title="发送">
+          <Send className="w-3 h-3" />
+        </Button>
+        {attachment && (
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            className="h-8 w-8 shrink-0"
+            title={attachment.label}
+            onClick={() => reply({ kind: step.expect as keyof typeof ATTACHMENTS }, `[${attachment.label}]`)}
+          >
+            <attachment.icon className="w-3 h-3" />
+          </Button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default InputReplyBox;
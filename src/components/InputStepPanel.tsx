@@ -0,0 +1,105 @@
+import type { InputStep, InputStepKind, Screen } from "@/types/telegram";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { INPUT_STEP_LABELS, isTextInput } from "@/lib/inputStep";
+import { INPUT_PATTERN_MAX, INPUT_STEP_KINDS, getInputStepValidationErrors } from "@/lib/validation";
+
+type InputStepPanelProps = {
+  inputStep?: InputStep;
+  onChange: (step: InputStep | undefined) => void;
+  screens: Screen[];
+  currentScreenId?: string;
+};
+
+const DEFAULT_STEP: InputStep = { expect: "text", retry_message: "格式不正确，请重新输入" };
+
+/**
+ * Makes the screen wait for the user's reply: the expected kind, an optional pattern, the message sent for a
+ * rejected reply, and the screen opened once a reply is accepted.
+ */
+const InputStepPanel = ({ inputStep, onChange, screens, currentScreenId }: InputStepPanelProps) => {
+  const update = (patch: Partial<InputStep>) => {
+    const next = { ...inputStep!, ...patch };
+    if (!next.pattern) delete next.pattern;
+    if (!next.next_screen_id) delete next.next_screen_id;
+    onChange(next);
+  };
+  const errors = inputStep ? getInputStepValidationErrors(inputStep) : [];
+
+  return (
+    <div data-testid="input-step-panel" className="space-y-2 text-xs">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="input-step-enabled" className="text-xs">等待用户回复</Label>
+        <Switch
+          id="input-step-enabled"
+          checked={!!inputStep}
+          onCheckedChange={(checked) => onChange(checked ? DEFAULT_STEP : undefined)}
+        />
+      </div>
+      {inputStep && (
+        <>
+          <div className="space-y-1">
+            <Label htmlFor="input-step-expect" className="text-xs">回复类型</Label>
+            <select
+              id="input-step-expect"
+              value={inputStep.expect}
+              onChange={(e) => {
+                const expect = e.target.value as InputStepKind;
+                update({ expect, ...(!isTextInput(expect) && { pattern: undefined }) });
+              }}
+              className="w-full h-8 rounded border bg-background text-foreground text-xs px-2"
+            >
+              {INPUT_STEP_KINDS.map((kind) => (
+                <option key={kind} value={kind}>{INPUT_STEP_LABELS[kind]}</option>
+              ))}
+            </select>
+          </div>
+          {isTextInput(inputStep.expect) && (
+            <div className="space-y-1">
+              <Label htmlFor="input-step-pattern" className="text-xs">校验正则（可选，需完整匹配）</Label>
+              <Input
+                id="input-step-pattern"
+                placeholder="例如：[A-Z]{2}\d{4}"
+                value={inputStep.pattern ?? ""}
+                maxLength={INPUT_PATTERN_MAX}
+                onChange={(e) => update({ pattern: e.target.value })}
+                className="h-8 text-xs font-mono"
+              />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="input-step-retry" className="text-xs">重试提示</Label>
+            <Input
+              id="input-step-retry"
+              value={inputStep.retry_message}
+              onChange={(e) => update({ retry_message: e.target.value })}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="input-step-next" className="text-xs">回复通过后进入</Label>
+            <select
+              id="input-step-next"
+              value={inputStep.next_screen_id ?? ""}
+              onChange={(e) => update({ next_screen_id: e.target.value })}
+              className="w-full h-8 rounded border bg-background text-foreground text-xs px-2"
+            >
+              <option value="">（结束，不跳转）</option>
+              {screens.map((screen) => (
+                <option key={screen.id} value={screen.id}>
+                  {screen.name || "未命名"}{screen.id === currentScreenId ? "（当前）" : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+          {errors.map((error) => (
+            <p key={error} className="text-[11px] text-destructive">{error}</p>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InputStepPanel;
@@ -0,0 +1,51 @@
+import { Image as ImageIcon } from "lucide-react";
+import type { LinkPreviewOptions } from "@/types/telegram";
+
+type LinkPreviewCardProps = {
+  url: string;
+  options?: LinkPreviewOptions;
+  className?: string;
+};
+
+const describeUrl = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    const site = parsed.hostname.replace(/^www\./, "");
+    const path = decodeURIComponent(parsed.pathname).split("/").filter(Boolean).join(" / ");
+    return { site, title: path || site };
+  } catch {
+    return { site: url, title: url };
+  }
+};
+
+/**
+ * Mock of Telegram's link preview card. Nothing is fetched: the site and title come from the URL,
+ * and the media slot only shows where the small or large preview image would go.
+ */
+const LinkPreviewCard = ({ url, options = {}, className = "bg-black/20" }: LinkPreviewCardProps) => {
+  const { site, title } = describeUrl(url);
+  const mediaSize = options.prefer_small_media ? "small" : options.prefer_large_media ? "large" : null;
+  return (
+    <div data-testid="link-preview-card" className={`flex gap-3 overflow-hidden rounded-lg border-l-4 border-primary p-2 text-xs ${className}`}>
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="truncate font-semibold text-primary">{site}</div>
+        <div className="line-clamp-2 font-medium">{title}</div>
+        <div className="truncate text-muted-foreground">{url}</div>
+        {mediaSize === "large" && (
+          <div className="flex aspect-video w-full items-center justify-center rounded bg-muted/40 text-muted-foreground">
+            <ImageIcon className="h-6 w-6" />
+          </div>
+        )}
+      </div>
+      {mediaSize !== "large" && (
+        <div
+          className={`flex shrink-0 items-center justify-center rounded bg-muted/40 text-muted-foreground ${mediaSize === "small" ? "h-10 w-10" : "h-14 w-14"}`}
+        >
+          <ImageIcon className="h-4 w-4" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LinkPreviewCard;
@@ -0,0 +1,91 @@
+import React from "react";
+import { FileText, Mic, Music } from "lucide-react";
+import type { MediaGroupItem, MessageType } from "@/types/templates";
+
+type MediaPreviewProps = {
+  type: MessageType;
+  url?: string | null;
+  items?: MediaGroupItem[];
+  className?: string;
+};
+
+const fileNameOf = (url: string) => {
+  try {
+    const name = new URL(url).pathname.split("/").filter(Boolean).pop();
+    return name ? decodeURIComponent(name) : url;
+  } catch {
+    return url;
+  }
+};
+
+const FileRow = ({ icon: Icon, label, children }: { icon: typeof FileText; label: string; children?: React.ReactNode }) => (
+  <div className="flex items-center gap-3 p-3 text-sm">
+    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-primary text-primary-foreground">
+      <Icon className="h-5 w-5" />
+    </div>
+    <div className="min-w-0 flex-1 space-y-1">
+      <div className="truncate font-medium">{label}</div>
+      {children}
+    </div>
+  </div>
+);
+
+const SingleMedia = ({ type, url }: { type: MessageType; url: string }) => {
+  switch (type) {
+    case "photo":
+      return <img src={url} alt="media preview" className="w-full object-cover" />;
+    case "video":
+      return <video src={url} controls className="w-full object-cover" />;
+    case "animation":
+      return <video src={url} autoPlay loop muted playsInline className="w-full object-cover" />;
+    case "document":
+      return <FileRow icon={FileText} label={fileNameOf(url)} />;
+    case "audio":
+      return (
+        <FileRow icon={Music} label={fileNameOf(url)}>
+          <audio src={url} controls className="h-8 w-full" />
+        </FileRow>
+      );
+    case "voice":
+      return (
+        <FileRow icon={Mic} label="语音消息">
+          <audio src={url} controls className="h-8 w-full" />
+        </FileRow>
+      );
+    default:
+      return null;
+  }
+};
+
+/**
+ * Client-side preview of a message's media: a single attachment, a round video note or a media group (album).
+ * Nothing is uploaded; URLs are rendered as-is.
+ */
+const MediaPreview = ({ type, url, items = [], className = "border-border bg-black/40" }: MediaPreviewProps) => {
+  if (type === "media_group") {
+    const filled = items.filter((item) => item.media.trim());
+    if (!filled.length) return null;
+    const visual = filled.every((item) => item.type === "photo" || item.type === "video");
+    return (
+      <div className={`w-full overflow-hidden rounded-xl border ${className} ${visual ? "grid grid-cols-2 gap-0.5" : "divide-y"}`}>
+        {filled.map((item, index) => (
+          <figure key={index} className={visual && filled.length % 2 === 1 && index === 0 ? "col-span-2" : undefined}>
+            <SingleMedia type={item.type} url={item.media} />
+            {item.caption && <figcaption className="px-3 py-1 text-xs text-muted-foreground">{item.caption}</figcaption>}
+          </figure>
+        ))}
+      </div>
+    );
+  }
+  if (type === "text" || !url) return null;
+  if (type === "video_note") {
+    return <video src={url} autoPlay loop muted playsInline className="h-48 w-48 rounded-full object-cover" />;
+  }
+  return (
+    <div className={`w-full overflow-hidden rounded-xl border ${className}`}>
+      <SingleMedia type={type} url={url} />
+    </div>
+  );
+};
+
+export default MediaPreview;
@@ -33,4 +33,14 @@ describe('MessageBubble Security', () => {
     const container = screen.getByLabelText('Message body');
     expect(container.textContent).toContain('text');
   });
-});
\ No newline at end of file
+
+  it('renders the full entity set in the preview', () => {
+    render(<MessageBubble content={"__u__ ~~s~~ ||hidden||\n```ts\nconst a = 1;\n```\n> quoted"} readOnly={true} />);
+    const container = screen.getByLabelText('Message body');
+    expect(container.querySelector('u')?.textContent).toBe('u');
+    expect(container.querySelector('s')?.textContent).toBe('s');
+    expect(container.querySelector('.tg-spoiler')?.textContent).toBe('hidden');
+    expect(container.querySelector('pre code.language-ts')?.textContent).toBe('const a = 1;');
+    expect(container.querySelector('blockquote')?.textContent).toBe('quoted');
+  });
+});
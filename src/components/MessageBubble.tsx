@@ -1,18 +1,15 @@
 import { useState, useEffect, forwardRef, useImperativeHandle, useRef, useCallback, useMemo } from "react";
 import DOMPurify from "dompurify";
 import { debounce } from "@/lib/debounce";
+import { parseMarkup } from "@/lib/formatting/entities";
+import { toPreviewHtml } from "@/lib/formatting/html";
 
 const MAX_PREVIEW_LENGTH = 500;
 
-const ALLOWED_URL_PROTOCOLS = ['http:', 'https:', 'ftp:', 'mailto:', 'tel:', 'data:'] as const;
-
-const isValidUrlProtocol = (url: string): boolean => {
-  try {
-    const parsed = new URL(url);
-    return ALLOWED_URL_PROTOCOLS.includes(parsed.protocol as (typeof ALLOWED_URL_PROTOCOLS)[number]);
-  } catch {
-    return false;
-  }
+const PREVIEW_SANITIZE_CONFIG = {
+  ALLOWED_TAGS: ['a', 'strong', 'b', 'em', 'i', 'u', 's', 'code', 'pre', 'blockquote', 'br', 'span'],
+  ALLOWED_ATTR: ['href', 'target', 'rel', 'class', 'title'],
+  ALLOW_DATA_ATTR: false,
 };
 
 const getCodePointLength = (text: string) => Array.from(text).length;
@@ -59,42 +56,31 @@ const MessageBubble = forwardRef<MessageBubbleHandle, MessageBubbleProps>(({ con
     [],
   );
 
-  const escapeUrlForAttr = (url: string) =>
-    url.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
-
-  const formatMessage = useCallback((text: string): string => {
-    let safe = escapeHtml(text);
-    safe = safe
-      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, (_, linkText, url) => {
-        if (!isValidUrlProtocol(url)) {
-          return `<span class="text-red-500 underline" title="无效的 URL 协议">${linkText}</span>`;
-        }
-        return `<a href="${escapeUrlForAttr(url)}" target="_blank" rel="noopener noreferrer" class="underline">${linkText}</a>`;
-      })
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/_(.*?)_/g, '<em>$1</em>')
-      .replace(/`([^`]+)`/g, '<code class="bg-black/10 dark:bg-white/10 px-1 py-0.5 rounded text-sm font-mono">$1</code>')
-      .replace(/\n/g, '<br>');
-    return DOMPurify.sanitize(safe, {
-      ALLOWED_TAGS: ['a', 'strong', 'em', 'code', 'br', 'span'],
-      ALLOWED_ATTR: ['href', 'target', 'rel', 'class', 'title'],
-      ALLOW_DATA_ATTR: false,
-    });
-  }, [escapeHtml]);
+  const formatMessage = useCallback(
+    (text: string): string => DOMPurify.sanitize(toPreviewHtml(parseMarkup(text)), PREVIEW_SANITIZE_CONFIG),
+    [],
+  );
 
   const htmlToMarkup = useCallback((html: string): string => {
     if (!html.includes("<") && !html.includes("&")) return html;
     const brOnly = html.replace(/<br\s*\/?>/gi, "\n");
     if (!brOnly.includes("<") && !brOnly.includes("&")) return brOnly;
 
-    const sanitizedHtml = DOMPurify.sanitize(html, {
-      ALLOWED_TAGS: ['a', 'strong', 'em', 'code', 'br', 'span'],
-      ALLOWED_ATTR: ['href', 'target', 'rel', 'class', 'title'],
-      ALLOW_DATA_ATTR: false,
-    });
+    const sanitizedHtml = DOMPurify.sanitize(html, PREVIEW_SANITIZE_CONFIG);
     const container = document.createElement('div');
     container.innerHTML = sanitizedHtml;
 
+    // Code blocks keep their text verbatim; only line breaks need translating.
+    const plainText = (node: Node): string => {
+      if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? '';
+      if ((node as HTMLElement).tagName === 'BR') return '\n';
+      let out = '';
+      for (let i = 0; i < node.childNodes.length; i++) {
+        out += plainText(node.childNodes[i]);
+      }
+      return out;
+    };
+
     const walk = (node: Node, depth = 0): string => {
       const MAX_DEPTH = 50;
       if (depth > MAX_DEPTH) return '';
@@ -135,6 +121,45 @@ const MessageBubble = forwardRef<MessageBubbleHandle, MessageBubbleProps>(({ con
           if (!href) return inner;
           return `[${inner}](${href})`;
         }
+        if (el.tagName === 'U') {
+          let inner = '';
+          for (let i = 0; i < el.childNodes.length; i++) {
+            inner += walk(el.childNodes[i], depth + 1);
+          }
+          return `__${inner}__`;
+        }
+        if (el.tagName === 'S') {
+          let inner = '';
+          for (let i = 0; i < el.childNodes.length; i++) {
+            inner += walk(el.childNodes[i], depth + 1);
+          }
+          return `~~${inner}~~`;
+        }
+        if (el.tagName === 'SPAN' && el.classList.contains('tg-spoiler')) {
+          let inner = '';
+          for (let i = 0; i < el.childNodes.length; i++) {
+            inner += walk(el.childNodes[i], depth + 1);
+          }
+          return `||${inner}||`;
+        }
+        if (el.tagName === 'SPAN' && el.classList.contains('tg-emoji')) {
+          return `![${el.textContent ?? ''}](tg://emoji?id=${el.getAttribute('title') || ''})`;
+        }
+        if (el.tagName === 'PRE') {
+          const code = el.querySelector('code');
+          const language = code?.className.match(/language-(\S+)/)?.[1] ?? '';
+          return `\`\`\`${language}\n${plainText(code ?? el)}\n\`\`\``;
+        }
+        if (el.tagName === 'BLOCKQUOTE') {
+          let inner = '';
+          for (let i = 0; i < el.childNodes.length; i++) {
+            inner += walk(el.childNodes[i], depth + 1);
+          }
+          const expandable = el.classList.contains('tg-expandable');
+          const lines = inner.split('\n').map((line, idx) => `${expandable && idx === 0 ? '**>' : '>'} ${line}`);
+          // The preview drops the line break after a quote (it is a block element), so restore it here.
+          return `${lines.join('\n')}${expandable ? '||' : ''}${el.nextSibling ? '\n' : ''}`;
+        }
         // Default: serialize children (span and other tags)
         let out = '';
         for (let i = 0; i < el.childNodes.length; i++) {
@@ -391,7 +416,7 @@ const MessageBubble = forwardRef<MessageBubbleHandle, MessageBubbleProps>(({ con
         </div>
       </div>
       <p id={formattingHintSrId} className="sr-only">
-        按 Enter 插入空行，Shift+Enter 插入单行；支持粗体、斜体、代码、链接格式。
+        按 Enter 插入空行，Shift+Enter 插入单行；支持粗体、斜体、下划线、删除线、剧透、代码、代码块、链接、自定义表情和引用格式。
       </p>
 
       <details className="mt-2 text-[11px] text-muted-foreground">
@@ -417,6 +442,9 @@ const MessageBubble = forwardRef<MessageBubbleHandle, MessageBubbleProps>(({ con
             <li className="flex flex-wrap gap-1 text-foreground/85">
               支持 <span className="font-semibold">**粗体**</span> / <span className="italic">_斜体_</span> / <code className="rounded bg-foreground/10 px-1 py-[1px] text-[10px]">`代码`</code> / <span className="underline decoration-dashed">[文本](url)</span>
             </li>
+            <li className="flex flex-wrap gap-1 text-foreground/85">
+              <span className="underline">__下划线__</span> / <span className="line-through">~~删除线~~</span> / <span className="rounded bg-foreground/20 px-1">||剧透||</span> / <code className="rounded bg-foreground/10 px-1 py-[1px] text-[10px]">```语言 代码块```</code> / &gt; 引用（**&gt; 可折叠）
+            </li>
           </ul>
         </div>
       </details>
@@ -0,0 +1,108 @@
+import { useEffect, useMemo, useState } from "react";
+import { Layers, ListOrdered, X } from "lucide-react";
+import type { PaginatedKeyboard } from "@/types/telegram";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { formatPaginationItems, pageCount, parsePaginationItems } from "@/lib/keyboard/pagination";
+import { getPaginationValidationErrors } from "@/lib/validation";
+
+type PaginationPanelProps = {
+  pagination?: PaginatedKeyboard;
+  onApply: (pagination: PaginatedKeyboard) => void;
+  onGenerateScreens: (pagination: PaginatedKeyboard) => void;
+  onRemove: () => void;
+  /** Generated screens are saved right away, which needs a signed-in, online session. */
+  canGenerateScreens: boolean;
+};
+
+const DEFAULT_PAGE_SIZE = 6;
+const DEFAULT_COLUMNS = 2;
+
+/**
+ * Paginated keyboard block: a list of items turned either into a dynamic keyboard (this screen keeps the list and
+ * shows one page at a time) or into one generated screen per page, linked by their ◀ / ▶ buttons.
+ */
+const PaginationPanel = ({ pagination, onApply, onGenerateScreens, onRemove, canGenerateScreens }: PaginationPanelProps) => {
+  const [itemsText, setItemsText] = useState("");
+  const [pageSize, setPageSize] = useState(String(DEFAULT_PAGE_SIZE));
+  const [columns, setColumns] = useState(String(DEFAULT_COLUMNS));
+
+  useEffect(() => {
+    if (!pagination) return;
+    setItemsText(formatPaginationItems(pagination.items));
+    setPageSize(String(pagination.page_size));
+    setColumns(String(pagination.columns));
+  }, [pagination]);
+
+  const draft = useMemo<PaginatedKeyboard>(
+    () => ({ items: parsePaginationItems(itemsText), page_size: Number(pageSize), columns: Number(columns) }),
+    [columns, itemsText, pageSize],
+  );
+  const errors = useMemo(() => (itemsText.trim() ? getPaginationValidationErrors(draft) : []), [draft, itemsText]);
+  const ready = !!itemsText.trim() && errors.length === 0;
+
+  return (
+    <div data-testid="pagination-panel" className="space-y-2 rounded-md border border-border p-2 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">分页列表</span>
+        {pagination && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-[11px]" onClick={onRemove}>
+            <X className="mr-1 h-3 w-3" />
+            移除分页
+          </Button>
+        )}
+      </div>
+      <Label htmlFor="pagination-items" className="text-xs">
+        项目（每行一个，可写作 文本|callback_data）
+      </Label>
+      <Textarea
+        id="pagination-items"
+        value={itemsText}
+        onChange={(e) => setItemsText(e.target.value)}
+        placeholder={"商品 A|buy_a\n商品 B|buy_b\n商品 C"}
+        className="min-h-[96px] font-mono text-xs"
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="pagination-page-size" className="text-xs">每页数量</Label>
+          <Input id="pagination-page-size" type="number" min={1} value={pageSize} onChange={(e) => setPageSize(e.target.value)} className="h-8 text-xs" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="pagination-columns" className="text-xs">每行列数</Label>
+          <Input id="pagination-columns" type="number" min={1} value={columns} onChange={(e) => setColumns(e.target.value)} className="h-8 text-xs" />
+        </div>
+      </div>
+      {errors.length > 0 ? (
+        <div className="space-y-1 text-[11px] text-destructive">
+          {errors.map((error) => (
+            <p key={error}>{error}</p>
+          ))}
+        </div>
+      ) : (
+        ready && <p className="text-[11px] text-muted-foreground">共 {draft.items.length} 项，{pageCount(draft)} 页</p>
+      )}
+      {pagination && <p className="text-[11px] text-muted-foreground">动态分页的按钮由列表生成，请在这里修改项目，而不是直接编辑按钮。</p>}
+      <div className="grid grid-cols-2 gap-2">
+        <Button size="sm" variant="secondary" className="h-8 text-xs" disabled={!ready} onClick={() => onApply(draft)}>
+          <ListOrdered className="mr-1 h-3 w-3" />
+          {pagination ? "更新动态分页" : "生成动态分页"}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8 text-xs"
+          disabled={!ready || !canGenerateScreens}
+          title={canGenerateScreens ? "每页生成一个屏幕，并用 ◀ / ▶ 互相链接" : "需要登录且在线才能生成屏幕"}
+          onClick={() => onGenerateScreens(draft)}
+        >
+          <Layers className="mr-1 h-3 w-3" />
+          生成分页屏幕
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PaginationPanel;
@@ -18,7 +18,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
-import { AlertCircle, Home, RotateCw, ListChecks, ArrowLeftRight, ArrowUpDown, Maximize2, Minimize2, Network, Edit, Trash2, PlayCircle, Star, Filter, Crosshair, RefreshCcw } from 'lucide-react';
+import { AlertCircle, Home, Keyboard, RotateCw, ListChecks, ArrowLeftRight, ArrowUpDown, Maximize2, Minimize2, Network, Edit, Trash2, PlayCircle, Star, Filter, Crosshair, RefreshCcw } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import { findAllCircularReferences, findCircularEdges, generateRelationshipGraph } from '@/lib/referenceChecker';
 import { toast } from 'sonner';
@@ -26,8 +26,12 @@ import dagre from '@dagrejs/dagre';
 import { SupabaseDataAccess } from '@/lib/dataAccess';
 import { supabase } from '@/integrations/supabase/client';
 import { hasSupabaseEnv } from '@/lib/runtimeConfig';
+import { INPUT_STEP_LABELS, screenInputStep } from '@/lib/inputStep';
+import { BUTTON_TRANSITION_LABELS, buttonTransition } from '@/lib/keyboard/transitions';
+import { entryStorageKey } from '@/hooks/chat/useScreenNavigation';
+import { anchorToNearestNode, type CursorPayload, type RemoteCursor, type RemoteLayoutUpdate } from '@/lib/realtime';
 
-import { Screen } from '@/types/telegram';
+import { ButtonTransition, Screen } from '@/types/telegram';
 import { SyncStatus, makeRequestId } from '@/types/sync';
 
 interface TemplateFlowDiagramProps {
@@ -37,17 +41,31 @@ interface TemplateFlowDiagramProps {
   onOpenChange: (open: boolean) => void;
   onScreenClick?: (screenId: string) => void;
   userId?: string;
+  /** Project whose screens are shown; positions and the stored entry are kept per project. */
+  projectId?: string | null;
   entryScreenId?: string | null;
   pinnedIds?: string[];
   onLayoutSync?: (status: SyncStatus) => void;
   onSetEntry?: (screenId: string) => void;
   onDeleteScreen?: (screenId: string) => void;
   onCreateLink?: (sourceId: string, targetId: string) => void;
+  /** Pointers of other members viewing the diagram, anchored to nodes. */
+  cursors?: RemoteCursor[];
+  /** Called with this user's pointer, anchored to the nearest node; null when it leaves the diagram. */
+  onCursorMove?: (position: Pick<CursorPayload, 'anchor' | 'dx' | 'dy'> | null) => void;
+  /** Layout rows saved in other tabs, applied in `seq` order. */
+  remoteLayouts?: RemoteLayoutUpdate[];
 }
 
 type NodePositionPayload = { id: string; x: number; y: number };
 
 export const MAX_VISIBLE_NODES = 300;
+const CURSOR_COLORS = ['#e11d48', '#7c3aed', '#0891b2', '#ca8a04', '#16a34a', '#ea580c'];
+
+const cursorColor = (userId: string) =>
+  CURSOR_COLORS[[...userId].reduce((sum, char) => sum + char.charCodeAt(0), 0) % CURSOR_COLORS.length];
+
+const cursorLabel = (cursor: RemoteCursor) => cursor.email?.split('@')[0] || '协作者';
 const LAZY_BATCH_SIZE = 60;
 const LAZY_BATCH_DELAY_MS = 80;
 const INITIAL_BATCH_SIZE = 80;
@@ -107,12 +125,16 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
   onOpenChange,
   onScreenClick,
   userId,
+  projectId = null,
   entryScreenId,
   pinnedIds,
   onLayoutSync,
   onSetEntry,
   onDeleteScreen,
   onCreateLink,
+  cursors = [],
+  onCursorMove,
+  remoteLayouts = [],
 }) => {
   const dataAccess = useMemo(() => new SupabaseDataAccess(supabase, { userId }), [userId]);
   const layoutSyncRef = useRef(onLayoutSync);
@@ -136,8 +158,8 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
   const [fullscreen, setFullscreen] = useState<boolean>(false);
   const autoOrientedRef = useRef(false);
   const PREF_KEY = 'diagram_pref_mindmap';
-  const POS_KEY = `diagram_positions_${userId || 'anon'}`;
-  const ENTRY_KEY = 'telegram_ui_entry_screen';
+  const POS_KEY = `diagram_positions_${userId || 'anon'}${projectId ? `_${projectId}` : ''}`;
+  const ENTRY_KEY = entryStorageKey(userId, projectId);
   const [useSavedPositions, setUseSavedPositions] = useState<boolean>(false);
   const [entryId, setEntryId] = useState<string | null>(entryScreenId ?? null);
   const [pinnedState, setPinnedState] = useState<string[]>(pinnedIds ?? []);
@@ -150,6 +172,8 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
   const autoSaveTimerRef = useRef<number | null>(null);
   const layoutWarningRef = useRef(false);
   const supabaseEnabled = useMemo(() => hasSupabaseEnv(), []);
+  const screenIdsRef = useRef<string[]>([]);
+  screenIdsRef.current = screens.map((screen) => screen.id);
 
   useEffect(() => {
     return () => {
@@ -220,6 +244,15 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
   const cycleEdgeIds = useMemo(() => findCircularEdges(screens), [screens]);
 
   const pinnedSet = useMemo(() => new Set(pinnedIds ?? pinnedState), [pinnedIds, pinnedState]);
+  // 等待用户输入的屏幕：单独的节点样式，回复通过后的跳转也作为一条边
+  const inputSteps = useMemo(() => {
+    const map = new Map<string, NonNullable<ReturnType<typeof screenInputStep>>>();
+    screens.forEach((screen) => {
+      const step = screenInputStep(screen);
+      if (step) map.set(screen.id, step);
+    });
+    return map;
+  }, [screens]);
   const entrySet = useMemo(() => {
     const set = new Set<string>();
     if (entryId) set.add(entryId);
@@ -238,6 +271,11 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
           }
         });
       });
+      const nextId = inputSteps.get(screen.id)?.next_screen_id;
+      if (nextId && idSet.has(nextId)) {
+        incoming.add(nextId);
+        outgoing.add(screen.id);
+      }
     });
     const roots = new Set<string>(entrySet);
     screens.forEach((screen) => {
@@ -246,7 +284,7 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
       }
     });
     return roots;
-  }, [screens, entrySet]);
+  }, [screens, entrySet, inputSteps]);
 
   useEffect(() => {
     if (entryAnchors.size === 0 && entryFilterOnly) {
@@ -279,6 +317,8 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
           }
         });
       });
+      const nextId = inputSteps.get(screen.id)?.next_screen_id;
+      if (nextId && screenMap.has(nextId)) out.add(nextId);
       outgoing.set(screen.id, out);
       out.forEach((targetId) => {
         const prev = incoming.get(targetId) || new Set<string>();
@@ -342,6 +382,7 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
       const isOrphan = hasIn === 0 && hasOut === 0;
       const isEndPoint = hasIn > 0 && hasOut === 0;
       const isInCycle = cycleNodeIds.has(screen.id);
+      const inputStep = inputSteps.get(screen.id);
       const inEntryScope = entryScope.has(screen.id);
       const inPinnedScope = pinnedScope.has(screen.id);
 
@@ -370,6 +411,8 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
         nodeColor = 'rgb(234, 179, 8)';
       } else if (isEntryPoint) {
         nodeColor = 'hsl(var(--success, 142 76% 36%))';
+      } else if (inputStep) {
+        nodeColor = 'rgb(139, 92, 246)';
       } else if (isOrphan) {
         nodeColor = 'hsl(var(--destructive))';
       } else if (isEndPoint) {
@@ -408,6 +451,11 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
               <div className="text-xs text-muted-foreground">
                 {totalButtons} 按钮 | {linkedButtons} 链接
               </div>
+              {inputStep && (
+                <div className="px-1.5 py-0.5 rounded-full bg-violet-500/10 text-violet-700 text-[10px] inline-flex items-center gap-1">
+                  <Keyboard className="w-3 h-3" /> 等待输入：{INPUT_STEP_LABELS[inputStep.expect]}
+                </div>
+              )}
               {isOrphan && (
                 <div className="text-xs text-destructive flex items-center gap-1">
                   <AlertCircle className="w-3 h-3" />
@@ -439,7 +487,7 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
         },
         position: saved ? { x: saved.x, y: saved.y } : { x: 0, y: 0 },
         style: {
-          background: 'hsl(var(--card))',
+          background: inputStep ? 'rgba(139, 92, 246, 0.06)' : 'hsl(var(--card))',
           border: `2px ${nodeBorderStyle} ${isMatched ? 'hsl(var(--primary))' : nodeColor}`,
           borderRadius: '8px',
           padding: '0',
@@ -456,7 +504,7 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
     });
 
     // 创建边（连接关系）
-    const edgeMap = new Map<string, { count: number; buttons: string[] }>();
+    const edgeMap = new Map<string, { count: number; buttons: string[]; hints: string[]; transitions: Set<ButtonTransition> }>();
 
     screens.forEach((screen) => {
       if (shouldHide(screen.id)) return;
@@ -466,20 +514,37 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
             if (shouldHide(btn.linked_screen_id)) return;
             const edgeKey = `${screen.id}->${btn.linked_screen_id}`;
             if (!edgeMap.has(edgeKey)) {
-              edgeMap.set(edgeKey, { count: 0, buttons: [] });
+              edgeMap.set(edgeKey, { count: 0, buttons: [], hints: [], transitions: new Set() });
             }
             const edgeData = edgeMap.get(edgeKey)!;
+            const transition = buttonTransition(btn);
+            const answerMark = btn.callback_answer?.text ? (btn.callback_answer.show_alert ? ' ⚠' : ' 💬') : '';
             edgeData.count++;
-            edgeData.buttons.push(btn.text);
+            edgeData.buttons.push(btn.text + answerMark);
+            edgeData.hints.push(transition === 'edit' ? btn.text + answerMark : `${btn.text}${answerMark}（${BUTTON_TRANSITION_LABELS[transition]}）`);
+            edgeData.transitions.add(transition);
           }
         });
       });
+      const step = inputSteps.get(screen.id);
+      if (step?.next_screen_id && screenMap.has(step.next_screen_id) && !shouldHide(step.next_screen_id)) {
+        const edgeKey = `${screen.id}->${step.next_screen_id}`;
+        const edgeData = edgeMap.get(edgeKey) ?? { count: 0, buttons: [], hints: [], transitions: new Set<ButtonTransition>() };
+        edgeData.count++;
+        edgeData.buttons.push(`⌨ ${INPUT_STEP_LABELS[step.expect]}`);
+        edgeData.hints.push(`⌨ ${INPUT_STEP_LABELS[step.expect]}`);
+        // The bot answers a reply with a new message.
+        edgeData.transitions.add('send');
+        edgeMap.set(edgeKey, edgeData);
+      }
     });
 
     edgeMap.forEach((data, key) => {
       const [sourceId, targetId] = key.split('->');
       const buttonList = data.buttons.slice(0, 3).join(', ') + (data.buttons.length > 3 ? '...' : '');
-      const fullList = data.buttons.join(', ');
+      const fullList = data.hints.join(', ');
+      // Solid: edits the message in place; long dashes: sends a new one; dots: deletes it and sends a new one.
+      const transitionDash = data.transitions.has('replace') ? '2 4' : (data.transitions.has('send') ? '8 4' : undefined);
 
       const isCycleEdge = cycleEdgeIds.has(key);
       const isEdgeDimmed = highlightedPath && !highlightedPath.edges.has(key);
@@ -516,7 +581,7 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
           strokeWidth: isEdgeHighlighted ? 3 : Math.min(3.5, 1 + Math.log2(1 + data.count)),
           opacity: isEdgeDimmed ? 0.2 : 1,
           zIndex: isEdgeHighlighted || isCycleEdge ? 10 : 0,
-          strokeDasharray: isCycleEdge ? '6 4' : undefined,
+          strokeDasharray: isCycleEdge ? '6 4' : transitionDash,
         },
         markerEnd: {
           type: MarkerType.ArrowClosed,
@@ -529,7 +594,7 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
     });
 
     return { nodes, edges, edgeHints: edgeHintMap, matchIds: matched };
-  }, [screens, currentScreenId, showButtonLabels, cycleNodeIds, focusCurrent, searchQuery, nodeScale, hideIsolated, highlightedPath, edgeStraight, entryFilterOnly, pinnedFilterOnly, pinnedSet, entryAnchors, cycleEdgeIds]);
+  }, [screens, inputSteps, currentScreenId, showButtonLabels, cycleNodeIds, focusCurrent, searchQuery, nodeScale, hideIsolated, highlightedPath, edgeStraight, entryFilterOnly, pinnedFilterOnly, pinnedSet, entryAnchors, cycleEdgeIds]);
 
   // 打开时：加载偏好/自动选择模式与方向，并 fitView
   useEffect(() => {
@@ -574,6 +639,47 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
   const [renderBudget, setRenderBudget] = useState(0);
   const [containerRect, setContainerRect] = useState<DOMRect | null>(null);
 
+  // Positions saved in another tab move the nodes here too; updates queued before opening are already in the
+  // cloud layout loaded on open.
+  const appliedLayoutSeqRef = useRef(remoteLayouts[remoteLayouts.length - 1]?.seq ?? 0);
+  useEffect(() => {
+    const pending = remoteLayouts.filter((update) => update.seq > appliedLayoutSeqRef.current);
+    if (pending.length === 0) return;
+    appliedLayoutSeqRef.current = pending[pending.length - 1].seq;
+    const updates = new Map(pending.map((update) => [update.screen_id, { x: update.x, y: update.y }]));
+    updates.forEach((position, id) => savedPositionsRef.current.set(id, position));
+    setNodes((prev) =>
+      prev.map((node) => {
+        const position = updates.get(node.id);
+        if (!position || node.dragging || (node.position.x === position.x && node.position.y === position.y)) return node;
+        return { ...node, position };
+      }),
+    );
+  }, [remoteLayouts, setNodes]);
+
+  const handlePointerMove = useCallback((event: React.MouseEvent) => {
+    if (!onCursorMove || !rfInstance) return;
+    const point = rfInstance.screenToFlowPosition({ x: event.clientX, y: event.clientY });
+    const anchored = anchorToNearestNode(point, nodes);
+    if (anchored) onCursorMove(anchored);
+  }, [nodes, onCursorMove, rfInstance]);
+
+  const handlePointerLeave = useCallback(() => onCursorMove?.(null), [onCursorMove]);
+  useEffect(() => () => onCursorMove?.(null), [onCursorMove]);
+
+  const cursorMarkers = useMemo(() => {
+    const positions = new Map(nodes.map((node) => [node.id, node.position]));
+    return cursors.flatMap((cursor) => {
+      const anchor = positions.get(cursor.anchor);
+      if (!anchor) return [];
+      return [{
+        cursor,
+        left: (anchor.x + cursor.dx) * viewport.zoom + viewport.x,
+        top: (anchor.y + cursor.dy) * viewport.zoom + viewport.y,
+      }];
+    });
+  }, [cursors, nodes, viewport]);
+
   useEffect(() => {
     if (!open) return;
     const updateRect = () => {
@@ -615,7 +721,10 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
         const ids = positions.map((p) => p.id);
         if (ids.length === 0) {
           layoutSyncRef.current?.({ state: "pending", requestId, message: "清除布局中" });
-          await dataAccess.deleteLayouts({});
+          // Layouts are per user; only clear the ones of this project's screens.
+          if (screenIdsRef.current.length > 0) {
+            await dataAccess.deleteLayouts({ ids: screenIdsRef.current });
+          }
           layoutSyncRef.current?.({ state: "success", requestId, at: Date.now(), message: "已清除云端布局" });
         } else {
           layoutSyncRef.current?.({ state: "pending", requestId, message: "保存布局中" });
@@ -712,6 +821,11 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
           }
         });
       });
+      const nextId = inputSteps.get(screen.id)?.next_screen_id;
+      if (nextId) {
+        hasOutgoing.add(screen.id);
+        hasIncoming.add(nextId);
+      }
     });
 
     const entryPoints = entryAnchors.size;
@@ -727,7 +841,7 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
       pinned: pinnedSet.size,
       cycles: cycleNodeIds.size,
     };
-  }, [screens, edges, entryAnchors, pinnedSet, cycleNodeIds]);
+  }, [screens, inputSteps, edges, entryAnchors, pinnedSet, cycleNodeIds]);
 
   const handleNodeClick = (_event: React.MouseEvent, node: Node) => {
     if (onScreenClick) {
@@ -818,9 +932,9 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
     lastSavedSignatureRef.current = '';
     setLayoutSavedAt(null);
     setUseSavedPositions(false);
-    if (userId && supabaseEnabled) {
+    if (userId && supabaseEnabled && screenIdsRef.current.length > 0) {
       try {
-        await dataAccess.deleteLayouts({});
+        await dataAccess.deleteLayouts({ ids: screenIdsRef.current });
         layoutSyncRef.current?.({ state: "success", at: Date.now(), message: "已清空云端布局" });
       } catch (e) { /* ignore cloud errors */ }
     }
@@ -1235,7 +1349,12 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
             可视化查看模版节点的入口、置顶、循环关系并调整布局。
           </DialogDescription>
         </DialogHeader>
-        <div className="flex-1 relative overflow-hidden" ref={diagramRef}>
+        <div
+          className="flex-1 relative overflow-hidden"
+          ref={diagramRef}
+          onMouseMove={handlePointerMove}
+          onMouseLeave={handlePointerLeave}
+        >
           <ReactFlow
             nodes={visibleNodes}
             edges={visibleEdges}
@@ -1290,6 +1409,19 @@ const TemplateFlowDiagram: React.FC<TemplateFlowDiagramProps> = ({
               {edgeTooltip.text}
             </div>
           )}
+          {cursorMarkers.map(({ cursor, left, top }) => (
+            <div
+              key={cursor.tab_id}
+              className="pointer-events-none absolute z-40 flex items-start gap-1 transition-transform duration-75"
+              style={{ left, top }}
+              data-testid="remote-cursor"
+            >
+              <span className="mt-0.5 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rotate-45 rounded-sm" style={{ backgroundColor: cursorColor(cursor.user_id) }} />
+              <span className="rounded px-1.5 py-0.5 text-[10px] text-white shadow" style={{ backgroundColor: cursorColor(cursor.user_id) }}>
+                {cursorLabel(cursor)}
+              </span>
+            </div>
+          ))}
           {contextMenu && (
             <div
               className="fixed z-50 bg-popover text-popover-foreground border rounded-md shadow-md p-1 min-w-[120px] flex flex-col"
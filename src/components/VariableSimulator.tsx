@@ -0,0 +1,62 @@
+import { RotateCcw } from "lucide-react";
+import type { FlowVariable } from "@/types/telegram";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+
+type VariableSimulatorProps = {
+  variables: FlowVariable[];
+  values: Record<string, string>;
+  onChange: (name: string, value: string) => void;
+  onReset: () => void;
+};
+
+/**
+ * Preview-only controls for the flow variables: changing a value re-renders the message text and shows or
+ * hides the buttons whose visibility condition depends on it. Nothing here is saved.
+ */
+const VariableSimulator = ({ variables, values, onChange, onReset }: VariableSimulatorProps) => {
+  const named = variables.filter((variable) => variable.name);
+  if (!named.length) return null;
+  return (
+    <div data-testid="variable-simulator" className="space-y-2 rounded-lg border border-border bg-background/80 p-2 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-foreground">变量模拟器</span>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-[11px]" onClick={onReset}>
+          <RotateCcw className="mr-1 h-3 w-3" />
+          重置为示例值
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {named.map((variable) => {
+          const id = `simulate-${variable.name}`;
+          const value = values[variable.name] ?? "";
+          return (
+            <label key={variable.name} htmlFor={id} className="flex items-center gap-2">
+              <span className="w-20 shrink-0 truncate font-mono text-muted-foreground" title={variable.name}>
+                {variable.name}
+              </span>
+              {variable.type === "boolean" ? (
+                <Switch
+                  id={id}
+                  checked={value === "true"}
+                  onCheckedChange={(checked) => onChange(variable.name, checked ? "true" : "false")}
+                />
+              ) : (
+                <Input
+                  id={id}
+                  type={variable.type === "number" ? "number" : "text"}
+                  value={value}
+                  onChange={(e) => onChange(variable.name, e.target.value)}
+                  className="h-7 text-xs"
+                />
+              )}
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VariableSimulator;
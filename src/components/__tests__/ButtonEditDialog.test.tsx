@@ -33,6 +33,33 @@ describe("ButtonEditDialog validation", () => {
     expect(validateButtonFields({ ...baseButton, linked_screen_id: "s1" }, "link").link).toBeUndefined();
   });
 
+  it("requires https urls for web_app and login_url", () => {
+    expect(validateButtonFields({ ...baseButton, web_app: { url: "" } }, "web_app").action).toBe("请填写 HTTPS 链接");
+    expect(validateButtonFields({ ...baseButton, login_url: { url: "http://a.com" } }, "login_url").action).toBe(
+      "链接需以 https:// 开头"
+    );
+    expect(validateButtonFields({ ...baseButton, web_app: { url: "https://app.example.com" } }, "web_app").action).toBeUndefined();
+  });
+
+  it("limits copy_text and skips callback checks for other kinds", () => {
+    expect(validateButtonFields({ ...baseButton, copy_text: { text: "" } }, "copy_text").action).toBe("复制文本不能为空");
+    expect(validateButtonFields({ ...baseButton, copy_text: { text: "a".repeat(257) } }, "copy_text").action).toBe(
+      "复制文本最多256个字符"
+    );
+    // Counted like ButtonSchema: each emoji is one character, not two UTF-16 units.
+    expect(validateButtonFields({ ...baseButton, copy_text: { text: "😀".repeat(256) } }, "copy_text").action).toBeUndefined();
+    expect(validateButtonFields({ ...baseButton, copy_text: { text: "😀".repeat(257) } }, "copy_text").action).toBe(
+      "复制文本最多256个字符"
+    );
+    const errors = validateButtonFields({ ...baseButton, callback_data: "a".repeat(65) }, "pay");
+    expect(errors).toEqual({});
+  });
+
+  it("checks the visibility condition syntax", () => {
+    expect(validateButtonFields({ ...baseButton, visible_if: 'plan == "pro"' }, "callback").condition).toBeUndefined();
+    expect(validateButtonFields({ ...baseButton, visible_if: "plan ==" }, "callback").condition).toBe("显示条件无效：条件不完整");
+  });
+
   it("generates callback_data within 64B using helper defaults", () => {
     const { value, bytes } = buildCallbackData({
       prefix: "flow",
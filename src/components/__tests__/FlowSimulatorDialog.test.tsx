@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import FlowSimulatorDialog from "../FlowSimulatorDialog";
+import type { Screen } from "@/types/telegram";
+
+const makeScreen = (id: string, text: string, target?: string): Screen => ({
+  id,
+  name: `Screen ${id}`,
+  message_content: text,
+  keyboard: target ? [{ id: `row-${id}`, buttons: [{ id: `btn-${id}`, text: `Go ${target}`, linked_screen_id: target }] }] : [],
+  is_public: false,
+});
+
+describe("FlowSimulatorDialog", () => {
+  it("plays the flow from the entry screen, editing the message on navigation", () => {
+    render(
+      <FlowSimulatorDialog
+        open
+        onOpenChange={() => {}}
+        screens={[makeScreen("a", "Welcome", "b"), makeScreen("b", "Details", "a")]}
+        entryScreenId="a"
+        variables={[]}
+      />,
+    );
+
+    const transcript = screen.getByTestId("flow-simulator-transcript");
+    expect(transcript.textContent).toContain("/start");
+    expect(transcript.textContent).toContain("Welcome");
+
+    fireEvent.click(screen.getByRole("button", { name: "Go b" }));
+
+    expect(transcript.textContent).toContain("Details");
+    expect(transcript.textContent).not.toContain("Welcome");
+    expect(screen.getAllByTestId("edited-mark")).toHaveLength(1);
+    expect(screen.getByTestId("flow-simulator-path").textContent).toBe("1. Screen a2. Screen b");
+  });
+});
@@ -105,3 +105,55 @@ describe("InlineKeyboard limits", () => {
     expect(screen.queryByText("B9")).toBeNull();
   });
 });
+
+describe("InlineKeyboard keyboard kinds", () => {
+  it("renders reply keyboards with their placeholder and flags inline-only actions", () => {
+    render(
+      <InlineKeyboard
+        keyboard={makeRows(1)}
+        kind="reply"
+        replyOptions={{ input_field_placeholder: "Choose an option" }}
+      />
+    );
+
+    expect(screen.getByTestId("reply-keyboard")).toBeTruthy();
+    expect(screen.getByLabelText("Reply keyboard button 1: Row 1")).toBeTruthy();
+    expect(screen.getByText("Choose an option")).toBeTruthy();
+    expect(screen.getByText(/回复键盘按钮不支持 callback_data/)).toBeTruthy();
+  });
+
+  it("shows a notice instead of buttons for ReplyKeyboardRemove and ForceReply", () => {
+    const { rerender } = render(<InlineKeyboard keyboard={makeRows(1)} kind="remove" />);
+    expect(screen.getByTestId("reply-markup-notice").textContent).toContain("ReplyKeyboardRemove");
+    expect(screen.queryByText("Row 1")).toBeNull();
+
+    rerender(<InlineKeyboard keyboard={makeRows(1)} kind="force_reply" replyOptions={{ input_field_placeholder: "Your name" }} />);
+    expect(screen.getByTestId("reply-markup-notice").textContent).toContain("ForceReply");
+    expect(screen.getByText(/Your name/)).toBeTruthy();
+  });
+});
+
+describe("InlineKeyboard button kinds", () => {
+  it("marks each action kind with its own icon", () => {
+    render(
+      <InlineKeyboard
+        keyboard={[
+          {
+            id: "row-1",
+            buttons: [
+              { id: "b1", text: "Pay", pay: true },
+              { id: "b2", text: "App", web_app: { url: "https://app.example.com" } },
+              { id: "b3", text: "Copy", copy_text: { text: "CODE" } },
+              { id: "b4", text: "Plain", callback_data: "plain" },
+            ],
+          },
+        ]}
+      />
+    );
+
+    expect(screen.getByTestId("button-action-icon-pay")).toBeTruthy();
+    expect(screen.getByTestId("button-action-icon-web_app")).toBeTruthy();
+    expect(screen.getByTestId("button-action-icon-copy_text")).toBeTruthy();
+    expect(screen.queryByTestId("button-action-icon-callback_data")).toBeNull();
+  });
+});
@@ -41,6 +41,21 @@ const baseUser = { id: "user-1" } as User;
 
 const buildProps = (overrides: Partial<React.ComponentProps<typeof SidebarLeft>> = {}) => ({
   user: baseUser,
+  projects: [],
+  activeProjectId: null,
+  activeProjectRole: null,
+  workspaces: [],
+  workspaceActions: {
+    createWorkspace: vi.fn(),
+    fetchMembers: vi.fn(),
+    updateMemberRole: vi.fn(),
+    removeMember: vi.fn(),
+    leaveWorkspace: vi.fn(),
+    fetchInvites: vi.fn(),
+    inviteMember: vi.fn(),
+    revokeInvite: vi.fn(),
+  },
+  viewers: [],
   screens: [makeScreen("s1", "Home")],
   currentScreenId: "s1",
   entryScreenId: null,
@@ -51,6 +66,9 @@ const buildProps = (overrides: Partial<React.ComponentProps<typeof SidebarLeft>>
   hasUnsavedChanges: false,
   isOffline: false,
   onLogout: vi.fn(),
+  onSelectProject: vi.fn(),
+  onCreateProject: vi.fn(),
+  onUpdateProject: vi.fn(),
   onLoadScreen: vi.fn(),
   onNewScreen: vi.fn(),
   onSaveScreen: vi.fn(),
@@ -12,6 +12,7 @@ import OnboardingGuide from "@/components/OnboardingGuide";
 
 const TemplateFlowDiagram = lazy(() => import("@/components/TemplateFlowDiagram"));
 const CircularReferenceDialog = lazy(() => import("@/components/CircularReferenceDialog"));
+const FlowSimulatorDialog = lazy(() => import("@/components/FlowSimulatorDialog"));
 
 export const BuilderDialogs = () => {
   const {
@@ -19,11 +20,12 @@ export const BuilderDialogs = () => {
     importDialog,
     renameDialog,
     flowDiagram,
+    flowSimulator,
     circularDialog,
     templateLibrary,
     onboarding,
   } = useBuilderDialogs();
-  const shouldLoadDiagrams = flowDiagram.open || circularDialog.open;
+  const shouldLoadDiagrams = flowDiagram.open || flowSimulator.open || circularDialog.open;
 
   return (
     <>
@@ -59,6 +61,7 @@ export const BuilderDialogs = () => {
                 rows={10}
                 className="font-mono text-xs"
               />
+              <p className="text-xs text-muted-foreground">单条消息会应用到当前模版，可直接粘贴 Bot API 请求体（sendMessage、sendPhoto、editMessageText 等）、Message 对象或 getUpdates 结果；导出的流程文件（telegram-flow.json）会作为新模版整体导入。</p>
             </div>
             <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
               <input
@@ -135,6 +138,7 @@ export const BuilderDialogs = () => {
               open={flowDiagram.open}
               onOpenChange={flowDiagram.setOpen}
               userId={flowDiagram.userId}
+              projectId={flowDiagram.projectId}
               entryScreenId={flowDiagram.entryScreenId}
               pinnedIds={flowDiagram.pinnedIds}
               onLayoutSync={flowDiagram.onLayoutSync}
@@ -142,6 +146,19 @@ export const BuilderDialogs = () => {
               onScreenClick={flowDiagram.onScreenClick}
               onSetEntry={flowDiagram.onSetEntry}
               onDeleteScreen={flowDiagram.onDeleteScreen}
+              cursors={flowDiagram.cursors}
+              onCursorMove={flowDiagram.onCursorMove}
+              remoteLayouts={flowDiagram.remoteLayouts}
+            />
+          )}
+
+          {flowSimulator.open && (
+            <FlowSimulatorDialog
+              open={flowSimulator.open}
+              onOpenChange={flowSimulator.setOpen}
+              screens={flowSimulator.screens}
+              entryScreenId={flowSimulator.entryScreenId}
+              variables={flowSimulator.variables}
             />
           )}
 
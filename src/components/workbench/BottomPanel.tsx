@@ -7,6 +7,7 @@ import { AlertCircle } from "lucide-react";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ScrollBar } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
+import type { CodegenFramework } from "@/lib/codegen/markup";
 
 interface BottomPanelProps {
     editableJSON: string;
@@ -35,8 +36,10 @@ interface BottomPanelProps {
     onExportPending?: () => void;
     retryingQueue?: boolean;
     isOffline?: boolean;
-    codegenFramework: "python-telegram-bot" | "aiogram" | "telegraf";
-    onCodegenFrameworkChange: (fw: "python-telegram-bot" | "aiogram" | "telegraf") => void;
+    codegenFramework: CodegenFramework;
+    onCodegenFrameworkChange: (fw: CodegenFramework) => void;
+    codegenScope: "screen" | "flow";
+    onCodegenScopeChange: (scope: "screen" | "flow") => void;
     codegenOutput: string;
     onCopyCodegen: () => void;
 }
@@ -288,6 +291,8 @@ export const BottomPanel: React.FC<BottomPanelProps> = ({
     isOffline,
     codegenFramework,
     onCodegenFrameworkChange,
+    codegenScope,
+    onCodegenScopeChange,
     codegenOutput,
     onCopyCodegen,
 }) => {
@@ -389,14 +394,25 @@ export const BottomPanel: React.FC<BottomPanelProps> = ({
                 <div className="flex items-center justify-between">
                     <h3 className="text-sm font-medium text-muted-foreground">代码生成</h3>
                     <div className="flex items-center gap-2">
+                        <select
+                            value={codegenScope}
+                            onChange={(e) => onCodegenScopeChange(e.target.value as "screen" | "flow")}
+                            className="h-8 rounded border bg-background text-foreground text-xs px-2"
+                            aria-label="代码生成范围"
+                        >
+                            <option value="screen">当前消息</option>
+                            <option value="flow">整个机器人</option>
+                        </select>
                         <select
                             value={codegenFramework}
-                            onChange={(e) => onCodegenFrameworkChange(e.target.value as "python-telegram-bot" | "aiogram" | "telegraf")}
+                            onChange={(e) => onCodegenFrameworkChange(e.target.value as CodegenFramework)}
                             className="h-8 rounded border bg-background text-foreground text-xs px-2"
                         >
                             <option value="python-telegram-bot">python-telegram-bot</option>
                             <option value="aiogram">aiogram</option>
                             <option value="telegraf">Telegraf (JS)</option>
+                            <option value="grammy">grammY (TS)</option>
+                            <option value="node-telegram-bot-api">node-telegram-bot-api (JS)</option>
                         </select>
                         <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onCopyCodegen} disabled={!codegenOutput.trim()}>
                             复制
@@ -407,7 +423,7 @@ export const BottomPanel: React.FC<BottomPanelProps> = ({
                     value={codegenOutput}
                     readOnly
                     className="font-mono text-xs min-h-[180px] resize-none bg-muted/30"
-                    placeholder="生成的代码将显示在此"
+                    placeholder={codegenScope === "flow" ? "保存模版后即可生成整个机器人的代码" : "生成的代码将显示在此"}
                 />
             </div>
 
@@ -1,21 +1,37 @@
 import React from "react";
 import { Button } from "@/components/ui/button";
-import { Eye, Edit, Undo2, Redo2, Edit2, Sparkles, Network } from "lucide-react";
+import { Eye, Edit, Undo2, Redo2, Edit2, Sparkles, Network, PlayCircle, AlertTriangle } from "lucide-react";
 import MessageBubble, { MessageBubbleHandle } from "../MessageBubble";
+import MediaPreview from "../MediaPreview";
+import LinkPreviewCard from "../LinkPreviewCard";
 import InlineKeyboard from "../InlineKeyboard";
-import { Screen, KeyboardRow, KeyboardButton } from "@/types/telegram";
+import VariableSimulator from "../VariableSimulator";
+import InputReplyBox from "../InputReplyBox";
+import { Screen, KeyboardRow, KeyboardButton, KeyboardKind, LinkPreviewOptions, ReplyKeyboardOptions, FlowVariable, PaginatedKeyboard, InputStep } from "@/types/telegram";
 import { SyncStatus } from "@/types/sync";
+import { resolvePreviewUrl } from "@/lib/linkPreview";
+import { buildPageKeyboard, PAGE_COUNTER_CALLBACK, parsePageCallbackData } from "@/lib/keyboard/pagination";
+import { filterVisibleButtons, interpolateKeyboard, interpolateVariables, sampleValues } from "@/lib/variables";
+import type { MediaGroupItem, MessageType } from "@/types/templates";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { RemoteConflict } from "@/lib/realtime";
 
 interface CenterCanvasProps {
     messageContent: string;
     setMessageContent: (content: string | ((prev: string) => string)) => void;
     keyboard: KeyboardRow[];
+    keyboardKind?: KeyboardKind;
+    replyKeyboardOptions?: ReplyKeyboardOptions;
+    linkPreviewOptions?: LinkPreviewOptions;
+    variables?: FlowVariable[];
+    pagination?: PaginatedKeyboard;
+    inputStep?: InputStep;
     parseMode: "HTML" | "MarkdownV2";
     onParseModeChange: (mode: "HTML" | "MarkdownV2") => void;
-    messageType: "text" | "photo" | "video";
+    messageType: MessageType;
     mediaUrl: string;
-    onMessageTypeChange: (type: "text" | "photo" | "video") => void;
+    mediaGroup: MediaGroupItem[];
+    onMessageTypeChange: (type: MessageType) => void;
     onMediaUrlChange: (url: string) => void;
 
     // Handlers
@@ -24,12 +40,16 @@ interface CenterCanvasProps {
     onDeleteButton: (rowId: string, buttonId: string) => void;
     onButtonClick: (button: KeyboardButton) => void;
     onKeyboardReorder: (rows: KeyboardRow[]) => void;
+    /** Preview: the simulated reply to an input step was accepted. */
+    onInputAccepted?: (nextScreenId?: string) => void;
 
     // State
     isPreviewMode: boolean;
     onToggleMode: () => void;
     onOpenTemplateLibrary: () => void;
     onOpenFlowDiagram?: () => void;
+    /** Opens the flow simulator, which plays the saved flow from its entry screen. */
+    onOpenFlowSimulator?: () => void;
 
     // Undo/Redo
     canUndo: boolean;
@@ -53,17 +73,32 @@ interface CenterCanvasProps {
     shareSyncStatus?: SyncStatus;
     layoutSyncStatus?: SyncStatus;
     pendingQueueSize?: number;
+    /** The open screen was changed or deleted in another tab or by another member. */
+    remoteConflict?: RemoteConflict | null;
+    onLoadRemoteVersion?: () => void;
+    onDismissRemoteConflict?: () => void;
 }
 
+/** Simulated values of variables that are still declared, so renamed or removed ones stop applying. */
+const pickDeclared = (values: Record<string, string>, variables: FlowVariable[]) =>
+    Object.fromEntries(Object.entries(values).filter(([name]) => variables.some((variable) => variable.name === name)));
+
 export const CenterCanvas = React.memo<CenterCanvasProps>(({
     messageContent,
     setMessageContent,
     keyboard,
+    keyboardKind = "inline",
+    replyKeyboardOptions,
+    linkPreviewOptions,
+    variables = [],
+    pagination,
+    inputStep,
     onButtonTextChange,
     onButtonUpdate,
     onDeleteButton,
     onButtonClick,
     onKeyboardReorder,
+    onInputAccepted,
     isPreviewMode,
     onToggleMode,
     onOpenTemplateLibrary,
@@ -83,13 +118,18 @@ export const CenterCanvas = React.memo<CenterCanvasProps>(({
     shareSyncStatus,
     layoutSyncStatus,
     pendingQueueSize,
+    remoteConflict,
+    onLoadRemoteVersion,
+    onDismissRemoteConflict,
     parseMode,
     onParseModeChange,
     messageType,
     mediaUrl,
+    mediaGroup,
     onMessageTypeChange,
     onMediaUrlChange,
     onOpenFlowDiagram,
+    onOpenFlowSimulator,
 }) => {
     const applyTheme = React.useCallback(() => {
         const savedTheme = localStorage.getItem("theme");
@@ -125,6 +165,49 @@ export const CenterCanvas = React.memo<CenterCanvasProps>(({
 
     const activeScreenId = currentScreenId ?? navigationHistory[navigationHistory.length - 1];
     const isEntryActive = !!entryScreenId && activeScreenId === entryScreenId;
+    // Preview mode shows the variables' sample values, or the values set in the simulator, and hides buttons
+    // whose visibility condition fails; edit mode keeps the `{{name}}` placeholders and every button editable.
+    const substitutesVariables = isPreviewMode && variables.length > 0;
+    const [simulatedValues, setSimulatedValues] = React.useState<Record<string, string>>({});
+    const previewValues = React.useMemo(
+        () => ({ ...sampleValues(variables), ...pickDeclared(simulatedValues, variables) }),
+        [simulatedValues, variables],
+    );
+    const handleSimulatedChange = React.useCallback((name: string, value: string) => {
+        setSimulatedValues((prev) => ({ ...prev, [name]: value }));
+    }, []);
+    const resetSimulatedValues = React.useCallback(() => setSimulatedValues({}), []);
+    const displayedContent = React.useMemo(
+        () => (substitutesVariables ? interpolateVariables(messageContent, previewValues) : messageContent),
+        [messageContent, previewValues, substitutesVariables],
+    );
+    // A dynamic paginated keyboard pages in place in the preview, as the generated bot edits the message's markup.
+    const [previewPage, setPreviewPage] = React.useState(1);
+    React.useEffect(() => setPreviewPage(1), [pagination, isPreviewMode]);
+    const paginates = isPreviewMode && keyboardKind === "inline" && !!pagination;
+    const handleButtonClick = React.useCallback((button: KeyboardButton) => {
+        if (paginates && !button.linked_screen_id) {
+            const page = parsePageCallbackData(button.callback_data);
+            if (page) {
+                setPreviewPage(page);
+                return;
+            }
+            if (button.callback_data === PAGE_COUNTER_CALLBACK) return;
+        }
+        onButtonClick(button);
+    }, [onButtonClick, paginates]);
+    const displayedKeyboard = React.useMemo(() => {
+        if (!isPreviewMode) return keyboard;
+        const page = paginates ? buildPageKeyboard(pagination!, previewPage) : keyboard;
+        const visible = filterVisibleButtons(page, previewValues, variables);
+        return substitutesVariables ? interpolateKeyboard(visible, previewValues) : visible;
+    }, [isPreviewMode, keyboard, paginates, pagination, previewPage, previewValues, substitutesVariables, variables]);
+    // Media captions never get a link preview; an album's text is sent as its own text message.
+    const previewUrl = React.useMemo(
+        () => (messageType === "text" || messageType === "media_group" ? resolvePreviewUrl(displayedContent, linkPreviewOptions) : null),
+        [displayedContent, linkPreviewOptions, messageType],
+    );
+    const linkPreview = previewUrl ? <LinkPreviewCard url={previewUrl} options={linkPreviewOptions} /> : null;
 
     const renderStatusBadge = (label: string, status?: SyncStatus) => {
         if (!status || status.state === "idle") return null;
@@ -182,6 +265,18 @@ export const CenterCanvas = React.memo<CenterCanvasProps>(({
                                 关系图
                             </Button>
                         )}
+                        {onOpenFlowSimulator && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={onOpenFlowSimulator}
+                                className="h-8 shrink-0"
+                                title="从入口模版模拟整个流程"
+                            >
+                                <PlayCircle className="w-3 h-3 mr-2" />
+                                模拟器
+                            </Button>
+                        )}
 
                         {/* Breadcrumbs / Title */}
                         <div className="flex items-center gap-2 ml-2 overflow-hidden min-w-0">
@@ -249,6 +344,27 @@ export const CenterCanvas = React.memo<CenterCanvasProps>(({
                         </div>
                     )}
                 </div>
+                {remoteConflict && (
+                    <div
+                        role="alert"
+                        className="w-full max-w-3xl mx-auto mt-2 flex items-center gap-2 rounded-lg border border-amber-500/50 bg-amber-500/10 px-3 py-2 text-xs text-amber-800 dark:text-amber-200"
+                    >
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        <span className="flex-1">
+                            {remoteConflict.kind === "updated"
+                                ? "其他成员或标签页更新了此模版，自动保存已暂停。"
+                                : "此模版已在别处删除，当前内容仍保留，可保存为新模版。"}
+                        </span>
+                        {remoteConflict.kind === "updated" && onLoadRemoteVersion && (
+                            <Button variant="outline" size="sm" className="h-7" onClick={onLoadRemoteVersion}>
+                                载入最新版本
+                            </Button>
+                        )}
+                        <Button variant="ghost" size="sm" className="h-7" onClick={onDismissRemoteConflict}>
+                            {remoteConflict.kind === "updated" ? "保留我的版本" : "知道了"}
+                        </Button>
+                    </div>
+                )}
             </div>
 
             {/* Scrollable Phone Area */}
@@ -287,40 +403,54 @@ export const CenterCanvas = React.memo<CenterCanvasProps>(({
                         <div className="min-h-[500px] p-4 font-telegram relative">
                             {/* Background Pattern could go here */}
                             <div className="inline-block max-w-[90%] w-full space-y-3">
-                                {messageType !== "text" && mediaUrl && (
-                                    <div className="w-full rounded-xl overflow-hidden border border-border bg-black/40">
-                                        {messageType === "photo" ? (
-                                            <img src={mediaUrl} alt="media preview" className="w-full object-cover" />
-                                        ) : (
-                                            <video src={mediaUrl} controls className="w-full object-cover" />
-                                        )}
-                                    </div>
-                                )}
+                                <MediaPreview type={messageType} url={mediaUrl} items={mediaGroup} />
+                                {linkPreviewOptions?.show_above_text && linkPreview}
                                 <MessageBubble
                                     ref={messageBubbleRef}
-                                    content={messageContent}
+                                    content={displayedContent}
                                     onContentChange={setMessageContent}
+                                    readOnly={displayedContent !== messageContent}
                                 />
+                                {!linkPreviewOptions?.show_above_text && linkPreview}
                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
                                     {messageType !== "text" && (
                                         <div className="text-xs text-muted-foreground">
-                                            当前消息类型: {messageType} {mediaUrl ? "(已设置URL)" : "(未设置URL)"}
+                                            当前消息类型: {messageType}{" "}
+                                            {messageType === "media_group"
+                                                ? `(${mediaGroup.length} 个媒体)`
+                                                : mediaUrl ? "(已设置URL)" : "(未设置URL)"}
                                         </div>
                                     )}
                                     <div className="text-xs text-muted-foreground">
                                         Parse Mode: {parseMode}
                                     </div>
                                 </div>
+                                {substitutesVariables && (
+                                    <VariableSimulator
+                                        variables={variables}
+                                        values={previewValues}
+                                        onChange={handleSimulatedChange}
+                                        onReset={resetSimulatedValues}
+                                    />
+                                )}
                                 <InlineKeyboard
-                                    keyboard={keyboard}
+                                    keyboard={displayedKeyboard}
+                                    kind={keyboardKind}
+                                    replyOptions={replyKeyboardOptions}
                                     onButtonTextChange={onButtonTextChange}
                                     onButtonUpdate={onButtonUpdate}
                                     onDeleteButton={onDeleteButton}
-                                    onButtonClick={onButtonClick}
+                                    onButtonClick={handleButtonClick}
                                     isPreviewMode={isPreviewMode}
                                     screens={screens}
                                     onReorder={onKeyboardReorder}
                                 />
+                                {isPreviewMode && inputStep && (
+                                    <InputReplyBox
+                                        step={inputStep}
+                                        onAccepted={() => onInputAccepted?.(inputStep.next_screen_id)}
+                                    />
+                                )}
                             </div>
                         </div>
 
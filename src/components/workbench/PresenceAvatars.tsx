@@ -0,0 +1,51 @@
+import React from "react";
+import type { PresencePayload } from "@/lib/realtime";
+import type { Screen } from "@/types/telegram";
+
+/** At most this many avatars are shown; the rest are summarized as "+N". */
+const MAX_AVATARS = 5;
+
+interface PresenceAvatarsProps {
+    viewers: PresencePayload[];
+    screens: Pick<Screen, "id" | "name">[];
+    userId: string | undefined;
+}
+
+const initials = (viewer: PresencePayload) => (viewer.email ?? "?").slice(0, 2).toUpperCase();
+
+/** Who else has the project open and which screen each of them is viewing. */
+export const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({ viewers, screens, userId }) => {
+    if (viewers.length === 0) return null;
+
+    const describe = (viewer: PresencePayload) => {
+        const who = viewer.user_id === userId ? "我（另一个标签页）" : viewer.email ?? "协作者";
+        const screen = viewer.screen_id ? screens.find((s) => s.id === viewer.screen_id) : undefined;
+        return `${who} 正在查看：${screen?.name ?? (viewer.screen_id ? "未知模版" : "未保存的新模版")}`;
+    };
+    const hidden = viewers.slice(MAX_AVATARS);
+
+    return (
+        <div className="flex items-center gap-2" aria-label="在线协作者">
+            <div className="flex -space-x-2">
+                {viewers.slice(0, MAX_AVATARS).map((viewer) => (
+                    <span
+                        key={viewer.tab_id}
+                        title={describe(viewer)}
+                        className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background bg-primary text-[10px] font-semibold text-primary-foreground"
+                    >
+                        {initials(viewer)}
+                    </span>
+                ))}
+                {hidden.length > 0 && (
+                    <span
+                        title={hidden.map(describe).join("\n")}
+                        className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background bg-muted text-[10px] text-muted-foreground"
+                    >
+                        +{hidden.length}
+                    </span>
+                )}
+            </div>
+            <span className="text-xs text-muted-foreground">正在协作</span>
+        </div>
+    );
+};
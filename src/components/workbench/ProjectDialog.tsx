@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Project, Workspace } from "@/types/telegram";
+import type { ProjectInput } from "@/hooks/chat/useProjects";
+
+interface ProjectDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** Project to edit; null creates a new one. */
+    project: Project | null;
+    /** Rejects with the validation or save error, which the dialog shows. */
+    onSubmit: (input: ProjectInput) => Promise<unknown>;
+    /** Workspaces the project can be shared with; only those the user can edit in are offered. */
+    workspaces?: Workspace[];
+    /** Only the project's creator may move it between workspaces. */
+    canChangeWorkspace?: boolean;
+}
+
+const PERSONAL_WORKSPACE = "personal";
+
+export const ProjectDialog: React.FC<ProjectDialogProps> = ({
+    open,
+    onOpenChange,
+    project,
+    onSubmit,
+    workspaces = [],
+    canChangeWorkspace = true,
+}) => {
+    const [name, setName] = useState("");
+    const [botUsername, setBotUsername] = useState("");
+    const [parseMode, setParseMode] = useState<Project["default_parse_mode"]>("HTML");
+    const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!open) return;
+        setName(project?.name ?? "");
+        setBotUsername(project?.bot_username ? `@${project.bot_username}` : "");
+        setParseMode(project?.default_parse_mode ?? "HTML");
+        setWorkspaceId(project?.workspace_id ?? null);
+        setError(null);
+    }, [open, project]);
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+        setSaving(true);
+        setError(null);
+        try {
+            await onSubmit({ name, bot_username: botUsername, default_parse_mode: parseMode, workspace_id: workspaceId });
+            onOpenChange(false);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : "保存项目失败");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const workspaceOptions = workspaces.filter((workspace) => workspace.role !== "viewer" || workspace.id === workspaceId);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[420px]">
+                <form onSubmit={handleSubmit}>
+                    <DialogHeader>
+                        <DialogTitle>{project ? "项目设置" : "新建项目"}</DialogTitle>
+                    </DialogHeader>
+                    <div className="grid gap-4 py-4">
+                        <div className="grid gap-2">
+                            <Label htmlFor="project-name">项目名称</Label>
+                            <Input id="project-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="例如：商城机器人" />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="project-bot-username">机器人用户名</Label>
+                            <Input
+                                id="project-bot-username"
+                                value={botUsername}
+                                onChange={(e) => setBotUsername(e.target.value)}
+                                placeholder="@my_shop_bot（可选）"
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="project-parse-mode">默认解析模式</Label>
+                            <Select value={parseMode} onValueChange={(value) => setParseMode(value as Project["default_parse_mode"])}>
+                                <SelectTrigger id="project-parse-mode" aria-label="默认解析模式">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="HTML">HTML</SelectItem>
+                                    <SelectItem value="MarkdownV2">MarkdownV2</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <p className="text-[11px] text-muted-foreground">新建模版时使用的解析模式。</p>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="project-workspace">共享给团队</Label>
+                            <Select
+                                value={workspaceId ?? PERSONAL_WORKSPACE}
+                                onValueChange={(value) => setWorkspaceId(value === PERSONAL_WORKSPACE ? null : value)}
+                                disabled={!canChangeWorkspace}
+                            >
+                                <SelectTrigger id="project-workspace" aria-label="共享给团队">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={PERSONAL_WORKSPACE}>仅自己</SelectItem>
+                                    {workspaceOptions.map((workspace) => (
+                                        <SelectItem key={workspace.id} value={workspace.id}>
+                                            {workspace.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <p className="text-[11px] text-muted-foreground">
+                                {canChangeWorkspace ? "团队成员可按角色查看或编辑项目中的模版。" : "只有项目创建者可以更改共享团队。"}
+                            </p>
+                        </div>
+                        {error && <p className="text-xs text-destructive">{error}</p>}
+                    </div>
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+                            取消
+                        </Button>
+                        <Button type="submit" disabled={saving}>
+                            {saving ? "保存中..." : project ? "保存" : "创建"}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+};
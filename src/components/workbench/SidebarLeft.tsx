@@ -1,14 +1,31 @@
 
-import React, { useCallback, useMemo } from "react";
+import React, { useCallback, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { LogOut, FileText, Save, Trash2, Star, StarOff, Home, ArrowUpDown, Trash, Upload, Copy, Download, Network, Share2, RefreshCw, EyeOff } from "lucide-react";
-import { Screen } from "@/types/telegram";
+import { LogOut, FileText, Save, Trash2, Star, StarOff, Home, ArrowUpDown, Trash, Upload, Copy, Download, Network, Share2, RefreshCw, EyeOff, FolderPlus, Settings2, Users } from "lucide-react";
+import { Project, Screen, Workspace, WorkspaceRole } from "@/types/telegram";
 import type { User } from "@supabase/supabase-js";
+import type { ProjectInput } from "@/hooks/chat/useProjects";
+import type { WorkspaceActions } from "@/hooks/chat/useWorkspaces";
+import type { PresencePayload } from "@/lib/realtime";
+import { ProjectDialog } from "./ProjectDialog";
+import { WorkspaceDialog } from "./WorkspaceDialog";
+import { PresenceAvatars } from "./PresenceAvatars";
+
+const UNGROUPED_PROJECT = "ungrouped";
 
 interface SidebarLeftProps {
     user: User | null;
+    projects: Project[];
+    /** Null: the screens that belong to no project. */
+    activeProjectId: string | null;
+    /** The user's role when the active project is shared through a workspace; null for personal projects. */
+    activeProjectRole: WorkspaceRole | null;
+    workspaces: Workspace[];
+    workspaceActions: React.ComponentProps<typeof WorkspaceDialog>["actions"];
+    /** Other tabs and members on the active project's Realtime channel. */
+    viewers: PresencePayload[];
     screens: Screen[];
     currentScreenId: string | undefined;
     entryScreenId: string | null;
@@ -20,6 +37,9 @@ interface SidebarLeftProps {
     isOffline: boolean;
 
     onLogout: () => void;
+    onSelectProject: (projectId: string | null) => void;
+    onCreateProject: (input: ProjectInput) => Promise<unknown>;
+    onUpdateProject: (projectId: string, input: ProjectInput) => Promise<unknown>;
     onLoadScreen: (id: string) => void;
     onNewScreen: () => void;
     onSaveScreen: () => void;
@@ -43,6 +63,12 @@ interface SidebarLeftProps {
 
 const SidebarLeftComponent: React.FC<SidebarLeftProps> = ({
     user,
+    projects,
+    activeProjectId,
+    activeProjectRole,
+    workspaces,
+    workspaceActions,
+    viewers,
     screens,
     currentScreenId,
     entryScreenId,
@@ -53,6 +79,9 @@ const SidebarLeftComponent: React.FC<SidebarLeftProps> = ({
     hasUnsavedChanges,
     isOffline,
     onLogout,
+    onSelectProject,
+    onCreateProject,
+    onUpdateProject,
     onLoadScreen,
     onNewScreen,
     onSaveScreen,
@@ -71,6 +100,12 @@ const SidebarLeftComponent: React.FC<SidebarLeftProps> = ({
     onExportFlow,
     onOpenFlowDiagram,
 }) => {
+    const [projectDialog, setProjectDialog] = useState<"create" | "edit" | null>(null);
+    const [workspaceDialogOpen, setWorkspaceDialogOpen] = useState(false);
+    const activeProject = useMemo(
+        () => projects.find((project) => project.id === activeProjectId) ?? null,
+        [projects, activeProjectId],
+    );
     const pinnedSet = useMemo(() => new Set(pinnedIds), [pinnedIds]);
     const entryScreen = useMemo(
         () => screens.find((s) => s.id === entryScreenId),
@@ -80,6 +115,17 @@ const SidebarLeftComponent: React.FC<SidebarLeftProps> = ({
     const entryScreenName = entryScreen?.name;
     const entryValue = entryScreenId ?? "none";
 
+    const handleProjectChange = useCallback(
+        (val: string) => {
+            onSelectProject(val === UNGROUPED_PROJECT ? null : val);
+        },
+        [onSelectProject],
+    );
+    const handleSubmitProject = useCallback(
+        (input: ProjectInput) => (activeProject && projectDialog === "edit" ? onUpdateProject(activeProject.id, input) : onCreateProject(input)),
+        [activeProject, projectDialog, onCreateProject, onUpdateProject],
+    );
+
     const isPinned = useCallback((id?: string) => !!id && pinnedSet.has(id), [pinnedSet]);
     const handleSave = useCallback(() => {
         if (currentScreenId) {
@@ -124,6 +170,11 @@ const SidebarLeftComponent: React.FC<SidebarLeftProps> = ({
                             离线
                         </span>
                     )}
+                    {activeProjectRole === "viewer" && (
+                        <span className="text-xs bg-sky-600 text-white px-2 py-0.5 rounded-full" title="你在此团队项目中是查看者">
+                            只读
+                        </span>
+                    )}
                 </div>
                 <Button onClick={onLogout} variant="ghost" size="icon" title="退出登录">
                     <LogOut className="w-4 h-4" />
@@ -132,6 +183,75 @@ const SidebarLeftComponent: React.FC<SidebarLeftProps> = ({
 
             <Separator />
 
+            {/* Project */}
+            <div className="space-y-2">
+                <h3 className="text-sm font-medium text-muted-foreground">项目</h3>
+                <div className="flex gap-2">
+                    <Select value={activeProjectId ?? UNGROUPED_PROJECT} onValueChange={handleProjectChange}>
+                        <SelectTrigger aria-label="项目选择" data-testid="project-select-trigger">
+                            <SelectValue placeholder="选择项目..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={UNGROUPED_PROJECT}>未分组</SelectItem>
+                            {projects.map((project) => (
+                                <SelectItem key={project.id} value={project.id}>
+                                    {project.name}{project.bot_username ? ` · @${project.bot_username}` : ""}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Button
+                        variant="outline"
+                        size="icon"
+                        className="shrink-0"
+                        title="项目设置"
+                        aria-label="项目设置"
+                        disabled={!activeProject}
+                        onClick={() => setProjectDialog("edit")}
+                    >
+                        <Settings2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="icon"
+                        className="shrink-0"
+                        title="新建项目"
+                        aria-label="新建项目"
+                        onClick={() => setProjectDialog("create")}
+                    >
+                        <FolderPlus className="w-4 h-4" />
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="icon"
+                        className="shrink-0"
+                        title="团队成员"
+                        aria-label="团队成员"
+                        onClick={() => setWorkspaceDialogOpen(true)}
+                    >
+                        <Users className="w-4 h-4" />
+                    </Button>
+                </div>
+                <PresenceAvatars viewers={viewers} screens={screens} userId={user?.id} />
+            </div>
+            <ProjectDialog
+                open={projectDialog !== null}
+                onOpenChange={(open) => !open && setProjectDialog(null)}
+                project={projectDialog === "edit" ? activeProject : null}
+                onSubmit={handleSubmitProject}
+                workspaces={workspaces}
+                canChangeWorkspace={projectDialog !== "edit" || activeProject?.user_id === user?.id}
+            />
+            <WorkspaceDialog
+                open={workspaceDialogOpen}
+                onOpenChange={setWorkspaceDialogOpen}
+                userId={user?.id}
+                workspaces={workspaces}
+                actions={workspaceActions}
+            />
+
+            <Separator />
+
             {/* Main Actions */}
             <div className="space-y-2">
                 <Button
@@ -4,7 +4,57 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
-import { Bold, Italic, Code, Link, Plus, Edit2 } from "lucide-react";
+import { Bold, Italic, Code, Link, Plus, Edit2, Trash2 } from "lucide-react";
+import type { FlowVariable, FlowVariableType, InputStep, KeyboardKind, LinkPreviewOptions, PaginatedKeyboard, ReplyKeyboardOptions, Screen } from "@/types/telegram";
+import type { MediaGroupItem, MediaGroupItemType, MessageType } from "@/types/templates";
+import PaginationPanel from "../PaginationPanel";
+import InputStepPanel from "../InputStepPanel";
+import {
+    FLOW_VARIABLE_TYPES,
+    INPUT_FIELD_PLACEHOLDER_MAX,
+    MEDIA_GROUP_ITEM_TYPES,
+    MEDIA_GROUP_MAX_ITEMS,
+    MESSAGE_TYPES,
+    getFlowVariableValidationErrors,
+    getLinkPreviewValidationErrors,
+    getMediaGroupValidationErrors,
+    getMessageContentErrors,
+    getMessageTextLimit,
+    getTelegramTextLength,
+} from "@/lib/validation";
+
+const REPLY_OPTION_SWITCHES: Array<{ key: "resize_keyboard" | "one_time_keyboard" | "is_persistent" | "selective"; label: string; kinds: KeyboardKind[] }> = [
+    { key: "resize_keyboard", label: "自适应高度 (resize)", kinds: ["reply"] },
+    { key: "one_time_keyboard", label: "点击后收起 (one-time)", kinds: ["reply"] },
+    { key: "is_persistent", label: "始终显示 (persistent)", kinds: ["reply"] },
+    { key: "selective", label: "仅对指定用户 (selective)", kinds: ["reply", "remove", "force_reply"] },
+];
+
+type LinkPreviewMediaSize = "auto" | "small" | "large";
+
+const LINK_PREVIEW_MEDIA_SIZES: Array<{ value: LinkPreviewMediaSize; label: string }> = [
+    { value: "auto", label: "自动" },
+    { value: "small", label: "小图" },
+    { value: "large", label: "大图" },
+];
+
+const FLOW_VARIABLE_TYPE_LABELS: Record<FlowVariableType, string> = {
+    string: "文本",
+    number: "数字",
+    boolean: "布尔",
+};
+
+const MESSAGE_TYPE_LABELS: Record<MessageType, string> = {
+    text: "文本",
+    photo: "图片",
+    video: "视频",
+    document: "文件",
+    animation: "动图 (GIF)",
+    audio: "音频",
+    voice: "语音",
+    video_note: "圆形视频",
+    media_group: "相册 (媒体组)",
+};
 
 interface SidebarRightProps {
     newScreenName: string;
@@ -12,16 +62,42 @@ interface SidebarRightProps {
 
     // Message Formatting
     onFormatClick: (format: 'bold' | 'italic' | 'code' | 'link') => void;
+    messageContent: string;
     parseMode: "HTML" | "MarkdownV2";
     onParseModeChange: (mode: "HTML" | "MarkdownV2") => void;
-    messageType: "text" | "photo" | "video";
+    messageType: MessageType;
     mediaUrl: string;
-    onMessageTypeChange: (type: "text" | "photo" | "video") => void;
+    mediaGroup: MediaGroupItem[];
+    onMessageTypeChange: (type: MessageType) => void;
     onMediaUrlChange: (url: string) => void;
+    onMediaGroupChange: (items: MediaGroupItem[]) => void;
+    linkPreviewOptions: LinkPreviewOptions;
+    onLinkPreviewOptionsChange: (options: LinkPreviewOptions) => void;
+
+    // Flow Variables
+    variables: FlowVariable[];
+    onAddVariable: () => void;
+    onVariableChange: (index: number, patch: Partial<FlowVariable>) => void;
+    onRemoveVariable: (index: number) => void;
+    undeclaredVariableErrors: string[];
 
     // Keyboard Controls
+    keyboardKind: KeyboardKind;
+    onKeyboardKindChange: (kind: KeyboardKind) => void;
+    replyKeyboardOptions: ReplyKeyboardOptions;
+    onReplyKeyboardOptionsChange: (options: ReplyKeyboardOptions) => void;
     onAddButton: () => void;
     onAddRow: () => void;
+    pagination?: PaginatedKeyboard;
+    onApplyPagination: (pagination: PaginatedKeyboard) => void;
+    onGeneratePageScreens: (pagination: PaginatedKeyboard) => void;
+    onRemovePagination: () => void;
+    canGeneratePageScreens: boolean;
+
+    // User Input
+    inputStep?: InputStep;
+    onInputStepChange: (step: InputStep | undefined) => void;
+    screens: Screen[];
 
     // Settings
     allowCircular: boolean;
@@ -37,6 +113,7 @@ export const SidebarRight: React.FC<SidebarRightProps> = ({
     newScreenName,
     onNewScreenNameChange,
     onFormatClick,
+    messageContent,
     onAddButton,
     onAddRow,
     allowCircular,
@@ -48,9 +125,51 @@ export const SidebarRight: React.FC<SidebarRightProps> = ({
     onParseModeChange,
     messageType,
     mediaUrl,
+    mediaGroup,
     onMessageTypeChange,
     onMediaUrlChange,
+    onMediaGroupChange,
+    linkPreviewOptions,
+    onLinkPreviewOptionsChange,
+    variables,
+    onAddVariable,
+    onVariableChange,
+    onRemoveVariable,
+    undeclaredVariableErrors,
+    keyboardKind,
+    onKeyboardKindChange,
+    replyKeyboardOptions,
+    onReplyKeyboardOptionsChange,
+    pagination,
+    onApplyPagination,
+    onGeneratePageScreens,
+    onRemovePagination,
+    canGeneratePageScreens,
+    inputStep,
+    onInputStepChange,
+    screens,
 }) => {
+    const hasButtons = keyboardKind === "inline" || keyboardKind === "reply";
+    const supportsPlaceholder = keyboardKind === "reply" || keyboardKind === "force_reply";
+    const updateReplyOption = <K extends keyof ReplyKeyboardOptions>(key: K, value: ReplyKeyboardOptions[K]) =>
+        onReplyKeyboardOptionsChange({ ...replyKeyboardOptions, [key]: value });
+    const updateMediaItem = (index: number, patch: Partial<MediaGroupItem>) =>
+        onMediaGroupChange(mediaGroup.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+    const mediaGroupErrors = messageType === "media_group" ? getMediaGroupValidationErrors(mediaGroup) : [];
+    // Video notes are sent without a caption, so their text never reaches Telegram.
+    const showsTextLimit = messageType !== "video_note";
+    const textLimit = getMessageTextLimit(messageType);
+    const textLength = getTelegramTextLength(messageContent);
+    const contentErrors = showsTextLimit ? getMessageContentErrors(messageContent, messageType) : [];
+    // Only text messages get a link preview (an album's text is sent as a text message after it).
+    const supportsLinkPreview = messageType === "text" || messageType === "media_group";
+    const previewMediaSize: LinkPreviewMediaSize = linkPreviewOptions.prefer_small_media
+        ? "small"
+        : linkPreviewOptions.prefer_large_media ? "large" : "auto";
+    const linkPreviewErrors = supportsLinkPreview ? getLinkPreviewValidationErrors(linkPreviewOptions) : [];
+    const updateLinkPreview = (patch: LinkPreviewOptions) => onLinkPreviewOptionsChange({ ...linkPreviewOptions, ...patch });
+    const variableErrors = getFlowVariableValidationErrors(variables);
+
     return (
         <div className="flex flex-col h-full p-4 space-y-6">
             {/* Screen Properties */}
@@ -103,16 +222,72 @@ export const SidebarRight: React.FC<SidebarRightProps> = ({
                         <select
                             id="message-type-select"
                             value={messageType}
-                            onChange={(e) => onMessageTypeChange(e.target.value as "text" | "photo" | "video")}
+                            onChange={(e) => onMessageTypeChange(e.target.value as MessageType)}
                             className="w-full h-8 rounded border bg-background text-foreground text-xs px-2"
                         >
-                            <option value="text">文本</option>
-                            <option value="photo">图片</option>
-                            <option value="video">视频</option>
+                            {MESSAGE_TYPES.map((type) => (
+                                <option key={type} value={type}>{MESSAGE_TYPE_LABELS[type]}</option>
+                            ))}
                         </select>
                     </div>
                 </div>
-                {messageType !== "text" && (
+                {messageType === "media_group" && (
+                    <div className="space-y-2">
+                        <Label>相册媒体</Label>
+                        {mediaGroup.map((item, index) => (
+                            <div key={index} className="space-y-1 rounded border p-2">
+                                <div className="flex gap-2">
+                                    <select
+                                        aria-label={`第${index + 1}个媒体类型`}
+                                        value={item.type}
+                                        onChange={(e) => updateMediaItem(index, { type: e.target.value as MediaGroupItemType })}
+                                        className="h-8 rounded border bg-background text-foreground text-xs px-2"
+                                    >
+                                        {MEDIA_GROUP_ITEM_TYPES.map((type) => (
+                                            <option key={type} value={type}>{MESSAGE_TYPE_LABELS[type]}</option>
+                                        ))}
+                                    </select>
+                                    <Input
+                                        aria-label={`第${index + 1}个媒体 URL`}
+                                        placeholder="https://..."
+                                        value={item.media}
+                                        onChange={(e) => updateMediaItem(index, { media: e.target.value })}
+                                        className="h-8 text-xs flex-1"
+                                    />
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8 shrink-0"
+                                        title="移除媒体"
+                                        onClick={() => onMediaGroupChange(mediaGroup.filter((_, i) => i !== index))}
+                                    >
+                                        <Trash2 className="w-3 h-3" />
+                                    </Button>
+                                </div>
+                                <Input
+                                    aria-label={`第${index + 1}个媒体说明`}
+                                    placeholder="说明文字（可选）"
+                                    value={item.caption ?? ""}
+                                    onChange={(e) => updateMediaItem(index, { caption: e.target.value })}
+                                    className="h-8 text-xs"
+                                />
+                            </div>
+                        ))}
+                        <Button
+                            variant="outline"
+                            className="w-full h-8 text-xs"
+                            disabled={mediaGroup.length >= MEDIA_GROUP_MAX_ITEMS}
+                            onClick={() => onMediaGroupChange([...mediaGroup, { type: mediaGroup[0]?.type ?? "photo", media: "" }])}
+                        >
+                            <Plus className="w-3 h-3 mr-2" /> 添加媒体
+                        </Button>
+                        {mediaGroupErrors.map((error) => (
+                            <p key={error} className="text-[11px] text-destructive">{error}</p>
+                        ))}
+                        <p className="text-[11px] text-muted-foreground">相册不能附带按钮，消息文本和键盘会在相册之后单独发送。</p>
+                    </div>
+                )}
+                {messageType !== "text" && messageType !== "media_group" && (
                     <div className="space-y-2">
                         <Label htmlFor="media-url">媒体 URL</Label>
                         <Input
@@ -142,6 +317,69 @@ export const SidebarRight: React.FC<SidebarRightProps> = ({
                 <p className="text-xs text-muted-foreground">
                     在中间画布直接编辑文本，使用上方工具栏格式化。
                 </p>
+                {showsTextLimit && (
+                    <div className="space-y-1">
+                        <p className={`text-[11px] ${textLength > textLimit ? "text-destructive" : "text-muted-foreground"}`}>
+                            {messageType === "text" || messageType === "media_group" ? "文本长度" : "说明文字长度"}：{textLength}/{textLimit}
+                        </p>
+                        {contentErrors.map((error) => (
+                            <p key={error} className="text-[11px] text-destructive">{error}</p>
+                        ))}
+                    </div>
+                )}
+                {supportsLinkPreview && (
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <Label htmlFor="link-preview-disabled" className="text-xs">禁用链接预览</Label>
+                            <Switch
+                                id="link-preview-disabled"
+                                checked={!!linkPreviewOptions.is_disabled}
+                                onCheckedChange={(checked) => updateLinkPreview({ is_disabled: checked })}
+                            />
+                        </div>
+                        {!linkPreviewOptions.is_disabled && (
+                            <>
+                                <div className="space-y-1">
+                                    <Label htmlFor="link-preview-url" className="text-xs">预览链接</Label>
+                                    <Input
+                                        id="link-preview-url"
+                                        placeholder="默认使用消息中的第一个链接"
+                                        value={linkPreviewOptions.url ?? ""}
+                                        onChange={(e) => updateLinkPreview({ url: e.target.value })}
+                                        className="h-8 text-xs"
+                                    />
+                                </div>
+                                <div className="flex items-center justify-between gap-2">
+                                    <Label htmlFor="link-preview-media-size" className="text-xs">预览媒体尺寸</Label>
+                                    <select
+                                        id="link-preview-media-size"
+                                        value={previewMediaSize}
+                                        onChange={(e) => {
+                                            const size = e.target.value as LinkPreviewMediaSize;
+                                            updateLinkPreview({ prefer_small_media: size === "small", prefer_large_media: size === "large" });
+                                        }}
+                                        className="h-8 rounded border bg-background text-foreground text-xs px-2"
+                                    >
+                                        {LINK_PREVIEW_MEDIA_SIZES.map((size) => (
+                                            <option key={size.value} value={size.value}>{size.label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className="flex items-center justify-between">
+                                    <Label htmlFor="link-preview-above" className="text-xs">预览显示在文本上方</Label>
+                                    <Switch
+                                        id="link-preview-above"
+                                        checked={!!linkPreviewOptions.show_above_text}
+                                        onCheckedChange={(checked) => updateLinkPreview({ show_above_text: checked })}
+                                    />
+                                </div>
+                            </>
+                        )}
+                        {linkPreviewErrors.map((error) => (
+                            <p key={error} className="text-[11px] text-destructive">{error}</p>
+                        ))}
+                    </div>
+                )}
             </div>
 
             <Separator />
@@ -149,14 +387,134 @@ export const SidebarRight: React.FC<SidebarRightProps> = ({
             {/* Keyboard Controls */}
             <div className="space-y-4">
                 <h3 className="text-sm font-medium text-muted-foreground">按钮键盘</h3>
-                <div className="space-y-2">
-                    <Button onClick={onAddButton} className="w-full" variant="secondary">
-                        <Plus className="w-4 h-4 mr-2" /> 添加按钮
-                    </Button>
-                    <Button onClick={onAddRow} className="w-full" variant="outline">
-                        <Plus className="w-4 h-4 mr-2" /> 添加新行
-                    </Button>
+                <div className="space-y-1 text-xs">
+                    <Label htmlFor="keyboard-kind-select">键盘类型</Label>
+                    <select
+                        id="keyboard-kind-select"
+                        value={keyboardKind}
+                        onChange={(e) => onKeyboardKindChange(e.target.value as KeyboardKind)}
+                        className="w-full h-8 rounded border bg-background text-foreground text-xs px-2"
+                    >
+                        <option value="inline">内联键盘 (Inline)</option>
+                        <option value="reply">回复键盘 (Reply)</option>
+                        <option value="remove">移除回复键盘</option>
+                        <option value="force_reply">强制回复 (ForceReply)</option>
+                    </select>
                 </div>
+                {keyboardKind !== "inline" && (
+                    <div className="space-y-2">
+                        {REPLY_OPTION_SWITCHES.filter((item) => item.kinds.includes(keyboardKind)).map((item) => (
+                            <div key={item.key} className="flex items-center justify-between">
+                                <Label htmlFor={`reply-option-${item.key}`} className="text-xs">{item.label}</Label>
+                                <Switch
+                                    id={`reply-option-${item.key}`}
+                                    checked={!!replyKeyboardOptions[item.key]}
+                                    onCheckedChange={(checked) => updateReplyOption(item.key, checked)}
+                                />
+                            </div>
+                        ))}
+                        {supportsPlaceholder && (
+                            <div className="space-y-1">
+                                <Label htmlFor="input-field-placeholder" className="text-xs">输入框占位文本</Label>
+                                <Input
+                                    id="input-field-placeholder"
+                                    placeholder="例如：请选择菜单"
+                                    value={replyKeyboardOptions.input_field_placeholder ?? ""}
+                                    maxLength={INPUT_FIELD_PLACEHOLDER_MAX}
+                                    onChange={(e) => updateReplyOption("input_field_placeholder", e.target.value)}
+                                    className="h-8 text-xs"
+                                />
+                            </div>
+                        )}
+                    </div>
+                )}
+                {hasButtons ? (
+                    <div className="space-y-2">
+                        <Button onClick={onAddButton} className="w-full" variant="secondary">
+                            <Plus className="w-4 h-4 mr-2" /> 添加按钮
+                        </Button>
+                        <Button onClick={onAddRow} className="w-full" variant="outline">
+                            <Plus className="w-4 h-4 mr-2" /> 添加新行
+                        </Button>
+                    </div>
+                ) : (
+                    <p className="text-[11px] text-muted-foreground">此类型不会发送按钮，已有按钮将保留但不会导出。</p>
+                )}
+                {keyboardKind === "inline" && (
+                    <PaginationPanel
+                        pagination={pagination}
+                        onApply={onApplyPagination}
+                        onGenerateScreens={onGeneratePageScreens}
+                        onRemove={onRemovePagination}
+                        canGenerateScreens={canGeneratePageScreens}
+                    />
+                )}
+            </div>
+
+            <Separator />
+
+            {/* User Input */}
+            <div className="space-y-4">
+                <h3 className="text-sm font-medium text-muted-foreground">用户输入</h3>
+                <InputStepPanel
+                    inputStep={inputStep}
+                    onChange={onInputStepChange}
+                    screens={screens}
+                    currentScreenId={currentScreenId}
+                />
+            </div>
+
+            <Separator />
+
+            {/* Flow Variables */}
+            <div className="space-y-4">
+                <h3 className="text-sm font-medium text-muted-foreground">流程变量</h3>
+                <p className="text-[11px] text-muted-foreground">
+                    在消息、按钮文字和按钮链接中使用 {"{{变量名}}"}；预览模式显示示例值，生成的代码将变量作为函数参数。
+                </p>
+                {variables.map((variable, index) => (
+                    <div key={index} className="flex gap-2">
+                        <Input
+                            aria-label={`第${index + 1}个变量名`}
+                            placeholder="变量名"
+                            value={variable.name}
+                            onChange={(e) => onVariableChange(index, { name: e.target.value })}
+                            className="h-8 text-xs flex-1"
+                        />
+                        <select
+                            aria-label={`第${index + 1}个变量类型`}
+                            value={variable.type}
+                            onChange={(e) => onVariableChange(index, { type: e.target.value as FlowVariableType })}
+                            className="h-8 rounded border bg-background text-foreground text-xs px-2"
+                        >
+                            {FLOW_VARIABLE_TYPES.map((type) => (
+                                <option key={type} value={type}>{FLOW_VARIABLE_TYPE_LABELS[type]}</option>
+                            ))}
+                        </select>
+                        <Input
+                            aria-label={`第${index + 1}个变量示例值`}
+                            placeholder="示例值"
+                            value={variable.sample}
+                            onChange={(e) => onVariableChange(index, { sample: e.target.value })}
+                            className="h-8 text-xs flex-1"
+                        />
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 shrink-0"
+                            title="删除变量"
+                            onClick={() => onRemoveVariable(index)}
+                        >
+                            <Trash2 className="w-3 h-3" />
+                        </Button>
+                    </div>
+                ))}
+                <Button variant="outline" className="w-full h-8 text-xs" onClick={onAddVariable}>
+                    <Plus className="w-3 h-3 mr-2" /> 添加变量
+                </Button>
+                {[...variableErrors, ...undeclaredVariableErrors].map((error) => (
+                    <p key={error} className="text-[11px] text-destructive">{error}</p>
+                ))}
             </div>
 
             <Separator />
@@ -0,0 +1,293 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Copy, LogOut, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Workspace, WorkspaceInvite, WorkspaceMember, WorkspaceRole } from "@/types/telegram";
+import type { WorkspaceActions } from "@/hooks/chat/useWorkspaces";
+
+type MemberRole = Exclude<WorkspaceRole, "owner">;
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = { owner: "所有者", editor: "编辑者", viewer: "查看者" };
+
+const inviteLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+interface WorkspaceDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    userId: string | undefined;
+    workspaces: Workspace[];
+    actions: Pick<
+        WorkspaceActions,
+        | "createWorkspace"
+        | "fetchMembers"
+        | "updateMemberRole"
+        | "removeMember"
+        | "leaveWorkspace"
+        | "fetchInvites"
+        | "inviteMember"
+        | "revokeInvite"
+    >;
+}
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+/** Creates teams, lists members with their roles and manages invite links. Only owners change roles or invite. */
+export const WorkspaceDialog: React.FC<WorkspaceDialogProps> = ({ open, onOpenChange, userId, workspaces, actions }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [members, setMembers] = useState<WorkspaceMember[]>([]);
+    const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+    const [newName, setNewName] = useState("");
+    const [inviteEmail, setInviteEmail] = useState("");
+    const [inviteRole, setInviteRole] = useState<MemberRole>("editor");
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const selected = workspaces.find((workspace) => workspace.id === selectedId) ?? null;
+    const isOwner = selected?.role === "owner";
+
+    useEffect(() => {
+        if (!open) return;
+        setError(null);
+        setSelectedId((prev) => (prev && workspaces.some((workspace) => workspace.id === prev) ? prev : workspaces[0]?.id ?? null));
+    }, [open, workspaces]);
+
+    const { fetchMembers, fetchInvites } = actions;
+    const refresh = useCallback(async () => {
+        if (!selected) {
+            setMembers([]);
+            setInvites([]);
+            return;
+        }
+        try {
+            setMembers(await fetchMembers(selected.id));
+            setInvites(selected.role === "owner" ? await fetchInvites(selected.id) : []);
+        } catch (e) {
+            setError(errorMessage(e, "加载团队成员失败"));
+        }
+    }, [fetchInvites, fetchMembers, selected]);
+
+    useEffect(() => {
+        if (open) void refresh();
+    }, [open, refresh]);
+
+    const runAction = async (action: () => Promise<unknown>, fallback: string) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await action();
+            return true;
+        } catch (e) {
+            setError(errorMessage(e, fallback));
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleCreate = async (event: React.FormEvent) => {
+        event.preventDefault();
+        const created = await runAction(async () => {
+            const workspace = await actions.createWorkspace(newName);
+            setSelectedId(workspace.id);
+        }, "创建团队失败");
+        if (created) setNewName("");
+    };
+
+    const copyInviteLink = async (token: string) => {
+        try {
+            await navigator.clipboard.writeText(inviteLink(token));
+            toast.success("邀请链接已复制");
+        } catch (e) {
+            void e;
+            toast.error("复制失败，请手动复制链接");
+        }
+    };
+
+    const handleInvite = async (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!selected) return;
+        const invited = await runAction(async () => {
+            const invite = await actions.inviteMember(selected.id, { email: inviteEmail, role: inviteRole });
+            setInvites((prev) => [...prev, invite]);
+            await copyInviteLink(invite.token);
+        }, "邀请失败");
+        if (invited) setInviteEmail("");
+    };
+
+    const handleLeave = async () => {
+        if (!selected) return;
+        const left = await runAction(() => actions.leaveWorkspace(selected.id), "退出团队失败");
+        if (left) toast.success(`已退出团队：${selected.name}`);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[520px]">
+                <DialogHeader>
+                    <DialogTitle>团队成员</DialogTitle>
+                </DialogHeader>
+                <div className="grid gap-4 py-2">
+                    <form className="flex gap-2" onSubmit={handleCreate}>
+                        <Input
+                            aria-label="新团队名称"
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            placeholder="新团队名称"
+                        />
+                        <Button type="submit" variant="outline" disabled={busy}>
+                            创建团队
+                        </Button>
+                    </form>
+
+                    {workspaces.length > 0 ? (
+                        <Select value={selectedId ?? ""} onValueChange={setSelectedId}>
+                            <SelectTrigger aria-label="团队选择">
+                                <SelectValue placeholder="选择团队..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {workspaces.map((workspace) => (
+                                    <SelectItem key={workspace.id} value={workspace.id}>
+                                        {workspace.name} · {ROLE_LABELS[workspace.role]}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    ) : (
+                        <p className="text-xs text-muted-foreground">还没有团队。创建团队后，可在项目设置中把项目共享给团队。</p>
+                    )}
+
+                    {selected && (
+                        <>
+                            <Separator />
+                            <div className="space-y-2">
+                                <h3 className="text-sm font-medium text-muted-foreground">成员</h3>
+                                {members.map((member) => (
+                                    <div key={member.user_id} className="flex items-center gap-2 text-sm">
+                                        <span className="flex-1 truncate">
+                                            {member.email ?? member.user_id}
+                                            {member.user_id === userId ? "（我）" : ""}
+                                        </span>
+                                        {isOwner && member.role !== "owner" ? (
+                                            <>
+                                                <Select
+                                                    value={member.role}
+                                                    onValueChange={(role) =>
+                                                        void runAction(async () => {
+                                                            await actions.updateMemberRole(selected.id, member.user_id, role as MemberRole);
+                                                            await refresh();
+                                                        }, "更新角色失败")
+                                                    }
+                                                >
+                                                    <SelectTrigger className="w-28" aria-label={`${member.email ?? member.user_id} 的角色`}>
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        <SelectItem value="editor">编辑者</SelectItem>
+                                                        <SelectItem value="viewer">查看者</SelectItem>
+                                                    </SelectContent>
+                                                </Select>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    title="移除成员"
+                                                    aria-label={`移除 ${member.email ?? member.user_id}`}
+                                                    disabled={busy}
+                                                    onClick={() =>
+                                                        void runAction(async () => {
+                                                            await actions.removeMember(selected.id, member.user_id);
+                                                            await refresh();
+                                                        }, "移除成员失败")
+                                                    }
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </Button>
+                                            </>
+                                        ) : (
+                                            <span className="text-xs text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+
+                            {isOwner ? (
+                                <>
+                                    <form className="flex gap-2" onSubmit={handleInvite}>
+                                        <div className="grid flex-1 gap-1">
+                                            <Label htmlFor="workspace-invite-email" className="sr-only">
+                                                邀请邮箱
+                                            </Label>
+                                            <Input
+                                                id="workspace-invite-email"
+                                                type="email"
+                                                value={inviteEmail}
+                                                onChange={(e) => setInviteEmail(e.target.value)}
+                                                placeholder="成员邮箱"
+                                            />
+                                        </div>
+                                        <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as MemberRole)}>
+                                            <SelectTrigger className="w-28" aria-label="邀请角色">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="editor">编辑者</SelectItem>
+                                                <SelectItem value="viewer">查看者</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                        <Button type="submit" disabled={busy}>
+                                            邀请
+                                        </Button>
+                                    </form>
+                                    {invites.length > 0 && (
+                                        <div className="space-y-2">
+                                            <h3 className="text-sm font-medium text-muted-foreground">待接受的邀请</h3>
+                                            {invites.map((invite) => (
+                                                <div key={invite.id} className="flex items-center gap-2 text-sm">
+                                                    <span className="flex-1 truncate">
+                                                        {invite.email} · {ROLE_LABELS[invite.role]}
+                                                    </span>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        title="复制邀请链接"
+                                                        aria-label={`复制 ${invite.email} 的邀请链接`}
+                                                        onClick={() => void copyInviteLink(invite.token)}
+                                                    >
+                                                        <Copy className="w-4 h-4" />
+                                                    </Button>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        disabled={busy}
+                                                        onClick={() =>
+                                                            void runAction(async () => {
+                                                                await actions.revokeInvite(selected.id, invite.id);
+                                                                setInvites((prev) => prev.filter((item) => item.id !== invite.id));
+                                                            }, "撤销邀请失败")
+                                                        }
+                                                    >
+                                                        撤销
+                                                    </Button>
+                                                </div>
+                                            ))}
+                                            <p className="text-[11px] text-muted-foreground">邀请链接 7 天内有效，只能由受邀邮箱的账号接受。</p>
+                                        </div>
+                                    )}
+                                </>
+                            ) : (
+                                <Button variant="outline" className="justify-start" disabled={busy} onClick={() => void handleLeave()}>
+                                    <LogOut className="w-4 h-4 mr-2" /> 退出团队
+                                </Button>
+                            )}
+                        </>
+                    )}
+                    {error && <p className="text-xs text-destructive">{error}</p>}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -29,6 +29,8 @@ const baseProps = {
   isOffline: false,
   codegenFramework: "telegraf" as const,
   onCodegenFrameworkChange: () => {},
+  codegenScope: "screen" as const,
+  onCodegenScopeChange: () => {},
   codegenOutput: "",
   onCopyCodegen: () => {},
 };
@@ -1,7 +1,9 @@
 import React from "react";
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { render } from "@testing-library/react";
+import { fireEvent, render } from "@testing-library/react";
 import CenterCanvas from "../CenterCanvas";
+import type { MessageBubbleHandle } from "../../MessageBubble";
+import { buildPageKeyboard } from "@/lib/keyboard/pagination";
 
 const makeProps = () => ({
   messageContent: "Hello",
@@ -11,6 +13,7 @@ const makeProps = () => ({
   onParseModeChange: vi.fn(),
   messageType: "text" as const,
   mediaUrl: "",
+  mediaGroup: [],
   onMessageTypeChange: vi.fn(),
   onMediaUrlChange: vi.fn(),
   onButtonTextChange: vi.fn(),
@@ -98,4 +101,146 @@ describe("CenterCanvas", () => {
     expect(removeMediaListener).toHaveBeenCalledWith("change", addedMediaHandler);
     expect(removeWindowListener).toHaveBeenCalledWith("storage", addedStorageHandler);
   });
+
+  it("renders a mock link preview for the message's first link", () => {
+    const props = {
+      ...makeProps(),
+      messageBubbleRef: React.createRef<MessageBubbleHandle>(),
+      messageContent: "Read https://example.com/news",
+    };
+    const { getByTestId, queryByTestId, rerender } = render(<CenterCanvas {...props} />);
+    expect(getByTestId("link-preview-card").textContent).toContain("example.com");
+
+    rerender(<CenterCanvas {...props} linkPreviewOptions={{ is_disabled: true }} />);
+    expect(queryByTestId("link-preview-card")).toBeNull();
+
+    rerender(<CenterCanvas {...props} messageType="photo" mediaUrl="https://example.com/p.jpg" />);
+    expect(queryByTestId("link-preview-card")).toBeNull();
+  });
+
+  it("shows variable sample values in preview mode only", () => {
+    const props = {
+      ...makeProps(),
+      messageBubbleRef: React.createRef<MessageBubbleHandle>(),
+      messageContent: "Hi {{name}}",
+      keyboard: [{ id: "r1", buttons: [{ id: "b1", text: "Open {{name}}", callback_data: "open" }] }],
+      variables: [{ name: "name", type: "string" as const, sample: "Ann" }],
+    };
+    const { container, rerender } = render(<CenterCanvas {...props} isPreviewMode />);
+    expect(container.textContent).toContain("Hi Ann");
+    expect(container.textContent).toContain("Open Ann");
+
+    rerender(<CenterCanvas {...props} isPreviewMode={false} />);
+    expect(container.textContent).toContain("Hi {{name}}");
+    expect(container.textContent).not.toContain("Ann");
+  });
+
+  it("hides conditional buttons in preview and re-evaluates them from the variable simulator", () => {
+    const props = {
+      ...makeProps(),
+      messageBubbleRef: React.createRef<MessageBubbleHandle>(),
+      messageContent: "Hi {{name}}",
+      keyboard: [
+        {
+          id: "r1",
+          buttons: [
+            { id: "b1", text: "Shop", callback_data: "shop" },
+            { id: "b2", text: "Admin", callback_data: "admin", visible_if: "is_admin" },
+          ],
+        },
+      ],
+      variables: [
+        { name: "is_admin", type: "boolean" as const, sample: "false" },
+        { name: "name", type: "string" as const, sample: "Ann" },
+      ],
+    };
+    const { container, getByTestId, getByLabelText, getByText, rerender } = render(<CenterCanvas {...props} isPreviewMode />);
+    expect(container.textContent).toContain("Shop");
+    expect(container.textContent).not.toContain("Admin");
+
+    fireEvent.click(getByLabelText("is_admin"));
+    expect(container.textContent).toContain("Admin");
+    fireEvent.change(getByLabelText("name"), { target: { value: "Bob" } });
+    expect(container.textContent).toContain("Hi Bob");
+
+    fireEvent.click(getByText("重置为示例值"));
+    expect(container.textContent).not.toContain("Admin");
+    expect(getByTestId("variable-simulator").textContent).toContain("变量模拟器");
+
+    rerender(<CenterCanvas {...props} isPreviewMode={false} />);
+    expect(container.textContent).toContain("Admin");
+    expect(container.querySelector('[data-testid="variable-simulator"]')).toBeNull();
+    expect(getByTestId("button-condition-badge").getAttribute("title")).toBe("显示条件：is_admin");
+  });
+
+  it("pages a dynamic paginated keyboard in preview without leaving the screen", () => {
+    const pagination = { items: ["Apple", "Pear", "Plum"].map((text) => ({ text })), page_size: 2, columns: 2 };
+    const props = {
+      ...makeProps(),
+      messageBubbleRef: React.createRef<MessageBubbleHandle>(),
+      keyboard: buildPageKeyboard(pagination, 1),
+      pagination,
+    };
+    const { container, getByText } = render(<CenterCanvas {...props} isPreviewMode />);
+    expect(container.textContent).toContain("Pear");
+
+    fireEvent.click(getByText("▶"));
+    expect(container.textContent).toContain("Plum");
+    expect(container.textContent).toContain("2/2");
+    expect(container.textContent).not.toContain("Pear");
+
+    fireEvent.click(getByText("2/2"));
+    fireEvent.click(getByText("◀"));
+    expect(container.textContent).toContain("1/2");
+    expect(props.onButtonClick).not.toHaveBeenCalled();
+  });
+
+  it("simulates replies to an input step in preview", () => {
+    const props = {
+      ...makeProps(),
+      messageBubbleRef: React.createRef<MessageBubbleHandle>(),
+      inputStep: { expect: "number" as const, retry_message: "Numbers only", next_screen_id: "s2" },
+      onInputAccepted: vi.fn(),
+    };
+    const { container, getByLabelText, getByTitle, rerender } = render(<CenterCanvas {...props} isPreviewMode />);
+    const reply = getByLabelText("模拟回复");
+
+    fireEvent.change(reply, { target: { value: "abc" } });
+    fireEvent.click(getByTitle("发送"));
+    expect(container.textContent).toContain("Numbers only");
+    expect(props.onInputAccepted).not.toHaveBeenCalled();
+
+    fireEvent.change(reply, { target: { value: "42" } });
+    fireEvent.click(getByTitle("发送"));
+    expect(props.onInputAccepted).toHaveBeenCalledWith("s2");
+
+    rerender(<CenterCanvas {...props} isPreviewMode={false} />);
+    expect(container.querySelector('[data-testid="input-reply-box"]')).toBeNull();
+  });
+
+  it("offers to load or keep versions when the screen changed elsewhere", () => {
+    const onLoadRemoteVersion = vi.fn();
+    const onDismissRemoteConflict = vi.fn();
+    const props = {
+      ...makeProps(),
+      messageBubbleRef: React.createRef<MessageBubbleHandle>(),
+      onLoadRemoteVersion,
+      onDismissRemoteConflict,
+    };
+    const { getByRole, queryByRole, rerender } = render(
+      <CenterCanvas {...props} remoteConflict={{ screenId: "s1", kind: "updated" }} />,
+    );
+    expect(getByRole("alert").textContent).toContain("其他成员或标签页更新了此模版");
+    fireEvent.click(getByRole("button", { name: "载入最新版本" }));
+    fireEvent.click(getByRole("button", { name: "保留我的版本" }));
+    expect(onLoadRemoteVersion).toHaveBeenCalledTimes(1);
+    expect(onDismissRemoteConflict).toHaveBeenCalledTimes(1);
+
+    rerender(<CenterCanvas {...props} remoteConflict={{ screenId: "s1", kind: "deleted" }} />);
+    expect(queryByRole("button", { name: "载入最新版本" })).toBeNull();
+    expect(getByRole("button", { name: "知道了" })).toBeTruthy();
+
+    rerender(<CenterCanvas {...props} remoteConflict={null} />);
+    expect(queryByRole("alert")).toBeNull();
+  });
 });
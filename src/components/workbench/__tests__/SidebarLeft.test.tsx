@@ -1,4 +1,4 @@
-import { render, screen, fireEvent } from "@testing-library/react";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { describe, it, expect, vi } from "vitest";
 import { SidebarLeft } from "../SidebarLeft";
 import type { ComponentProps } from "react";
@@ -13,6 +13,21 @@ const baseScreen: Screen = {
 
 const buildProps = (overrides?: Partial<ComponentProps<typeof SidebarLeft>>) => ({
   user: null,
+  projects: [],
+  activeProjectId: null,
+  activeProjectRole: null,
+  workspaces: [],
+  workspaceActions: {
+    createWorkspace: vi.fn(),
+    fetchMembers: vi.fn().mockResolvedValue([]),
+    updateMemberRole: vi.fn(),
+    removeMember: vi.fn(),
+    leaveWorkspace: vi.fn(),
+    fetchInvites: vi.fn().mockResolvedValue([]),
+    inviteMember: vi.fn(),
+    revokeInvite: vi.fn(),
+  },
+  viewers: [],
   screens: [baseScreen],
   currentScreenId: undefined,
   entryScreenId: null,
@@ -23,6 +38,9 @@ const buildProps = (overrides?: Partial<ComponentProps<typeof SidebarLeft>>) =>
   hasUnsavedChanges: false,
   isOffline: false,
   onLogout: vi.fn(),
+  onSelectProject: vi.fn(),
+  onCreateProject: vi.fn(),
+  onUpdateProject: vi.fn(),
   onLoadScreen: vi.fn(),
   onNewScreen: vi.fn(),
   onSaveScreen: vi.fn(),
@@ -61,4 +79,73 @@ describe("SidebarLeft", () => {
     expect(props.onUpdateScreen).toHaveBeenCalledTimes(1);
     expect(props.onSaveScreen).not.toHaveBeenCalled();
   });
+
+  it("creates a project from the project dialog", async () => {
+    const onCreateProject = vi.fn().mockResolvedValue(undefined);
+    const props = buildProps({ onCreateProject });
+    render(<SidebarLeft {...props} />);
+
+    expect((screen.getByRole("button", { name: "项目设置" }) as HTMLButtonElement).disabled).toBe(true);
+    fireEvent.click(screen.getByRole("button", { name: "新建项目" }));
+    fireEvent.change(screen.getByLabelText("项目名称"), { target: { value: "Shop" } });
+    fireEvent.change(screen.getByLabelText("机器人用户名"), { target: { value: "@shop_bot" } });
+    fireEvent.click(screen.getByRole("button", { name: "创建" }));
+
+    await waitFor(() => expect(screen.queryByLabelText("项目名称")).toBeNull());
+    expect(onCreateProject).toHaveBeenCalledWith({ name: "Shop", bot_username: "@shop_bot", default_parse_mode: "HTML", workspace_id: null });
+  });
+
+  it("edits the active project and shows save errors in the dialog", async () => {
+    const onUpdateProject = vi.fn().mockRejectedValue(new Error("项目验证失败: 项目名称不能为空"));
+    const project = { id: "p1", name: "Shop", bot_username: "shop_bot", default_parse_mode: "MarkdownV2" as const, entry_screen_id: null };
+    const props = buildProps({ projects: [project], activeProjectId: "p1", onUpdateProject });
+    render(<SidebarLeft {...props} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "项目设置" }));
+    expect((screen.getByLabelText("机器人用户名") as HTMLInputElement).value).toBe("@shop_bot");
+    fireEvent.change(screen.getByLabelText("项目名称"), { target: { value: "" } });
+    fireEvent.click(screen.getByRole("button", { name: "保存" }));
+
+    await screen.findByText("项目验证失败: 项目名称不能为空");
+    expect(onUpdateProject).toHaveBeenCalledWith("p1", { name: "", bot_username: "@shop_bot", default_parse_mode: "MarkdownV2", workspace_id: null });
+  });
+
+  it("marks read-only projects and lists team members", async () => {
+    const fetchMembers = vi.fn().mockResolvedValue([
+      { workspace_id: "w1", user_id: "user-2", email: "owner@example.com", role: "owner" },
+      { workspace_id: "w1", user_id: "user-1", email: "me@example.com", role: "viewer" },
+    ]);
+    const props = buildProps({
+      user: { id: "user-1" } as never,
+      activeProjectRole: "viewer",
+      workspaces: [{ id: "w1", name: "Design", owner_id: "user-2", role: "viewer" }],
+    });
+    props.workspaceActions.fetchMembers = fetchMembers;
+    render(<SidebarLeft {...props} />);
+
+    expect(screen.getByText("只读")).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "团队成员" }));
+
+    await screen.findByText("me@example.com（我）");
+    expect(fetchMembers).toHaveBeenCalledWith("w1");
+    expect(props.workspaceActions.fetchInvites).not.toHaveBeenCalled();
+    expect(screen.getByRole("button", { name: "退出团队" })).toBeTruthy();
+  });
+
+  it("shows who else is viewing which screen", () => {
+    render(
+      <SidebarLeft
+        {...buildProps({
+          user: { id: "user-1" } as never,
+          viewers: [
+            { tab_id: "t1", user_id: "user-2", email: "ann@example.com", screen_id: "screen-1", online_at: "2026-10-19T08:00:00Z" },
+            { tab_id: "t2", user_id: "user-1", email: "me@example.com", screen_id: null, online_at: "2026-10-19T08:01:00Z" },
+          ],
+        })}
+      />,
+    );
+
+    expect(screen.getByTitle("ann@example.com 正在查看：模版 A").textContent).toBe("AN");
+    expect(screen.getByTitle("我（另一个标签页） 正在查看：未保存的新模版")).toBeTruthy();
+  });
 });
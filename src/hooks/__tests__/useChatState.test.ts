@@ -53,7 +53,7 @@ describe("useChatState", () => {
     const payload = result.current.convertToTelegramFormat();
     if ("photo" in payload) {
       expect(payload.photo).toBe("https://example.com/photo.jpg");
-      expect(payload.caption).toContain("**bold**");
+      expect(payload.caption).toBe("*bold*");
       expect(payload.parse_mode).toBe("MarkdownV2");
     } else {
       throw new Error("Expected photo payload");
@@ -103,6 +103,45 @@ describe("useChatState", () => {
     });
   });
 
+  it("loads legacy screens whose URL buttons also link a screen", () => {
+    const { result } = renderHook(() => useChatState());
+    const keyboard = [{ id: "r1", buttons: [{ id: "b1", text: "Site", url: "https://example.com", linked_screen_id: "s2" }] }];
+
+    act(() => {
+      const res = result.current.loadTemplate({ message_content: "Legacy", keyboard });
+      expect(res.ok).toBe(true);
+    });
+    expect(result.current.keyboard[0].buttons[0]).toEqual({ id: "b1", text: "Site", url: "https://example.com" });
+  });
+
+  it("loads media group templates and keeps albums in the serialized payload", () => {
+    const { result } = renderHook(() => useChatState());
+    const media_group = [
+      { type: "photo" as const, media: "https://example.com/1.jpg", caption: "One" },
+      { type: "photo" as const, media: "https://example.com/2.jpg" },
+    ];
+
+    act(() => {
+      const res = result.current.loadTemplate({ message_content: "Album", keyboard: [], message_type: "media_group", media_group });
+      expect(res.ok).toBe(true);
+    });
+    expect(result.current.messageType).toBe("media_group");
+    expect(JSON.parse(result.current.editableJSON).media_group).toHaveLength(2);
+
+    const serialized = result.current.serializeMessagePayload();
+    expect(JSON.parse(serialized).media_group).toEqual(media_group);
+
+    act(() => result.current.loadMessagePayload("plain"));
+    expect(result.current.mediaGroup).toEqual([]);
+    act(() => result.current.loadMessagePayload(serialized));
+    expect(result.current.mediaGroup).toEqual(media_group);
+
+    act(() => {
+      const res = result.current.loadTemplate({ message_content: "Album", keyboard: [], message_type: "media_group", media_group: [] });
+      expect((res as { ok: false; error: string }).error).toMatch(/媒体组至少需要2个媒体/);
+    });
+  });
+
   it("tracks history and supports undo/redo", () => {
     const { result } = renderHook(() => useChatState());
 
@@ -138,4 +177,109 @@ describe("useChatState", () => {
     expect(result.current.messageContent).toBe("Second change");
     expect(result.current.keyboard[0].buttons[0].text).toBe("B");
   });
+
+  it("exports reply keyboards and round-trips the keyboard kind through the serialized payload", async () => {
+    const { result } = renderHook(() => useChatState());
+
+    act(() => {
+      result.current.setMessageContent("Main menu");
+      result.current.setKeyboard([
+        { id: "row-1", buttons: [{ id: "btn-1", text: "Orders" }, { id: "btn-2", text: "Help" }] },
+      ]);
+      result.current.setKeyboardKind("reply");
+      result.current.setReplyKeyboardOptions({ resize_keyboard: true, is_persistent: true, input_field_placeholder: "Choose" });
+    });
+
+    await waitFor(() => {
+      expect(JSON.parse(result.current.editableJSON).reply_markup).toEqual({
+        keyboard: [[{ text: "Orders" }, { text: "Help" }]],
+        resize_keyboard: true,
+        is_persistent: true,
+        input_field_placeholder: "Choose",
+      });
+    });
+
+    const serialized = result.current.serializeMessagePayload();
+    expect(JSON.parse(serialized)).toMatchObject({ keyboard_kind: "reply", reply_keyboard_options: { resize_keyboard: true } });
+
+    act(() => {
+      result.current.loadMessagePayload("plain text");
+    });
+    expect(result.current.keyboardKind).toBe("inline");
+    expect(result.current.replyKeyboardOptions).toEqual({});
+
+    act(() => {
+      result.current.loadMessagePayload(serialized);
+    });
+    expect(result.current.keyboardKind).toBe("reply");
+    expect(result.current.replyKeyboardOptions.input_field_placeholder).toBe("Choose");
+
+    const malformed = JSON.parse(serialized);
+    for (const input_field_placeholder of [42, "x".repeat(65)]) {
+      act(() => {
+        result.current.loadMessagePayload(JSON.stringify({ ...malformed, reply_keyboard_options: { input_field_placeholder } }));
+      });
+      expect(result.current.keyboardKind).toBe("reply");
+      expect(result.current.replyKeyboardOptions).toEqual({});
+    }
+  });
+
+  it("exports ForceReply markups for templates even without buttons", async () => {
+    const { result } = renderHook(() => useChatState());
+
+    act(() => {
+      const res = result.current.loadTemplate({
+        message_content: "What is your name?",
+        keyboard: [],
+        keyboard_kind: "force_reply",
+        reply_keyboard_options: { input_field_placeholder: "Name", resize_keyboard: true },
+      });
+      expect(res.ok).toBe(true);
+    });
+
+    await waitFor(() => {
+      expect(JSON.parse(result.current.editableJSON).reply_markup).toEqual({
+        force_reply: true,
+        input_field_placeholder: "Name",
+      });
+    });
+  });
+
+  it("exports link preview options and keeps them in the serialized payload", async () => {
+    const { result } = renderHook(() => useChatState());
+
+    act(() => {
+      result.current.setMessageContent("Docs: https://core.telegram.org/bots/api");
+      result.current.setLinkPreviewOptions({ prefer_large_media: true, show_above_text: true, url: " " });
+    });
+
+    await waitFor(() => {
+      expect(JSON.parse(result.current.editableJSON).link_preview_options).toEqual({
+        prefer_large_media: true,
+        show_above_text: true,
+      });
+    });
+
+    const serialized = result.current.serializeMessagePayload();
+    expect(JSON.parse(serialized).link_preview_options).toEqual({ prefer_large_media: true, show_above_text: true });
+
+    act(() => {
+      result.current.loadMessagePayload("plain text");
+    });
+    expect(result.current.linkPreviewOptions).toEqual({});
+
+    act(() => {
+      result.current.loadMessagePayload(serialized);
+    });
+    expect(result.current.linkPreviewOptions.show_above_text).toBe(true);
+
+    act(() => {
+      const res = result.current.loadTemplate({
+        message_content: "Hi",
+        keyboard: [],
+        link_preview_options: { prefer_small_media: true, prefer_large_media: true },
+      });
+      expect(res).toEqual({ ok: false, error: "链接预览验证失败: 预览不能同时使用小图和大图" });
+    });
+  });
 });
@@ -0,0 +1,338 @@
+import { renderHook, act } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import { useCodegen } from "../chat/useCodegen";
+import type { ReplyMarkup } from "@/lib/keyboard/replyMarkup";
+
+vi.mock("sonner", () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const render = (reply_markup?: ReplyMarkup) => {
+  const convert = () => ({ text: "Menu", parse_mode: "HTML", reply_markup });
+  return renderHook(() => useCodegen(convert));
+};
+
+describe("useCodegen", () => {
+  it("emits inline keyboards for every framework", () => {
+    const { result } = render({ inline_keyboard: [[{ text: "Go", callback_data: "go" }]] });
+    expect(result.current.codegenOutput).toContain('InlineKeyboardMarkup([\n    [InlineKeyboardButton(text="Go", callback_data="go")]\n    ])');
+
+    act(() => result.current.setCodegenFramework("aiogram"));
+    expect(result.current.codegenOutput).toContain("InlineKeyboardMarkup(inline_keyboard=[");
+
+    act(() => result.current.setCodegenFramework("telegraf"));
+    expect(result.current.codegenOutput).toContain('Markup.button.callback("Go", "go")');
+  });
+
+  it("emits reply keyboards with their options", () => {
+    const { result } = render({
+      keyboard: [[{ text: "Orders" }, { text: "Help" }]],
+      resize_keyboard: true,
+      one_time_keyboard: true,
+      input_field_placeholder: "Choose",
+    });
+    expect(result.current.codegenOutput).toContain("from telegram import Update, KeyboardButton, ReplyKeyboardMarkup");
+    expect(result.current.codegenOutput).toContain(
+      'ReplyKeyboardMarkup([\n    [KeyboardButton(text="Orders"), KeyboardButton(text="Help")]\n    ], resize_keyboard=True, one_time_keyboard=True, input_field_placeholder="Choose")',
+    );
+
+    act(() => result.current.setCodegenFramework("aiogram"));
+    expect(result.current.codegenOutput).toContain("ReplyKeyboardMarkup(keyboard=[");
+    expect(result.current.codegenOutput).toContain("from aiogram.types import KeyboardButton, ReplyKeyboardMarkup, Message, CallbackQuery");
+
+    act(() => result.current.setCodegenFramework("telegraf"));
+    expect(result.current.codegenOutput).toContain('Markup.keyboard([\n    ["Orders", "Help"]\n  ]).resize().oneTime().placeholder("Choose")');
+  });
+
+  it("emits ReplyKeyboardRemove and ForceReply markups", () => {
+    const remove = render({ remove_keyboard: true, selective: true });
+    expect(remove.result.current.codegenOutput).toContain("markup = ReplyKeyboardRemove(selective=True)");
+    act(() => remove.result.current.setCodegenFramework("telegraf"));
+    expect(remove.result.current.codegenOutput).toContain("Markup.removeKeyboard().selective()");
+
+    const force = render({ force_reply: true, input_field_placeholder: "Name" });
+    act(() => force.result.current.setCodegenFramework("aiogram"));
+    expect(force.result.current.codegenOutput).toContain('kb = ForceReply(input_field_placeholder="Name")');
+    act(() => force.result.current.setCodegenFramework("telegraf"));
+    expect(force.result.current.codegenOutput).toContain('Markup.forceReply().placeholder("Name")');
+  });
+
+  it("emits every inline button kind with its imports", () => {
+    const { result } = render({
+      inline_keyboard: [
+        [{ text: "Pay", pay: true }],
+        [
+          { text: "App", web_app: { url: "https://app.example.com" } },
+          { text: "Login", login_url: { url: "https://example.com/login", request_write_access: true } },
+        ],
+        [
+          { text: "Share", switch_inline_query: "" },
+          { text: "Here", switch_inline_query_current_chat: "q" },
+          { text: "Pick", switch_inline_query_chosen_chat: { query: "x", allow_group_chats: true } },
+          { text: "Copy", copy_text: { text: "CODE" } },
+        ],
+      ],
+    });
+    const ptb = result.current.codegenOutput;
+    expect(ptb).toContain(
+      "from telegram import Update, InlineKeyboardButton, InlineKeyboardMarkup, WebAppInfo, LoginUrl, SwitchInlineQueryChosenChat, CopyTextButton"
+    );
+    expect(ptb).toContain('InlineKeyboardButton(text="Pay", pay=True)');
+    expect(ptb).toContain('web_app=WebAppInfo(url="https://app.example.com")');
+    expect(ptb).toContain('login_url=LoginUrl(url="https://example.com/login", request_write_access=True)');
+    expect(ptb).toContain('switch_inline_query=""');
+    expect(ptb).toContain('switch_inline_query_current_chat="q"');
+    expect(ptb).toContain('SwitchInlineQueryChosenChat(query="x", allow_group_chats=True)');
+    expect(ptb).toContain('copy_text=CopyTextButton(text="CODE")');
+
+    act(() => result.current.setCodegenFramework("telegraf"));
+    const telegraf = result.current.codegenOutput;
+    expect(telegraf).toContain('Markup.button.pay("Pay")');
+    expect(telegraf).toContain('Markup.button.webApp("App", "https://app.example.com")');
+    expect(telegraf).toContain('Markup.button.login("Login", "https://example.com/login", {"request_write_access":true})');
+    expect(telegraf).toContain('Markup.button.switchToChat("Share", "")');
+    expect(telegraf).toContain('Markup.button.switchToCurrentChat("Here", "q")');
+    expect(telegraf).toContain('{ text: "Copy", copy_text: {"text":"CODE"} }');
+  });
+
+  it("emits callback_game buttons and reply web_app buttons", () => {
+    const game = render({ inline_keyboard: [[{ text: "Play", callback_game: {} }]] });
+    act(() => game.result.current.setCodegenFramework("aiogram"));
+    expect(game.result.current.codegenOutput).toContain('InlineKeyboardButton(text="Play", callback_game=CallbackGame())');
+    expect(game.result.current.codegenOutput).toContain("InlineKeyboardMarkup, CallbackGame, Message");
+
+    const reply = render({ keyboard: [[{ text: "Open", web_app: { url: "https://app.example.com" } }]] });
+    expect(reply.result.current.codegenOutput).toContain(
+      'KeyboardButton(text="Open", web_app=WebAppInfo(url="https://app.example.com"))'
+    );
+    act(() => reply.result.current.setCodegenFramework("telegraf"));
+    expect(reply.result.current.codegenOutput).toContain('Markup.button.webApp("Open", "https://app.example.com")');
+  });
+
+  it("switches to whole-bot output for the flow scope", () => {
+    const convert = () => ({ text: "Menu", parse_mode: "HTML" });
+    const flow = {
+      screens: [
+        {
+          id: "home",
+          name: "Home",
+          state: {
+            text: "Hi",
+            parseMode: "HTML" as const,
+            messageType: "text" as const,
+            mediaUrl: "",
+            mediaGroup: [],
+            keyboard: [],
+            keyboardKind: "inline" as const,
+            replyKeyboardOptions: {},
+            linkPreviewOptions: {},
+          },
+        },
+      ],
+      entryScreenId: "home",
+    };
+    const { result } = renderHook(() => useCodegen(convert, flow));
+    expect(result.current.codegenOutput).toContain('await update.message.reply_text("Menu"');
+
+    act(() => result.current.setCodegenScope("flow"));
+    expect(result.current.codegenOutput).toContain("async def screen_1(");
+    expect(result.current.codegenOutput).toContain('    "home": screen_1,');
+  });
+
+  it("emits grammY builders with per-callback handlers", () => {
+    const { result } = render({
+      inline_keyboard: [
+        [{ text: "Go", callback_data: "go" }, { text: "Site", url: "https://example.com" }],
+        [{ text: "Copy", copy_text: { text: "CODE" } }],
+      ],
+    });
+    act(() => result.current.setCodegenFramework("grammy"));
+    const code = result.current.codegenOutput;
+    expect(code).toContain('import { Bot, InlineKeyboard } from "grammy";');
+    expect(code).toContain('new InlineKeyboard()\n    .text("Go", "go").url("Site", "https://example.com").row()\n    .copyText("Copy", "CODE")');
+    expect(code).toContain('bot.callbackQuery("go", async (ctx) => {');
+    expect(code).toContain('await ctx.reply("Menu", { parse_mode: "HTML", reply_markup: keyboard });');
+
+    const reply = render({ keyboard: [[{ text: "Orders" }]], resize_keyboard: true, selective: true });
+    act(() => reply.result.current.setCodegenFramework("grammy"));
+    expect(reply.result.current.codegenOutput).toContain('new Keyboard()\n    .text("Orders").resized().selected()');
+  });
+
+  it("emits raw reply_markup objects for node-telegram-bot-api", () => {
+    const { result } = render({ inline_keyboard: [[{ text: "Go", callback_data: "go" }]] });
+    act(() => result.current.setCodegenFramework("node-telegram-bot-api"));
+    const code = result.current.codegenOutput;
+    expect(code).toContain('const bot = new TelegramBot(process.env.BOT_TOKEN, { polling: true });');
+    expect(code).toContain('inline_keyboard: [\n      [{ text: "Go", callback_data: "go" }],\n    ]');
+    expect(code).toContain('bot.sendMessage(msg.chat.id, "Menu", { parse_mode: "HTML", reply_markup });');
+
+    const remove = render({ remove_keyboard: true });
+    act(() => remove.result.current.setCodegenFramework("node-telegram-bot-api"));
+    expect(remove.result.current.codegenOutput).toContain("const reply_markup = {\n    remove_keyboard: true,\n  };");
+  });
+
+  it("registers telegram-callback-factory routes for Telegraf and grammY", () => {
+    const { result } = render({
+      inline_keyboard: [[{ text: "Open", callback_data: "menu:open:eyJ0YWIiOiJ3In0::abc" }, { text: "Go", callback_data: "go" }]],
+    });
+    act(() => result.current.setCodegenFramework("telegraf"));
+    const telegraf = result.current.codegenOutput;
+    expect(telegraf).toContain('const { createCallbackManager } = require("telegram-callback-factory");\nconst bot = new Telegraf(process.env.BOT_TOKEN);\nconst cbx = createCallbackManager();');
+    expect(telegraf).toContain('cbx.router.on("menu", "open", async (parsed, ctx) => {\n  await ctx.answerCbQuery(');
+    expect(telegraf).toContain("bot.action(/^(?:menu):/, async (ctx, next) => {\n  const parsed = cbx.parse(ctx.callbackQuery.data);");
+    expect(telegraf).toContain('await ctx.answerCbQuery("操作已过期", { show_alert: true });');
+    expect(telegraf).toContain('await ctx.answerCbQuery("请勿重复点击");');
+    expect(telegraf).not.toContain("answerCallbackQuery");
+
+    act(() => result.current.setCodegenFramework("grammy"));
+    const grammy = result.current.codegenOutput;
+    expect(grammy).toContain('import { Bot, Context, InlineKeyboard } from "grammy";\nimport { createCallbackManager } from "telegram-callback-factory";');
+    expect(grammy).toContain("bot.callbackQuery(/^(?:menu):/, async (ctx, next) => {");
+    expect(grammy).toContain('bot.callbackQuery("go", async (ctx) => {');
+    expect(grammy).not.toContain('bot.callbackQuery("menu:open');
+
+    act(() => result.current.setCodegenFramework("node-telegram-bot-api"));
+    expect(result.current.codegenOutput).not.toContain("createCallbackManager");
+  });
+
+  it("sends documents, video notes and albums in every framework", () => {
+    const document = renderHook(() =>
+      useCodegen(() => ({ document: "https://x.y/a.pdf", caption: "Menu", parse_mode: "HTML" })),
+    );
+    expect(document.result.current.codegenOutput).toContain(
+      'await update.message.reply_document("https://x.y/a.pdf", caption="Menu", parse_mode="HTML", reply_markup=markup)',
+    );
+    act(() => document.result.current.setCodegenFramework("telegraf"));
+    expect(document.result.current.codegenOutput).toContain(
+      'ctx.replyWithDocument("https://x.y/a.pdf", { caption: "Menu", parse_mode: "HTML", reply_markup: keyboard.reply_markup });',
+    );
+
+    const note = renderHook(() => useCodegen(() => ({ video_note: "https://x.y/n.mp4", parse_mode: "HTML" })));
+    act(() => note.result.current.setCodegenFramework("node-telegram-bot-api"));
+    expect(note.result.current.codegenOutput).toContain('bot.sendVideoNote(msg.chat.id, "https://x.y/n.mp4", { reply_markup });');
+
+    const album = renderHook(() =>
+      useCodegen(() => ({
+        media_group: [
+          { type: "photo" as const, media: "https://x.y/1.jpg", caption: "<b>1</b>", parse_mode: "HTML" as const },
+          { type: "video" as const, media: "https://x.y/2.mp4" },
+        ],
+        text: "Menu",
+        parse_mode: "HTML",
+      })),
+    );
+    expect(album.result.current.codegenOutput).toContain("from telegram import Update, InlineKeyboardButton, InlineKeyboardMarkup, InputMediaPhoto, InputMediaVideo");
+    expect(album.result.current.codegenOutput).toContain(
+      'await update.message.reply_media_group([InputMediaPhoto(media="https://x.y/1.jpg", caption="<b>1</b>", parse_mode="HTML"), InputMediaVideo(media="https://x.y/2.mp4")])\n    await update.message.reply_text("Menu"',
+    );
+    act(() => album.result.current.setCodegenFramework("aiogram"));
+    expect(album.result.current.codegenOutput).toContain("await message.answer_media_group([InputMediaPhoto(");
+    act(() => album.result.current.setCodegenFramework("grammy"));
+    expect(album.result.current.codegenOutput).toContain(
+      'await ctx.replyWithMediaGroup([{ type: "photo", media: "https://x.y/1.jpg", caption: "<b>1</b>", parse_mode: "HTML" }, { type: "video", media: "https://x.y/2.mp4" }]);\n  await ctx.reply("Menu"',
+    );
+    act(() => album.result.current.setCodegenFramework("telegraf"));
+    expect(album.result.current.codegenOutput).toContain('ctx.replyWithMediaGroup([{ type: "photo"');
+    expect(album.result.current.codegenOutput).toContain(']).then(() => ctx.reply("Menu", { parse_mode: "HTML", reply_markup: keyboard.reply_markup }));');
+  });
+
+  it("passes declared variables to the /start handler", () => {
+    const flow = { screens: [], entryScreenId: null, variables: [{ name: "name", type: "string" as const, sample: "Ann" }] };
+    const convert = () => ({
+      text: "Hi <b>{{name}}</b> {{other}}",
+      parse_mode: "HTML",
+      reply_markup: { inline_keyboard: [[{ text: "Open {{name}}", url: "https://x.y/{{name}}" }]] },
+    });
+    const { result } = renderHook(() => useCodegen(convert, flow));
+    expect(result.current.codegenOutput).toContain(
+      'async def start(update: Update, context: ContextTypes.DEFAULT_TYPE, *, name: str = "Ann"):',
+    );
+    expect(result.current.codegenOutput).toContain(
+      'await update.message.reply_text(f"Hi <b>{escape_html(name)}</b> {{{{other}}}}", parse_mode="HTML", reply_markup=markup)',
+    );
+    expect(result.current.codegenOutput).toContain("def escape_html(value) -> str:\n");
+
+    act(() => result.current.setCodegenFramework("grammy"));
+    expect(result.current.codegenOutput).toContain("import { Bot, Context, InlineKeyboard } from \"grammy\";");
+    expect(result.current.codegenOutput).toContain(
+      'async function sendStart(ctx: Context, { name = "Ann" }: { name?: string } = {}) {\n  const keyboard = new InlineKeyboard()',
+    );
+    expect(result.current.codegenOutput).toContain(".url(`Open ${name}`, `https://x.y/${name}`)");
+    expect(result.current.codegenOutput).toContain('bot.command("start", (ctx) => sendStart(ctx));');
+
+    act(() => result.current.setCodegenFramework("node-telegram-bot-api"));
+    expect(result.current.codegenOutput).toContain("bot.onText(/^\\/start/, (msg) => sendStart(msg));");
+    expect(result.current.codegenOutput).toContain("bot.sendMessage(msg.chat.id, `Hi <b>${escapeHtml(name)}</b> {{other}}`");
+  });
+
+  it("does not turn reserved variable names into /start parameters", () => {
+    const flow = {
+      screens: [],
+      entryScreenId: null,
+      variables: [
+        { name: "update", type: "string" as const, sample: "x" },
+        { name: "default", type: "string" as const, sample: "y" },
+      ],
+    };
+    const convert = () => ({ text: "Hi {{update}} {{default}}", parse_mode: "HTML" });
+    const { result } = renderHook(() => useCodegen(convert, flow));
+    expect(result.current.codegenOutput).toContain("async def start(update: Update, context: ContextTypes.DEFAULT_TYPE):");
+    expect(result.current.codegenOutput).not.toContain('update: str = "x"');
+
+    act(() => result.current.setCodegenFramework("grammy"));
+    expect(result.current.codegenOutput).not.toContain("sendStart");
+    expect(result.current.codegenOutput).not.toContain('default = "y"');
+  });
+
+  it("builds keyboards with conditional buttons in the /start handler", () => {
+    const flow = { screens: [], entryScreenId: null, variables: [{ name: "vip", type: "boolean" as const, sample: "true" }] };
+    const convert = () => ({
+      text: "Menu",
+      parse_mode: "HTML",
+      reply_markup: { inline_keyboard: [[{ text: "Go", callback_data: "go" }, { text: "Lounge", callback_data: "lounge" }]] },
+      button_conditions: [[null, "vip"]],
+    });
+    const { result } = renderHook(() => useCodegen(convert, flow));
+    expect(result.current.codegenOutput).toContain("async def start(update: Update, context: ContextTypes.DEFAULT_TYPE, *, vip: bool = True):");
+    expect(result.current.codegenOutput).toContain('    if vip:\n        row.append(InlineKeyboardButton(text="Lounge", callback_data="lounge"))');
+
+    act(() => result.current.setCodegenFramework("telegraf"));
+    expect(result.current.codegenOutput).toContain(
+      'async function sendStart(ctx, { vip = true } = {}) {\n  const rows = [];\n  const row1 = [Markup.button.callback("Go", "go")];\n  if (vip) row1.push(Markup.button.callback("Lounge", "lounge"));',
+    );
+    expect(result.current.codegenOutput).toContain("  const keyboard = Markup.inlineKeyboard(rows);");
+  });
+
+  it("builds dynamic paginated keyboards page by page", () => {
+    const pagination = { items: [{ text: "Apple", callback_data: "buy_apple" }, { text: "Pear" }, { text: "Plum" }], page_size: 2, columns: 1 };
+    const convert = () => ({
+      text: "Catalog",
+      parse_mode: "HTML",
+      reply_markup: { inline_keyboard: [[{ text: "Apple", callback_data: "buy_apple" }], [{ text: "1/2", callback_data: "noop" }, { text: "▶", callback_data: "page:nav:eyJwYWdlIjoyfQ:" }]] },
+      pagination,
+    });
+    const { result } = renderHook(() => useCodegen(convert));
+    const python = result.current.codegenOutput;
+    expect(python.startsWith("import base64\nimport json\n\nfrom telegram import")).toBe(true);
+    expect(python).toContain('PAGE_ITEMS = [\n    ("Apple", "buy_apple"),\n    ("Pear", "item_2"),\n    ("Plum", "item_3"),\n]');
+    expect(python).toContain("    markup = InlineKeyboardMarkup(page_keyboard(1))");
+    expect(python).toContain('app.add_handler(CallbackQueryHandler(on_page, pattern=r"^(?:page:nav:|noop$)"))\napp.add_handler(CallbackQueryHandler(on_callback))');
+
+    act(() => result.current.setCodegenFramework("telegraf"));
+    expect(result.current.codegenOutput).toContain("  const keyboard = Markup.inlineKeyboard(pageKeyboard(1));");
+    expect(result.current.codegenOutput).toContain("bot.action(/^page:nav:/, async (ctx) => {");
+    expect(result.current.codegenOutput).not.toContain("cbx.router.on(\"page\"");
+
+    act(() => result.current.setCodegenFramework("grammy"));
+    expect(result.current.codegenOutput).toContain('import type { InlineKeyboardButton } from "grammy/types";');
+    expect(result.current.codegenOutput).toContain("const pageKeyboard = (page: number) => {");
+    expect(result.current.codegenOutput).not.toContain('bot.callbackQuery("noop", async');
+
+    act(() => result.current.setCodegenFramework("node-telegram-bot-api"));
+    expect(result.current.codegenOutput).toContain("  const reply_markup = { inline_keyboard: pageKeyboard(1) };");
+    expect(result.current.codegenOutput).toContain('  if (query.data === "noop") return bot.answerCallbackQuery(query.id);');
+  });
+});
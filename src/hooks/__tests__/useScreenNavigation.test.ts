@@ -1,7 +1,7 @@
-import { renderHook, act } from "@testing-library/react";
-import { describe, it, expect, beforeEach } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import type { Screen } from "@/types/telegram";
-import { isEntrySet, useScreenNavigation } from "../chat/useScreenNavigation";
+import { entryStorageKey, isEntrySet, useScreenNavigation } from "../chat/useScreenNavigation";
 
 const noop = () => {};
 
@@ -39,4 +39,58 @@ describe("useScreenNavigation", () => {
     expect(result.current.entryScreenId).toBeNull();
     expect(isEntrySet(result.current.entryScreenId, [other])).toBe(false);
   });
+
+  it("replaces the cached entry with the one saved in the cloud", async () => {
+    localStorage.setItem(entryStorageKey("user-1"), "other");
+    const fetchEntry = vi.fn().mockResolvedValue("entry");
+
+    const { result } = renderHook(() =>
+      useScreenNavigation([entry, other], noop, async () => {}, { userId: "user-1", fetchEntry }),
+    );
+
+    await waitFor(() => expect(result.current.entryScreenId).toBe("entry"));
+    expect(localStorage.getItem(entryStorageKey("user-1"))).toBe("entry");
+  });
+
+  it("saves a picked entry per user and project", () => {
+    const saveEntry = vi.fn();
+    const { result } = renderHook(() =>
+      useScreenNavigation([entry, other], noop, async () => {}, { userId: "user-1", projectId: "p1", saveEntry }),
+    );
+
+    act(() => {
+      result.current.handleSetEntry(other.id);
+    });
+
+    expect(saveEntry).toHaveBeenCalledWith("other");
+    expect(localStorage.getItem("telegram_ui_entry_screen_user-1:p1")).toBe("other");
+    expect(localStorage.getItem("telegram_ui_entry_screen:p1")).toBeNull();
+  });
+
+  it("follows entry changes made in another tab", () => {
+    const { result } = renderHook(() =>
+      useScreenNavigation([entry, other], noop, async () => {}, { userId: "user-1" }),
+    );
+
+    act(() => {
+      window.dispatchEvent(new StorageEvent("storage", { key: entryStorageKey("user-1"), newValue: "other" }));
+    });
+
+    expect(result.current.entryScreenId).toBe("other");
+  });
+
+  it("moves the entry saved before cloud sync once it is one of the user's screens", async () => {
+    localStorage.setItem("telegram_ui_entry_screen", "other");
+    const saveEntry = vi.fn();
+    const fetchEntry = vi.fn().mockResolvedValue(null);
+
+    const { result } = renderHook(() =>
+      useScreenNavigation([entry, other], noop, async () => {}, { userId: "user-1", fetchEntry, saveEntry }),
+    );
+
+    await waitFor(() => expect(saveEntry).toHaveBeenCalledWith("other"));
+    expect(result.current.entryScreenId).toBe("other");
+    expect(localStorage.getItem("telegram_ui_entry_screen")).toBeNull();
+    expect(localStorage.getItem(entryStorageKey("user-1"))).toBe("other");
+  });
 });
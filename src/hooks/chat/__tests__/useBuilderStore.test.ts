@@ -38,6 +38,10 @@ vi.mock("@/hooks/chat/useChatState", () => ({
     setMessageType: vi.fn(),
     mediaUrl: "",
     setMediaUrl: vi.fn(),
+    keyboardKind: "inline",
+    setKeyboardKind: vi.fn(),
+    replyKeyboardOptions: {},
+    setReplyKeyboardOptions: vi.fn(),
     pushToHistory: vi.fn(),
     undo: vi.fn(),
     redo: vi.fn(),
@@ -79,9 +83,14 @@ vi.mock("@/hooks/chat/useSupabaseSync", () => ({
       revokeShareToken: vi.fn(async () => ({})),
     },
     queueReplayCallbacks: {},
+    applyRemoteChange: vi.fn(() => true),
   }),
 }));
 
+vi.mock("@/hooks/chat/useRealtimeCollaboration", () => ({
+  useRealtimeCollaboration: () => ({ viewers: [], cursors: [], broadcastCursor: vi.fn() }),
+}));
+
 vi.mock("@/hooks/chat/useKeyboardActions", () => ({
   useKeyboardActions: () => ({
     handleButtonTextChange: vi.fn(),
@@ -119,6 +128,8 @@ vi.mock("@/hooks/chat/useCodegen", () => ({
   useCodegen: () => ({
     codegenFramework: "react",
     setCodegenFramework: vi.fn(),
+    codegenScope: "screen",
+    setCodegenScope: vi.fn(),
     codegenOutput: "",
     handleCopyCodegen: vi.fn(),
   }),
@@ -136,6 +147,7 @@ vi.mock("@/hooks/chat/useOfflineQueueSync", () => ({
     refreshPendingQueueSize: vi.fn(),
     queueSaveOperation: vi.fn(),
     queueUpdateOperation: vi.fn(),
+    queueEntryOperation: vi.fn(),
     replayPendingQueue: vi.fn(),
     clearPendingQueue: vi.fn(),
   }),
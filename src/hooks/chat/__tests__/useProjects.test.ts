@@ -0,0 +1,92 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import type { User } from "@supabase/supabase-js";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useProjects } from "../useProjects";
+
+const toast = vi.hoisted(() => ({
+  success: vi.fn(),
+  error: vi.fn(),
+}));
+
+const mockDataAccess = vi.hoisted(() => ({
+  fetchProjects: vi.fn(),
+  fetchSharedProjects: vi.fn(),
+  createProject: vi.fn(),
+  updateProject: vi.fn(),
+}));
+
+vi.mock("sonner", () => ({ toast }));
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+vi.mock("@/lib/runtimeConfig", () => ({ hasSupabaseEnv: () => true }));
+vi.mock("@/lib/dataAccess", () => {
+  const SupabaseDataAccess = vi.fn(function MockSupabaseDataAccess() {
+    return mockDataAccess;
+  });
+  return { SupabaseDataAccess };
+});
+
+const mockUser = { id: "user-1" } as User;
+const shop = { id: "p1", user_id: "user-1", name: "Shop", bot_username: "shop_bot", default_parse_mode: "MarkdownV2", entry_screen_id: null };
+
+describe("useProjects", () => {
+  beforeEach(() => {
+    Object.values(mockDataAccess).forEach((fn) => fn.mockReset());
+    Object.values(toast).forEach((fn) => fn.mockReset());
+    localStorage.clear();
+    mockDataAccess.fetchSharedProjects.mockResolvedValue([]);
+  });
+
+  it("restores the remembered project once it is loaded", async () => {
+    localStorage.setItem("telegram_ui_active_project_user-1", "p1");
+    mockDataAccess.fetchProjects.mockResolvedValue([shop]);
+
+    const { result } = renderHook(() => useProjects(mockUser));
+
+    await waitFor(() => expect(result.current.projects).toHaveLength(1));
+    expect(result.current.activeProjectId).toBe("p1");
+    expect(result.current.activeProject?.default_parse_mode).toBe("MarkdownV2");
+  });
+
+  it("falls back to the ungrouped screens when the remembered project is gone", async () => {
+    localStorage.setItem("telegram_ui_active_project_user-1", "deleted");
+    mockDataAccess.fetchProjects.mockResolvedValue([shop]);
+
+    const { result } = renderHook(() => useProjects(mockUser));
+
+    await waitFor(() => expect(result.current.projects).toHaveLength(1));
+    expect(result.current.activeProjectId).toBeNull();
+    expect(localStorage.getItem("telegram_ui_active_project_user-1")).toBeNull();
+  });
+
+  it("validates, creates and switches to a new project", async () => {
+    mockDataAccess.fetchProjects.mockResolvedValue([]);
+    mockDataAccess.createProject.mockImplementation(async (input) => ({ ...shop, ...input, id: "p2" }));
+
+    const { result } = renderHook(() => useProjects(mockUser));
+    await waitFor(() => expect(mockDataAccess.fetchProjects).toHaveBeenCalled());
+
+    await expect(result.current.createProject({ name: " ", bot_username: null, default_parse_mode: "HTML" })).rejects.toThrow(
+      "项目名称不能为空",
+    );
+    await act(async () => {
+      await result.current.createProject({ name: "Support", bot_username: "@help_bot", default_parse_mode: "HTML" });
+    });
+
+    expect(mockDataAccess.createProject).toHaveBeenCalledWith({ name: "Support", bot_username: "help_bot", default_parse_mode: "HTML" });
+    expect(result.current.activeProjectId).toBe("p2");
+    expect(localStorage.getItem("telegram_ui_active_project_user-1")).toBe("p2");
+  });
+
+  it("lists shared projects with the user's workspace role", async () => {
+    localStorage.setItem("telegram_ui_active_project_user-1", "p3");
+    mockDataAccess.fetchProjects.mockResolvedValue([shop]);
+    mockDataAccess.fetchSharedProjects.mockResolvedValue([{ ...shop, id: "p3", user_id: "user-2", workspace_id: "w1" }]);
+    const workspaces = [{ id: "w1", name: "Design", owner_id: "user-2", role: "viewer" as const }];
+
+    const { result } = renderHook(() => useProjects(mockUser, workspaces));
+
+    await waitFor(() => expect(result.current.projects).toHaveLength(2));
+    expect(result.current.activeProjectId).toBe("p3");
+    expect(result.current.activeProjectRole).toBe("viewer");
+  });
+});
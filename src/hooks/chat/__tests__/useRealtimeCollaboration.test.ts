@@ -0,0 +1,140 @@
+import { renderHook, act } from "@testing-library/react";
+import type { User } from "@supabase/supabase-js";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useRealtimeCollaboration } from "../useRealtimeCollaboration";
+
+type Handler = (payload: unknown) => void;
+
+const channel = vi.hoisted(() => {
+  const state = {
+    name: "",
+    options: undefined as unknown,
+    handlers: [] as { type: string; filter: Record<string, string>; handler: (payload: unknown) => void }[],
+    presence: {} as Record<string, unknown[]>,
+    subscribe: undefined as ((status: string) => void) | undefined,
+    track: vi.fn(),
+    send: vi.fn(),
+  };
+  const api = {
+    on: (type: string, filter: Record<string, string>, handler: (payload: unknown) => void) => {
+      state.handlers.push({ type, filter, handler });
+      return api;
+    },
+    subscribe: (callback: (status: string) => void) => {
+      state.subscribe = callback;
+      return api;
+    },
+    presenceState: () => state.presence,
+    track: state.track,
+    send: state.send,
+  };
+  return { state, api };
+});
+
+const removeChannel = vi.hoisted(() => vi.fn());
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    channel: (name: string, options: unknown) => {
+      channel.state.name = name;
+      channel.state.options = options;
+      return channel.api;
+    },
+    removeChannel,
+  },
+}));
+vi.mock("@/lib/runtimeConfig", () => ({ hasSupabaseEnv: () => true }));
+
+const mockUser = { id: "user-1", email: "me@example.com" } as User;
+
+const findHandler = (type: string, key: string): Handler => {
+  const entry = channel.state.handlers.find((item) => item.type === type && (item.filter.table ?? item.filter.event) === key);
+  if (!entry) throw new Error(`no ${type} handler for ${key}`);
+  return entry.handler;
+};
+
+describe("useRealtimeCollaboration", () => {
+  beforeEach(() => {
+    channel.state.handlers = [];
+    channel.state.presence = {};
+    channel.state.track.mockReset();
+    channel.state.send.mockReset();
+    removeChannel.mockReset();
+  });
+
+  it("subscribes to the project's screens and forwards changes", () => {
+    const onScreenChange = vi.fn();
+    const onLayoutChange = vi.fn();
+    const { unmount } = renderHook(() =>
+      useRealtimeCollaboration({ user: mockUser, projectId: "p1", currentScreenId: "s1", onScreenChange, onLayoutChange }),
+    );
+
+    expect(channel.state.name).toBe("project:p1");
+    expect(channel.state.options).toMatchObject({ config: { private: true } });
+    expect(channel.state.handlers.find((item) => item.filter.table === "screens")?.filter.filter).toBe("project_id=eq.p1");
+    expect(channel.state.handlers.find((item) => item.filter.table === "screen_layouts")?.filter.filter).toBe("user_id=eq.user-1");
+
+    const change = { eventType: "UPDATE", new: { id: "s1" }, old: {} };
+    findHandler("postgres_changes", "screens")(change);
+    findHandler("postgres_changes", "screen_layouts")({ eventType: "INSERT", new: { screen_id: "s1", x: 1, y: 2 }, old: {} });
+    expect(onScreenChange).toHaveBeenCalledWith(change);
+    expect(onLayoutChange).toHaveBeenCalledTimes(1);
+
+    unmount();
+    expect(removeChannel).toHaveBeenCalledWith(channel.api);
+  });
+
+  it("listens to screen deletes without a filter", () => {
+    const onScreenChange = vi.fn();
+    renderHook(() => useRealtimeCollaboration({ user: mockUser, projectId: "p1", currentScreenId: "s1", onScreenChange }));
+
+    const deletes = channel.state.handlers.find((item) => item.filter.table === "screens" && item.filter.event === "DELETE");
+    expect(deletes?.filter.filter).toBeUndefined();
+    const change = { eventType: "DELETE", new: {}, old: { id: "s1" } };
+    deletes?.handler(change);
+    expect(onScreenChange).toHaveBeenCalledWith(change);
+  });
+
+  it("announces the open screen and lists the other tabs", () => {
+    const { result, rerender } = renderHook(
+      ({ screenId }) => useRealtimeCollaboration({ user: mockUser, projectId: null, currentScreenId: screenId, onScreenChange: vi.fn() }),
+      { initialProps: { screenId: "s1" as string | undefined } },
+    );
+    expect(channel.state.name).toBe("user:user-1:ungrouped");
+
+    act(() => channel.state.subscribe?.("SUBSCRIBED"));
+    expect(channel.state.track).toHaveBeenLastCalledWith(expect.objectContaining({ user_id: "user-1", screen_id: "s1" }));
+
+    rerender({ screenId: "s2" });
+    expect(channel.state.track).toHaveBeenLastCalledWith(expect.objectContaining({ screen_id: "s2" }));
+
+    const selfTab = (channel.state.track.mock.calls[0][0] as { tab_id: string }).tab_id;
+    channel.state.presence = {
+      [selfTab]: [{ tab_id: selfTab, user_id: "user-1", email: null, screen_id: "s2", online_at: "2026-10-19T08:00:00Z" }],
+      other: [{ tab_id: "other", user_id: "user-2", email: "ann@example.com", screen_id: "s1", online_at: "2026-10-19T08:01:00Z" }],
+    };
+    act(() => findHandler("presence", "sync")({}));
+    expect(result.current.viewers.map((viewer) => viewer.tab_id)).toEqual(["other"]);
+  });
+
+  it("tracks remote cursors and broadcasts its own", () => {
+    const { result } = renderHook(() => useRealtimeCollaboration({ user: mockUser, projectId: "p1", onScreenChange: vi.fn() }));
+    act(() => channel.state.subscribe?.("SUBSCRIBED"));
+
+    const cursor = { tab_id: "other", user_id: "user-2", email: null, anchor: "s1", dx: 4, dy: 8 };
+    act(() => findHandler("broadcast", "cursor")({ payload: cursor }));
+    expect(result.current.cursors).toEqual([expect.objectContaining(cursor)]);
+    act(() => findHandler("broadcast", "cursor")({ payload: { ...cursor, anchor: null } }));
+    expect(result.current.cursors).toEqual([]);
+
+    act(() => result.current.broadcastCursor({ anchor: "s1", dx: 1, dy: 2 }));
+    act(() => result.current.broadcastCursor({ anchor: "s1", dx: 3, dy: 4 }));
+    act(() => result.current.broadcastCursor(null));
+    expect(channel.state.send).toHaveBeenCalledTimes(2);
+    expect(channel.state.send).toHaveBeenLastCalledWith({
+      type: "broadcast",
+      event: "cursor",
+      payload: expect.objectContaining({ user_id: "user-1", anchor: null }),
+    });
+  });
+});
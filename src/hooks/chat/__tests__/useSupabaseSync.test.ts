@@ -74,6 +74,7 @@ describe("useSupabaseSync", () => {
     const screensChain = {
       select: vi.fn().mockReturnValue({
         eq: vi.fn().mockReturnValue({
+          is: vi.fn().mockReturnThis(),
           order: vi.fn().mockResolvedValue({ data: [baseScreen], error: null }),
         }),
       }),
@@ -143,12 +144,41 @@ describe("useSupabaseSync", () => {
     expect(result.current.shareSyncStatus.state).toBe("success");
   });
 
+  it("loads only the screens of the active project", async () => {
+    const order = vi.fn().mockResolvedValue({ data: [baseScreen], error: null });
+    const scoped = { eq: vi.fn().mockReturnThis(), is: vi.fn().mockReturnThis(), order };
+    supabaseFrom.mockImplementation((table) => {
+      if (table === "screens") return { select: vi.fn().mockReturnValue(scoped) };
+      return {
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({ single: vi.fn().mockResolvedValue({ data: null, error: null }) }),
+        }),
+      };
+    });
+
+    const { result, rerender } = renderHook(({ projectId }) => useSupabaseSync(mockUser, projectId), {
+      initialProps: { projectId: null as string | null },
+    });
+    await act(async () => {
+      await result.current.loadScreens();
+    });
+    expect(scoped.is).toHaveBeenCalledWith("project_id", null);
+
+    rerender({ projectId: "project-1" });
+    await act(async () => {
+      await result.current.loadScreens();
+    });
+    expect(scoped.eq).toHaveBeenCalledWith("user_id", mockUser.id);
+    expect(scoped.eq).toHaveBeenCalledWith("project_id", "project-1");
+  });
+
   it("logs retry telemetry when load screens retries", async () => {
     vi.useFakeTimers();
     const randomSpy = vi.spyOn(Math, "random").mockReturnValue(0);
     const screensChain = {
       select: vi.fn().mockReturnValue({
         eq: vi.fn().mockReturnValue({
+          is: vi.fn().mockReturnThis(),
           order: vi.fn()
             .mockResolvedValueOnce({ data: null, error: { status: 500 } })
             .mockResolvedValueOnce({ data: [baseScreen], error: null }),
@@ -194,6 +224,7 @@ describe("useSupabaseSync", () => {
         return {
           select: vi.fn().mockReturnValue({
             eq: vi.fn().mockReturnValue({
+              is: vi.fn().mockReturnThis(),
               order: vi.fn().mockResolvedValue({ data: [baseScreen], error: null }),
             }),
           }),
@@ -223,6 +254,7 @@ describe("useSupabaseSync", () => {
     supabaseFrom.mockImplementationOnce(() => ({
       select: vi.fn().mockReturnValue({
         eq: vi.fn().mockReturnValue({
+          is: vi.fn().mockReturnThis(),
           order: vi.fn().mockResolvedValue({ data: null, error: new Error("load failed") }),
         }),
       }),
@@ -308,6 +340,43 @@ describe("useSupabaseSync", () => {
     expect(second?.message_content).toBe("keep");
   });
 
+  it("merges remote changes unless the screen has an update in flight", async () => {
+    const pending = createDeferred<Screen>();
+    mockDataAccess.updateScreen.mockReturnValueOnce(pending.promise);
+
+    const { result } = renderHook(() => useSupabaseSync(mockUser));
+    act(() => {
+      result.current.setScreens([baseScreen]);
+    });
+
+    let applied = false;
+    act(() => {
+      applied = result.current.applyRemoteChange({ eventType: "INSERT", new: { ...baseScreen, id: "screen-2" } as never, old: {} });
+    });
+    expect(applied).toBe(true);
+    expect(result.current.screens.map((screen) => screen.id)).toEqual(["screen-1", "screen-2"]);
+
+    let update: Promise<unknown> = Promise.resolve();
+    act(() => {
+      update = result.current.updateScreen({ screenId: "screen-1", update: { message_content: "mine", keyboard: [] } });
+    });
+    act(() => {
+      applied = result.current.applyRemoteChange({ eventType: "UPDATE", new: { id: "screen-1", message_content: "echo" }, old: {} });
+    });
+    expect(applied).toBe(false);
+    expect(result.current.screens[0].message_content).toBe("mine");
+
+    await act(async () => {
+      pending.resolve({ ...baseScreen, message_content: "mine" });
+      await update;
+    });
+    act(() => {
+      applied = result.current.applyRemoteChange({ eventType: "DELETE", new: {}, old: { id: "screen-1" } });
+    });
+    expect(applied).toBe(true);
+    expect(result.current.screens.map((screen) => screen.id)).toEqual(["screen-2"]);
+  });
+
   it("ignores stale update responses when a newer update completes first", async () => {
     const first = createDeferred<Screen>();
     const second = createDeferred<Screen>();
@@ -679,6 +748,21 @@ describe("useSupabaseSync", () => {
     expect(result.current.screens).toHaveLength(1);
   });
 
+  it("keeps the pins of other projects when deleting all screens", async () => {
+    const { result } = renderHook(() => useSupabaseSync(mockUser));
+    act(() => {
+      result.current.setScreens([baseScreen]);
+      result.current.setPinnedIds(["screen-1", "other-project-screen"]);
+    });
+
+    await act(async () => {
+      await result.current.deleteAllScreens();
+    });
+
+    expect(mockDataAccess.upsertPins).toHaveBeenCalledWith({ user_id: mockUser.id, pinned_ids: ["other-project-screen"] });
+    expect(result.current.pinnedIds).toEqual(["other-project-screen"]);
+  });
+
   it("deletes all screens and clears state", async () => {
     const { result } = renderHook(() => useSupabaseSync(mockUser));
     act(() => {
@@ -958,6 +1042,7 @@ describe("useSupabaseSync", () => {
     supabaseFrom.mockImplementationOnce(() => ({
       select: vi.fn().mockReturnValue({
         eq: vi.fn().mockReturnValue({
+          is: vi.fn().mockReturnThis(),
           order: vi.fn().mockResolvedValue({ data: null, error: "boom" }),
         }),
       }),
@@ -1026,6 +1111,7 @@ describe("useSupabaseSync", () => {
     const screensChain = {
       select: vi.fn().mockReturnValue({
         eq: vi.fn().mockReturnValue({
+          is: vi.fn().mockReturnThis(),
           order: vi.fn().mockResolvedValue({ data: [baseScreen], error: null }),
         }),
       }),
@@ -0,0 +1,97 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import type { User } from "@supabase/supabase-js";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { resolveProjectRole, useWorkspaces } from "../useWorkspaces";
+
+const toast = vi.hoisted(() => ({
+  success: vi.fn(),
+  error: vi.fn(),
+}));
+
+const mockDataAccess = vi.hoisted(() => ({
+  fetchWorkspaces: vi.fn(),
+  createWorkspace: vi.fn(),
+  createWorkspaceInvite: vi.fn(),
+  removeWorkspaceMember: vi.fn(),
+}));
+
+const constructed = vi.hoisted(() => [] as unknown[]);
+
+vi.mock("sonner", () => ({ toast }));
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+vi.mock("@/lib/runtimeConfig", () => ({ hasSupabaseEnv: () => true }));
+vi.mock("@/lib/dataAccess", () => {
+  const SupabaseDataAccess = vi.fn(function MockSupabaseDataAccess(_client: unknown, options: unknown) {
+    constructed.push(options);
+    return mockDataAccess;
+  });
+  return { SupabaseDataAccess };
+});
+
+const mockUser = { id: "user-1" } as User;
+const design = { id: "w1", name: "Design", owner_id: "user-1", role: "owner" };
+
+describe("useWorkspaces", () => {
+  beforeEach(() => {
+    Object.values(mockDataAccess).forEach((fn) => fn.mockReset());
+    Object.values(toast).forEach((fn) => fn.mockReset());
+    constructed.length = 0;
+  });
+
+  it("loads workspaces and creates new ones as owner", async () => {
+    mockDataAccess.fetchWorkspaces.mockResolvedValue([design]);
+    mockDataAccess.createWorkspace.mockImplementation(async ({ name }) => ({ id: "w2", name, owner_id: "user-1" }));
+
+    const { result } = renderHook(() => useWorkspaces(mockUser));
+    await waitFor(() => expect(result.current.workspaces).toHaveLength(1));
+
+    await expect(result.current.createWorkspace(" ")).rejects.toThrow("团队名称不能为空");
+    await act(async () => {
+      await result.current.createWorkspace(" Support ");
+    });
+
+    expect(mockDataAccess.createWorkspace).toHaveBeenCalledWith({ name: "Support" });
+    expect(result.current.workspaces.map((workspace) => workspace.role)).toEqual(["owner", "owner"]);
+  });
+
+  it("acts with the user's workspace role and normalizes invites", async () => {
+    mockDataAccess.fetchWorkspaces.mockResolvedValue([design]);
+    mockDataAccess.createWorkspaceInvite.mockResolvedValue({ id: "i1", token: "t1", role: "editor" });
+
+    const { result } = renderHook(() => useWorkspaces(mockUser));
+    await waitFor(() => expect(result.current.workspaces).toHaveLength(1));
+
+    await expect(result.current.inviteMember("w1", { email: "nope", role: "editor" })).rejects.toThrow("邮箱格式不正确");
+    await act(async () => {
+      await result.current.inviteMember("w1", { email: " Dev@Example.com ", role: "editor" });
+    });
+
+    expect(mockDataAccess.createWorkspaceInvite).toHaveBeenCalledWith({ workspaceId: "w1", email: "dev@example.com", role: "editor" });
+    expect(constructed).toContainEqual({ userId: "user-1", workspaceRole: "owner" });
+  });
+
+  it("drops the workspace after leaving it", async () => {
+    mockDataAccess.fetchWorkspaces.mockResolvedValue([{ ...design, owner_id: "user-2", role: "editor" }]);
+    mockDataAccess.removeWorkspaceMember.mockResolvedValue({});
+
+    const { result } = renderHook(() => useWorkspaces(mockUser));
+    await waitFor(() => expect(result.current.workspaces).toHaveLength(1));
+    await act(async () => {
+      await result.current.leaveWorkspace("w1");
+    });
+
+    expect(mockDataAccess.removeWorkspaceMember).toHaveBeenCalledWith({ workspaceId: "w1", userId: "user-1" });
+    expect(result.current.workspaces).toEqual([]);
+  });
+});
+
+describe("resolveProjectRole", () => {
+  const workspaces = [{ id: "w1", name: "Design", owner_id: "user-2", role: "editor" as const }];
+
+  it("keeps personal projects unscoped and resolves shared ones by membership", () => {
+    expect(resolveProjectRole({ user_id: "user-1", workspace_id: null }, "user-1", workspaces)).toBeNull();
+    expect(resolveProjectRole({ user_id: "user-1", workspace_id: "w1" }, "user-1", workspaces)).toBe("owner");
+    expect(resolveProjectRole({ user_id: "user-2", workspace_id: "w1" }, "user-1", workspaces)).toBe("editor");
+    expect(resolveProjectRole({ user_id: "user-2", workspace_id: "w9" }, "user-1", workspaces)).toBe("viewer");
+  });
+});
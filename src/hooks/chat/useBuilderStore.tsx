@@ -7,39 +7,75 @@ import { useChatState } from "@/hooks/chat/useChatState";
 import { useSupabaseSync } from "@/hooks/chat/useSupabaseSync";
 import { useKeyboardActions } from "@/hooks/chat/useKeyboardActions";
 import { isEntrySet, useScreenNavigation } from "@/hooks/chat/useScreenNavigation";
+import { useFlowVariables } from "@/hooks/chat/useFlowVariables";
 import { useNetworkStatus } from "@/hooks/useNetworkStatus";
 import { useGlobalShortcuts } from "@/hooks/useGlobalShortcuts";
 import { useCodegen } from "@/hooks/chat/useCodegen";
 import { useAuthUser } from "@/hooks/chat/useAuthUser";
-import { screenContainsSensitiveData, validateKeyboard, validateMessageContent } from "@/lib/validation";
-import type { TemplateDefinition } from "@/types/templates";
+import { useProjects, type ProjectInput } from "@/hooks/chat/useProjects";
+import { useWorkspaces } from "@/hooks/chat/useWorkspaces";
+import { useRealtimeCollaboration } from "@/hooks/chat/useRealtimeCollaboration";
+import {
+  getUndeclaredVariableErrors,
+  screenContainsSensitiveData,
+  validateFlowVariables,
+  validateInputStep,
+  validateKeyboard,
+  validateLinkPreviewOptions,
+  validateMessageContent,
+  validatePagination,
+  validateReplyKeyboardOptions,
+  validateVariableUsage,
+} from "@/lib/validation";
+import type { MediaMessageType, TemplateDefinition } from "@/types/templates";
 import { useOfflineQueueSync } from "@/hooks/chat/useOfflineQueueSync";
 import { readPendingOps } from "@/lib/pendingQueue";
 import type { Json, TablesUpdate } from "@/integrations/supabase/types";
 import type { SaveScreenInput } from "@/lib/dataAccess";
-import type { KeyboardButton, KeyboardRow, Screen } from "@/types/telegram";
+import type { KeyboardButton, KeyboardRow, LinkPreviewOptions, PaginatedKeyboard, Screen } from "@/types/telegram";
 import { MessageBubbleHandle } from "@/components/MessageBubble";
 import { makeRequestId } from "@/types/sync";
 import { recordAuditEvent } from "@/lib/auditTrail";
 import { cloneKeyboard, createDefaultKeyboard } from "@/lib/keyboard/factory";
+import { parseReplyMarkup, type ImportedMarkupButton } from "@/lib/keyboard/replyMarkup";
+import { getButtonActionKind, normalizeLegacyKeyboard, pickButtonActionFields } from "@/lib/keyboard/buttonActions";
 import { buildAppUrl } from "@/lib/appUrl";
-
-type ImportInlineButton = Partial<KeyboardButton> & { text?: string };
-type ImportInlineKeyboard = ImportInlineButton[][];
+import { importLinkPreviewOptions, importMessageMedia, importMessageText, messageColumns, parseSerializedMessage, screenToMessageState } from "@/lib/messagePayload";
+import { buildPageKeyboard, expandPagination, pageCount } from "@/lib/keyboard/pagination";
+import { withButtonConditions } from "@/lib/codegen/conditions";
+import { withPagination } from "@/lib/codegen/pagination";
+import { buildFlowBundle, isFlowBundle, parseFlowBundle, remapFlowBundle, type FlowLayout } from "@/lib/flowBundle";
+import { hasSupabaseEnv } from "@/lib/runtimeConfig";
+import type { EntryPayload } from "@/lib/pendingQueue";
+import { normalizeBotApiImport } from "@/lib/botApiImport";
+import {
+  appendScreens,
+  isSameScreenContent,
+  type RemoteConflict,
+  type RemoteLayoutChange,
+  type RemoteLayoutUpdate,
+  type RemoteScreenChange,
+} from "@/lib/realtime";
+
+type ImportInlineKeyboard = ImportedMarkupButton[][];
 type ImportPayload = {
   text?: string;
+  caption?: string;
   message_content?: string;
   parse_mode?: string;
-  reply_markup?: { inline_keyboard?: ImportInlineKeyboard };
+  reply_markup?: unknown;
   keyboard?: KeyboardRow[];
-  photo?: string;
-  video?: string;
-};
+  media_group?: unknown;
+  media?: unknown;
+  link_preview_options?: unknown;
+  disable_web_page_preview?: unknown;
+} & Partial<Record<MediaMessageType, string>>;
 
 type OnboardingProgress = { template: boolean; preview: boolean; share: boolean };
 
 const ONBOARDING_STATE_KEY = "telegram_ui_onboarding_state_v1";
 const ONBOARDING_DISMISS_KEY = "telegram_ui_onboarding_done_v1";
+const MAX_REMOTE_LAYOUT_UPDATES = 50;
 
 const isNetworkError = (error: unknown) => {
   if (!error) return false;
@@ -69,6 +105,12 @@ export const useBuilderStore = () => {
   const messageBubbleRef = useRef<MessageBubbleHandle>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const { user } = useAuthUser();
+  const workspaceActions = useWorkspaces(user);
+  const { workspaces } = workspaceActions;
+  const { projects, activeProject, activeProjectId, activeProjectRole, selectProject, createProject, updateProject } = useProjects(
+    user,
+    workspaces,
+  );
   const isOffline = useNetworkStatus();
 
   const [isPreviewMode, setIsPreviewMode] = useState(false);
@@ -79,6 +121,7 @@ export const useBuilderStore = () => {
   const [renameValue, setRenameValue] = useState("");
   const [newScreenName, setNewScreenName] = useState("");
   const [flowDiagramOpen, setFlowDiagramOpen] = useState(false);
+  const [flowSimulatorOpen, setFlowSimulatorOpen] = useState(false);
   const [circularDialogOpen, setCircularDialogOpen] = useState(false);
   const [detectedCircularPaths, setDetectedCircularPaths] = useState<string[][]>([]);
   const [allowCircular, setAllowCircular] = useState(false);
@@ -126,6 +169,18 @@ export const useBuilderStore = () => {
     setMessageType,
     mediaUrl,
     setMediaUrl,
+    mediaGroup,
+    setMediaGroup,
+    keyboardKind,
+    setKeyboardKind,
+    replyKeyboardOptions,
+    setReplyKeyboardOptions,
+    linkPreviewOptions,
+    setLinkPreviewOptions,
+    pagination,
+    setPagination,
+    inputStep,
+    setInputStep,
     pushToHistory,
     undo,
     redo,
@@ -166,8 +221,10 @@ export const useBuilderStore = () => {
     screens,
     setScreens,
     pinnedIds,
+    setPinnedIds,
     isLoading,
     loadScreens,
+    applyRemoteChange,
     saveScreen,
     updateScreen,
     deleteScreen,
@@ -184,7 +241,7 @@ export const useBuilderStore = () => {
     logSyncEvent,
     dataAccess,
     queueReplayCallbacks,
-  } = useSupabaseSync(user);
+  } = useSupabaseSync(user, activeProjectId, activeProjectRole);
 
   const {
     handleButtonTextChange,
@@ -195,6 +252,33 @@ export const useBuilderStore = () => {
     handleReorder,
   } = useKeyboardActions(setKeyboard, pushToHistory, messageContent, keyboard);
 
+  // Entry choices go through the offline queue, which is set up below because it needs the current screen.
+  const queueEntryRef = useRef<(payload: EntryPayload) => void>(() => undefined);
+  const cloudEntry = Boolean(user) && hasSupabaseEnv();
+  const fetchEntry = useMemo(
+    () => (cloudEntry ? () => dataAccess.fetchEntryScreen({ projectId: activeProjectId }) : undefined),
+    [activeProjectId, cloudEntry, dataAccess],
+  );
+  const saveEntry = useCallback(
+    (screenId: string | null) => {
+      if (!cloudEntry) return;
+      const payload: EntryPayload = { project_id: activeProjectId, screen_id: screenId };
+      if (isOffline) {
+        queueEntryRef.current(payload);
+        return;
+      }
+      dataAccess.saveEntryScreen({ projectId: activeProjectId, screenId }).catch((error) => {
+        if (isNetworkError(error)) {
+          queueEntryRef.current(payload);
+          return;
+        }
+        console.error("Error saving entry screen:", error);
+        toast.error("入口保存失败");
+      });
+    },
+    [activeProjectId, cloudEntry, dataAccess, isOffline],
+  );
+
   const {
     currentScreenId,
     setCurrentScreenId,
@@ -203,7 +287,62 @@ export const useBuilderStore = () => {
     handleNavigateBack,
     handleNavigateToScreen,
     handleSetEntry
-  } = useScreenNavigation(screens, setScreens, loadScreens);
+  } = useScreenNavigation(screens, setScreens, loadScreens, {
+    userId: user?.id,
+    projectId: activeProjectId,
+    fetchEntry,
+    saveEntry,
+  });
+
+  // A screen open in the editor that another tab or member changed or deleted; the editor keeps its content.
+  const [remoteConflict, setRemoteConflict] = useState<RemoteConflict | null>(null);
+  const [remoteLayouts, setRemoteLayouts] = useState<RemoteLayoutUpdate[]>([]);
+  const remoteLayoutSeqRef = useRef(0);
+
+  const handleRemoteScreenChange = useCallback(
+    (change: RemoteScreenChange) => {
+      if (!applyRemoteChange(change) || !currentScreenId) return;
+      const row = change.eventType === "DELETE" ? change.old : change.new;
+      if (row.id !== currentScreenId) return;
+      if (change.eventType === "DELETE" || (change.new.project_id ?? null) !== activeProjectId) {
+        // Saving now creates a new screen instead of updating the missing one.
+        setCurrentScreenId(undefined);
+        setRemoteConflict({ screenId: currentScreenId, kind: "deleted" });
+        return;
+      }
+      const saved = lastSavedSnapshot && { message_content: lastSavedSnapshot.messageContent, keyboard: lastSavedSnapshot.keyboard };
+      if (saved && isSameScreenContent(saved, change.new)) return;
+      setRemoteConflict({ screenId: currentScreenId, kind: "updated" });
+    },
+    [activeProjectId, applyRemoteChange, currentScreenId, lastSavedSnapshot, setCurrentScreenId],
+  );
+
+  const handleRemoteLayoutChange = useCallback((change: RemoteLayoutChange) => {
+    const row = change.new;
+    if (change.eventType === "DELETE" || !row.screen_id || typeof row.x !== "number" || typeof row.y !== "number") return;
+    remoteLayoutSeqRef.current += 1;
+    const update: RemoteLayoutUpdate = { seq: remoteLayoutSeqRef.current, screen_id: row.screen_id, x: row.x, y: row.y };
+    setRemoteLayouts((prev) => [...prev.slice(1 - MAX_REMOTE_LAYOUT_UPDATES), update]);
+  }, []);
+
+  const { viewers, cursors, broadcastCursor } = useRealtimeCollaboration({
+    user,
+    projectId: activeProjectId,
+    currentScreenId,
+    onScreenChange: handleRemoteScreenChange,
+    onLayoutChange: handleRemoteLayoutChange,
+  });
+
+  // Opening or saving another screen settles the conflict.
+  useEffect(() => {
+    if (currentScreenId) setRemoteConflict((prev) => (prev && prev.screenId !== currentScreenId ? null : prev));
+  }, [currentScreenId]);
+
+  const { variables, setVariables, addVariable, updateVariable, removeVariable } = useFlowVariables();
+  const undeclaredVariableErrors = useMemo(
+    () => getUndeclaredVariableErrors({ text: messageContent, keyboard }, variables),
+    [keyboard, messageContent, variables],
+  );
 
   const screenById = useMemo(() => new Map(screens.map((screen) => [screen.id, screen])), [screens]);
   const currentScreen = useMemo(
@@ -216,12 +355,37 @@ export const useBuilderStore = () => {
   );
   const currentScreenName = useMemo(() => currentScreen?.name ?? null, [currentScreen]);
 
+  // Whole-bot codegen reads saved screens, except the open one which reflects unsaved edits.
+  const codegenFlow = useMemo(
+    () => ({
+      screens: screens.map((screen) => ({
+        id: screen.id,
+        name: screen.name,
+        state:
+          screen.id === currentScreenId
+            ? { text: messageContent, parseMode, messageType, mediaUrl, mediaGroup, keyboard, keyboardKind, replyKeyboardOptions, linkPreviewOptions, pagination, inputStep }
+            : screenToMessageState(screen),
+      })),
+      entryScreenId,
+      variables,
+    }),
+    [screens, currentScreenId, messageContent, parseMode, messageType, mediaUrl, mediaGroup, keyboard, keyboardKind, replyKeyboardOptions, linkPreviewOptions, pagination, inputStep, entryScreenId, variables],
+  );
+
+  // Button conditions and the paginated item list only exist in generated code, never in the Bot API payload.
+  const convertForCodegen = useCallback(
+    () => withPagination(withButtonConditions(convertToTelegramFormat(), keyboard), keyboardKind, pagination),
+    [convertToTelegramFormat, keyboard, keyboardKind, pagination],
+  );
+
   const {
     codegenFramework,
     setCodegenFramework,
+    codegenScope,
+    setCodegenScope,
     codegenOutput,
     handleCopyCodegen
-  } = useCodegen(convertToTelegramFormat, messageType);
+  } = useCodegen(convertForCodegen, codegenFlow);
 
   const {
     pendingOpsNotice,
@@ -230,6 +394,7 @@ export const useBuilderStore = () => {
     refreshPendingQueueSize,
     queueSaveOperation,
     queueUpdateOperation,
+    queueEntryOperation,
     replayPendingQueue,
     clearPendingQueue,
   } = useOfflineQueueSync({
@@ -247,6 +412,7 @@ export const useBuilderStore = () => {
     setLastSavedSnapshot,
     setPendingQueueSize,
   });
+  queueEntryRef.current = queueEntryOperation;
 
   useEffect(() => {
     if (user) {
@@ -265,10 +431,11 @@ export const useBuilderStore = () => {
       if (screen.parse_mode) setParseMode(screen.parse_mode);
       if (screen.message_type) setMessageType(screen.message_type);
       if (screen.media_url) setMediaUrl(screen.media_url);
-      setKeyboard(screen.keyboard as KeyboardRow[]);
+      const screenKeyboard = normalizeLegacyKeyboard(screen.keyboard as KeyboardRow[]);
+      setKeyboard(screenKeyboard);
       setLastSavedSnapshot({
         messageContent: screen.message_content,
-        keyboard: cloneKeyboard(screen.keyboard as KeyboardRow[]),
+        keyboard: cloneKeyboard(screenKeyboard),
       });
       setCurrentScreenId(screen.id);
     },
@@ -289,20 +456,73 @@ export const useBuilderStore = () => {
     (button: KeyboardButton) => {
       if (!isPreviewMode) return;
       if (button.linked_screen_id) {
+        if (button.callback_answer?.text) {
+          if (button.callback_answer.show_alert) toast.warning(button.callback_answer.text);
+          else toast.info(button.callback_answer.text);
+        }
         handleNavigateToScreen(button.linked_screen_id);
-      } else if (button.url) {
-        window.open(button.url, "_blank", "noopener,noreferrer");
-      } else {
-        toast.info(`Callback: ${button.callback_data}`);
+        return;
+      }
+      if (keyboardKind === "reply" && !button.web_app) {
+        toast.info(`Message: ${button.text}`);
+        return;
+      }
+      const action = getButtonActionKind(button);
+      switch (action) {
+        case "url":
+          window.open(button.url, "_blank", "noopener,noreferrer");
+          break;
+        case "web_app":
+          window.open(button.web_app?.url, "_blank", "noopener,noreferrer");
+          break;
+        case "login_url":
+          window.open(button.login_url?.url, "_blank", "noopener,noreferrer");
+          break;
+        case "copy_text": {
+          const text = button.copy_text?.text ?? "";
+          void navigator.clipboard
+            ?.writeText(text)
+            .then(() => toast.success(`Copied: ${text}`))
+            .catch(() => toast.error("Copy failed"));
+          break;
+        }
+        case "switch_inline_query":
+        case "switch_inline_query_current_chat":
+          toast.info(`Inline query: @bot ${button[action] ?? ""}`);
+          break;
+        case "switch_inline_query_chosen_chat":
+          toast.info(`Inline query: @bot ${button.switch_inline_query_chosen_chat?.query ?? ""}`);
+          break;
+        case "callback_game":
+          toast.info(`Game: ${button.text}`);
+          break;
+        case "pay":
+          toast.info(`Pay: ${button.text}`);
+          break;
+        default:
+          toast.info(`Callback: ${button.callback_data}`);
+      }
+    },
+    [handleNavigateToScreen, isPreviewMode, keyboardKind]
+  );
+
+  // The preview follows an accepted reply to the input step's next screen, as the generated bot does.
+  const handleInputAccepted = useCallback(
+    (nextScreenId?: string) => {
+      if (nextScreenId && screenById.has(nextScreenId)) {
+        handleNavigateToScreen(nextScreenId);
+        return;
       }
+      toast.success("回复已通过校验");
     },
-    [handleNavigateToScreen, isPreviewMode]
+    [handleNavigateToScreen, screenById]
   );
 
   // Offline queue helpers moved to useOfflineQueueSync
 
   const createNewScreen = useCallback(() => {
     setMessageContent("Welcome to the Telegram UI Builder!\n\nEdit this message directly.");
+    if (activeProject) setParseMode(activeProject.default_parse_mode);
     setKeyboard(createDefaultKeyboard());
     setCurrentScreenId(undefined);
     setNewScreenName("");
@@ -311,7 +531,7 @@ export const useBuilderStore = () => {
       keyboard: cloneKeyboard(createDefaultKeyboard()),
     });
     toast.success("New screen created");
-  }, [setMessageContent, setKeyboard, setCurrentScreenId]);
+  }, [activeProject, setMessageContent, setParseMode, setKeyboard, setCurrentScreenId]);
 
   const handleApplyTemplate = useCallback(
     (template: TemplateDefinition) => {
@@ -343,17 +563,26 @@ export const useBuilderStore = () => {
     }
 
     try {
-      validateMessageContent(messageContent);
-      validateKeyboard(keyboard);
+      validateMessageContent(messageContent, messageType);
+      validateKeyboard(keyboard, keyboardKind);
+      validateReplyKeyboardOptions(replyKeyboardOptions);
+      validateLinkPreviewOptions(linkPreviewOptions);
+      if (keyboardKind === "inline" && pagination) validatePagination(pagination);
+      if (inputStep) validateInputStep(inputStep);
+      validateFlowVariables(variables);
+      validateVariableUsage({ text: messageContent, keyboard }, variables);
     } catch (error) {
       toast.error(error instanceof Error ? error.message : "内容不合法，保存已取消");
       return;
     }
 
+    const serialized = serializeMessagePayload();
     const payload: SaveScreenInput = {
       user_id: user.id,
+      project_id: activeProjectId,
       name: newScreenName,
-      message_content: serializeMessagePayload(),
+      message_content: serialized,
+      ...messageColumns(serialized),
       keyboard: keyboard as unknown as Json,
       is_public: false,
       share_token: null,
@@ -388,35 +617,50 @@ export const useBuilderStore = () => {
       }
     }
   }, [
+    activeProjectId,
     applyScreenState,
+    inputStep,
     isOffline,
     keyboard,
+    keyboardKind,
+    linkPreviewOptions,
     mediaUrl,
     messageContent,
     messageType,
     newScreenName,
+    pagination,
     parseMode,
     queueSaveOperation,
+    replyKeyboardOptions,
     saveScreen,
     serializeMessagePayload,
     setLastSavedSnapshot,
     setNewScreenName,
     user,
+    variables,
   ]);
 
   const handleUpdateScreen = useCallback(async () => {
     if (!currentScreenId || !user) return;
 
     try {
-      validateMessageContent(messageContent);
-      validateKeyboard(keyboard);
+      validateMessageContent(messageContent, messageType);
+      validateKeyboard(keyboard, keyboardKind);
+      validateReplyKeyboardOptions(replyKeyboardOptions);
+      validateLinkPreviewOptions(linkPreviewOptions);
+      if (keyboardKind === "inline" && pagination) validatePagination(pagination);
+      if (inputStep) validateInputStep(inputStep);
+      validateFlowVariables(variables);
+      validateVariableUsage({ text: messageContent, keyboard }, variables);
     } catch (error) {
       toast.error(error instanceof Error ? error.message : "内容不合法，更新已取消");
       return;
     }
 
+    const serialized = serializeMessagePayload();
     const updatePayload: TablesUpdate<"screens"> = {
-      message_content: serializeMessagePayload(),
+      message_content: serialized,
+      ...messageColumns(serialized),
       keyboard: keyboard as unknown as Json,
       updated_at: new Date().toISOString(),
     };
@@ -441,7 +685,66 @@ export const useBuilderStore = () => {
         queueUpdateOperation(updatePayload);
       }
     }
-  }, [currentScreenId, isOffline, keyboard, messageContent, queueUpdateOperation, serializeMessagePayload, setLastSavedSnapshot, updateScreen, user]);
+  }, [currentScreenId, inputStep, isOffline, keyboard, keyboardKind, linkPreviewOptions, messageContent, messageType, pagination, queueUpdateOperation, replyKeyboardOptions, serializeMessagePayload, setLastSavedSnapshot, updateScreen, user, variables]);
+
+  // A dynamic paginated keyboard keeps its item list; the editor and the exported payload show its first page.
+  const handleApplyPagination = useCallback(
+    (next: PaginatedKeyboard) => {
+      const rows = buildPageKeyboard(next, 1);
+      setPagination(next);
+      setKeyboard(rows);
+      pushToHistory(messageContent, rows);
+      toast.success(`已生成动态分页：${next.items.length} 项，${pageCount(next)} 页`);
+    },
+    [messageContent, pushToHistory, setKeyboard, setPagination],
+  );
+
+  const handleRemovePagination = useCallback(() => {
+    setPagination(undefined);
+    toast.info("已移除分页，当前按钮保留为普通键盘");
+  }, [setPagination]);
+
+  // Generated page screens are saved at once so their ◀ / ▶ buttons can link to each other by id.
+  const handleGeneratePageScreens = useCallback(
+    async (next: PaginatedKeyboard) => {
+      if (!user) {
+        toast.error("Please sign in to save screens");
+        return;
+      }
+      if (isOffline) {
+        toast.error("离线状态下无法生成分页屏幕");
+        return;
+      }
+      const total = pageCount(next);
+      const ids = Array.from({ length: total }, () => crypto.randomUUID());
+      const serialized = serializeMessagePayload();
+      const parsed = parseSerializedMessage(serialized);
+      // Each page screen carries one page as a plain keyboard, not the dynamic list.
+      const messageContentForPages = parsed?.pagination ? JSON.stringify({ ...parsed, pagination: undefined }) : serialized;
+      const baseName = newScreenName.trim() || currentScreenName || "分页列表";
+      const payloads: SaveScreenInput[] = expandPagination(next, ids).map((rows, index) => ({
+        id: ids[index],
+        user_id: user.id,
+        project_id: activeProjectId,
+        name: `${baseName} ${index + 1}/${total}`,
+        message_content: messageContentForPages,
+        ...messageColumns(messageContentForPages),
+        keyboard: rows as unknown as Json,
+        is_public: false,
+        share_token: null,
+      }));
+      try {
+        const saved = (await dataAccess.insertScreens(payloads)) as unknown as Screen[];
+        setScreens((prev) => appendScreens(prev, saved));
+        const first = saved.find((screen) => screen.id === ids[0]);
+        if (first) applyScreenState(first);
+        toast.success(`已生成 ${total} 个分页屏幕`);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "生成分页屏幕失败");
+      }
+    },
+    [activeProjectId, applyScreenState, currentScreenName, dataAccess, isOffline, newScreenName, serializeMessagePayload, setScreens, user],
+  );
 
   useGlobalShortcuts({
     onUndo: undo,
@@ -461,14 +764,15 @@ export const useBuilderStore = () => {
   }, [lastSavedSnapshot, messageContent, keyboard]);
 
   useEffect(() => {
-    if (!currentScreenId || !user || isPreviewMode || isOffline || !hasUnsavedChanges) {
+    // A remote change is waiting for the user's decision; saving automatically would overwrite it.
+    if (!currentScreenId || !user || isPreviewMode || isOffline || !hasUnsavedChanges || remoteConflict?.kind === "updated") {
       return;
     }
     const timer = setTimeout(() => {
       void handleUpdateScreen();
     }, 2000);
     return () => clearTimeout(timer);
-  }, [messageContent, keyboard, currentScreenId, user, isPreviewMode, isOffline, hasUnsavedChanges, handleUpdateScreen]);
+  }, [messageContent, keyboard, currentScreenId, user, isPreviewMode, isOffline, hasUnsavedChanges, handleUpdateScreen, remoteConflict]);
 
   useEffect(() => {
     if (!isOffline) {
@@ -549,19 +853,19 @@ export const useBuilderStore = () => {
     return entryScreen;
   }, [entryScreen, entryScreenId, screens]);
 
-  const exportFlowAsJSON = useCallback(() => {
+  const exportFlowAsJSON = useCallback(async () => {
     const entry = resolveEntryScreen();
     if (!entry) return;
-    const flow = {
-      version: "1.0",
-      entry_screen_id: entry.id,
-      screens: screens.map(s => ({
-        id: s.id,
-        name: s.name,
-        message_content: s.message_content,
-        keyboard: s.keyboard
-      }))
-    };
+    // Diagram positions live in the cloud; without them the bundle is still complete, only laid out anew.
+    let layouts: FlowLayout[] = [];
+    if (user && hasSupabaseEnv()) {
+      try {
+        layouts = await dataAccess.fetchLayouts({ ids: screens.map((screen) => screen.id) });
+      } catch {
+        toast.warning("读取布局失败，导出的流程不含节点位置");
+      }
+    }
+    const flow = buildFlowBundle({ screens, entryScreenId: entry.id, variables, layouts, pinnedIds });
     const blob = new Blob([JSON.stringify(flow, null, 2)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -569,7 +873,46 @@ export const useBuilderStore = () => {
     a.download = "telegram-flow.json";
     a.click();
     URL.revokeObjectURL(url);
-  }, [resolveEntryScreen, screens]);
+  }, [dataAccess, pinnedIds, resolveEntryScreen, screens, user, variables]);
+
+  // A flow bundle is inserted as new screens with fresh ids, next to the screens already in the account.
+  const importFlowBundle = useCallback(
+    async (data: unknown) => {
+      if (!user) throw new Error("请先登录后再导入流程");
+      if (isOffline) throw new Error("离线状态下无法导入流程");
+      const imported = remapFlowBundle(parseFlowBundle(data));
+      const saved = (await dataAccess.insertScreens(
+        imported.screens.map((screen) => ({
+          ...screen,
+          ...messageColumns(screen.message_content),
+          user_id: user.id,
+          project_id: activeProjectId,
+          keyboard: screen.keyboard as unknown as Json,
+        })),
+      )) as unknown as Screen[];
+      setScreens((prev) => appendScreens(prev, saved));
+      if (imported.variables.length) {
+        setVariables((prev) => [...prev, ...imported.variables.filter((variable) => !prev.some((item) => item.name === variable.name))]);
+      }
+      if (!isEntrySet(entryScreenId, screens)) {
+        handleSetEntry(imported.entryScreenId);
+      }
+      try {
+        if (imported.layouts.length) {
+          await dataAccess.upsertLayouts(imported.layouts.map((layout) => ({ ...layout, user_id: user.id })));
+        }
+        if (imported.pinnedIds.length) {
+          const nextPinned = [...pinnedIds, ...imported.pinnedIds];
+          await dataAccess.upsertPins({ user_id: user.id, pinned_ids: nextPinned });
+          setPinnedIds(nextPinned);
+        }
+      } catch {
+        toast.warning("模版已导入，但布局或置顶未能恢复");
+      }
+      return saved.length;
+    },
+    [activeProjectId, dataAccess, entryScreenId, handleSetEntry, isOffline, pinnedIds, screens, setPinnedIds, setScreens, setVariables, user],
+  );
 
   const handleImportJSON = useCallback(async () => {
     try {
@@ -579,23 +922,35 @@ export const useBuilderStore = () => {
       if (importSize > MAX_IMPORT_BYTES) {
         throw new Error("导入文件过大（>512KB），请精简后重试");
       }
-      const data = JSON.parse(importJSON) as ImportPayload;
-      const nextMessage =
-        typeof data.text === "string"
-          ? data.text
-          : typeof data.message_content === "string"
-            ? data.message_content
-            : null;
+      const parsed = JSON.parse(importJSON) as unknown;
+      if (isFlowBundle(parsed)) {
+        const count = await importFlowBundle(parsed);
+        recordAuditEvent({
+          action: "import_json",
+          status: "success",
+          userId: user?.id,
+          targetId: null,
+          message: `Import dialog added a flow of ${count} screens`,
+        });
+        toast.success(`已导入流程（${count} 个模版）`);
+        setImportDialogOpen(false);
+        return;
+      }
+      const { payload, dropped } = normalizeBotApiImport(parsed);
+      const data = payload as ImportPayload;
+      const nextMessage = importMessageText(data);
+      const nextMedia = importMessageMedia(data);
+      const nextPreviewOptions = importLinkPreviewOptions(data);
       if (nextMessage) {
-        validateMessageContent(nextMessage);
+        validateMessageContent(nextMessage, nextMedia.messageType);
         setMessageContent(nextMessage);
       }
       if (typeof data.parse_mode === "string") {
         setParseMode(data.parse_mode === "MarkdownV2" ? "MarkdownV2" : "HTML");
       }
-      const inlineKeyboard = Array.isArray(data.reply_markup?.inline_keyboard)
-        ? (data.reply_markup?.inline_keyboard as ImportInlineKeyboard)
-        : undefined;
+      const markup = parseReplyMarkup(data.reply_markup);
+      const nextKind = markup?.kind ?? "inline";
+      const inlineKeyboard: ImportInlineKeyboard | undefined = markup?.rows;
       const internalKeyboard = data.keyboard;
       const nextKeyboard = inlineKeyboard ?? internalKeyboard;
 
@@ -606,35 +961,33 @@ export const useBuilderStore = () => {
             buttons: row.map((btn, btnIdx) => ({
               id: btn.id ?? `import-btn-${rowIdx}-${btnIdx}-${Date.now()}`,
               text: btn.text ?? "",
-              url: btn.url,
-              callback_data: btn.callback_data,
-              linked_screen_id: btn.linked_screen_id,
+              ...pickButtonActionFields(btn),
             })),
           }))
-          : (nextKeyboard as KeyboardRow[]);
+          : normalizeLegacyKeyboard(nextKeyboard as KeyboardRow[]);
 
-        validateKeyboard(mapped);
+        validateKeyboard(mapped, nextKind);
         setKeyboard(cloneKeyboard(mapped));
       }
+      setKeyboardKind(nextKind);
+      setReplyKeyboardOptions(markup?.options ?? {});
 
-      if (typeof data.photo === "string") {
-        setMessageType("photo");
-        setMediaUrl(data.photo);
-      } else if (typeof data.video === "string") {
-        setMessageType("video");
-        setMediaUrl(data.video);
-      } else {
-        setMessageType("text");
-        setMediaUrl("");
-      }
+      setMessageType(nextMedia.messageType);
+      setMediaUrl(nextMedia.mediaUrl);
+      setMediaGroup(nextMedia.mediaGroup);
+      setLinkPreviewOptions(nextPreviewOptions);
       recordAuditEvent({
         action: "import_json",
         status: "success",
         userId: user?.id,
         targetId: currentScreenId ?? null,
-        message: "Import dialog applied JSON",
+        message: dropped.length ? `Import dialog applied JSON, dropped ${dropped.join(", ")}` : "Import dialog applied JSON",
       });
-      toast.success("Imported successfully");
+      if (dropped.length) {
+        toast.success("导入成功，部分字段未导入", { description: `已忽略：${dropped.join(", ")}` });
+      } else {
+        toast.success("Imported successfully");
+      }
       setImportDialogOpen(false);
     } catch (e) {
       const message = e instanceof Error ? e.message : "Invalid JSON";
@@ -649,7 +1002,7 @@ export const useBuilderStore = () => {
     } finally {
       setIsImporting(false);
     }
-  }, [currentScreenId, importJSON, setImportDialogOpen, setIsImporting, setKeyboard, setMediaUrl, setMessageContent, setMessageType, setParseMode, user?.id]);
+  }, [currentScreenId, importFlowBundle, importJSON, setImportDialogOpen, setIsImporting, setKeyboard, setKeyboardKind, setLinkPreviewOptions, setMediaGroup, setMediaUrl, setMessageContent, setMessageType, setParseMode, setReplyKeyboardOptions, user?.id]);
 
   const handleImportFileSelect = useCallback((e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -669,15 +1022,21 @@ export const useBuilderStore = () => {
       }
       const data = parsed as ImportPayload;
 
-      const nextMessage =
-        typeof data.text === "string"
-          ? data.text
-          : typeof data.message_content === "string"
-            ? data.message_content
-            : null;
+      let nextMessage: string | null;
+      let nextMedia: ReturnType<typeof importMessageMedia>;
+      let nextPreviewOptions: LinkPreviewOptions;
+      try {
+        nextMessage = importMessageText(data);
+        nextMedia = importMessageMedia(data);
+        nextPreviewOptions = importLinkPreviewOptions(data);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "消息格式不合法";
+        setJsonSyncError(`导入失败：${message}`);
+        return;
+      }
 
       if (nextMessage) {
-        validateMessageContent(nextMessage);
+        validateMessageContent(nextMessage, nextMedia.messageType);
         setMessageContent(nextMessage);
       }
 
@@ -686,9 +1045,9 @@ export const useBuilderStore = () => {
         setParseMode(mode);
       }
 
-      const inlineKeyboard = Array.isArray(data.reply_markup?.inline_keyboard)
-        ? (data.reply_markup?.inline_keyboard as ImportInlineKeyboard)
-        : undefined;
+      const markup = parseReplyMarkup(data.reply_markup);
+      const nextKind = markup?.kind ?? "inline";
+      const inlineKeyboard: ImportInlineKeyboard | undefined = markup?.rows;
       const internalKeyboard = data.keyboard;
       const nextKeyboard = inlineKeyboard ?? internalKeyboard;
 
@@ -699,13 +1058,11 @@ export const useBuilderStore = () => {
             buttons: row.map((btn, btnIdx) => ({
               id: btn.id ?? `btn-${rowIdx}-${btnIdx}-${Date.now()}`,
               text: btn.text ?? "",
-              url: btn.url,
-              callback_data: btn.callback_data,
-              linked_screen_id: btn.linked_screen_id,
+              ...pickButtonActionFields(btn),
             })),
           }));
           try {
-            validateKeyboard(mapped);
+            validateKeyboard(mapped, nextKind);
           } catch (error) {
             const message = error instanceof Error ? error.message : "键盘格式不合法";
             setJsonSyncError(`导入失败：${message}`);
@@ -713,27 +1070,24 @@ export const useBuilderStore = () => {
           }
           setKeyboard(mapped);
         } else {
+          const legacyFree = normalizeLegacyKeyboard(nextKeyboard);
           try {
-            validateKeyboard(nextKeyboard);
+            validateKeyboard(legacyFree, nextKind);
           } catch (error) {
             const message = error instanceof Error ? error.message : "键盘格式不合法";
             setJsonSyncError(`导入失败：${message}`);
             return;
           }
-          setKeyboard(() => JSON.parse(JSON.stringify(nextKeyboard)) as KeyboardRow[]);
+          setKeyboard(() => JSON.parse(JSON.stringify(legacyFree)) as KeyboardRow[]);
         }
       }
+      setKeyboardKind(nextKind);
+      setReplyKeyboardOptions(markup?.options ?? {});
 
-      if (typeof data.photo === "string") {
-        setMessageType("photo");
-        setMediaUrl(data.photo);
-      } else if (typeof data.video === "string") {
-        setMessageType("video");
-        setMediaUrl(data.video);
-      } else {
-        setMessageType("text");
-        setMediaUrl("");
-      }
+      setMessageType(nextMedia.messageType);
+      setMediaUrl(nextMedia.mediaUrl);
+      setMediaGroup(nextMedia.mediaGroup);
+      setLinkPreviewOptions(nextPreviewOptions);
 
       setJsonSyncError(null);
       recordAuditEvent({
@@ -754,7 +1108,7 @@ export const useBuilderStore = () => {
       });
       setJsonSyncError("Invalid JSON");
     }
-  }, [currentScreenId, editableJSON, setKeyboard, setMediaUrl, setMessageContent, setMessageType, setParseMode, user?.id]);
+  }, [currentScreenId, editableJSON, setKeyboard, setKeyboardKind, setLinkPreviewOptions, setMediaGroup, setMediaUrl, setMessageContent, setMessageType, setParseMode, setReplyKeyboardOptions, user?.id]);
 
   const handleCreateLink = useCallback((sourceId: string, targetId: string) => {
     setScreens((prev) => {
@@ -766,7 +1120,7 @@ export const useBuilderStore = () => {
         }));
         let updated = false;
         for (const row of rows) {
-          const btn = row.buttons.find((b) => !b.linked_screen_id && !b.url);
+          const btn = row.buttons.find((b) => getButtonActionKind(b) === "callback_data");
           if (btn) {
             btn.linked_screen_id = targetId;
             updated = true;
@@ -1040,6 +1394,14 @@ export const useBuilderStore = () => {
     [applyScreenState, handleNavigateToScreen, screenById],
   );
 
+  const handleLoadRemoteVersion = useCallback(() => {
+    const screen = remoteConflict ? screenById.get(remoteConflict.screenId) : undefined;
+    if (screen) applyScreenState(screen);
+    setRemoteConflict(null);
+  }, [applyScreenState, remoteConflict, screenById]);
+
+  const handleDismissRemoteConflict = useCallback(() => setRemoteConflict(null), []);
+
   const handleDeleteAllScreens = useCallback(async () => {
     try {
       setIsClearingScreens(true);
@@ -1064,9 +1426,29 @@ export const useBuilderStore = () => {
 
   const handleOpenImport = useCallback(() => setImportDialogOpen(true), [setImportDialogOpen]);
   const handleOpenFlowDiagram = useCallback(() => setFlowDiagramOpen(true), [setFlowDiagramOpen]);
+  const handleOpenFlowSimulator = useCallback(() => {
+    if (!resolveEntryScreen()) return;
+    setFlowSimulatorOpen(true);
+  }, [resolveEntryScreen]);
+
+  const handleCreateProject = useCallback(async (input: ProjectInput) => {
+    const project = await createProject(input);
+    toast.success(`已创建项目：${project.name}`);
+  }, [createProject]);
+
+  const handleUpdateProject = useCallback(async (projectId: string, input: ProjectInput) => {
+    await updateProject(projectId, input);
+    toast.success("项目设置已保存");
+  }, [updateProject]);
 
   const leftPanelProps = useMemo(() => ({
     user,
+    projects,
+    activeProjectId,
+    activeProjectRole,
+    workspaces,
+    workspaceActions,
+    viewers,
     screens,
     currentScreenId,
     entryScreenId,
@@ -1077,6 +1459,9 @@ export const useBuilderStore = () => {
     hasUnsavedChanges,
     isOffline,
     onLogout: handleLogout,
+    onSelectProject: selectProject,
+    onCreateProject: handleCreateProject,
+    onUpdateProject: handleUpdateProject,
     onLoadScreen: handleLoadScreen,
     onNewScreen: createNewScreen,
     onSaveScreen: handleSaveScreen,
@@ -1095,6 +1480,8 @@ export const useBuilderStore = () => {
     onExportFlow: exportFlowAsJSON,
     onOpenFlowDiagram: handleOpenFlowDiagram,
   }), [
+    activeProjectId,
+    activeProjectRole,
     createNewScreen,
     currentScreenId,
     deleteScreen,
@@ -1102,6 +1489,7 @@ export const useBuilderStore = () => {
     exportFlowAsJSON,
     handleCopyJSON,
     handleCopyOrShare,
+    handleCreateProject,
     handleExportJSON,
     handleLogout,
     handleLoadScreen,
@@ -1112,6 +1500,7 @@ export const useBuilderStore = () => {
     handleUnshareScreen,
     handleSaveScreen,
     handleUpdateScreen,
+    handleUpdateProject,
     handleTogglePin,
     handleOpenImport,
     handleOpenFlowDiagram,
@@ -1120,9 +1509,14 @@ export const useBuilderStore = () => {
     isLoading,
     isOffline,
     pinnedIds,
+    projects,
     screens,
+    selectProject,
     shareLoading,
     user,
+    viewers,
+    workspaceActions,
+    workspaces,
   ]);
 
   const workbenchStatusProps = useMemo(
@@ -1144,46 +1538,97 @@ export const useBuilderStore = () => {
     newScreenName,
     onNewScreenNameChange: setNewScreenName,
     onFormatClick: handleFormatClick,
+    messageContent,
     parseMode,
     onParseModeChange: setParseMode,
     messageType,
     mediaUrl,
+    mediaGroup,
     onMessageTypeChange: setMessageType,
     onMediaUrlChange: setMediaUrl,
+    onMediaGroupChange: setMediaGroup,
+    linkPreviewOptions,
+    onLinkPreviewOptionsChange: setLinkPreviewOptions,
+    keyboardKind,
+    onKeyboardKindChange: setKeyboardKind,
+    replyKeyboardOptions,
+    onReplyKeyboardOptionsChange: setReplyKeyboardOptions,
+    variables,
+    onAddVariable: addVariable,
+    onVariableChange: updateVariable,
+    onRemoveVariable: removeVariable,
+    undeclaredVariableErrors,
     onAddButton: handleAddButton,
     onAddRow: handleAddRow,
+    pagination,
+    onApplyPagination: handleApplyPagination,
+    onGeneratePageScreens: handleGeneratePageScreens,
+    onRemovePagination: handleRemovePagination,
+    canGeneratePageScreens: !!user && !isOffline,
+    inputStep,
+    onInputStepChange: setInputStep,
+    screens,
     allowCircular,
     onAllowCircularChange: setAllowCircular,
     isOffline,
     currentScreenId,
     onOpenRenameDialog: openRenameDialog,
   }), [
+    addVariable,
     allowCircular,
     currentScreenId,
     handleAddButton,
     handleAddRow,
+    handleApplyPagination,
     handleFormatClick,
+    handleGeneratePageScreens,
+    handleRemovePagination,
+    inputStep,
     isOffline,
+    keyboardKind,
+    linkPreviewOptions,
+    mediaGroup,
     mediaUrl,
+    messageContent,
     messageType,
     newScreenName,
     openRenameDialog,
+    pagination,
     parseMode,
+    removeVariable,
+    replyKeyboardOptions,
+    screens,
     setAllowCircular,
+    setInputStep,
+    setKeyboardKind,
+    setLinkPreviewOptions,
+    setMediaGroup,
     setMediaUrl,
     setMessageType,
     setNewScreenName,
     setParseMode,
+    setReplyKeyboardOptions,
+    undeclaredVariableErrors,
+    updateVariable,
+    user,
+    variables,
   ]);
 
   const centerCanvasProps = useMemo(() => ({
     messageContent,
     setMessageContent,
     keyboard,
+    keyboardKind,
+    replyKeyboardOptions,
+    linkPreviewOptions,
+    variables,
+    pagination,
+    inputStep,
     parseMode,
     onParseModeChange: setParseMode,
     messageType,
     mediaUrl,
+    mediaGroup,
     onMessageTypeChange: setMessageType,
     onMediaUrlChange: setMediaUrl,
     onButtonTextChange: handleButtonTextChange,
@@ -1191,10 +1636,12 @@ export const useBuilderStore = () => {
     onDeleteButton: handleDeleteButton,
     onButtonClick: (button: KeyboardButton) => handleButtonClick(button),
     onKeyboardReorder: handleReorder,
+    onInputAccepted: handleInputAccepted,
     isPreviewMode,
     onToggleMode: togglePreviewMode,
     onOpenTemplateLibrary: () => setTemplateLibraryOpen(true),
     onOpenFlowDiagram: () => setFlowDiagramOpen(true),
+    onOpenFlowSimulator: handleOpenFlowSimulator,
     canUndo,
     canRedo,
     onUndo: undo,
@@ -1211,6 +1658,9 @@ export const useBuilderStore = () => {
     shareSyncStatus,
     layoutSyncStatus,
     pendingQueueSize,
+    remoteConflict,
+    onLoadRemoteVersion: handleLoadRemoteVersion,
+    onDismissRemoteConflict: handleDismissRemoteConflict,
   }), [
     canRedo,
     canUndo,
@@ -1219,13 +1669,20 @@ export const useBuilderStore = () => {
     handleButtonTextChange,
     handleButtonUpdate,
     handleDeleteButton,
+    handleInputAccepted,
     handleNavigateBack,
+    handleOpenFlowSimulator,
     handleReorder,
+    inputStep,
     hasUnsavedChanges,
     isOffline,
     isPreviewMode,
     keyboard,
+    keyboardKind,
     layoutSyncStatus,
+    linkPreviewOptions,
+    pagination,
+    mediaGroup,
     mediaUrl,
     messageContent,
     messageType,
@@ -1233,6 +1690,10 @@ export const useBuilderStore = () => {
     parseMode,
     pendingQueueSize,
     redo,
+    remoteConflict,
+    handleLoadRemoteVersion,
+    handleDismissRemoteConflict,
+    replyKeyboardOptions,
     entryScreenId,
     screens,
     setFlowDiagramOpen,
@@ -1245,6 +1706,7 @@ export const useBuilderStore = () => {
     togglePreviewMode,
     undo,
     currentScreenName,
+    variables,
   ]);
 
   const bottomPanelProps = useMemo(() => ({
@@ -1275,6 +1737,8 @@ export const useBuilderStore = () => {
     isOffline,
     codegenFramework,
     onCodegenFrameworkChange: setCodegenFramework,
+    codegenScope,
+    onCodegenScopeChange: setCodegenScope,
     codegenOutput,
     onCopyCodegen: handleCopyCodegen,
   }), [
@@ -1282,6 +1746,7 @@ export const useBuilderStore = () => {
     clearPendingQueue,
     codegenFramework,
     codegenOutput,
+    codegenScope,
     editableJSON,
     handleApplyEditedJSON,
     handleCopyCodegen,
@@ -1294,6 +1759,7 @@ export const useBuilderStore = () => {
     replayPendingQueue,
     retryingQueue,
     setCodegenFramework,
+    setCodegenScope,
     setEditableJSON,
     user?.id,
   ]);
@@ -1362,6 +1828,7 @@ export const useBuilderStore = () => {
     screens,
     currentScreenId,
     userId: user?.id,
+    projectId: activeProjectId,
     entryScreenId,
     pinnedIds,
     onLayoutSync: setLayoutSyncStatus,
@@ -1376,8 +1843,14 @@ export const useBuilderStore = () => {
     },
     onSetEntry: handleSetEntry,
     onDeleteScreen: deleteScreen,
+    cursors,
+    onCursorMove: broadcastCursor,
+    remoteLayouts,
   }), [
+    activeProjectId,
     applyScreenState,
+    broadcastCursor,
+    cursors,
     currentScreenId,
     deleteScreen,
     entryScreenId,
@@ -1386,6 +1859,7 @@ export const useBuilderStore = () => {
     handleNavigateToScreen,
     handleSetEntry,
     pinnedIds,
+    remoteLayouts,
     screenById,
     screens,
     setLayoutSyncStatus,
@@ -1393,6 +1867,14 @@ export const useBuilderStore = () => {
     user?.id,
   ]);
 
+  const flowSimulatorDialog = useMemo(() => ({
+    open: flowSimulatorOpen,
+    setOpen: setFlowSimulatorOpen,
+    screens,
+    entryScreenId,
+    variables,
+  }), [entryScreenId, flowSimulatorOpen, screens, variables]);
+
   const circularPathsMemo = useMemo(
     () => detectedCircularPaths.map((path) => ({
       path,
@@ -1451,6 +1933,7 @@ export const useBuilderStore = () => {
     importDialog: importDialogState,
     renameDialog: renameDialogState,
     flowDiagram: flowDiagramDialog,
+    flowSimulator: flowSimulatorDialog,
     circularDialog: circularDialogState,
     templateLibrary: templateLibraryState,
     onboarding: onboardingState,
@@ -1458,6 +1941,7 @@ export const useBuilderStore = () => {
     buttonEditorDialog,
     circularDialogState,
     flowDiagramDialog,
+    flowSimulatorDialog,
     importDialogState,
     onboardingState,
     renameDialogState,
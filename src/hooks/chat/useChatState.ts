@@ -1,44 +1,32 @@
 import { useState, useCallback, useEffect } from 'react';
-import { KeyboardRow } from '@/types/telegram';
-import { validateKeyboard, validateMessageContent } from '@/lib/validation';
+import { InputStep, KeyboardKind, KeyboardRow, LinkPreviewOptions, PaginatedKeyboard, ReplyKeyboardOptions } from '@/types/telegram';
+import { validateKeyboard, validateLinkPreviewOptions, validateMediaGroup, validateMessageContent, validateReplyKeyboardOptions } from '@/lib/validation';
 import { createDefaultKeyboard, cloneKeyboard } from '@/lib/keyboard/factory';
-import type { TemplatePayload, ParseMode, MessageType } from "@/types/templates";
-export type { TemplatePayload, ParseMode, MessageType } from "@/types/templates";
-
-interface TelegramExportButton {
-    text: string;
-    url?: string;
-    callback_data?: string;
-}
-
-type TelegramExportPayload =
-    | {
-        text: string;
-        parse_mode: ParseMode;
-        reply_markup?: { inline_keyboard: TelegramExportButton[][] };
-    }
-    | {
-        photo: string;
-        caption?: string;
-        parse_mode: ParseMode;
-        reply_markup?: { inline_keyboard: TelegramExportButton[][] };
-    }
-    | {
-        video: string;
-        caption?: string;
-        parse_mode: ParseMode;
-        reply_markup?: { inline_keyboard: TelegramExportButton[][] };
-    };
-
-type SerializedMessage = {
-    type: MessageType;
-    text: string;
-    mediaUrl?: string;
-    parse_mode: ParseMode;
-};
+import { normalizeLegacyKeyboard } from '@/lib/keyboard/buttonActions';
+import { pickReplyKeyboardOptions } from '@/lib/keyboard/replyMarkup';
+import { pickLinkPreviewOptions } from '@/lib/linkPreview';
+import {
+    buildTelegramPayload,
+    isKeyboardKind,
+    isMessageType,
+    parseSerializedMessage,
+    serializeMessageState,
+    type TelegramExportPayload,
+} from '@/lib/messagePayload';
+import type { TemplatePayload, ParseMode, MessageType, MediaGroupItem } from "@/types/templates";
+export type { TemplatePayload, ParseMode, MessageType, MediaGroupItem } from "@/types/templates";
 
 type LoadTemplateResult = { ok: true } | { ok: false; error: string };
 
+/** Reply keyboard options of a stored payload; malformed ones fall back to the defaults instead of reaching the export. */
+const readReplyKeyboardOptions = (options: unknown): ReplyKeyboardOptions => {
+    try {
+        return validateReplyKeyboardOptions(options);
+    } catch {
+        return {};
+    }
+};
+
 export const useChatState = () => {
     const [messageContent, setMessageContent] = useState("Welcome to the Telegram UI Builder!\n\nEdit this message directly.\n\nFormatting:\n**bold text** for bold\n`code blocks` for code");
     const [keyboard, setKeyboard] = useState<KeyboardRow[]>(createDefaultKeyboard());
@@ -50,6 +38,12 @@ export const useChatState = () => {
     const [parseMode, setParseMode] = useState<ParseMode>("HTML");
     const [messageType, setMessageType] = useState<MessageType>("text");
     const [mediaUrl, setMediaUrl] = useState("");
+    const [mediaGroup, setMediaGroup] = useState<MediaGroupItem[]>([]);
+    const [keyboardKind, setKeyboardKind] = useState<KeyboardKind>("inline");
+    const [replyKeyboardOptions, setReplyKeyboardOptions] = useState<ReplyKeyboardOptions>({});
+    const [linkPreviewOptions, setLinkPreviewOptions] = useState<LinkPreviewOptions>({});
+    const [pagination, setPagination] = useState<PaginatedKeyboard | undefined>(undefined);
+    const [inputStep, setInputStep] = useState<InputStep | undefined>(undefined);
 
     const pushToHistory = useCallback((content: string, kbd: KeyboardRow[]) => {
         setHistoryState((prev) => {
@@ -83,113 +77,73 @@ export const useChatState = () => {
     const canUndo = historyState.index > 0;
     const canRedo = historyState.index < historyState.history.length - 1;
 
-    const formatText = useCallback(
-        (text: string, mode: ParseMode) => {
-            if (mode === "HTML") {
-                const escapeHtml = (input: string) =>
-                    input
-                        .replace(/&/g, "&amp;")
-                        .replace(/</g, "&lt;")
-                        .replace(/>/g, "&gt;");
-                return escapeHtml(text)
-                    .replace(/\*\*(.*?)\*\*/g, '<b>$1</b>')
-                    .replace(/`(.*?)`/g, '<code>$1</code>')
-                    .replace(/_(.*?)_/g, '<i>$1</i>');
-            }
+    const convertToTelegramFormat = useCallback((): TelegramExportPayload => buildTelegramPayload({
+        text: messageContent,
+        parseMode,
+        messageType,
+        mediaUrl,
+        mediaGroup,
+        keyboard,
+        keyboardKind,
+        replyKeyboardOptions,
+        linkPreviewOptions,
+    }), [messageContent, keyboard, keyboardKind, replyKeyboardOptions, linkPreviewOptions, parseMode, messageType, mediaUrl, mediaGroup]);
 
-            // MarkdownV2: assume text已包含所需格式，做基础转义（保留常见标记）
-            const escapeMd = (input: string) =>
-                input.replace(/([[\]()~`>#+\-=|{}.!])/g, "\\$1");
-            // 保留粗体/斜体/代码块，先标记再恢复
-            const placeholders: string[] = [];
-            const replaced = text.replace(/\*\*(.*?)\*\*|`(.*?)`|_(.*?)_/g, (match) => {
-                placeholders.push(match);
-                return `__MARK_${placeholders.length - 1}__`;
-            });
-            const escaped = escapeMd(replaced);
-            return escaped.replace(/__MARK_(\d+)__/g, (_, idx) => placeholders[Number(idx)]);
-        },
-        []
-    );
-
-    const convertToTelegramFormat = useCallback((): TelegramExportPayload => {
-        const formattedText = formatText(messageContent, parseMode);
-
-        const reply_markup = keyboard.length > 0 ? {
-            inline_keyboard: keyboard.map(row =>
-                row.buttons.map(btn => {
-                    const btnData: TelegramExportButton = { text: btn.text };
-                    if (btn.url) {
-                        btnData.url = btn.url;
-                    } else if (btn.linked_screen_id) {
-                        btnData.callback_data = `goto_screen_${btn.linked_screen_id}`;
-                    } else {
-                        btnData.callback_data = btn.callback_data || btn.text.toLowerCase().replace(/\s+/g, '_');
-                    }
-                    return btnData;
-                })
-            )
-        } : undefined;
-
-        if (messageType === "photo" && mediaUrl) {
-            return {
-                photo: mediaUrl,
-                caption: formattedText,
-                parse_mode: parseMode,
-                ...(reply_markup && { reply_markup }),
-            };
-        }
-        if (messageType === "video" && mediaUrl) {
-            return {
-                video: mediaUrl,
-                caption: formattedText,
-                parse_mode: parseMode,
-                ...(reply_markup && { reply_markup }),
-            };
-        }
-        return {
-            text: formattedText,
-            parse_mode: parseMode,
-            ...(reply_markup && { reply_markup })
-        };
-    }, [messageContent, keyboard, parseMode, messageType, mediaUrl, formatText]);
-
-    const serializeMessagePayload = useCallback(() => {
-        const payload: SerializedMessage = {
-            type: messageType,
-            text: messageContent,
-            mediaUrl: mediaUrl || undefined,
-            parse_mode: parseMode,
-        };
-        if (messageType === "text" && !mediaUrl && parseMode === "HTML") {
-            return messageContent;
-        }
-        return JSON.stringify(payload);
-    }, [messageType, messageContent, mediaUrl, parseMode]);
+    const serializeMessagePayload = useCallback(() => serializeMessageState({
+        text: messageContent,
+        parseMode,
+        messageType,
+        mediaUrl,
+        mediaGroup,
+        keyboardKind,
+        replyKeyboardOptions,
+        linkPreviewOptions,
+        pagination,
+        inputStep,
+    }), [messageType, messageContent, mediaUrl, mediaGroup, parseMode, keyboardKind, replyKeyboardOptions, linkPreviewOptions, pagination, inputStep]);
 
     const loadMessagePayload = useCallback((raw: string) => {
-        try {
-            const parsed = JSON.parse(raw) as Partial<SerializedMessage>;
-            if (parsed && typeof parsed === "object" && parsed.type && parsed.text !== undefined) {
-                setMessageContent(parsed.text || "");
-                setParseMode((parsed.parse_mode as ParseMode) || "HTML");
-                setMessageType((parsed.type as MessageType) || "text");
-                setMediaUrl(parsed.mediaUrl || "");
-                return;
-            }
-        } catch {
-            // fallback to plain text
+        const parsed = parseSerializedMessage(raw);
+        if (parsed) {
+            setMessageContent(parsed.text || "");
+            setParseMode((parsed.parse_mode as ParseMode) || "HTML");
+            setMessageType((parsed.type as MessageType) || "text");
+            setMediaUrl(parsed.mediaUrl || "");
+            setMediaGroup(parsed.media_group ?? []);
+            setKeyboardKind(isKeyboardKind(parsed.keyboard_kind) ? parsed.keyboard_kind : "inline");
+            setReplyKeyboardOptions(readReplyKeyboardOptions(parsed.reply_keyboard_options));
+            setLinkPreviewOptions(parsed.link_preview_options ?? {});
+            setPagination(parsed.pagination);
+            setInputStep(parsed.input_step);
+            return;
         }
         setMessageContent(raw);
         setParseMode("HTML");
         setMessageType("text");
         setMediaUrl("");
+        setMediaGroup([]);
+        setKeyboardKind("inline");
+        setReplyKeyboardOptions({});
+        setLinkPreviewOptions({});
+        setPagination(undefined);
+        setInputStep(undefined);
     }, []);
 
     const loadTemplate = useCallback((template: TemplatePayload): LoadTemplateResult => {
+        const nextKeyboardKind: KeyboardKind = isKeyboardKind(template.keyboard_kind) ? template.keyboard_kind : "inline";
+        const nextType: MessageType = isMessageType(template.message_type) ? template.message_type : "text";
+        let nextKeyboardOptions: ReplyKeyboardOptions;
+        let nextPreviewOptions: LinkPreviewOptions;
+        let nextMediaGroup: MediaGroupItem[] = [];
+        const templateKeyboard = normalizeLegacyKeyboard(template.keyboard);
         try {
-            validateMessageContent(template.message_content);
-            validateKeyboard(template.keyboard);
+            validateMessageContent(template.message_content, nextType);
+            validateKeyboard(templateKeyboard, nextKeyboardKind);
+            nextKeyboardOptions = validateReplyKeyboardOptions(template.reply_keyboard_options);
+            nextPreviewOptions = validateLinkPreviewOptions(template.link_preview_options);
+            if (nextType === "media_group") {
+                nextMediaGroup = validateMediaGroup(template.media_group) as MediaGroupItem[];
+            }
         } catch (error) {
             return {
                 ok: false,
@@ -197,19 +151,23 @@ export const useChatState = () => {
             };
         }
 
-        const requestedType = template.message_type ?? "text";
-        const allowedTypes: MessageType[] = ["text", "photo", "video"];
-        const nextType: MessageType = allowedTypes.includes(requestedType) ? requestedType : "text";
         const nextParseMode: ParseMode = template.parse_mode === "MarkdownV2" ? "MarkdownV2" : "HTML";
         const safeMedia = template.media_url || "";
-        const finalType: MessageType = nextType !== "text" && !safeMedia ? "text" : nextType;
-        const safeKeyboard = cloneKeyboard(template.keyboard as KeyboardRow[]);
+        const finalType: MessageType =
+            nextType !== "text" && nextType !== "media_group" && !safeMedia ? "text" : nextType;
+        const safeKeyboard = cloneKeyboard(templateKeyboard as KeyboardRow[]);
 
         setMessageContent(template.message_content);
         setKeyboard(safeKeyboard);
         setParseMode(nextParseMode);
         setMessageType(finalType);
-        setMediaUrl(finalType === "text" ? "" : safeMedia);
+        setMediaUrl(finalType === "text" || finalType === "media_group" ? "" : safeMedia);
+        setMediaGroup(nextMediaGroup);
+        setKeyboardKind(nextKeyboardKind);
+        setReplyKeyboardOptions(pickReplyKeyboardOptions(nextKeyboardKind, nextKeyboardOptions));
+        setLinkPreviewOptions(pickLinkPreviewOptions(nextPreviewOptions));
+        setPagination(undefined);
+        setInputStep(undefined);
         pushToHistory(template.message_content, safeKeyboard);
 
         return { ok: true };
@@ -230,6 +188,18 @@ export const useChatState = () => {
         setMessageType,
         mediaUrl,
         setMediaUrl,
+        mediaGroup,
+        setMediaGroup,
+        keyboardKind,
+        setKeyboardKind,
+        replyKeyboardOptions,
+        setReplyKeyboardOptions,
+        linkPreviewOptions,
+        setLinkPreviewOptions,
+        pagination,
+        setPagination,
+        inputStep,
+        setInputStep,
         pushToHistory,
         undo,
         redo,
@@ -1,88 +1,222 @@
 import { useCallback, useMemo, useState } from "react";
 import { toast } from "sonner";
+import {
+  buildGrammyKeyboard,
+  buildJsonMarkup,
+  buildPythonMarkup,
+  buildTelegrafKeyboard,
+  collectCallbackData,
+  escapeStr,
+  grammyMarkupImports,
+  pythonMarkupImports,
+  type CodegenFramework,
+  type CodegenPayload,
+} from "@/lib/codegen/markup";
+import { generateFlowBot, type FlowCodegenScreen } from "@/lib/codegen/flowBot";
+import { buildCallbackManagerCode, collectCallbackRoutes, isFactoryCallbackData } from "@/lib/codegen/callbackRoutes";
+import {
+  buildJsMediaGroup,
+  buildPythonMediaGroup,
+  hasCaption,
+  pascalMedia,
+  payloadMedia,
+  payloadMediaGroup,
+  pythonMediaGroupImports,
+} from "@/lib/codegen/media";
+import { jsLinkPreviewField, payloadLinkPreview, pythonLinkPreviewArgs, pythonLinkPreviewImports } from "@/lib/codegen/linkPreview";
+import {
+  escapeHelpers,
+  interpolateCode,
+  jsVariableParam,
+  markPayloadVariables,
+  payloadVariables,
+  pythonVariableParams,
+  usableVariables,
+  type CodeLanguage,
+} from "@/lib/codegen/variables";
+import { buildKeyboardAssignment, grammyConditionImports } from "@/lib/codegen/conditions";
+import {
+  buildPageHandler,
+  buildPaginationHelpers,
+  pageMarkup,
+  paginationPythonImports,
+  withoutPageRoute,
+} from "@/lib/codegen/pagination";
+import type { FlowVariable } from "@/types/telegram";
 
-type Framework = "python-telegram-bot" | "aiogram" | "telegraf";
+export type CodegenScope = "screen" | "flow";
+
+/** `/start` handler with its variables interpolated, preceded by the escape helpers it calls. */
+const withVariables = (handler: string, language: CodeLanguage, variables: FlowVariable[], parseMode?: string, typed = false) => {
+  const code = interpolateCode(handler, language, variables, parseMode);
+  return [...escapeHelpers(code, language, typed), code].join("\n\n");
+};
+
+/**
+ * Inline JavaScript `/start` handler, or a `sendStart` function taking the variables as parameters when the
+ * message uses any. `register` is the registration call up to the handler, e.g. `bot.start(`.
+ */
+const jsStartHandler = (
+  register: string,
+  arg: string,
+  body: string,
+  param: string,
+  { asyncHandler = false, argType = "" }: { asyncHandler?: boolean; argType?: string } = {}
+) =>
+  param
+    ? `async function sendStart(${arg}${argType}, ${param}) {\n  ${body}\n}\n\n${register}(${arg}) => sendStart(${arg}));`
+    : `${register}${asyncHandler ? "async " : ""}(${arg}) => {\n  ${body}\n});`;
+
+/** `const <name> = ...;` as the first statement of a 2-space JavaScript handler body. */
+const jsKeyboardAssignment = (framework: CodegenFramework, payload: CodegenPayload, name: string, fallback: string) =>
+  buildKeyboardAssignment(framework, payload, (markup) => `const ${name} = ${markup};`, fallback, "  ").trimStart();
 
 export const useCodegen = (
-  convertToTelegramFormat: () => {
-    text?: string;
-    caption?: string;
-    photo?: string;
-    video?: string;
-    parse_mode?: string;
-    reply_markup?: { inline_keyboard?: Array<Array<{ text: string; url?: string; callback_data?: string }>> };
-  },
-  messageType: "text" | "photo" | "video"
+  convertToTelegramFormat: () => CodegenPayload,
+  flow?: { screens: FlowCodegenScreen[]; entryScreenId: string | null; variables?: FlowVariable[] }
 ) => {
-  const [codegenFramework, setCodegenFramework] = useState<Framework>("python-telegram-bot");
+  const [codegenFramework, setCodegenFramework] = useState<CodegenFramework>("python-telegram-bot");
+  const [codegenScope, setCodegenScope] = useState<CodegenScope>("screen");
 
   const generateCode = useCallback(
-    (framework: Framework) => {
-      const escapeStr = (val: string) => val.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
-      const payload = convertToTelegramFormat();
-      type ExportPayload = ReturnType<typeof convertToTelegramFormat>;
-      type ExportInlineKeyboard = NonNullable<ExportPayload["reply_markup"]>["inline_keyboard"];
-      const kb: ExportInlineKeyboard = payload.reply_markup?.inline_keyboard ?? [];
-
-      const buildPythonInlineKeyboard = () =>
-        kb
-          .map(
-            (row) =>
-              "    [" +
-              row
-                .map((btn) => {
-                  const action = btn.url ? `url="${escapeStr(btn.url)}"` : `callback_data="${escapeStr(btn.callback_data || "")}"`;
-                  return `InlineKeyboardButton(text="${escapeStr(btn.text)}", ${action})`;
-                })
-                .join(", ") +
-              "]"
-          )
-          .join("\n");
-
-      const buildTelegrafKeyboard = () => {
-        if (!kb.length) return "Markup.inlineKeyboard([])";
-        const rows = kb
-          .map(
-            (row) =>
-              "[" +
-              row
-                .map((btn) => {
-                  const actionValue = btn.url ? `"${escapeStr(btn.url)}"` : `"${escapeStr(btn.callback_data || "")}"`;
-                  return `Markup.button.${btn.url ? "url" : "callback"}("${escapeStr(btn.text)}", ${actionValue})`;
-                })
-                .join(", ") +
-              "]"
-          )
-          .join(",\n    ");
-        return `Markup.inlineKeyboard([\n    ${rows}\n  ])`;
-      };
+    (framework: CodegenFramework) => {
+      const variables = usableVariables(flow?.variables ?? []);
+      const payload = markPayloadVariables(convertToTelegramFormat(), variables);
+      const usedVariables = payloadVariables(payload, variables);
+      const markup = payload.reply_markup;
 
       const captionRaw = "text" in payload ? payload.text : payload.caption || "";
-      const mediaRaw = "photo" in payload ? payload.photo : "video" in payload ? payload.video : null;
       const caption = escapeStr(captionRaw || "");
-      const media = mediaRaw ? escapeStr(mediaRaw) : null;
+      const media = payloadMedia(payload);
+      const mediaUrl = media ? escapeStr(media.url) : null;
+      const withCaption = media ? hasCaption(media.kind) : true;
+      const group = payloadMediaGroup(payload);
       const parseMode = payload.parse_mode;
+      const linkPreview = payloadLinkPreview(payload);
+      const pythonParams = usedVariables.length ? `, ${pythonVariableParams(usedVariables)}` : "";
+      // A dynamic paginated keyboard is built page by page at runtime, from helpers placed before `/start`.
+      const pagination = payload.pagination;
+      const staticMarkup = (markupCode: string) => (pagination ? pageMarkup(framework) : markupCode);
+      const pageHelpers = pagination ? `${buildPaginationHelpers(framework, pagination)}\n\n` : "";
+      const pageHandler = pagination ? `${buildPageHandler(framework)}\n\n` : "";
+      const pythonStdImports = paginationPythonImports(payload).map((line) => `${line}\n`).join("");
 
       if (framework === "python-telegram-bot") {
-        const pythonKeyboard = kb.length ? `[\n${buildPythonInlineKeyboard()}\n    ]` : "[]";
+        const pythonImports = [
+          "Update",
+          ...pythonMarkupImports(markup),
+          ...(group ? pythonMediaGroupImports(group) : []),
+          ...pythonLinkPreviewImports(linkPreview),
+        ].join(", ");
+        const replyText = `await update.message.reply_text("${caption}", parse_mode="${parseMode}", ${pythonLinkPreviewArgs(linkPreview)}reply_markup=markup)`;
+        const send = group
+          ? `await update.message.reply_media_group(${buildPythonMediaGroup(group)})\n    ${replyText}`
+          : media
+            ? `await update.message.reply_${media.kind}("${mediaUrl}", ${withCaption ? `caption="${caption}", parse_mode="${parseMode}", ` : ""}reply_markup=markup)`
+            : replyText;
 
-        return `from telegram import Update, InlineKeyboardButton, InlineKeyboardMarkup\nfrom telegram.ext import ApplicationBuilder, CommandHandler, CallbackQueryHandler, ContextTypes\n\nasync def start(update: Update, context: ContextTypes.DEFAULT_TYPE):\n    keyboard = ${pythonKeyboard}\n    markup = InlineKeyboardMarkup(keyboard)\n    ${media ? `await update.message.reply_${messageType === "photo" ? "photo" : "video"}("${media}", caption="${caption}", parse_mode="${parseMode}", reply_markup=markup)` : `await update.message.reply_text("${caption}", parse_mode="${parseMode}", reply_markup=markup)`}\n\nasync def on_callback(update: Update, context: ContextTypes.DEFAULT_TYPE):\n    query = update.callback_query\n    await query.answer()\n    await query.edit_message_text(text="Received: " + (query.data or ""))\n\napp = ApplicationBuilder().token("<BOT_TOKEN>").build()\napp.add_handler(CommandHandler("start", start))\napp.add_handler(CallbackQueryHandler(on_callback))\napp.run_polling()\n`;
+        const pageRegistration = pagination ? 'app.add_handler(CallbackQueryHandler(on_page, pattern=r"^(?:page:nav:|noop$)"))\n' : "";
+        return `${pythonStdImports ? `${pythonStdImports}\n` : ""}from telegram import ${pythonImports}\nfrom telegram.ext import ApplicationBuilder, CommandHandler, CallbackQueryHandler, ContextTypes\n\n${pageHelpers}${withVariables(`async def start(update: Update, context: ContextTypes.DEFAULT_TYPE${pythonParams}):\n${buildKeyboardAssignment(framework, payload, (kb) => `markup = ${kb}`, staticMarkup(buildPythonMarkup(markup, "ptb")), "    ")}\n    ${send}`, "python", usedVariables, parseMode)}\n\n${pageHandler}async def on_callback(update: Update, context: ContextTypes.DEFAULT_TYPE):\n    query = update.callback_query\n    await query.answer()\n    await query.edit_message_text(text="Received: " + (query.data or ""))\n\napp = ApplicationBuilder().token("<BOT_TOKEN>").build()\napp.add_handler(CommandHandler("start", start))\n${pageRegistration}app.add_handler(CallbackQueryHandler(on_callback))\napp.run_polling()\n`;
       }
 
       if (framework === "aiogram") {
-        const aiogramKeyboard = kb.length ? `InlineKeyboardMarkup(inline_keyboard=[\n${buildPythonInlineKeyboard()}\n    ])` : "InlineKeyboardMarkup(inline_keyboard=[])";
+        const aiogramKeyboard = staticMarkup(buildPythonMarkup(markup, "aiogram"));
+        const aiogramImports = [
+          ...pythonMarkupImports(markup),
+          ...(group ? pythonMediaGroupImports(group) : []),
+          ...pythonLinkPreviewImports(linkPreview),
+          "Message",
+          "CallbackQuery",
+        ].join(", ");
+        const aiogramParseMode = `ParseMode.${parseMode === "HTML" ? "HTML" : "MARKDOWN_V2"}`;
+        const answerText = `await message.answer("${caption}", parse_mode=${aiogramParseMode}, ${pythonLinkPreviewArgs(linkPreview)}reply_markup=kb)`;
+        const send = group
+          ? `await message.answer_media_group(${buildPythonMediaGroup(group)})\n    ${answerText}`
+          : media
+            ? `await message.answer_${media.kind}("${mediaUrl}", ${withCaption ? `caption="${caption}", parse_mode=${aiogramParseMode}, ` : ""}reply_markup=kb)`
+            : answerText;
+
+        return `${pythonStdImports ? `${pythonStdImports}\n` : ""}from aiogram import Bot, Dispatcher, F\nfrom aiogram.types import ${aiogramImports}\nfrom aiogram.filters import Command\nfrom aiogram.enums import ParseMode\nfrom aiogram import Router\n\nrouter = Router()\n\n${pageHelpers}${withVariables(`@router.message(Command("start"))\nasync def cmd_start(message: Message${pythonParams}):\n${buildKeyboardAssignment(framework, payload, (kb) => `kb = ${kb}`, aiogramKeyboard, "    ")}\n    ${send}`, "python", usedVariables, parseMode)}\n\n${pageHandler}@router.callback_query()\nasync def on_callback(query: CallbackQuery):\n    await query.answer("Received: " + (query.data or ""))\n\nbot = Bot(token="<BOT_TOKEN>", parse_mode=${aiogramParseMode})\ndp = Dispatcher()\ndp.include_router(router)\ndp.run_polling(bot)\n`;
+      }
 
-        return `from aiogram import Bot, Dispatcher, F\nfrom aiogram.types import InlineKeyboardMarkup, InlineKeyboardButton, Message, CallbackQuery\nfrom aiogram.filters import Command\nfrom aiogram.enums import ParseMode\nfrom aiogram import Router\n\nrouter = Router()\n\n@router.message(Command("start"))\nasync def cmd_start(message: Message):\n    kb = ${aiogramKeyboard}\n    ${media ? `await message.answer_${messageType === "photo" ? "photo" : "video"}("${media}", caption="${caption}", parse_mode=ParseMode.${parseMode === "HTML" ? "HTML" : "MARKDOWN_V2"}, reply_markup=kb)` : `await message.answer("${caption}", parse_mode=ParseMode.${parseMode === "HTML" ? "HTML" : "MARKDOWN_V2"}, reply_markup=kb)`}\n\n@router.callback_query()\nasync def on_callback(query: CallbackQuery):\n    await query.answer("Received: " + (query.data or ""))\n\nbot = Bot(token="<BOT_TOKEN>", parse_mode=ParseMode.${parseMode === "HTML" ? "HTML" : "MARKDOWN_V2"})\ndp = Dispatcher()\ndp.include_router(router)\ndp.run_polling(bot)\n`;
+      const mediaOptions = (replyMarkup: string) =>
+        `{ ${withCaption ? `caption: "${caption}", parse_mode: "${parseMode}", ` : ""}reply_markup${replyMarkup ? `: ${replyMarkup}` : ""} }`;
+
+      if (framework === "grammy") {
+        const callbackManager = buildCallbackManagerCode("grammy", withoutPageRoute(collectCallbackRoutes([markup])));
+        const grammyImports = ["Bot", ...(callbackManager || usedVariables.length ? ["Context"] : []), ...grammyMarkupImports(markup)].join(", ");
+        const callbackHandlers = collectCallbackData(markup)
+          .filter((data) => !isFactoryCallbackData(data) && !(pagination && data === "noop"))
+          .map((data) => `bot.callbackQuery("${escapeStr(data)}", async (ctx) => {\n  await ctx.answerCallbackQuery("Received: ${escapeStr(data)}");\n});\n\n`)
+          .join("");
+        const replyText = `await ctx.reply("${caption}", { parse_mode: "${parseMode}", ${jsLinkPreviewField(linkPreview)}reply_markup: keyboard });`;
+        const send = group
+          ? `await ctx.replyWithMediaGroup(${buildJsMediaGroup(group)});\n  ${replyText}`
+          : media
+            ? `await ctx.replyWith${pascalMedia(media.kind)}("${mediaUrl}", ${mediaOptions("keyboard")});`
+            : replyText;
+        const startHandler = withVariables(
+          jsStartHandler('bot.command("start", ', "ctx", `${jsKeyboardAssignment(framework, payload, "keyboard", staticMarkup(buildGrammyKeyboard(markup)))}\n  ${send}`, jsVariableParam(usedVariables, true), {
+            asyncHandler: true,
+            argType: ": Context",
+          }),
+          "js",
+          usedVariables,
+          parseMode,
+          true
+        );
+
+        const typeImports = pagination ? ['import type { InlineKeyboardButton } from "grammy/types";'] : grammyConditionImports([payload]);
+        return `import { ${grammyImports} } from "grammy";\n${typeImports.map((line) => `${line}\n`).join("")}${callbackManager ? `${callbackManager.importLine}\n` : ""}\nconst bot = new Bot(process.env.BOT_TOKEN!);\n${callbackManager ? `${callbackManager.setup}\n` : ""}\n${pageHelpers}${startHandler}\n\n${pageHandler}${callbackManager?.handlers ?? ""}${callbackHandlers}bot.on("callback_query:data", (ctx) => ctx.answerCallbackQuery("Received: " + ctx.callbackQuery.data));\n\nbot.start();\n`;
+      }
+
+      if (framework === "node-telegram-bot-api") {
+        const sendText = `bot.sendMessage(msg.chat.id, "${caption}", { parse_mode: "${parseMode}", ${jsLinkPreviewField(linkPreview)}reply_markup })`;
+        const send = group
+          ? `bot.sendMediaGroup(msg.chat.id, ${buildJsMediaGroup(group)}).then(() => ${sendText});`
+          : media
+            ? `bot.send${pascalMedia(media.kind)}(msg.chat.id, "${mediaUrl}", ${mediaOptions("")});`
+            : `${sendText};`;
+        const startHandler = withVariables(
+          jsStartHandler("bot.onText(/^\\/start/, ", "msg", `${jsKeyboardAssignment(framework, payload, "reply_markup", staticMarkup(buildJsonMarkup(markup)))}\n  ${send}`, jsVariableParam(usedVariables)),
+          "js",
+          usedVariables,
+          parseMode
+        );
+
+        const callbackHandler = pagination
+          ? buildPageHandler(framework)
+          : 'bot.on("callback_query", (query) => bot.answerCallbackQuery(query.id, { text: "Received: " + (query.data || "") }));';
+        return `const TelegramBot = require("node-telegram-bot-api");\nconst bot = new TelegramBot(process.env.BOT_TOKEN, { polling: true });\n\n${pageHelpers}${startHandler}\n\n${callbackHandler}\n`;
       }
 
-      const telegrafKeyboard = buildTelegrafKeyboard();
+      const telegrafKeyboard = staticMarkup(buildTelegrafKeyboard(markup));
+      const callbackManager = buildCallbackManagerCode("telegraf", withoutPageRoute(collectCallbackRoutes([markup])));
+      const replyText = `ctx.reply("${caption}", { parse_mode: "${parseMode}", ${jsLinkPreviewField(linkPreview)}reply_markup: keyboard.reply_markup })`;
+      const send = group
+        ? `ctx.replyWithMediaGroup(${buildJsMediaGroup(group)}).then(() => ${replyText});`
+        : media
+          ? `ctx.replyWith${pascalMedia(media.kind)}("${mediaUrl}", ${mediaOptions("keyboard.reply_markup")});`
+          : `${replyText};`;
+      const startHandler = withVariables(
+        jsStartHandler("bot.start(", "ctx", `${jsKeyboardAssignment(framework, payload, "keyboard", telegrafKeyboard)}\n  ${send}`, jsVariableParam(usedVariables)),
+        "js",
+        usedVariables,
+        parseMode
+      );
 
-      return `const { Telegraf, Markup } = require("telegraf");\nconst bot = new Telegraf(process.env.BOT_TOKEN);\n\nbot.start((ctx) => {\n  const keyboard = ${telegrafKeyboard};\n  ${media ? `ctx.replyWith${messageType === "photo" ? "Photo" : "Video"}("${media}", { caption: "${caption}", parse_mode: "${parseMode}", reply_markup: keyboard.reply_markup });` : `ctx.reply("${caption}", { parse_mode: "${parseMode}", reply_markup: keyboard.reply_markup });`}\n});\n\nbot.on("callback_query", (ctx) => ctx.answerCbQuery("Received: " + (ctx.callbackQuery?.data || "")));\n\nbot.launch();\n`;
+      return `const { Telegraf, Markup } = require("telegraf");\n${callbackManager ? `${callbackManager.importLine}\n` : ""}const bot = new Telegraf(process.env.BOT_TOKEN);\n${callbackManager ? `${callbackManager.setup}\n` : ""}\n${pageHelpers}${startHandler}\n\n${pageHandler}${callbackManager?.handlers ?? ""}bot.on("callback_query", (ctx) => ctx.answerCbQuery("Received: " + (ctx.callbackQuery?.data || "")));\n\nbot.launch();\n`;
     },
-    [convertToTelegramFormat, messageType]
+    [convertToTelegramFormat, flow?.variables]
   );
 
-  const codegenOutput = useMemo(() => generateCode(codegenFramework), [generateCode, codegenFramework]);
+  const codegenOutput = useMemo(
+    () =>
+      codegenScope === "flow" && flow
+        ? generateFlowBot(codegenFramework, flow.screens, flow.entryScreenId, flow.variables)
+        : generateCode(codegenFramework),
+    [generateCode, codegenFramework, codegenScope, flow]
+  );
 
   const handleCopyCodegen = useCallback(async () => {
     try {
@@ -96,6 +230,8 @@ export const useCodegen = (
   return {
     codegenFramework,
     setCodegenFramework,
+    codegenScope,
+    setCodegenScope,
     codegenOutput,
     handleCopyCodegen,
   };
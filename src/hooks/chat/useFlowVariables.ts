@@ -0,0 +1,66 @@
+import { useState, useCallback, useEffect } from 'react';
+import { FlowVariable } from '@/types/telegram';
+import { FLOW_VARIABLE_TYPES } from '@/lib/validation';
+
+const VARIABLES_KEY = "telegram_ui_flow_variables";
+
+const isFlowVariableType = (value: unknown): value is FlowVariable["type"] =>
+    typeof value === "string" && (FLOW_VARIABLE_TYPES as readonly string[]).includes(value);
+
+/** Lenient read of stored or imported declarations; invalid rows are kept so the panel can flag them. */
+export const normalizeFlowVariables = (value: unknown): FlowVariable[] => {
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter((item): item is Record<string, unknown> => !!item && typeof item === "object")
+        .map((item) => ({
+            name: typeof item.name === "string" ? item.name : "",
+            type: isFlowVariableType(item.type) ? item.type : "string",
+            sample: typeof item.sample === "string" ? item.sample : item.sample === undefined ? "" : String(item.sample),
+        }));
+};
+
+const readStoredVariables = () => {
+    try {
+        const saved = localStorage.getItem(VARIABLES_KEY);
+        return saved ? normalizeFlowVariables(JSON.parse(saved)) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Variables declared for the flow, referenced as `{{name}}` by every screen.
+ * Declarations live in local storage next to the entry screen and travel with flow exports.
+ */
+export const useFlowVariables = () => {
+    const [variables, setVariables] = useState<FlowVariable[]>(readStoredVariables);
+
+    // Persist declarations
+    useEffect(() => {
+        if (variables.length) {
+            localStorage.setItem(VARIABLES_KEY, JSON.stringify(variables));
+        } else {
+            localStorage.removeItem(VARIABLES_KEY);
+        }
+    }, [variables]);
+
+    const addVariable = useCallback(() => {
+        setVariables((prev) => [...prev, { name: "", type: "string", sample: "" }]);
+    }, []);
+
+    const updateVariable = useCallback((index: number, patch: Partial<FlowVariable>) => {
+        setVariables((prev) => prev.map((variable, i) => (i === index ? { ...variable, ...patch } : variable)));
+    }, []);
+
+    const removeVariable = useCallback((index: number) => {
+        setVariables((prev) => prev.filter((_, i) => i !== index));
+    }, []);
+
+    return {
+        variables,
+        setVariables,
+        addVariable,
+        updateVariable,
+        removeVariable,
+    };
+};
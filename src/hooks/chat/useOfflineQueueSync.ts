@@ -6,12 +6,15 @@ import type { TablesUpdate, Json } from "@/integrations/supabase/types";
 import type { SaveScreenInput, SupabaseDataAccess } from "@/lib/dataAccess";
 import {
   clearPendingOps,
+  enqueueEntryOperation,
   enqueueSaveOperation,
   enqueueUpdateOperation,
   processPendingOps,
   readPendingOps,
+  type EntryPayload,
 } from "@/lib/pendingQueue";
 import { cloneKeyboard } from "@/lib/keyboard/factory";
+import { withMessageColumns } from "@/lib/messagePayload";
 
 type LastSavedSnapshot = { messageContent: string; keyboard: KeyboardRow[] } | null;
 
@@ -114,6 +117,7 @@ export const useOfflineQueueSync = (args: OfflineQueueSyncArgs) => {
           created_at: new Date().toISOString(),
           updated_at: null,
           user_id: queuedPayload.user_id,
+          project_id: queuedPayload.project_id ?? null,
         } as Screen,
       ]);
       setCurrentScreenId(id);
@@ -149,6 +153,9 @@ export const useOfflineQueueSync = (args: OfflineQueueSyncArgs) => {
             ? ({
                 ...s,
                 message_content: updatePayload.message_content ?? s.message_content,
+                parse_mode: updatePayload.parse_mode ?? s.parse_mode,
+                message_type: updatePayload.message_type ?? s.message_type,
+                media_url: "media_url" in updatePayload ? updatePayload.media_url : s.media_url,
                 keyboard: updatePayload.keyboard ? cloneKeyboard(updatePayload.keyboard as KeyboardRow[]) : s.keyboard,
                 name: updatePayload.name ?? s.name,
                 updated_at: updatePayload.updated_at ?? s.updated_at,
@@ -165,6 +172,30 @@ export const useOfflineQueueSync = (args: OfflineQueueSyncArgs) => {
     [currentScreenId, refreshPendingQueueSize, setScreens, user?.id],
   );
 
+  const queueEntryOperation = useCallback(
+    (payload: EntryPayload) => {
+      (async () => {
+        try {
+          await enqueueEntryOperation(payload, user?.id);
+        } catch (error) {
+          console.error("[OfflineQueue] Failed to enqueue entry:", error);
+          toast.error("离线保存入口失败，可能无法恢复");
+        } finally {
+          refreshPendingQueueSize();
+        }
+      })().catch((err) => {
+        console.error("[OfflineQueue] Unhandled error in queueEntryOperation:", err);
+      });
+
+      setPendingOpsNotice(true);
+      if (!queuedToastShownRef.current) {
+        toast.info("网络不可用，入口设置已排队");
+        queuedToastShownRef.current = true;
+      }
+    },
+    [refreshPendingQueueSize, user?.id],
+  );
+
   const replayPendingQueue = useCallback(async () => {
     if (!user) {
       refreshPendingQueueSize();
@@ -186,7 +217,8 @@ export const useOfflineQueueSync = (args: OfflineQueueSyncArgs) => {
         ...(queueReplayCallbacks ?? {}),
         execute: async (item) => {
           if (item.kind === "save") {
-            const saved = await dataAccess.saveScreen(item.payload);
+            // Writes queued before the message columns existed get them from message_content.
+            const saved = await dataAccess.saveScreen(withMessageColumns(item.payload));
             if (saved) {
               setScreens((prev) => {
                 const idx = prev.findIndex((s) => s.id === (item.payload.id ?? (saved as Screen).id));
@@ -201,8 +233,13 @@ export const useOfflineQueueSync = (args: OfflineQueueSyncArgs) => {
               });
               setCurrentScreenId((current) => current ?? (saved as Screen).id);
             }
+          } else if (item.kind === "entry") {
+            await dataAccess.saveEntryScreen({ projectId: item.payload.project_id, screenId: item.payload.screen_id });
           } else {
-            const updated = await dataAccess.updateScreen({ screenId: item.payload.id, update: item.payload.update });
+            const updated = await dataAccess.updateScreen({
+              screenId: item.payload.id,
+              update: withMessageColumns(item.payload.update),
+            });
             setScreens((prev) =>
               prev.map((s) =>
                 s.id === item.payload.id
@@ -259,6 +296,7 @@ export const useOfflineQueueSync = (args: OfflineQueueSyncArgs) => {
     refreshPendingQueueSize,
     queueSaveOperation,
     queueUpdateOperation,
+    queueEntryOperation,
     replayPendingQueue,
     clearPendingQueue,
   };
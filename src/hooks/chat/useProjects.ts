@@ -0,0 +1,136 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { SupabaseDataAccess } from '@/lib/dataAccess';
+import type { Database } from '@/integrations/supabase/types';
+import { hasSupabaseEnv } from '@/lib/runtimeConfig';
+import { validateProject } from '@/lib/validation';
+import type { Project, Workspace } from '@/types/telegram';
+import { resolveProjectRole } from './useWorkspaces';
+
+const ACTIVE_PROJECT_KEY = "telegram_ui_active_project";
+
+type ProjectRow = Database["public"]["Tables"]["projects"]["Row"];
+
+export type ProjectInput = Pick<Project, "name" | "bot_username" | "default_parse_mode" | "workspace_id">;
+
+const activeProjectKey = (userId: string) => `${ACTIVE_PROJECT_KEY}_${userId}`;
+
+const toProject = (row: ProjectRow): Project => ({
+    ...row,
+    default_parse_mode: row.default_parse_mode === "MarkdownV2" ? "MarkdownV2" : "HTML",
+});
+
+const storeActiveProject = (userId: string, projectId: string | null) => {
+    try {
+        if (projectId) {
+            localStorage.setItem(activeProjectKey(userId), projectId);
+        } else {
+            localStorage.removeItem(activeProjectKey(userId));
+        }
+    } catch (e) {
+        void e;
+    }
+};
+
+/**
+ * The user's projects (one per bot), the projects other members shared through `workspaces`, and the one being
+ * edited. `activeProjectId` null selects the screens that belong to no project, listed as 未分组. The selection is
+ * remembered per user in local storage.
+ */
+export const useProjects = (user: User | null, workspaces: Workspace[] = []) => {
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+    const [projectsLoading, setProjectsLoading] = useState(false);
+    const supabaseEnabled = useMemo(() => hasSupabaseEnv(), []);
+    const userId = user?.id;
+    const dataAccess = useMemo(() => new SupabaseDataAccess(supabase, { userId }), [userId]);
+
+    // Restore the remembered project
+    useEffect(() => {
+        if (!userId) {
+            setProjects([]);
+            setActiveProjectId(null);
+            return;
+        }
+        try {
+            setActiveProjectId(localStorage.getItem(activeProjectKey(userId)));
+        } catch (e) {
+            void e;
+        }
+    }, [userId]);
+
+    const loadProjects = useCallback(async () => {
+        if (!userId || !supabaseEnabled) return;
+        setProjectsLoading(true);
+        try {
+            const [own, shared] = await Promise.all([dataAccess.fetchProjects(), dataAccess.fetchSharedProjects()]);
+            const loaded = [...own, ...shared].map(toProject);
+            setProjects(loaded);
+            // A remembered project that was deleted falls back to the ungrouped screens.
+            setActiveProjectId((prev) => {
+                if (!prev || loaded.some((project) => project.id === prev)) return prev;
+                storeActiveProject(userId, null);
+                return null;
+            });
+        } catch (error) {
+            console.error("Error loading projects:", error);
+            toast.error("加载项目失败");
+        } finally {
+            setProjectsLoading(false);
+        }
+    }, [dataAccess, supabaseEnabled, userId]);
+
+    useEffect(() => {
+        void loadProjects();
+    }, [loadProjects]);
+
+    const selectProject = useCallback((projectId: string | null) => {
+        setActiveProjectId(projectId);
+        if (userId) storeActiveProject(userId, projectId);
+    }, [userId]);
+
+    /** Validates, saves and switches to the new project; throws with the validation or save error. */
+    const createProject = useCallback(async (input: ProjectInput) => {
+        if (!supabaseEnabled) throw new Error("云端未配置，无法保存项目");
+        const row = await dataAccess.createProject(validateProject(input));
+        const project = toProject(row);
+        setProjects((prev) => [...prev, project]);
+        selectProject(project.id);
+        return project;
+    }, [dataAccess, selectProject, supabaseEnabled]);
+
+    const updateProject = useCallback(async (projectId: string, input: ProjectInput) => {
+        if (!supabaseEnabled) throw new Error("云端未配置，无法保存项目");
+        const workspaceRole = resolveProjectRole(projects.find((item) => item.id === projectId), userId, workspaces);
+        const access = workspaceRole ? new SupabaseDataAccess(supabase, { userId, workspaceRole }) : dataAccess;
+        const row = await access.updateProject({ projectId, update: validateProject(input) });
+        const project = toProject(row);
+        setProjects((prev) => prev.map((item) => (item.id === projectId ? project : item)));
+        return project;
+    }, [dataAccess, projects, supabaseEnabled, userId, workspaces]);
+
+    const activeProject = useMemo(
+        () => projects.find((project) => project.id === activeProjectId) ?? null,
+        [activeProjectId, projects],
+    );
+
+    /** The user's role in the active project's workspace; null for personal projects and the ungrouped screens. */
+    const activeProjectRole = useMemo(
+        () => resolveProjectRole(activeProject, userId, workspaces),
+        [activeProject, userId, workspaces],
+    );
+
+    return {
+        projects,
+        activeProject,
+        activeProjectId,
+        activeProjectRole,
+        projectsLoading,
+        selectProject,
+        createProject,
+        updateProject,
+        loadProjects,
+    };
+};
@@ -0,0 +1,158 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { RealtimeChannel, User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { hasSupabaseEnv } from '@/lib/runtimeConfig';
+import {
+    CURSOR_TTL_MS,
+    listViewers,
+    pruneCursors,
+    realtimeChannelName,
+    upsertCursor,
+    type CursorPayload,
+    type PresencePayload,
+    type RemoteCursor,
+    type RemoteLayoutChange,
+    type RemoteScreenChange,
+} from '@/lib/realtime';
+import { makeRequestId } from '@/types/sync';
+
+/** Cursor broadcasts are throttled to this interval. */
+const CURSOR_THROTTLE_MS = 50;
+
+interface RealtimeCollaborationOptions {
+    user: User | null;
+    projectId: string | null;
+    /** Screen open in the editor, announced to the other tabs. */
+    currentScreenId?: string;
+    onScreenChange: (change: RemoteScreenChange) => void;
+    onLayoutChange?: (change: RemoteLayoutChange) => void;
+}
+
+/**
+ * Joins the Realtime channel of the active project: `screens` and `screen_layouts` changes made in other tabs or
+ * by other members, presence (who views which screen) and flow diagram cursors.
+ */
+export const useRealtimeCollaboration = ({
+    user,
+    projectId,
+    currentScreenId,
+    onScreenChange,
+    onLayoutChange,
+}: RealtimeCollaborationOptions) => {
+    const [viewers, setViewers] = useState<PresencePayload[]>([]);
+    const [cursors, setCursors] = useState<RemoteCursor[]>([]);
+    const supabaseEnabled = useMemo(() => hasSupabaseEnv(), []);
+    const tabId = useMemo(() => makeRequestId(), []);
+    const channelRef = useRef<RealtimeChannel | null>(null);
+    const subscribedRef = useRef(false);
+    const lastCursorAtRef = useRef(0);
+    const userId = user?.id;
+    const email = user?.email ?? null;
+
+    const onScreenChangeRef = useRef(onScreenChange);
+    const onLayoutChangeRef = useRef(onLayoutChange);
+    useEffect(() => {
+        onScreenChangeRef.current = onScreenChange;
+        onLayoutChangeRef.current = onLayoutChange;
+    }, [onScreenChange, onLayoutChange]);
+
+    const presenceRef = useRef<PresencePayload | null>(null);
+    useEffect(() => {
+        if (!userId) return;
+        presenceRef.current = {
+            tab_id: tabId,
+            user_id: userId,
+            email,
+            screen_id: currentScreenId ?? null,
+            online_at: presenceRef.current?.online_at ?? new Date().toISOString(),
+        };
+        if (subscribedRef.current) void channelRef.current?.track(presenceRef.current);
+    }, [currentScreenId, email, tabId, userId]);
+
+    useEffect(() => {
+        if (!userId || !supabaseEnabled) return;
+        const channel = supabase.channel(realtimeChannelName(userId, projectId), {
+            // Private: only members of the project may join (see the realtime.messages policies).
+            config: { private: true, presence: { key: tabId }, broadcast: { self: false } },
+        });
+        channel
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'screens',
+                    filter: projectId ? `project_id=eq.${projectId}` : `user_id=eq.${userId}`,
+                },
+                (payload) => onScreenChangeRef.current(payload as unknown as RemoteScreenChange),
+            )
+            // Realtime can't filter deletes (their old record only holds the id), so they arrive unfiltered;
+            // mergeRemoteScreen ignores ids that aren't in the list.
+            .on(
+                'postgres_changes',
+                { event: 'DELETE', schema: 'public', table: 'screens' },
+                (payload) => onScreenChangeRef.current(payload as unknown as RemoteScreenChange),
+            )
+            .on(
+                'postgres_changes',
+                { event: '*', schema: 'public', table: 'screen_layouts', filter: `user_id=eq.${userId}` },
+                (payload) => onLayoutChangeRef.current?.(payload as unknown as RemoteLayoutChange),
+            )
+            .on('presence', { event: 'sync' }, () => {
+                const state = channel.presenceState<PresencePayload>();
+                const nextViewers = listViewers(state, tabId);
+                setViewers(nextViewers);
+                const liveTabs = new Set(nextViewers.map((viewer) => viewer.tab_id));
+                setCursors((prev) => pruneCursors(prev, Date.now(), liveTabs));
+            })
+            .on('broadcast', { event: 'cursor' }, ({ payload }) => {
+                setCursors((prev) => upsertCursor(prev, payload as CursorPayload, Date.now()));
+            })
+            .subscribe((status) => {
+                subscribedRef.current = status === 'SUBSCRIBED';
+                if (subscribedRef.current && presenceRef.current) void channel.track(presenceRef.current);
+            });
+        channelRef.current = channel;
+
+        return () => {
+            channelRef.current = null;
+            subscribedRef.current = false;
+            setViewers([]);
+            setCursors([]);
+            void supabase.removeChannel(channel);
+        };
+    }, [projectId, supabaseEnabled, tabId, userId]);
+
+    // Cursors of tabs that stopped sending fade out.
+    const hasCursors = cursors.length > 0;
+    useEffect(() => {
+        if (!hasCursors) return;
+        const timer = setInterval(() => setCursors((prev) => pruneCursors(prev, Date.now())), CURSOR_TTL_MS / 2);
+        return () => clearInterval(timer);
+    }, [hasCursors]);
+
+    /** Sends the pointer position on the flow diagram (null: it left the diagram). */
+    const broadcastCursor = useCallback(
+        (position: Pick<CursorPayload, 'anchor' | 'dx' | 'dy'> | null) => {
+            const channel = channelRef.current;
+            if (!channel || !subscribedRef.current || !userId) return;
+            const now = Date.now();
+            if (position && now - lastCursorAtRef.current < CURSOR_THROTTLE_MS) return;
+            lastCursorAtRef.current = now;
+            const payload: CursorPayload = {
+                tab_id: tabId,
+                user_id: userId,
+                email,
+                ...(position ?? { anchor: null, dx: 0, dy: 0 }),
+            };
+            void channel.send({ type: 'broadcast', event: 'cursor', payload });
+        },
+        [email, tabId, userId],
+    );
+
+    return {
+        viewers,
+        cursors,
+        broadcastCursor,
+    };
+};
@@ -4,34 +4,120 @@ import { Screen } from '@/types/telegram';
 const ENTRY_KEY = "telegram_ui_entry_screen";
 const MAX_HISTORY = 100;
 
+/**
+ * Local storage key caching the entry screen of a user's project, or of the screens without a project. Without a
+ * user the entry only lives in local storage, under the keys used before it was saved in the cloud.
+ */
+export const entryStorageKey = (userId?: string | null, projectId: string | null = null) => {
+    const base = userId ? `${ENTRY_KEY}_${userId}` : ENTRY_KEY;
+    return projectId ? `${base}:${projectId}` : base;
+};
+
 export const isEntrySet = (entryId: string | null, screens: Screen[]) =>
     !!entryId && screens.some((s) => s.id === entryId);
 
+type EntryPersistence = {
+    userId?: string | null;
+    projectId?: string | null;
+    /** Reads the entry saved in the cloud; resolves null when none is saved. */
+    fetchEntry?: () => Promise<string | null>;
+    /** Saves an entry picked by the user; queuing it while offline is up to the caller. */
+    saveEntry?: (screenId: string | null) => void;
+};
+
+const readEntry = (key: string) => {
+    try {
+        return localStorage.getItem(key);
+    } catch (e) {
+        void e;
+        return null;
+    }
+};
+
+const writeEntry = (key: string, screenId: string | null) => {
+    try {
+        if (screenId) {
+            localStorage.setItem(key, screenId);
+        } else {
+            localStorage.removeItem(key);
+        }
+    } catch (e) {
+        void e;
+    }
+};
+
 export const useScreenNavigation = (
     screens: Screen[],
     setScreens: (screens: Screen[]) => void,
-    loadScreens: () => Promise<void>
+    loadScreens: () => Promise<void>,
+    persistence: EntryPersistence = {},
 ) => {
+    const { userId = null, projectId = null, fetchEntry, saveEntry } = persistence;
     const [currentScreenId, setCurrentScreenId] = useState<string | undefined>(undefined);
     const [navigationHistory, setNavigationHistory] = useState<string[]>([]);
     const [entryScreenId, setEntryScreenId] = useState<string | null>(null);
 
-    // Load entry screen from local storage
+    const entryKey = entryStorageKey(userId, projectId);
+    const saveEntryRef = useRef(saveEntry);
+    saveEntryRef.current = saveEntry;
+    // Entry found under the key used before the cloud copy existed; saved to the cloud once it proves to be one
+    // of the project's screens (the key was shared by every account of this browser).
+    const legacyEntryRef = useRef<string | null>(null);
+
+    // Load the entry: the local copy shows right away and the cloud copy replaces it once fetched. Without a cloud
+    // copy the local one stays, as it may be waiting in the offline queue.
     useEffect(() => {
-        const savedEntry = localStorage.getItem(ENTRY_KEY);
-        if (savedEntry) {
-            setEntryScreenId(savedEntry);
-        }
-    }, []);
+        let cancelled = false;
+        legacyEntryRef.current = null;
+        const cached = readEntry(entryKey);
+        setEntryScreenId(cached);
+        if (!fetchEntry) return;
+        fetchEntry()
+            .then((remote) => {
+                if (cancelled) return;
+                if (remote) {
+                    setEntryScreenId(remote);
+                    writeEntry(entryKey, remote);
+                    return;
+                }
+                const legacy = cached ? null : readEntry(entryStorageKey(null, projectId));
+                if (legacy) {
+                    legacyEntryRef.current = legacy;
+                    setEntryScreenId(legacy);
+                }
+            })
+            .catch((error) => {
+                console.error("Error loading entry screen:", error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [entryKey, fetchEntry, projectId]);
 
-    // Persist entry screen
     useEffect(() => {
-        if (entryScreenId) {
-            localStorage.setItem(ENTRY_KEY, entryScreenId);
-        } else {
-            localStorage.removeItem(ENTRY_KEY);
+        const legacy = legacyEntryRef.current;
+        if (!legacy) return;
+        if (entryScreenId !== legacy) {
+            legacyEntryRef.current = null;
+            return;
         }
-    }, [entryScreenId]);
+        if (!screens.some((s) => s.id === legacy && (s.project_id ?? null) === projectId)) return;
+        legacyEntryRef.current = null;
+        writeEntry(entryKey, legacy);
+        writeEntry(entryStorageKey(null, projectId), null);
+        saveEntryRef.current?.(legacy);
+    }, [entryKey, entryScreenId, projectId, screens]);
+
+    // Follow entry changes made in other tabs
+    useEffect(() => {
+        const onStorage = (event: StorageEvent) => {
+            if (event.key === entryKey) {
+                setEntryScreenId(event.newValue || null);
+            }
+        };
+        window.addEventListener("storage", onStorage);
+        return () => window.removeEventListener("storage", onStorage);
+    }, [entryKey]);
 
     // Keep entry consistent with available screens
     const hasSeenScreens = useRef(false);
@@ -74,8 +160,11 @@ export const useScreenNavigation = (
     }, []);
 
     const handleSetEntry = useCallback((screenId: string | null) => {
+        legacyEntryRef.current = null;
         setEntryScreenId(screenId);
-    }, []);
+        writeEntry(entryKey, screenId);
+        saveEntryRef.current?.(screenId);
+    }, [entryKey]);
 
     const handleJumpToEntry = useCallback(() => {
         if (entryScreenId && screens.some(s => s.id === entryScreenId)) {
@@ -1,7 +1,7 @@
 import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { SupabaseDataAccess, SaveScreenInput, UpdateScreenInput } from '@/lib/dataAccess';
-import { Screen } from '@/types/telegram';
+import { Screen, WorkspaceRole } from '@/types/telegram';
 import { SyncStatus, makeRequestId } from '@/types/sync';
 import { publishSyncEvent } from '@/lib/syncTelemetry';
 import { toast } from 'sonner';
@@ -9,8 +9,14 @@ import { User } from '@supabase/supabase-js';
 import type { PendingItem } from '@/lib/pendingQueue';
 import { withRetry } from '@/lib/supabaseRetry';
 import { hasSupabaseEnv } from '@/lib/runtimeConfig';
+import { appendScreens, mergeRemoteScreen, type RemoteScreenChange } from '@/lib/realtime';
 
-export const useSupabaseSync = (user: User | null) => {
+/**
+ * Screens of the active project (`projectId` null: the screens without a project) and the user's pins, with
+ * optimistic saves, updates and deletes. `workspaceRole` is the user's role when the project is shared through a
+ * workspace: screens are then read and written regardless of who created them, as far as the role allows.
+ */
+export const useSupabaseSync = (user: User | null, projectId: string | null = null, workspaceRole: WorkspaceRole | null = null) => {
     const [screens, setScreens] = useState<Screen[]>([]);
     const [pinnedIds, setPinnedIds] = useState<string[]>([]);
     const [isLoading, setIsLoading] = useState(false);
@@ -29,7 +35,10 @@ export const useSupabaseSync = (user: User | null) => {
         updateQueueRef.current.clear();
     }, [user?.id]);
 
-    const dataAccess = useMemo(() => new SupabaseDataAccess(supabase, { userId: user?.id }), [user]);
+    const dataAccess = useMemo(
+        () => new SupabaseDataAccess(supabase, { userId: user?.id, workspaceRole }),
+        [user, workspaceRole],
+    );
     const createRequestId = useCallback(() => makeRequestId(), []);
 
     const logSyncEvent = useCallback(
@@ -76,10 +85,12 @@ export const useSupabaseSync = (user: User | null) => {
             setShareSyncStatus(pendingStatus);
             logSyncEvent("share", pendingStatus, { action: "load_screens" });
             const result = await withRetry(async () => {
-                const screensQuery = supabase
+                const allScreens = supabase
                     .from('screens')
-                    .select('*')
-                    .eq('user_id', user.id)
+                    .select('*');
+                // RLS already limits shared projects to their members.
+                const ownScreens = workspaceRole ? allScreens : allScreens.eq('user_id', user.id);
+                const screensQuery = (projectId ? ownScreens.eq('project_id', projectId) : ownScreens.is('project_id', null))
                     .order('created_at', { ascending: true });
                 const { data, error } = await (("abortSignal" in screensQuery)
                     ? // @ts-expect-error abortSignal is available in supabase-js v2
@@ -143,7 +154,7 @@ export const useSupabaseSync = (user: User | null) => {
                 setIsLoading(false);
             }
         }
-    }, [user, createRequestId, logSyncEvent, supabaseEnabled]);
+    }, [user, projectId, workspaceRole, createRequestId, logSyncEvent, supabaseEnabled]);
 
     const saveScreen = useCallback(async (payload: SaveScreenInput) => {
         if (!user) return null;
@@ -161,7 +172,7 @@ export const useSupabaseSync = (user: User | null) => {
         logSyncEvent("share", pendingStatus, { action: "save_screen" });
         try {
             const data = await dataAccess.saveScreen(payload);
-            setScreens(prev => [...prev, data as unknown as Screen]);
+            setScreens(prev => appendScreens(prev, [data as unknown as Screen]));
             toast.success("Screen saved");
             const successStatus: SyncStatus = { state: "success", requestId, at: Date.now(), message: "保存成功" };
             setShareSyncStatus(successStatus);
@@ -329,9 +340,11 @@ export const useSupabaseSync = (user: User | null) => {
                     await (dataAccess as unknown as { deleteLayouts: (args: { ids: string[] }) => Promise<unknown> }).deleteLayouts({ ids });
                 }
             }
-            await dataAccess.upsertPins({ user_id: user.id, pinned_ids: [] });
+            // Pins are per user; keep the ones of other projects.
+            const remainingPins = pinnedIds.filter((id) => !ids.includes(id));
+            await dataAccess.upsertPins({ user_id: user.id, pinned_ids: remainingPins });
             setScreens([]);
-            setPinnedIds([]);
+            setPinnedIds(remainingPins);
             toast.success("All screens deleted");
             logSyncEvent("share", { state: "success", requestId, at: Date.now(), message: "批量删除成功" }, { action: "delete_all_screens" });
         } catch (error) {
@@ -343,7 +356,7 @@ export const useSupabaseSync = (user: User | null) => {
                 message: error instanceof Error ? error.message : "批量删除失败",
             }, { action: "delete_all_screens" });
         }
-    }, [user, screens, dataAccess, createRequestId, logSyncEvent, supabaseEnabled]);
+    }, [user, screens, pinnedIds, dataAccess, createRequestId, logSyncEvent, supabaseEnabled]);
 
     const handleTogglePin = useCallback(async (screenId: string) => {
         if (!user) return;
@@ -400,6 +413,18 @@ export const useSupabaseSync = (user: User | null) => {
         onSuccess: onQueueItemSuccess,
     }), [onQueueItemReplay, onQueueItemSuccess]);
 
+    /**
+     * Merges a screen change made in another tab or by another member. Changes to a screen with an update of this
+     * tab in flight are skipped: the update's response settles the screen. Returns whether the change was applied.
+     */
+    const applyRemoteChange = useCallback((change: RemoteScreenChange) => {
+        const id = change.eventType === "DELETE" ? change.old.id : change.new.id;
+        if (!id || (updateQueueRef.current.get(id)?.length ?? 0) > 0) return false;
+        if (change.eventType === "DELETE") updateVersionRef.current.delete(id);
+        setScreens((prev) => mergeRemoteScreen(prev, change, projectId));
+        return true;
+    }, [projectId]);
+
     useEffect(() => () => {
         loadAbortRef.current?.abort();
     }, []);
@@ -411,6 +436,7 @@ export const useSupabaseSync = (user: User | null) => {
         setPinnedIds,
         isLoading,
         loadScreens,
+        applyRemoteChange,
         saveScreen,
         updateScreen,
         deleteScreen,
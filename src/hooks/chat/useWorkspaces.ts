@@ -0,0 +1,138 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { SupabaseDataAccess } from '@/lib/dataAccess';
+import { hasSupabaseEnv } from '@/lib/runtimeConfig';
+import { validateWorkspace, validateWorkspaceInvite } from '@/lib/validation';
+import type { Project, Workspace, WorkspaceInvite, WorkspaceMember, WorkspaceRole } from '@/types/telegram';
+
+const toRole = (role: string): WorkspaceRole => (role === "owner" || role === "editor" ? role : "viewer");
+
+/**
+ * The user's role for a project: null for personal projects, `owner` for projects the user created and the
+ * workspace membership role for projects other members shared.
+ */
+export const resolveProjectRole = (
+    project: Pick<Project, "user_id" | "workspace_id"> | null | undefined,
+    userId: string | null | undefined,
+    workspaces: Workspace[],
+): WorkspaceRole | null => {
+    if (!project?.workspace_id) return null;
+    if (project.user_id === userId) return "owner";
+    return workspaces.find((workspace) => workspace.id === project.workspace_id)?.role ?? "viewer";
+};
+
+export type WorkspaceActions = ReturnType<typeof useWorkspaces>;
+
+/**
+ * Team workspaces the user belongs to, and member / invite management. Member and invite calls act with the
+ * user's role in that workspace, so a missing permission fails before the request is sent.
+ */
+export const useWorkspaces = (user: User | null) => {
+    const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+    const [workspacesLoading, setWorkspacesLoading] = useState(false);
+    const supabaseEnabled = useMemo(() => hasSupabaseEnv(), []);
+    const userId = user?.id;
+    const dataAccess = useMemo(() => new SupabaseDataAccess(supabase, { userId }), [userId]);
+
+    const accessFor = useCallback(
+        (workspaceId: string) => {
+            const role = workspaces.find((workspace) => workspace.id === workspaceId)?.role ?? "viewer";
+            return new SupabaseDataAccess(supabase, { userId, workspaceRole: role });
+        },
+        [userId, workspaces],
+    );
+
+    const loadWorkspaces = useCallback(async () => {
+        if (!userId || !supabaseEnabled) {
+            setWorkspaces([]);
+            return;
+        }
+        setWorkspacesLoading(true);
+        try {
+            const rows = await dataAccess.fetchWorkspaces();
+            setWorkspaces(rows.map((row) => ({ ...row, role: toRole(row.role) })));
+        } catch (error) {
+            console.error("Error loading workspaces:", error);
+            toast.error("加载团队失败");
+        } finally {
+            setWorkspacesLoading(false);
+        }
+    }, [dataAccess, supabaseEnabled, userId]);
+
+    useEffect(() => {
+        void loadWorkspaces();
+    }, [loadWorkspaces]);
+
+    /** Validates and creates a workspace owned by the user; throws with the validation or save error. */
+    const createWorkspace = useCallback(async (name: string) => {
+        if (!supabaseEnabled) throw new Error("云端未配置，无法创建团队");
+        const row = await dataAccess.createWorkspace(validateWorkspace({ name }));
+        const workspace: Workspace = { ...row, role: "owner" };
+        setWorkspaces((prev) => [...prev, workspace]);
+        return workspace;
+    }, [dataAccess, supabaseEnabled]);
+
+    const fetchMembers = useCallback(async (workspaceId: string): Promise<WorkspaceMember[]> => {
+        const rows = await accessFor(workspaceId).fetchWorkspaceMembers(workspaceId);
+        return rows.map((row) => ({ ...row, role: toRole(row.role) }));
+    }, [accessFor]);
+
+    const updateMemberRole = useCallback(
+        (workspaceId: string, memberId: string, role: Exclude<WorkspaceRole, "owner">) =>
+            accessFor(workspaceId).updateWorkspaceMember({ workspaceId, userId: memberId, role }),
+        [accessFor],
+    );
+
+    const removeMember = useCallback(
+        (workspaceId: string, memberId: string) => accessFor(workspaceId).removeWorkspaceMember({ workspaceId, userId: memberId }),
+        [accessFor],
+    );
+
+    /** Leaving drops the workspace from the list; its shared projects disappear on the next project load. */
+    const leaveWorkspace = useCallback(async (workspaceId: string) => {
+        if (!userId) throw new Error("请先登录");
+        await removeMember(workspaceId, userId);
+        setWorkspaces((prev) => prev.filter((workspace) => workspace.id !== workspaceId));
+    }, [removeMember, userId]);
+
+    const fetchInvites = useCallback(async (workspaceId: string): Promise<WorkspaceInvite[]> => {
+        const rows = await accessFor(workspaceId).fetchWorkspaceInvites(workspaceId);
+        return rows.map((row) => ({ ...row, role: row.role === "editor" ? "editor" : "viewer" }));
+    }, [accessFor]);
+
+    /** Validates the email and role, then creates the invite whose token goes into the invite link. */
+    const inviteMember = useCallback(async (workspaceId: string, input: { email: string; role: string }) => {
+        const invite = validateWorkspaceInvite(input);
+        const row = await accessFor(workspaceId).createWorkspaceInvite({ workspaceId, ...invite });
+        return { ...row, role: invite.role } as WorkspaceInvite;
+    }, [accessFor]);
+
+    const revokeInvite = useCallback(
+        (workspaceId: string, inviteId: string) => accessFor(workspaceId).revokeWorkspaceInvite(inviteId),
+        [accessFor],
+    );
+
+    /** Joins the workspace of the invite and reloads the list; resolves with the workspace id. */
+    const acceptInvite = useCallback(async (token: string) => {
+        const workspaceId = await dataAccess.acceptWorkspaceInvite(token);
+        await loadWorkspaces();
+        return workspaceId;
+    }, [dataAccess, loadWorkspaces]);
+
+    return {
+        workspaces,
+        workspacesLoading,
+        loadWorkspaces,
+        createWorkspace,
+        fetchMembers,
+        updateMemberRole,
+        removeMember,
+        leaveWorkspace,
+        fetchInvites,
+        inviteMember,
+        revokeInvite,
+        acceptInvite,
+    };
+};
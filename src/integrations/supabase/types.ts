@@ -20,8 +20,12 @@ export type Database = {
           id: string
           is_public: boolean | null
           keyboard: Json
+          media_url: string | null
           message_content: string
+          message_type: string | null
           name: string
+          parse_mode: string | null
+          project_id: string | null
           share_token: string | null
           updated_at: string | null
           user_id: string | null
@@ -31,8 +35,12 @@ export type Database = {
           id?: string
           is_public?: boolean | null
           keyboard: Json
+          media_url?: string | null
           message_content: string
+          message_type?: string | null
           name: string
+          parse_mode?: string | null
+          project_id?: string | null
           share_token?: string | null
           updated_at?: string | null
           user_id?: string | null
@@ -42,13 +50,23 @@ export type Database = {
           id?: string
           is_public?: boolean | null
           keyboard?: Json
+          media_url?: string | null
           message_content?: string
+          message_type?: string | null
           name?: string
+          parse_mode?: string | null
+          project_id?: string | null
           share_token?: string | null
           updated_at?: string | null
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "screens_project_id_fkey"
+            columns: ["project_id"]
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "screens_user_id_fkey"
             columns: ["user_id"]
@@ -57,23 +75,87 @@ export type Database = {
           }
         ]
       },
+      projects: {
+        Row: {
+          bot_username: string | null
+          created_at: string
+          default_parse_mode: string
+          entry_screen_id: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+          workspace_id: string | null
+        }
+        Insert: {
+          bot_username?: string | null
+          created_at?: string
+          default_parse_mode?: string
+          entry_screen_id?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+          workspace_id?: string | null
+        }
+        Update: {
+          bot_username?: string | null
+          created_at?: string
+          default_parse_mode?: string
+          entry_screen_id?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_entry_screen_id_fkey"
+            columns: ["entry_screen_id"]
+            referencedRelation: "screens"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_workspace_id_fkey"
+            columns: ["workspace_id"]
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          }
+        ]
+      },
       user_pins: {
         Row: {
+          entry_screen_id: string | null
           pinned_ids: string[]
           updated_at: string
           user_id: string
         }
         Insert: {
+          entry_screen_id?: string | null
           pinned_ids?: string[]
           updated_at?: string
           user_id: string
         }
         Update: {
+          entry_screen_id?: string | null
           pinned_ids?: string[]
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "user_pins_entry_screen_id_fkey"
+            columns: ["entry_screen_id"]
+            referencedRelation: "screens"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "user_pins_user_id_fkey"
             columns: ["user_id"]
@@ -113,6 +195,123 @@ export type Database = {
           }
         ]
       }
+      workspaces: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspaces_owner_id_fkey"
+            columns: ["owner_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          email: string | null
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      workspace_invites: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string
+          role: string
+          token: string
+          workspace_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          role?: string
+          token?: string
+          workspace_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          role?: string
+          token?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invites_invited_by_fkey"
+            columns: ["invited_by"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_invites_workspace_id_fkey"
+            columns: ["workspace_id"]
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -134,12 +333,33 @@ export type Database = {
           id: string
           is_public: boolean | null
           keyboard: Json
+          media_url: string | null
           message_content: string
+          message_type: string | null
           name: string
+          parse_mode: string | null
           share_token: string | null
           updated_at: string | null
         }
       }
+      workspace_role: {
+        Args: {
+          target_workspace: string
+        }
+        Returns: string | null
+      }
+      project_role: {
+        Args: {
+          target_project: string
+        }
+        Returns: string | null
+      }
+      accept_workspace_invite: {
+        Args: {
+          invite_token: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
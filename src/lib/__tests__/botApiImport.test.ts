@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { normalizeBotApiImport } from "../botApiImport";
+import { importMessageMedia, importMessageText } from "../messagePayload";
+
+describe("normalizeBotApiImport", () => {
+  it("turns a sendMessage request with entities into editor markup and lists dropped fields", () => {
+    const { payload, dropped } = normalizeBotApiImport({
+      chat_id: 42,
+      text: "Hi @ann, see docs*",
+      entities: [
+        { type: "bold", offset: 0, length: 2 },
+        { type: "mention", offset: 3, length: 4 },
+        { type: "text_link", offset: 13, length: 4, url: "https://x.test" },
+        { type: "text_mention", offset: 0, length: 2, user: { id: 1 } },
+      ],
+      link_preview_options: { is_disabled: true },
+      protect_content: true,
+      reply_markup: { inline_keyboard: [[{ text: "Go", callback_data: "go" }]] },
+    });
+    expect(importMessageText(payload)).toBe("**Hi** @ann, see [docs](https://x.test)\\*");
+    expect(payload).toMatchObject({ link_preview_options: { is_disabled: true }, reply_markup: { inline_keyboard: [[{ text: "Go" }]] } });
+    expect(payload).not.toHaveProperty("chat_id");
+    expect(dropped).toEqual(["protect_content", "entities[].text_mention"]);
+  });
+
+  it("keeps parse_mode text and escapes plain text", () => {
+    expect(importMessageText(normalizeBotApiImport({ text: "<b>Hi</b>", parse_mode: "HTML" }).payload)).toBe("**Hi**");
+    expect(importMessageText(normalizeBotApiImport({ text: "**plain**" }).payload)).toBe("\\*\\*plain\\*\\*");
+  });
+
+  it("reads the last message of a getUpdates response with media objects and caption entities", () => {
+    const { payload, dropped } = normalizeBotApiImport({
+      ok: true,
+      result: [
+        { update_id: 1, message: { message_id: 1, chat: { id: 1 }, date: 0, text: "old" } },
+        {
+          update_id: 2,
+          channel_post: {
+            message_id: 2,
+            chat: { id: 1 },
+            date: 0,
+            photo: [
+              { file_id: "small", width: 90, height: 90 },
+              { file_id: "large", width: 800, height: 800 },
+            ],
+            caption: "Look",
+            caption_entities: [{ type: "italic", offset: 0, length: 4 }],
+            has_media_spoiler: true,
+          },
+        },
+        { update_id: 3, my_chat_member: {} },
+      ],
+    });
+    expect(importMessageMedia(payload)).toEqual({ messageType: "photo", mediaUrl: "large", mediaGroup: [] });
+    expect(importMessageText(payload)).toBe("_Look_");
+    expect(dropped).toEqual(["has_media_spoiler"]);
+
+    const gif = normalizeBotApiImport({ message: { animation: { file_id: "gif" }, document: { file_id: "gif" } } });
+    expect(importMessageMedia(gif.payload).messageType).toBe("animation");
+  });
+
+  it("rejects error responses and responses without a message", () => {
+    expect(() => normalizeBotApiImport({ ok: false, description: "Bad Request: chat not found" })).toThrow(
+      "Bot API 返回错误：Bad Request: chat not found",
+    );
+    expect(() => normalizeBotApiImport({ ok: true, result: [] })).toThrow("Bot API 响应中没有可导入的消息");
+    expect(normalizeBotApiImport({ text: "x", reply_markup: { bogus: true } }).dropped).toEqual(["reply_markup"]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { dropLegacyLink, getButtonActionKind, getButtonActions, normalizeLegacyKeyboard, pickButtonActionFields } from "@/lib/keyboard/buttonActions";
+
+describe("button actions", () => {
+  it("lists every action set on a button", () => {
+    expect(getButtonActions({})).toEqual([]);
+    expect(getButtonActions({ url: "https://a.com", pay: true })).toEqual(["url", "pay"]);
+    expect(getButtonActions({ linked_screen_id: "s1" })).toEqual(["callback_data"]);
+    expect(getButtonActions({ switch_inline_query: "", pay: false })).toEqual(["switch_inline_query"]);
+  });
+
+  it("resolves the exported action kind", () => {
+    expect(getButtonActionKind({ text: "A" })).toBe("callback_data");
+    expect(getButtonActionKind({ text: "A", callback_data: "x", linked_screen_id: "s1" })).toBe("link");
+    expect(getButtonActionKind({ text: "A", copy_text: { text: "x" } })).toBe("copy_text");
+    expect(getButtonActionKind({ text: "A", url: "https://a.com", linked_screen_id: "s1" })).toBe("url");
+  });
+
+  it("copies only action fields from imported buttons", () => {
+    const imported = { text: "A", web_app: { url: "https://a.com" }, linked_screen_id: "s1", extra: 1 };
+    expect(pickButtonActionFields(imported)).toEqual({ web_app: { url: "https://a.com" }, linked_screen_id: "s1" });
+  });
+
+  it("drops the stale screen link of legacy URL buttons", () => {
+    expect(dropLegacyLink({ id: "b", text: "Site", url: "https://a.com", linked_screen_id: "s1" })).toEqual({ id: "b", text: "Site", url: "https://a.com" });
+    const link = { id: "b", text: "Go", callback_data: "goto_screen_s1", linked_screen_id: "s1" };
+    expect(dropLegacyLink(link)).toBe(link);
+
+    const keyboard = [{ id: "r", buttons: [{ id: "b", text: "Site", url: "https://a.com", linked_screen_id: "s1" }, link] }];
+    expect(normalizeLegacyKeyboard(keyboard)[0].buttons).toEqual([{ id: "b", text: "Site", url: "https://a.com" }, link]);
+    expect(normalizeLegacyKeyboard("not a keyboard")).toBe("not a keyboard");
+  });
+});
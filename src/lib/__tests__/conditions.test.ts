@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  ConditionError,
+  conditionVariables,
+  evaluateCondition,
+  parseCondition,
+  toJsCondition,
+  toPythonCondition,
+} from "@/lib/conditions";
+
+const variables = [
+  { name: "is_admin", type: "boolean" as const, sample: "false" },
+  { name: "plan", type: "string" as const, sample: "free" },
+  { name: "credits", type: "number" as const, sample: "0" },
+];
+
+describe("parseCondition", () => {
+  it("binds comparisons tighter than ! and && tighter than ||", () => {
+    expect(parseCondition('is_admin || plan == "pro" && credits > 0')).toEqual({
+      type: "logical",
+      operator: "||",
+      left: { type: "variable", name: "is_admin" },
+      right: {
+        type: "logical",
+        operator: "&&",
+        left: { type: "compare", operator: "==", left: { type: "variable", name: "plan" }, right: { type: "literal", value: "pro" } },
+        right: { type: "compare", operator: ">", left: { type: "variable", name: "credits" }, right: { type: "literal", value: 0 } },
+      },
+    });
+    expect(parseCondition("!is_admin == true")).toMatchObject({ type: "not", operand: { type: "compare" } });
+  });
+
+  it("rejects malformed conditions with readable messages", () => {
+    expect(() => parseCondition("")).toThrow("条件不能为空");
+    expect(() => parseCondition("(is_admin")).toThrow("缺少右括号");
+    expect(() => parseCondition("credits > ")).toThrow("条件不完整");
+    expect(() => parseCondition("1 < credits < 5")).toThrow("比较不能连写");
+    expect(() => parseCondition('plan == "pro')).toThrow("字符串缺少结束引号");
+    expect(() => parseCondition("is_admin = true")).toThrow(ConditionError);
+    expect(() => parseCondition("is_admin plan")).toThrow('意外的 "plan"');
+  });
+});
+
+describe("evaluateCondition", () => {
+  it("types variable values by their declaration", () => {
+    const values = { is_admin: "false", plan: "pro", credits: "5" };
+    expect(evaluateCondition('plan == "pro" && credits >= 5', values, variables)).toBe(true);
+    expect(evaluateCondition("is_admin", values, variables)).toBe(false);
+    expect(evaluateCondition("!is_admin", values, variables)).toBe(true);
+    expect(evaluateCondition("credits == 5", { ...values, credits: " 5 " }, variables)).toBe(true);
+    expect(evaluateCondition('credits == "5"', values, variables)).toBe(false);
+  });
+
+  it("shows buttons without a usable condition and hides ones on unknown variables", () => {
+    expect(evaluateCondition(undefined, {}, variables)).toBe(true);
+    expect(evaluateCondition("  ", {}, variables)).toBe(true);
+    expect(evaluateCondition("credits >", {}, variables)).toBe(true);
+    expect(evaluateCondition("missing", {}, variables)).toBe(false);
+    expect(evaluateCondition("missing > 1", {}, variables)).toBe(false);
+  });
+});
+
+describe("condition code", () => {
+  it("translates to Python and JavaScript expressions", () => {
+    const source = '!(is_admin || plan != "free") && credits > 0 && true';
+    expect(toPythonCondition(source)).toBe('not (is_admin or plan != "free") and credits > 0 and True');
+    expect(toJsCondition(source)).toBe('!(is_admin || plan !== "free") && credits > 0 && true');
+    expect(toJsCondition("!is_admin == false")).toBe("!(is_admin === false)");
+  });
+
+  it("lists the variables a condition refers to", () => {
+    expect(conditionVariables("is_admin || (credits > 0 && is_admin)")).toEqual(["is_admin", "credits"]);
+    expect(conditionVariables("is_admin ||")).toEqual([]);
+  });
+});
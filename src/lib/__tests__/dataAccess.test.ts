@@ -446,6 +446,147 @@ describe("SupabaseDataAccess ownership checks", () => {
     expect(result).toEqual({ id: "s1" });
   });
 
+  it("lists the active user's projects oldest first", async () => {
+    const order = vi.fn().mockResolvedValue({ data: [{ id: "p1" }], error: null });
+    const eq = vi.fn(() => ({ order }));
+    const select = vi.fn(() => ({ eq }));
+    const from = vi.fn(() => ({ select }));
+    const client = { from } as unknown as ConstructorParameters<typeof SupabaseDataAccess>[0];
+    const dataAccess = new SupabaseDataAccess(client, { userId: "user-1" });
+
+    const result = await dataAccess.fetchProjects();
+
+    expect(from).toHaveBeenCalledWith("projects");
+    expect(eq).toHaveBeenCalledWith("user_id", "user-1");
+    expect(order).toHaveBeenCalledWith("created_at", { ascending: true });
+    expect(result).toEqual([{ id: "p1" }]);
+    await expect(new SupabaseDataAccess(client).fetchProjects()).rejects.toThrow("fetchProjects");
+  });
+
+  it("creates and updates projects for the active user", async () => {
+    const { client, spies } = buildInsertClient({ data: { id: "p1", name: "Shop" }, error: null });
+    const dataAccess = new SupabaseDataAccess(client, { userId: "user-1" });
+
+    await dataAccess.createProject({ name: "Shop", bot_username: "shop_bot", default_parse_mode: "HTML" });
+
+    expect(spies.insert).toHaveBeenCalledWith([
+      { name: "Shop", bot_username: "shop_bot", default_parse_mode: "HTML", user_id: "user-1" },
+    ]);
+
+    const update = buildUpdateChainClient({ data: { id: "p1", name: "Store" }, error: null });
+    const result = await new SupabaseDataAccess(update.client, { userId: "user-1" }).updateProject({
+      projectId: "p1",
+      update: { name: "Store" },
+    });
+
+    expect(update.spies.from).toHaveBeenCalledWith("projects");
+    expect(update.spies.firstEq).toHaveBeenCalledWith("id", "p1");
+    expect(update.spies.secondEq).toHaveBeenCalledWith("user_id", "user-1");
+    expect(result).toEqual({ id: "p1", name: "Store" });
+  });
+
+  it("reads the entry screen from the pins row or the project row", async () => {
+    const ungrouped = buildSelectSingleClient({ data: null, error: { code: "PGRST116" } });
+    const entry = await new SupabaseDataAccess(ungrouped.client, { userId: "user-1" }).fetchEntryScreen({ projectId: null });
+
+    expect(ungrouped.spies.from).toHaveBeenCalledWith("user_pins");
+    expect(ungrouped.spies.select).toHaveBeenCalledWith("entry_screen_id");
+    expect(entry).toBeNull();
+
+    const single = vi.fn().mockResolvedValue({ data: { entry_screen_id: "s2" }, error: null });
+    const secondEq = vi.fn(() => ({ single }));
+    const firstEq = vi.fn(() => ({ eq: secondEq }));
+    const from = vi.fn(() => ({ select: vi.fn(() => ({ eq: firstEq })) }));
+    const client = { from } as unknown as ConstructorParameters<typeof SupabaseDataAccess>[0];
+
+    await expect(new SupabaseDataAccess(client, { userId: "user-1" }).fetchEntryScreen({ projectId: "p1" })).resolves.toBe("s2");
+    expect(from).toHaveBeenCalledWith("projects");
+    expect(firstEq).toHaveBeenCalledWith("id", "p1");
+    expect(secondEq).toHaveBeenCalledWith("user_id", "user-1");
+  });
+
+  it("saves the entry screen next to the pins or on the project", async () => {
+    const { client, spies } = buildUpsertClient();
+    await new SupabaseDataAccess(client, { userId: "user-1" }).saveEntryScreen({ projectId: null, screenId: "s1" });
+
+    expect(spies.from).toHaveBeenCalledWith("user_pins");
+    expect(spies.upsert).toHaveBeenCalledWith({ user_id: "user-1", entry_screen_id: "s1" }, { onConflict: "user_id" });
+
+    const secondEq = vi.fn().mockResolvedValue({ error: null });
+    const firstEq = vi.fn(() => ({ eq: secondEq }));
+    const update = vi.fn(() => ({ eq: firstEq }));
+    const from = vi.fn(() => ({ update }));
+    const projectClient = { from } as unknown as ConstructorParameters<typeof SupabaseDataAccess>[0];
+    await new SupabaseDataAccess(projectClient, { userId: "user-1" }).saveEntryScreen({ projectId: "p1", screenId: null });
+
+    expect(from).toHaveBeenCalledWith("projects");
+    expect(update).toHaveBeenCalledWith({ entry_screen_id: null });
+    expect(firstEq).toHaveBeenCalledWith("id", "p1");
+    expect(secondEq).toHaveBeenCalledWith("user_id", "user-1");
+    await expect(new SupabaseDataAccess(client).saveEntryScreen({ projectId: null, screenId: "s1" })).rejects.toThrow("saveEntryScreen");
+  });
+
+  it("lets workspace editors update shared screens without the owner filter", async () => {
+    const single = vi.fn().mockResolvedValue({ data: { id: "s1" }, error: null });
+    const select = vi.fn(() => ({ single }));
+    const eq = vi.fn(() => ({ select }));
+    const update = vi.fn(() => ({ eq }));
+    const from = vi.fn(() => ({ update }));
+    const client = { from } as unknown as ConstructorParameters<typeof SupabaseDataAccess>[0];
+    const dataAccess = new SupabaseDataAccess(client, { userId: "user-2", workspaceRole: "editor" });
+
+    await dataAccess.updateScreen({ screenId: "s1", update: { name: "Shared" } } as never);
+
+    expect(eq).toHaveBeenCalledTimes(1);
+    expect(eq).toHaveBeenCalledWith("id", "s1");
+  });
+
+  it("rejects writes below the required workspace role", async () => {
+    const { client, spies } = buildUpdateChainClient({ data: null, error: null });
+    const viewer = new SupabaseDataAccess(client, { userId: "user-2", workspaceRole: "viewer" });
+
+    await expect(viewer.updateScreen({ screenId: "s1", update: { name: "x" } } as never)).rejects.toThrow(
+      "操作「updateScreen」需要编辑者权限，当前为查看者",
+    );
+    await expect(
+      new SupabaseDataAccess(client, { userId: "user-2", workspaceRole: "editor" }).revokeWorkspaceInvite("i1"),
+    ).rejects.toThrow("需要所有者权限");
+    expect(spies.from).not.toHaveBeenCalled();
+  });
+
+  it("lists workspaces with the user's role", async () => {
+    const memberEq = vi.fn().mockResolvedValue({ data: [{ workspace_id: "w1", role: "editor" }], error: null });
+    const order = vi.fn().mockResolvedValue({ data: [{ id: "w1", name: "Design" }], error: null });
+    const inFn = vi.fn(() => ({ order }));
+    const from = vi.fn((table: string) => ({
+      select: vi.fn(() => (table === "workspace_members" ? { eq: memberEq } : { in: inFn })),
+    }));
+    const client = { from } as unknown as ConstructorParameters<typeof SupabaseDataAccess>[0];
+
+    const result = await new SupabaseDataAccess(client, { userId: "user-1" }).fetchWorkspaces();
+
+    expect(memberEq).toHaveBeenCalledWith("user_id", "user-1");
+    expect(inFn).toHaveBeenCalledWith("id", ["w1"]);
+    expect(result).toEqual([{ id: "w1", name: "Design", role: "editor" }]);
+  });
+
+  it("creates invites as the owner and accepts them by token", async () => {
+    const { client, spies } = buildInsertClient({ data: { id: "i1", token: "t1" }, error: null });
+    const owner = new SupabaseDataAccess(client, { userId: "user-1", workspaceRole: "owner" });
+
+    await owner.createWorkspaceInvite({ workspaceId: "w1", email: "dev@example.com", role: "editor" });
+
+    expect(spies.from).toHaveBeenCalledWith("workspace_invites");
+    expect(spies.insert).toHaveBeenCalledWith([
+      { workspace_id: "w1", email: "dev@example.com", role: "editor", invited_by: "user-1" },
+    ]);
+
+    const rpc = vi.fn().mockResolvedValue({ data: "w1", error: null });
+    const rpcClient = { rpc } as unknown as ConstructorParameters<typeof SupabaseDataAccess>[0];
+    await expect(new SupabaseDataAccess(rpcClient, { userId: "user-2" }).acceptWorkspaceInvite("t1")).resolves.toBe("w1");
+    expect(rpc).toHaveBeenCalledWith("accept_workspace_invite", { invite_token: "t1" });
+  });
+
   it("retries on retryable errors and forwards retry metadata", async () => {
     const onRetry = vi.fn();
     const single = vi
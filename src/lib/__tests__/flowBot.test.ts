@@ -0,0 +1,455 @@
+import { describe, it, expect } from "vitest";
+import { generateFlowBot, type FlowCodegenScreen } from "@/lib/codegen/flowBot";
+import type { MessageState } from "@/lib/messagePayload";
+import { transitionKey } from "@/lib/keyboard/transitions";
+
+const state = (overrides: Partial<MessageState>): MessageState => ({
+  text: "",
+  parseMode: "HTML",
+  messageType: "text",
+  mediaUrl: "",
+  mediaGroup: [],
+  keyboard: [],
+  keyboardKind: "inline",
+  replyKeyboardOptions: {},
+  linkPreviewOptions: {},
+  ...overrides,
+});
+
+const screens: FlowCodegenScreen[] = [
+  {
+    id: "menu",
+    name: "Menu",
+    state: state({
+      text: "Pick",
+      messageType: "photo",
+      mediaUrl: "https://example.com/p.jpg",
+      keyboard: [{ id: "r1", buttons: [{ id: "b1", text: "Back", linked_screen_id: "home" }] }],
+    }),
+  },
+  {
+    id: "home",
+    name: "Home",
+    state: state({
+      text: "Hi",
+      keyboard: [{ id: "r1", buttons: [{ id: "b1", text: "Menu", linked_screen_id: "menu" }, { id: "b2", text: "Help", callback_data: "help" }] }],
+    }),
+  },
+  {
+    id: "shortcuts",
+    name: "Shortcuts",
+    state: state({
+      text: "Choose",
+      keyboardKind: "reply",
+      keyboard: [{ id: "r1", buttons: [{ id: "b1", text: "Start over", linked_screen_id: "home" }] }],
+    }),
+  },
+];
+
+describe("generateFlowBot", () => {
+  it("returns nothing without screens", () => {
+    expect(generateFlowBot("telegraf", [], null)).toBe("");
+  });
+
+  it("emits one python-telegram-bot handler per screen starting at the entry", () => {
+    const code = generateFlowBot("python-telegram-bot", screens, "home");
+    expect(code).toContain("# Home (home)\nasync def screen_1(");
+    expect(code).toContain("# Menu (menu)\nasync def screen_2(");
+    expect(code).toContain("async def start(update: Update, context: ContextTypes.DEFAULT_TYPE):\n    await screen_1(update, context)");
+    expect(code).toContain('InlineKeyboardButton(text="Menu", callback_data="goto_screen_menu")');
+    expect(code).toContain('await update.callback_query.edit_message_text("Hi", parse_mode="HTML", reply_markup=markup)');
+    expect(code).toContain(
+      'await update.callback_query.edit_message_media(InputMediaPhoto("https://example.com/p.jpg", caption="Pick", parse_mode="HTML"), reply_markup=markup)'
+    );
+    expect(code).toContain('    "menu": screen_2,');
+    expect(code).toContain("from telegram import Update, InlineKeyboardButton, InlineKeyboardMarkup, KeyboardButton, ReplyKeyboardMarkup, InputMediaPhoto");
+  });
+
+  it("routes reply keyboard buttons by text and never edits into reply markups", () => {
+    const code = generateFlowBot("python-telegram-bot", screens, "home");
+    expect(code).toContain('TEXT_ROUTES = {\n    "Start over": "home",\n}');
+    expect(code).toContain("app.add_handler(MessageHandler(filters.TEXT & ~filters.COMMAND, on_text))");
+    const shortcuts = code.slice(code.indexOf("# Shortcuts"), code.indexOf("SCREENS = {"));
+    expect(shortcuts).not.toContain("edit_message");
+    expect(shortcuts).toContain('await message.reply_text("Choose", parse_mode="HTML", reply_markup=markup)');
+  });
+
+  it("emits aiogram and Telegraf navigation handlers", () => {
+    const aiogram = generateFlowBot("aiogram", screens, "home");
+    expect(aiogram).toContain("@router.callback_query(F.data.startswith(GOTO_PREFIX))");
+    expect(aiogram).toContain('await message.edit_text("Hi", parse_mode=ParseMode.HTML, reply_markup=kb)');
+    expect(aiogram).toContain("@router.message(F.text.in_(TEXT_ROUTES))");
+
+    const telegraf = generateFlowBot("telegraf", screens, "home");
+    expect(telegraf).toContain("bot.start((ctx) => screen1(ctx));");
+    expect(telegraf).toContain("bot.action(/^goto_screen_(.+)$/, async (ctx) => {");
+    expect(telegraf).toContain('await ctx.editMessageMedia({ type: "photo", media: "https://example.com/p.jpg"');
+    expect(telegraf).toContain('bot.hears(Object.keys(TEXT_ROUTES)');
+  });
+
+  it("falls back to the first screen when the entry is missing", () => {
+    const code = generateFlowBot("telegraf", screens, "missing");
+    expect(code).toContain("// Menu (menu)\nasync function screen1(");
+    expect(code).toContain("bot.start((ctx) => screen1(ctx));");
+  });
+
+  it("emits grammY and node-telegram-bot-api flows", () => {
+    const grammy = generateFlowBot("grammy", screens, "home");
+    expect(grammy).toContain('import { Bot, Context, InlineKeyboard, Keyboard, InputMediaBuilder } from "grammy";');
+    expect(grammy).toContain("bot.callbackQuery(/^goto_screen_(.+)$/, async (ctx) => {");
+    expect(grammy).toContain('bot.callbackQuery("help", async (ctx) => {');
+    expect(grammy).not.toContain('bot.callbackQuery("goto_screen_menu"');
+    expect(grammy).toContain('await ctx.editMessageMedia(InputMediaBuilder.photo("https://example.com/p.jpg"');
+
+    const node = generateFlowBot("node-telegram-bot-api", screens, "home");
+    expect(node).toContain("bot.onText(/^\\/start/, (msg) => screen1(msg.chat.id));");
+    expect(node).toContain('await bot.editMessageText("Hi", { chat_id: chatId, message_id: message.message_id, parse_mode: "HTML", reply_markup });');
+    expect(node).toContain("await handler(query.message.chat.id, query.message);");
+  });
+
+  it("routes telegram-callback-factory buttons through createCallbackManager", () => {
+    const routed: FlowCodegenScreen[] = [
+      {
+        id: "home",
+        name: "Home",
+        state: state({
+          text: "Hi",
+          keyboard: [
+            {
+              id: "r1",
+              buttons: [
+                { id: "b1", text: "Wallet", callback_data: "menu:open:eyJ0YWIiOiJ3In0::abc" },
+                { id: "b2", text: "Settings", callback_data: "menu:open:eyJ0YWIiOiJzIn0::def" },
+                { id: "b3", text: "Delete", callback_data: "confirm:delete" },
+                { id: "b4", text: "Help", callback_data: "help" },
+              ],
+            },
+          ],
+        }),
+      },
+    ];
+
+    const telegraf = generateFlowBot("telegraf", routed, "home");
+    expect(telegraf).toContain('const { createCallbackManager } = require("telegram-callback-factory");');
+    expect(telegraf).toContain("const cbx = createCallbackManager();");
+    expect(telegraf.match(/cbx\.router\.on\("menu", "open"/g)).toHaveLength(1);
+    expect(telegraf).toContain('cbx.router.on("confirm", "delete", async (parsed, ctx) => {');
+    expect(telegraf).toContain("bot.action(/^(?:menu|confirm):/, async (ctx, next) => {");
+    expect(telegraf).toContain('if (parsed.expired) {\n    await ctx.answerCbQuery("操作已过期", { show_alert: true });\n    return;\n  }');
+    expect(telegraf).not.toContain("cbx.parser.middleware()");
+
+    const grammy = generateFlowBot("grammy", routed, "home");
+    expect(grammy).toContain('import { createCallbackManager } from "telegram-callback-factory";');
+    expect(grammy).toContain('await (ctx as Context).answerCallbackQuery("Received: menu:open " + JSON.stringify(parsed.data ?? {}));');
+    expect(grammy).toContain("const parsed = cbx.parse(ctx.callbackQuery.data);");
+    expect(grammy).toContain('bot.callbackQuery("help", async (ctx) => {');
+    expect(grammy).not.toContain('bot.callbackQuery("confirm:delete"');
+
+    expect(generateFlowBot("telegraf", screens, "home")).not.toContain("createCallbackManager");
+  });
+
+  it("sends albums and voice notes without editing them in place", () => {
+    const media: FlowCodegenScreen[] = [
+      {
+        id: "album",
+        name: "Album",
+        state: state({
+          text: "Pick one",
+          messageType: "media_group",
+          mediaGroup: [
+            { type: "document", media: "https://example.com/a.pdf" },
+            { type: "document", media: "https://example.com/b.pdf", caption: "B" },
+          ],
+          keyboard: [{ id: "r1", buttons: [{ id: "b1", text: "Voice", linked_screen_id: "voice" }] }],
+        }),
+      },
+      { id: "voice", name: "Voice", state: state({ text: "Listen", messageType: "voice", mediaUrl: "https://example.com/v.ogg" }) },
+    ];
+
+    const ptb = generateFlowBot("python-telegram-bot", media, "album");
+    expect(ptb).toContain("from telegram import Update, InlineKeyboardButton, InlineKeyboardMarkup, InputMediaDocument");
+    expect(ptb).toContain(
+      '    await message.reply_media_group([InputMediaDocument(media="https://example.com/a.pdf"), InputMediaDocument(media="https://example.com/b.pdf", caption="B", parse_mode="HTML")])\n    await message.reply_text("Pick one"',
+    );
+    expect(ptb).toContain('    await message.reply_voice("https://example.com/v.ogg", caption="Listen", parse_mode="HTML", reply_markup=markup)');
+    expect(ptb).not.toContain("edit_message_media");
+
+    const node = generateFlowBot("node-telegram-bot-api", media, "album");
+    expect(node).toContain('await bot.sendMediaGroup(chatId, [{ type: "document", media: "https://example.com/a.pdf" }');
+    expect(node).toContain('await bot.sendVoice(chatId, "https://example.com/v.ogg", { caption: "Listen", parse_mode: "HTML", reply_markup });');
+    expect(node).not.toContain("editMessageMedia");
+  });
+
+  it("passes link preview options to text sends and edits", () => {
+    const linked: FlowCodegenScreen[] = [
+      { id: "home", name: "Home", state: state({ text: "https://example.com", linkPreviewOptions: { is_disabled: true } }) },
+      {
+        id: "news",
+        name: "News",
+        state: state({ text: "Read", linkPreviewOptions: { url: "https://example.com/n", prefer_small_media: true } }),
+      },
+    ];
+
+    const ptb = generateFlowBot("python-telegram-bot", linked, "home");
+    expect(ptb).toContain("from telegram import Update, InlineKeyboardButton, InlineKeyboardMarkup, LinkPreviewOptions");
+    expect(ptb).toContain(
+      'await update.callback_query.edit_message_text("https://example.com", parse_mode="HTML", link_preview_options=LinkPreviewOptions(is_disabled=True), reply_markup=markup)',
+    );
+    expect(ptb).toContain(
+      'await message.reply_text("Read", parse_mode="HTML", link_preview_options=LinkPreviewOptions(url="https://example.com/n", prefer_small_media=True), reply_markup=markup)',
+    );
+
+    const grammy = generateFlowBot("grammy", linked, "home");
+    expect(grammy).toContain(
+      'await ctx.editMessageText("https://example.com", { parse_mode: "HTML", link_preview_options: { is_disabled: true }, reply_markup: keyboard });',
+    );
+
+    const node = generateFlowBot("node-telegram-bot-api", linked, "home");
+    expect(node).toContain(
+      'await bot.sendMessage(chatId, "Read", { parse_mode: "HTML", link_preview_options: { url: "https://example.com/n", prefer_small_media: true }, reply_markup });',
+    );
+  });
+
+  it("takes declared variables as handler parameters and escapes them in message text", () => {
+    const variables = [
+      { name: "first_name", type: "string" as const, sample: "Ann" },
+      { name: "count", type: "number" as const, sample: "3" },
+      { name: "unused", type: "boolean" as const, sample: "true" },
+    ];
+    const personal: FlowCodegenScreen[] = [
+      {
+        id: "home",
+        name: "Home",
+        state: state({
+          text: "Hi **{{first_name}}**, {{count}} new {{missing}}",
+          parseMode: "MarkdownV2",
+          keyboard: [{ id: "r1", buttons: [{ id: "b1", text: "Profile {{first_name}}", url: "https://example.com/u/{{count}}" }] }],
+        }),
+      },
+    ];
+
+    const ptb = generateFlowBot("python-telegram-bot", personal, "home", variables);
+    expect(ptb).toContain(
+      'async def screen_1(update: Update, context: ContextTypes.DEFAULT_TYPE, edit: bool = False, *, first_name: str = "Ann", count: float = 3):',
+    );
+    expect(ptb).toContain('InlineKeyboardButton(text=f"Profile {first_name}", url=f"https://example.com/u/{count}")');
+    expect(ptb).toContain(
+      'await message.reply_text(f"Hi *{escape_markdown_v2(first_name)}*, {escape_markdown_v2(count)} new \\\\{{\\\\{{missing\\\\}}\\\\}}", parse_mode="MarkdownV2", reply_markup=markup)',
+    );
+    expect(ptb).toContain("def escape_markdown_v2(value) -> str:");
+    expect(ptb).not.toContain("escape_html");
+
+    const grammy = generateFlowBot("grammy", personal, "home", variables);
+    expect(grammy).toContain(
+      'async function screen1(ctx: Context, edit = false, { first_name = "Ann", count = 3 }: { first_name?: string; count?: number } = {}) {',
+    );
+    expect(grammy).toContain(".url(`Profile ${first_name}`, `https://example.com/u/${count}`)");
+    expect(grammy).toContain("await ctx.reply(`Hi *${escapeMarkdownV2(first_name)}*, ${escapeMarkdownV2(count)} new \\\\{\\\\{missing\\\\}\\\\}`");
+    expect(grammy).toContain("const escapeMarkdownV2 = (value: unknown) =>");
+
+    const node = generateFlowBot("node-telegram-bot-api", [{ ...personal[0], state: state({ text: "<{{first_name}}>" }) }], "home", variables);
+    expect(node).toContain('async function screen1(chatId, message, { first_name = "Ann" } = {}) {');
+    expect(node).toContain("await bot.sendMessage(chatId, `&lt;${escapeHtml(first_name)}&gt;`, { parse_mode: \"HTML\", reply_markup });");
+    expect(generateFlowBot("telegraf", personal, "home")).toContain('async function screen1(ctx, edit = false) {');
+  });
+
+  it("leaves out declared variables whose names would clash with the generated code", () => {
+    const variables = [
+      { name: "class", type: "string" as const, sample: "A" },
+      { name: "rows", type: "number" as const, sample: "2" },
+      { name: "first_name", type: "string" as const, sample: "Ann" },
+    ];
+    const screens: FlowCodegenScreen[] = [{ id: "home", name: "Home", state: state({ text: "{{first_name}} {{class}} {{rows}}" }) }];
+
+    const ptb = generateFlowBot("python-telegram-bot", screens, "home", variables);
+    expect(ptb).toContain('async def screen_1(update: Update, context: ContextTypes.DEFAULT_TYPE, edit: bool = False, *, first_name: str = "Ann"):');
+    expect(ptb).not.toContain("class: str");
+    expect(ptb).not.toContain("rows: float");
+
+    const telegraf = generateFlowBot("telegraf", screens, "home", variables);
+    expect(telegraf).toContain('async function screen1(ctx, edit = false, { first_name = "Ann" } = {}) {');
+    expect(telegraf).toContain("{{class}} {{rows}}");
+  });
+
+  it("adds buttons with a visibility condition inside if blocks", () => {
+    const variables = [
+      { name: "is_admin", type: "boolean" as const, sample: "false" },
+      { name: "credits", type: "number" as const, sample: "0" },
+    ];
+    const gated: FlowCodegenScreen[] = [
+      {
+        id: "home",
+        name: "Home",
+        state: state({
+          text: "Hi",
+          keyboard: [
+            {
+              id: "r1",
+              buttons: [
+                { id: "a", text: "Shop", callback_data: "shop" },
+                { id: "b", text: "Admin", callback_data: "admin", visible_if: "is_admin" },
+                { id: "c", text: "Help", callback_data: "help" },
+              ],
+            },
+            { id: "r2", buttons: [{ id: "d", text: "Continue", url: "https://x.y", visible_if: "credits > 0 && !is_admin" }] },
+          ],
+        }),
+      },
+    ];
+
+    const ptb = generateFlowBot("python-telegram-bot", gated, "home", variables);
+    expect(ptb).toContain("edit: bool = False, *, is_admin: bool = False, credits: float = 0):");
+    expect(ptb).toContain(
+      [
+        "    rows = []",
+        '    row = [InlineKeyboardButton(text="Shop", callback_data="shop")]',
+        "    if is_admin:",
+        '        row.append(InlineKeyboardButton(text="Admin", callback_data="admin"))',
+        '    row.append(InlineKeyboardButton(text="Help", callback_data="help"))',
+        "    rows.append(row)",
+        "    row = []",
+        "    if credits > 0 and not is_admin:",
+        '        row.append(InlineKeyboardButton(text="Continue", url="https://x.y"))',
+        "    if row:",
+        "        rows.append(row)",
+        "    markup = InlineKeyboardMarkup(rows)",
+      ].join("\n"),
+    );
+
+    const grammy = generateFlowBot("grammy", gated, "home", variables);
+    expect(grammy).toContain('import type { InlineKeyboardButton } from "grammy/types";');
+    expect(grammy).toContain('  if (is_admin) row1.push(InlineKeyboard.text("Admin", "admin"));');
+    expect(grammy).toContain('  if (credits > 0 && !is_admin) row2.push(InlineKeyboard.url("Continue", "https://x.y"));\n  if (row2.length) rows.push(row2);');
+    expect(grammy).toContain("  const keyboard = new InlineKeyboard(rows);");
+
+    const node = generateFlowBot("node-telegram-bot-api", gated, "home", variables);
+    expect(node).toContain('  if (is_admin) row1.push({ text: "Admin", callback_data: "admin" });');
+    expect(node).toContain("  const reply_markup = { inline_keyboard: rows };");
+
+    expect(generateFlowBot("telegraf", screens, "home")).not.toContain("const rows");
+  });
+
+  it("looks up button transitions by the key in their callback_data", () => {
+    const flow: FlowCodegenScreen[] = [
+      {
+        id: "home",
+        name: "Home",
+        state: state({
+          text: "Hi",
+          keyboard: [
+            {
+              id: "r1",
+              buttons: [
+                { id: "buy", text: "Buy", linked_screen_id: "cart", transition: "replace", callback_answer: { text: "Added", show_alert: true } },
+                { id: "help", text: "Help", linked_screen_id: "cart" },
+              ],
+            },
+          ],
+        }),
+      },
+      { id: "cart", name: "Cart", state: state({ text: "Cart" }) },
+    ];
+    const key = transitionKey("buy");
+
+    const ptb = generateFlowBot("python-telegram-bot", flow, "home");
+    expect(ptb).toContain(`callback_data="goto_screen_cart:${key}"`);
+    expect(ptb).toContain('callback_data="goto_screen_cart")');
+    expect(ptb).toContain(`TRANSITIONS = {\n    "${key}": {"mode": "replace", "answer": "Added", "alert": True},\n}`);
+    expect(ptb).toContain(
+      [
+        '    screen_id, _, key = data.removeprefix(GOTO_PREFIX).partition(":")',
+        "    handler = SCREENS.get(screen_id) if data.startswith(GOTO_PREFIX) else None",
+        "    if handler:",
+        "        transition = TRANSITIONS.get(key, {})",
+        '        await query.answer(transition.get("answer"), show_alert=transition.get("alert", False))',
+        '        await handler(update, context, edit=not transition.get("mode"))',
+        '        if transition.get("mode") == "replace":',
+        "            await query.message.delete()",
+      ].join("\n"),
+    );
+
+    const aiogram = generateFlowBot("aiogram", flow, "home");
+    expect(aiogram).toContain('        await handler(query.message, edit=not transition.get("mode"))');
+
+    const grammy = generateFlowBot("grammy", flow, "home");
+    expect(grammy).toContain(`const TRANSITIONS: Record<string, Transition> = {\n  "${key}": { mode: "replace", answer: "Added", alert: true },\n};`);
+    expect(grammy).toContain("bot.callbackQuery(/^goto_screen_([^:]+)(?::(.+))?$/, async (ctx) => {\n  const transition: Transition = TRANSITIONS[ctx.match[2]] ?? {};");
+    expect(grammy).toContain('    if (transition.mode === "replace") await ctx.deleteMessage();');
+
+    const node = generateFlowBot("node-telegram-bot-api", flow, "home");
+    expect(node).toContain("    await handler(query.message.chat.id, transition.mode ? undefined : query.message);");
+
+    expect(generateFlowBot("telegraf", screens, "home")).not.toContain("TRANSITIONS");
+  });
+});
+
+describe("generateFlowBot input screens", () => {
+  const signup: FlowCodegenScreen[] = [
+    {
+      id: "home",
+      name: "Home",
+      state: state({ text: "Hi", keyboard: [{ id: "r1", buttons: [{ id: "b1", text: "Sign up", linked_screen_id: "email" }] }] }),
+    },
+    { id: "done", name: "Done", state: state({ text: "Thanks" }) },
+    {
+      id: "email",
+      name: "Email",
+      state: state({ text: "Your email?", inputStep: { expect: "email", pattern: ".+@corp\\.com", retry_message: "Not an email", next_screen_id: "done" } }),
+    },
+  ];
+
+  it("turns them into a python-telegram-bot ConversationHandler", () => {
+    const code = generateFlowBot("python-telegram-bot", signup, "home");
+    expect(code.startsWith("import re\n\nfrom telegram import")).toBe(true);
+    expect(code).toContain('INPUT_STATES = {\n    "email": "screen_2",\n}');
+    expect(code).toContain(
+      [
+        "async def input_2(update: Update, context: ContextTypes.DEFAULT_TYPE):",
+        "    message = update.effective_message",
+        '    reply = (message.text or "").strip()',
+        '    if not reply or not re.fullmatch("[^\\\\s@]+@[^\\\\s@]+\\\\.[^\\\\s@]+", reply) or not re.fullmatch(".+@corp\\\\.com", reply):',
+        '        await message.reply_text("Not an email")',
+        '        return "screen_2"',
+        '    context.user_data["email"] = reply',
+        "    await screen_3(update, context)",
+        '    return INPUT_STATES.get("done", ConversationHandler.END)',
+      ].join("\n"),
+    );
+    expect(code).toContain("        return INPUT_STATES.get(screen_id, ConversationHandler.END)");
+    expect(code).toContain('        "screen_2": [MessageHandler(filters.ALL & ~filters.COMMAND, input_2)],');
+    expect(code).toContain("    allow_reentry=True,");
+    expect(code).not.toContain("app.add_handler(CallbackQueryHandler(on_callback))");
+  });
+
+  it("declares an aiogram StatesGroup and sets the state on every route", () => {
+    const code = generateFlowBot("aiogram", signup, "home");
+    expect(code).toContain("from aiogram.fsm.state import State, StatesGroup");
+    expect(code).toContain("class InputSteps(StatesGroup):\n    screen_2 = State()");
+    expect(code).toContain('INPUT_STATES = {\n    "email": InputSteps.screen_2,\n}');
+    expect(code).toContain("async def cmd_start(message: Message, state: FSMContext):\n    await screen_1(message)\n    await state.set_state(INPUT_STATES.get(\"home\"))");
+    expect(code).toContain("        await state.set_state(INPUT_STATES.get(screen_id))");
+    expect(code).toContain("@router.message(InputSteps.screen_2)\nasync def input_2(message: Message, state: FSMContext):");
+    expect(code).toContain('    await state.update_data({"email": reply})\n    await screen_3(message)');
+  });
+
+  it("tracks waiting chats in JavaScript bots", () => {
+    const photo: FlowCodegenScreen[] = [
+      { id: "selfie", name: "Selfie", state: state({ text: "Send a selfie", inputStep: { expect: "photo", retry_message: "Photo please" } }) },
+    ];
+    const telegraf = generateFlowBot("telegraf", photo, "selfie");
+    expect(telegraf).toContain("reply: (message) => message.photo && message.photo[message.photo.length - 1].file_id,");
+    expect(telegraf).toContain('bot.start(async (ctx) => {\n  await screen1(ctx);\n  track(ctx.chat.id, "selfie");\n});');
+    expect(telegraf).toContain("  if (reply === undefined) return ctx.reply(input.retry);");
+    expect(telegraf).not.toContain("matchText");
+
+    const grammy = generateFlowBot("grammy", signup, "home");
+    expect(grammy).toContain('import type { Message } from "grammy/types";');
+    expect(grammy).toContain("const waiting = new Map<number, string>();");
+    expect(grammy).toContain('reply: (message) => matchText(message.text, [new RegExp("^(?:[^\\\\s@]+@[^\\\\s@]+\\\\.[^\\\\s@]+)$"), new RegExp("^(?:.+@corp\\\\.com)$")]),');
+    expect(grammy).toContain("    track(ctx.chat!.id, ctx.match[1]);");
+
+    const node = generateFlowBot("node-telegram-bot-api", signup, "home");
+    expect(node).toContain("    track(query.message.chat.id, data.slice(GOTO_PREFIX.length));");
+    expect(node).toContain('  if (!screenId || !input || (msg.text && msg.text.startsWith("/"))) return;');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import type { Screen } from "@/types/telegram";
+import { buildFlowBundle, isFlowBundle, parseFlowBundle, remapFlowBundle } from "@/lib/flowBundle";
+import { parseSerializedMessage } from "@/lib/messagePayload";
+import { transitionKey } from "@/lib/keyboard/transitions";
+
+const screens: Screen[] = [
+  {
+    id: "home",
+    name: "Home",
+    message_content: "<b>Hi</b>",
+    parse_mode: "MarkdownV2",
+    message_type: "photo",
+    media_url: "https://x.test/a.png",
+    keyboard: [
+      {
+        id: "r1",
+        buttons: [
+          { id: "b1", text: "Ask", linked_screen_id: "ask", transition: "send", callback_data: "goto_screen_ask" },
+          { id: "b2", text: "Gone", linked_screen_id: "deleted", callback_data: "goto_screen_deleted" },
+        ],
+      },
+    ],
+    is_public: true,
+    share_token: "tok",
+  },
+  {
+    id: "ask",
+    name: "Ask",
+    message_content: JSON.stringify({ type: "text", text: "Email?", parse_mode: "HTML", input_step: { expect: "email", retry_message: "No", next_screen_id: "home" } }),
+    keyboard: [],
+  },
+];
+
+describe("flow bundle", () => {
+  const bundle = buildFlowBundle({
+    screens,
+    entryScreenId: "home",
+    variables: [{ name: "name", type: "string", sample: "Ann" }],
+    layouts: [
+      { screen_id: "home", x: 10, y: 20 },
+      { screen_id: "other", x: 0, y: 0 },
+    ],
+    pinnedIds: ["ask", "other"],
+  });
+
+  it("imports flows saved with legacy URL buttons that also link a screen", () => {
+    const legacy = JSON.parse(JSON.stringify(bundle));
+    legacy.screens[0].keyboard[0].buttons[0] = { id: "b9", text: "Site", url: "https://a.com", linked_screen_id: "ask" };
+    expect(parseFlowBundle(legacy).screens[0].keyboard[0].buttons[0]).toEqual({ id: "b9", text: "Site", url: "https://a.com" });
+  });
+
+  it("exports every screen with its resolved message and drops links outside the flow", () => {
+    expect(parseFlowBundle(JSON.parse(JSON.stringify(bundle)))).toMatchObject({ version: 2, entry_screen_id: "home" });
+    expect(parseSerializedMessage(bundle.screens[0].message_content)).toMatchObject({
+      type: "photo",
+      text: "<b>Hi</b>",
+      mediaUrl: "https://x.test/a.png",
+      parse_mode: "MarkdownV2",
+    });
+    expect(bundle.screens[0].keyboard[0].buttons[1]).toMatchObject({ id: "b2", text: "Gone", linked_screen_id: undefined, callback_data: undefined });
+    expect(bundle.layouts).toEqual([{ screen_id: "home", x: 10, y: 20 }]);
+    expect(bundle.pinned_ids).toEqual(["ask"]);
+    expect(isFlowBundle(bundle)).toBe(true);
+    expect(isFlowBundle({ text: "Hello" })).toBe(false);
+  });
+
+  it("gives imported screens new ids and re-links every reference", () => {
+    let next = 0;
+    const imported = remapFlowBundle(bundle, () => `new-${++next}`);
+    expect(imported.screens.map((screen) => [screen.id, screen.name, screen.is_public, screen.share_token])).toEqual([
+      ["new-1", "Home", false, null],
+      ["new-2", "Ask", false, null],
+    ]);
+    expect(imported.screens[0].keyboard[0].buttons[0]).toMatchObject({
+      linked_screen_id: "new-2",
+      transition: "send",
+      callback_data: `goto_screen_new-2:${transitionKey("b1")}`,
+    });
+    expect(parseSerializedMessage(imported.screens[1].message_content)?.input_step?.next_screen_id).toBe("new-1");
+    expect(imported.entryScreenId).toBe("new-1");
+    expect(imported.layouts).toEqual([{ screen_id: "new-1", x: 10, y: 20 }]);
+    expect(imported.pinnedIds).toEqual(["new-2"]);
+    expect(imported.variables).toEqual([{ name: "name", type: "string", sample: "Ann" }]);
+
+    expect(() => remapFlowBundle({ ...bundle, entry_screen_id: "missing" })).toThrow("入口模版不在导入的流程中");
+    expect(() => parseFlowBundle({ ...bundle, layouts: [{ screen_id: "home", x: "1", y: 0 }] })).toThrow(/流程数据验证失败/);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { FLOW_FORMAT_VERSION, migrateFlowExport, readFlowVersion, type FlowMigration } from "../flowMigrations";
+import { listUnsupportedFlowFields, validateFlowExport } from "../validation";
+
+const legacyFlow = {
+  version: "1.0",
+  entry_screen_id: "a",
+  screens: [{ id: "a", name: "A", message_content: "Hi", keyboard: [] }],
+};
+
+describe("flow migrations", () => {
+  it("reads legacy string versions and rejects unknown ones", () => {
+    expect(readFlowVersion("1.0")).toBe(1);
+    expect(readFlowVersion(undefined)).toBe(1);
+    expect(readFlowVersion(2)).toBe(2);
+    expect(() => readFlowVersion("beta")).toThrow("无法识别的流程数据版本：beta");
+    expect(() => readFlowVersion(0)).toThrow(/无法识别/);
+  });
+
+  it("upgrades version 1 exports before validating them", () => {
+    expect(validateFlowExport(legacyFlow)).toMatchObject({
+      version: FLOW_FORMAT_VERSION,
+      screens: [{ id: "a", is_public: false }],
+    });
+    expect(() => validateFlowExport({ ...legacyFlow, version: "v1" })).toThrow(/流程数据验证失败: 无法识别的流程数据版本/);
+  });
+
+  it("applies every step in order", () => {
+    const steps: string[] = [];
+    const migrations: FlowMigration[] = [1, 2].map((from) => ({
+      from,
+      description: `step ${from}`,
+      migrate: (flow) => {
+        steps.push(`${from}`);
+        return flow;
+      },
+    }));
+    expect(migrateFlowExport({ version: 2 }, migrations)).toEqual({ version: FLOW_FORMAT_VERSION });
+    expect(migrateFlowExport({ version: 1 }, migrations)).toEqual({ version: FLOW_FORMAT_VERSION });
+    expect(steps).toEqual(["1"]);
+    expect(() => migrateFlowExport({ version: 1 }, [])).toThrow("缺少流程数据版本 1 的升级步骤");
+  });
+
+  it("lists the fields a newer export uses that this version cannot read", () => {
+    const newer = {
+      version: FLOW_FORMAT_VERSION + 1,
+      entry_screen_id: "a",
+      theme: "dark",
+      screens: [
+        {
+          id: "a",
+          name: "A",
+          message_content: "Hi",
+          is_public: false,
+          locale: "en",
+          keyboard: [{ id: "r", buttons: [{ id: "b", text: "Go", effect: "confetti" }] }],
+        },
+      ],
+    };
+    expect(listUnsupportedFlowFields(newer)).toEqual(["theme", "screens[].locale", "screens[].keyboard[].buttons[].effect"]);
+    expect(() => validateFlowExport(newer)).toThrow(
+      `流程数据验证失败: 流程数据版本 ${FLOW_FORMAT_VERSION + 1} 高于当前支持的版本 ${FLOW_FORMAT_VERSION}，不支持的字段: theme, screens[].locale, screens[].keyboard[].buttons[].effect，请更新应用后再导入`,
+    );
+  });
+});
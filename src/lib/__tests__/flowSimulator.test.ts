@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import type { KeyboardRow, Screen } from "@/types/telegram";
+import {
+  applySimulatorAction,
+  buildSimulatorScript,
+  createSimulatorSession,
+  currentSimulatorScreen,
+  parseSimulatorScript,
+  replaySimulatorScript,
+  type SimulatorAction,
+  type SimulatorFlow,
+  type TranscriptMessage,
+} from "@/lib/flowSimulator";
+
+const screen = (id: string, content: Record<string, unknown> | string, keyboard: KeyboardRow[] = []): Screen => ({
+  id,
+  name: id.toUpperCase(),
+  message_content: typeof content === "string" ? content : JSON.stringify({ type: "text", parse_mode: "HTML", ...content }),
+  keyboard,
+});
+
+const row = (...buttons: Record<string, unknown>[]): KeyboardRow => ({
+  id: `row-${buttons.map((button) => button.text).join("-")}`,
+  buttons: buttons.map((button, index) => ({ id: `btn-${index}`, ...button })) as KeyboardRow["buttons"],
+});
+
+const flow = (screens: Screen[], values: Record<string, string> = {}): SimulatorFlow => ({
+  screens,
+  entryScreenId: screens[0].id,
+  variables: Object.keys(values).map((name) => ({ name, type: "string" as const, sample: values[name] })),
+  values,
+});
+
+const run = (simulated: SimulatorFlow, actions: SimulatorAction[]) =>
+  actions.reduce((session, action) => applySimulatorAction(simulated, session, action), createSimulatorSession());
+
+const messages = (entries: { type: string }[]) => entries.filter((entry): entry is TranscriptMessage => entry.type === "message");
+
+describe("flow simulator", () => {
+  const shop = flow(
+    [
+      screen("home", "Hi {{name}}", [row({ text: "Catalog", linked_screen_id: "catalog" }, { text: "Ping", callback_data: "ping" })]),
+      screen("catalog", { text: "Catalog", type: "photo", mediaUrl: "https://x.test/a.png" }, [row({ text: "Back", linked_screen_id: "home" })]),
+      screen("about", "About", [row({ text: "Home", linked_screen_id: "home" }), row({ text: "Docs", url: "https://docs.test" })]),
+    ],
+    { name: "Ann" },
+  );
+
+  it("edits the message when both screens allow it and sends a new one otherwise", () => {
+    const toPhoto = run(shop, [{ action: "start" }, { action: "press", message_id: 2, button: "Catalog" }]);
+    expect(messages(toPhoto.transcript).map((message) => [message.id, message.from, message.text, message.edits])).toEqual([
+      [1, "user", "/start", 0],
+      [2, "bot", "Hi Ann", 0],
+      [3, "bot", "Catalog", 0],
+    ]);
+    expect(toPhoto.path).toEqual(["home", "catalog"]);
+
+    const edited = run({ ...shop, entryScreenId: "about" }, [{ action: "start" }, { action: "press", message_id: 2, button: "Home" }]);
+    const [, bot] = messages(edited.transcript);
+    expect(bot).toMatchObject({ id: 2, text: "Hi Ann", screenId: "home", edits: 1 });
+    expect(messages(edited.transcript)).toHaveLength(2);
+    expect(currentSimulatorScreen(edited)).toBe("home");
+  });
+
+  it("answers callback queries and leaves client-side buttons to the client", () => {
+    const session = run({ ...shop, entryScreenId: "about" }, [
+      { action: "start" },
+      { action: "press", message_id: 2, button: "Docs" },
+      { action: "press", message_id: 2, button: "Home" },
+      { action: "press", message_id: 2, button: "Ping" },
+    ]);
+    expect(session.transcript.filter((entry) => entry.type !== "message")).toEqual([
+      { type: "client_action", text: "打开链接：https://docs.test" },
+      { type: "callback_answer", text: "Received: ping" },
+    ]);
+    expect(() => applySimulatorAction(shop, session, { action: "press", message_id: 2, button: "Nope" })).toThrow(
+      "消息 #2 上没有按钮「Nope」",
+    );
+  });
+
+  it("follows each linked button's transition and shows its callback answer", () => {
+    const store = flow([
+      screen("home", "Home", [
+        row({ text: "Send", linked_screen_id: "cart", transition: "send", callback_answer: { text: "Opening" } }),
+        row({ text: "Replace", linked_screen_id: "cart", transition: "replace", callback_answer: { text: "Sold out", show_alert: true } }),
+      ]),
+      screen("cart", "Cart"),
+    ]);
+    const sent = run(store, [{ action: "start" }, { action: "press", message_id: 2, button: "Send" }]);
+    expect(messages(sent.transcript).map((message) => [message.id, message.text, message.edits, !!message.deleted])).toEqual([
+      [1, "/start", 0, false],
+      [2, "Home", 0, false],
+      [3, "Cart", 0, false],
+    ]);
+    expect(sent.transcript.find((entry) => entry.type === "callback_answer")).toEqual({ type: "callback_answer", text: "Opening" });
+
+    const replaced = run(store, [{ action: "start" }, { action: "press", message_id: 2, button: "Replace" }]);
+    expect(messages(replaced.transcript).map((message) => [message.id, message.text, !!message.deleted])).toEqual([
+      [1, "/start", false],
+      [2, "Home", true],
+      [3, "Cart", false],
+    ]);
+    expect(replaced.transcript.find((entry) => entry.type === "alert")).toEqual({ type: "alert", text: "Sold out" });
+    expect(() => applySimulatorAction(store, replaced, { action: "press", message_id: 2, button: "Send" })).toThrow("消息 #2 已删除");
+  });
+
+  it("routes reply keyboard taps and checks replies to input screens", () => {
+    const signup = flow([
+      screen("menu", { text: "Menu", keyboard_kind: "reply", reply_keyboard_options: { one_time_keyboard: true } }, [
+        row({ text: "Sign up", linked_screen_id: "email" }),
+      ]),
+      screen("email", { text: "Your email?", input_step: { expect: "email", retry_message: "Not an email", next_screen_id: "done" } }),
+      screen("done", "Thanks"),
+    ]);
+    const session = run(signup, [
+      { action: "start" },
+      { action: "tap", button: "Sign up" },
+      { action: "send", text: "nope" },
+      { action: "send", text: "me@x.io" },
+    ]);
+    expect(messages(session.transcript).map((message) => message.text)).toEqual([
+      "/start",
+      "Menu",
+      "Sign up",
+      "Your email?",
+      "nope",
+      "Not an email",
+      "me@x.io",
+      "Thanks",
+    ]);
+    expect(session.replyKeyboard).toBeNull();
+    expect(session.answers).toEqual({ email: "me@x.io" });
+    expect(session.path).toEqual(["menu", "email", "done"]);
+    expect(session.steps.map((step) => step.expect_screen)).toEqual(["menu", "email", "email", "done"]);
+  });
+
+  it("exports the session as a script and reports steps that no longer match on replay", () => {
+    const session = run(shop, [{ action: "start" }, { action: "press", message_id: 2, button: "Catalog" }]);
+    const script = parseSimulatorScript(JSON.stringify(buildSimulatorScript(shop, session)));
+    expect(script).toMatchObject({ version: 1, entry_screen_id: "home", values: { name: "Ann" } });
+    expect(replaySimulatorScript(shop, script).failures).toEqual([]);
+
+    const relinked = { ...shop, screens: shop.screens.map((s) => (s.id === "home" ? { ...s, keyboard: [row({ text: "Catalog", linked_screen_id: "about" })] } : s)) };
+    expect(replaySimulatorScript(relinked, script).failures).toEqual([{ step: 2, message: "应停留在「CATALOG」，实际为「ABOUT」" }]);
+
+    const renamed = { ...shop, screens: shop.screens.map((s) => (s.id === "home" ? { ...s, keyboard: [row({ text: "Shop", linked_screen_id: "catalog" })] } : s)) };
+    expect(replaySimulatorScript(renamed, script).failures).toEqual([{ step: 2, message: "消息 #2 上没有按钮「Catalog」" }]);
+
+    expect(() => parseSimulatorScript("{")).toThrow("测试脚本不是有效的 JSON");
+    expect(() => parseSimulatorScript(JSON.stringify({ ...script, steps: [{ action: "jump", expect_screen: null }] }))).toThrow(
+      "测试脚本验证失败: 第1步 不支持的操作",
+    );
+  });
+});
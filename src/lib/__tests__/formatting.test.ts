@@ -0,0 +1,275 @@
+import { describe, it, expect } from "vitest";
+import { parseMarkup, toMarkup, walkEntities, type FormattedText } from "@/lib/formatting/entities";
+import { toPreviewHtml, toTelegramHtml } from "@/lib/formatting/html";
+import { escapeMarkdownV2, parseMarkdownV2, toMarkdownV2 } from "@/lib/formatting/markdownV2";
+import { parseTelegramHtml, TelegramHtmlError, validateTelegramHtml } from "@/lib/formatting/telegramHtml";
+
+describe("parseMarkup", () => {
+  it("counts offsets in UTF-16 code units", () => {
+    expect(parseMarkup("👋 **hi** _there_")).toEqual({
+      text: "👋 hi there",
+      entities: [
+        { type: "bold", offset: 3, length: 2 },
+        { type: "italic", offset: 6, length: 5 },
+      ],
+    });
+  });
+
+  it("parses every inline entity type", () => {
+    const { text, entities } = parseMarkup(
+      "__u__ ~~s~~ ||sp|| `c` [**go** on](https://t.me/x) ![👍](tg://emoji?id=5368324170671202286)",
+    );
+    expect(text).toBe("u s sp c go on 👍");
+    expect(entities).toEqual([
+      { type: "underline", offset: 0, length: 1 },
+      { type: "strikethrough", offset: 2, length: 1 },
+      { type: "spoiler", offset: 4, length: 2 },
+      { type: "code", offset: 7, length: 1 },
+      { type: "text_link", offset: 9, length: 5, url: "https://t.me/x" },
+      { type: "bold", offset: 9, length: 2 },
+      { type: "custom_emoji", offset: 15, length: 2, custom_emoji_id: "5368324170671202286" },
+    ]);
+  });
+
+  it("keeps pre blocks verbatim with their language", () => {
+    expect(parseMarkup("Run:\n```ts\nconst a = **1**;\n```")).toEqual({
+      text: "Run:\nconst a = **1**;",
+      entities: [{ type: "pre", offset: 5, length: 16, language: "ts" }],
+    });
+  });
+
+  it("groups quote lines into blockquotes", () => {
+    const { text, entities } = parseMarkup("Intro\n> one\n> **two**\n**> hidden\n> more||\nEnd");
+    expect(text).toBe("Intro\none\ntwo\nhidden\nmore\nEnd");
+    expect(entities).toEqual([
+      { type: "blockquote", offset: 6, length: 7 },
+      { type: "bold", offset: 10, length: 3 },
+      { type: "expandable_blockquote", offset: 14, length: 11 },
+    ]);
+  });
+
+  it("leaves unmatched delimiters and escaped characters as text", () => {
+    expect(parseMarkup("2 ** 3 and snake_case")).toEqual({ text: "2 ** 3 and snake_case", entities: [] });
+    expect(parseMarkup("\\*\\*not bold\\*\\*")).toEqual({ text: "**not bold**", entities: [] });
+  });
+
+  it("keeps variable placeholders intact", () => {
+    expect(parseMarkup("_Hi {{first_name}}_ {{ user_id }}")).toEqual({
+      text: "Hi {{first_name}} {{ user_id }}",
+      entities: [{ type: "italic", offset: 0, length: 17 }],
+    });
+    expect(toMarkup({ text: "{{first_name}} a_b", entities: [] })).toBe("{{first_name}} a\\_b");
+  });
+});
+
+describe("walkEntities", () => {
+  it("splits crossing entities into nested pairs", () => {
+    const formatted: FormattedText = {
+      text: "abcdef",
+      entities: [
+        { type: "bold", offset: 0, length: 4 },
+        { type: "italic", offset: 2, length: 4 },
+      ],
+    };
+    expect(toTelegramHtml(formatted)).toBe("<b>ab<i>cd</i></b><i>ef</i>");
+  });
+
+  it("skips entities outside the text", () => {
+    const chunks: string[] = [];
+    walkEntities(
+      { text: "hi", entities: [{ type: "bold", offset: 1, length: 5 }] },
+      { text: (chunk) => chunks.push(chunk), open: () => chunks.push("<"), close: () => chunks.push(">") },
+    );
+    expect(chunks).toEqual(["hi"]);
+  });
+});
+
+describe("toTelegramHtml", () => {
+  it("serializes every entity with Telegram tags", () => {
+    const formatted = parseMarkup(
+      "**b** _i_ __u__ ~~s~~ ||p|| `c<d>` [x](https://a.b/?q=\"1\") ![⭐](tg://emoji?id=1)\n```py\nprint(1 < 2)\n```\n> q\n**> e||",
+    );
+    expect(toTelegramHtml(formatted)).toBe(
+      '<b>b</b> <i>i</i> <u>u</u> <s>s</s> <tg-spoiler>p</tg-spoiler> <code>c&lt;d&gt;</code> <a href="https://a.b/?q=&quot;1&quot;">x</a> <tg-emoji emoji-id="1">⭐</tg-emoji>\n' +
+        '<pre><code class="language-py">print(1 &lt; 2)</code></pre>\n<blockquote>q</blockquote>\n<blockquote expandable>e</blockquote>',
+    );
+  });
+});
+
+describe("toMarkdownV2", () => {
+  it("escapes special characters outside entities", () => {
+    expect(escapeMarkdownV2("1.5 + (x) = y!")).toBe("1\\.5 \\+ \\(x\\) \\= y\\!");
+    expect(toMarkdownV2(parseMarkup("Price: **$1.50** - `a_b\\c`"))).toBe("Price: *$1\\.50* \\- `a_b\\\\c`");
+  });
+
+  it("serializes links, pre, custom emoji and blockquotes", () => {
+    expect(toMarkdownV2(parseMarkup("[site](https://x.y/(a\\)) ![👍](tg://emoji?id=42)"))).toBe(
+      "[site](https://x.y/(a\\)) ![👍](tg://emoji?id=42)",
+    );
+    expect(toMarkdownV2(parseMarkup("```js\nlet a = `x`;\n```"))).toBe("```js\nlet a = \\`x\\`;\n```");
+    expect(toMarkdownV2(parseMarkup("> a\n> b.\n**> c\n> d||"))).toBe(">a\n>b\\.\n**>c\n>d||");
+  });
+
+  it("separates touching italic and underline markers", () => {
+    const formatted: FormattedText = {
+      text: "iu",
+      entities: [
+        { type: "underline", offset: 0, length: 2 },
+        { type: "italic", offset: 0, length: 2 },
+      ],
+    };
+    expect(toMarkdownV2(formatted)).toBe("__\r_iu_\r__");
+  });
+});
+
+describe("toPreviewHtml", () => {
+  it("renders preview tags and flags unsafe links", () => {
+    expect(toPreviewHtml(parseMarkup("||s|| [x](javascript:alert)"))).toBe(
+      '<span class="tg-spoiler rounded bg-foreground/20">s</span> <span class="text-red-500 underline" title="无效的 URL 协议">x</span>',
+    );
+  });
+
+  it("drops the line break that follows a blockquote", () => {
+    expect(toPreviewHtml(parseMarkup("> q\nafter\nend"))).toBe(
+      '<blockquote class="my-1 border-l-2 border-current pl-2">q</blockquote>after<br>end',
+    );
+  });
+});
+
+describe("parseMarkdownV2", () => {
+  it("parses nested entities, escapes and links", () => {
+    expect(parseMarkdownV2("*bold _italic_* \\*x\\* [a \\] *b*](https://x.y/\\)) `c\\`d`")).toEqual({
+      text: "bold italic *x* a ] b c`d",
+      entities: [
+        { type: "bold", offset: 0, length: 11 },
+        { type: "italic", offset: 5, length: 6 },
+        { type: "text_link", offset: 16, length: 5, url: "https://x.y/)" },
+        { type: "bold", offset: 20, length: 1 },
+        { type: "code", offset: 22, length: 3 },
+      ],
+    });
+  });
+
+  it("reads __ greedily as underline and ignores \\r", () => {
+    expect(parseMarkdownV2("___iu_\r__").entities).toEqual([
+      { type: "italic", offset: 0, length: 2 },
+      { type: "underline", offset: 0, length: 2 },
+    ]);
+  });
+
+  it("parses pre blocks and quotes", () => {
+    expect(parseMarkdownV2("```py\nprint\\(1\\)\n```\n>q\\.\n**>e1\n>e2||")).toEqual({
+      text: "print(1)\nq.\ne1\ne2",
+      entities: [
+        { type: "pre", offset: 0, length: 8, language: "py" },
+        { type: "blockquote", offset: 9, length: 2 },
+        { type: "expandable_blockquote", offset: 12, length: 5 },
+      ],
+    });
+  });
+
+  it("keeps unbalanced markers as text", () => {
+    expect(parseMarkdownV2("2*3")).toEqual({ text: "2*3", entities: [] });
+  });
+});
+
+describe("parseTelegramHtml", () => {
+  it("maps every allowed tag and its aliases to entities", () => {
+    const { formatted, errors } = parseTelegramHtml(
+      '<B>b</B><strong>s</strong> <em>i</em><ins>u</ins><del>d</del><strike>k</strike> <span class="tg-spoiler">p</span>' +
+        '<tg-spoiler>q</tg-spoiler> <a href="https://t.me/x?a=1&amp;b=2">l</a> <tg-emoji emoji-id="7">⭐</tg-emoji>',
+    );
+    expect(errors).toEqual([]);
+    expect(formatted).toEqual({
+      text: "bs iudk pq l ⭐",
+      entities: [
+        { type: "bold", offset: 0, length: 1 },
+        { type: "bold", offset: 1, length: 1 },
+        { type: "italic", offset: 3, length: 1 },
+        { type: "underline", offset: 4, length: 1 },
+        { type: "strikethrough", offset: 5, length: 1 },
+        { type: "strikethrough", offset: 6, length: 1 },
+        { type: "spoiler", offset: 8, length: 1 },
+        { type: "spoiler", offset: 9, length: 1 },
+        { type: "text_link", offset: 11, length: 1, url: "https://t.me/x?a=1&b=2" },
+        { type: "custom_emoji", offset: 13, length: 1, custom_emoji_id: "7" },
+      ],
+    });
+  });
+
+  it("decodes entities and merges pre/code with its language", () => {
+    expect(
+      parseTelegramHtml('1 &lt; 2 &#x1F44D;\n<pre><code class="language-py">a &amp;&amp; b</code></pre><blockquote expandable>e</blockquote>'),
+    ).toEqual({
+      formatted: {
+        text: "1 < 2 👍\na && be",
+        entities: [
+          { type: "pre", offset: 9, length: 6, language: "py" },
+          { type: "expandable_blockquote", offset: 15, length: 1 },
+        ],
+      },
+      errors: [],
+    });
+  });
+
+  it("reports unsupported tags and unbalanced markup", () => {
+    const { formatted, errors } = parseTelegramHtml("<div>x</div> <b>a<i>b</b></i> <u>c <span>d</span> <a>e</a> 1 < 2");
+    expect(formatted.text).toBe("x ab c d e 1 < 2");
+    expect(errors).toEqual([
+      "不支持的 HTML 标签: <div>",
+      "标签交叉嵌套: </b> 之前还有未闭合的 <i>",
+      "多余的闭合标签: </i>",
+      '<span> 仅支持 class="tg-spoiler"',
+      "<a> 标签缺少 href",
+      '存在未转义的 "<"，请写作 &lt;',
+      "标签未闭合: <u>",
+    ]);
+  });
+
+  it("throws a TelegramHtmlError listing every problem", () => {
+    expect(() => validateTelegramHtml("<br/>ok<b>")).toThrow(TelegramHtmlError);
+    expect(() => validateTelegramHtml("<br/>ok<b>")).toThrow("HTML 格式验证失败: 不支持的 HTML 标签: <br>, 标签未闭合: <b>");
+  });
+
+  it("round-trips toTelegramHtml output through editor markup", () => {
+    const markup = "**Order** _#42_ [track](https://t.me/x) `a<b`\n> quote";
+    const html = toTelegramHtml(parseMarkup(markup));
+    expect(toMarkup(validateTelegramHtml(html))).toBe(markup);
+  });
+});
+
+describe("round trip", () => {
+  const samples = [
+    "*Hello*, _world_\\! Price: `1.50` \\(incl\\. tax\\)",
+    "__under__ ~strike~ ||spoiler|| *bold _both_ bold*",
+    "[link *bold*](https://example.com/a_(b\\)) ![👍](tg://emoji?id=5368324170671202286)",
+    "```ts\nconst a = \\`x\\`;\n```",
+    ">quote *line*\n>second\nafter\n**>hidden\n>more||",
+    "__\r_iu_\r__",
+  ];
+
+  it.each(samples)("MarkdownV2 -> markup -> MarkdownV2 is byte-identical: %s", (source) => {
+    const markup = toMarkup(parseMarkdownV2(source));
+    expect(toMarkdownV2(parseMarkup(markup))).toBe(source);
+  });
+
+  it("escapes markup characters in plain text", () => {
+    const formatted: FormattedText = { text: "a*b_c [d] > e\n> f", entities: [{ type: "bold", offset: 0, length: 1 }] };
+    const markup = toMarkup(formatted);
+    expect(markup).toBe("**a**\\*b\\_c \\[d\\] > e\n\\> f");
+    expect(parseMarkup(markup)).toEqual(formatted);
+  });
+
+  it("drops entities nested inside code", () => {
+    const formatted: FormattedText = {
+      text: "code",
+      entities: [
+        { type: "code", offset: 0, length: 4 },
+        { type: "bold", offset: 1, length: 2 },
+      ],
+    };
+    expect(toMarkup(formatted)).toBe("`code`");
+    expect(toMarkdownV2(formatted)).toBe("`code`");
+  });
+});
+
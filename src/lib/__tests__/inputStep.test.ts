@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { acceptsReply, inputPatterns, screenInputStep } from "@/lib/inputStep";
+import { getInputStepValidationErrors, validateInputStep } from "@/lib/validation";
+
+describe("acceptsReply", () => {
+  it("checks text replies against the built-in check and the step's pattern", () => {
+    const step = { expect: "email" as const, pattern: ".+@corp\\.com", retry_message: "Retry" };
+    expect(inputPatterns(step)).toHaveLength(2);
+    expect(acceptsReply(step, { kind: "text", text: "  me@corp.com " })).toBe(true);
+    expect(acceptsReply(step, { kind: "text", text: "me@gmail.com" })).toBe(false);
+    expect(acceptsReply(step, { kind: "text", text: "corp.com" })).toBe(false);
+    expect(acceptsReply(step, { kind: "photo" })).toBe(false);
+    expect(acceptsReply({ expect: "number", retry_message: "Retry" }, { kind: "text", text: "-12,5" })).toBe(true);
+    expect(acceptsReply({ expect: "phone", retry_message: "Retry" }, { kind: "text", text: "+1 (555) 010-99" })).toBe(true);
+    expect(acceptsReply({ expect: "text", retry_message: "Retry" }, { kind: "text", text: "   " })).toBe(false);
+  });
+
+  it("takes only the expected attachment for photo, location and contact steps", () => {
+    const step = { expect: "location" as const, retry_message: "Retry" };
+    expect(inputPatterns({ ...step, pattern: "x" })).toEqual([]);
+    expect(acceptsReply(step, { kind: "location" })).toBe(true);
+    expect(acceptsReply(step, { kind: "contact" })).toBe(false);
+    expect(acceptsReply(step, { kind: "text", text: "Berlin" })).toBe(false);
+  });
+});
+
+describe("input step validation", () => {
+  it("rejects broken patterns, patterns on attachments and an empty retry message", () => {
+    const step = { expect: "text", pattern: "[a-z]+", retry_message: "Retry", next_screen_id: "s2" };
+    expect(validateInputStep(step)).toEqual(step);
+    expect(getInputStepValidationErrors({ expect: "text", pattern: "(", retry_message: " " })).toEqual(["正则表达式无效", "重试提示不能为空"]);
+    expect(() => validateInputStep({ expect: "photo", pattern: "x", retry_message: "Retry" })).toThrow(
+      "输入步骤验证失败: 只有文本、数字、邮箱和手机号输入可以设置正则表达式",
+    );
+  });
+
+  it("reads the step of a saved screen", () => {
+    const step = { expect: "contact", retry_message: "Share your contact" };
+    expect(screenInputStep({ message_content: JSON.stringify({ type: "text", text: "Hi", parse_mode: "HTML", input_step: step }) })).toEqual(step);
+    expect(screenInputStep({ message_content: "Hi" })).toBeNull();
+  });
+});
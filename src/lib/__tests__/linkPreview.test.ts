@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { findFirstLink, pickLinkPreviewOptions, resolvePreviewUrl } from "@/lib/linkPreview";
+
+describe("linkPreview", () => {
+  it("keeps only options that change the default preview", () => {
+    expect(pickLinkPreviewOptions({ url: "  ", prefer_small_media: false, show_above_text: true })).toEqual({ show_above_text: true });
+    expect(pickLinkPreviewOptions({ is_disabled: true, prefer_large_media: true })).toEqual({ is_disabled: true });
+    expect(pickLinkPreviewOptions()).toEqual({});
+  });
+
+  it("finds the first link of a message by position", () => {
+    expect(findFirstLink("See [docs](https://a.example) or https://b.example.")).toBe("https://a.example");
+    expect(findFirstLink("Visit https://b.example/path, then [docs](https://a.example)")).toBe("https://b.example/path");
+    expect(findFirstLink("**no links**")).toBeNull();
+  });
+
+  it("prefers the configured preview URL and honours a disabled preview", () => {
+    expect(resolvePreviewUrl("https://b.example", { url: "https://c.example" })).toBe("https://c.example");
+    expect(resolvePreviewUrl("https://b.example", { is_disabled: true })).toBeNull();
+    expect(resolvePreviewUrl("https://b.example")).toBe("https://b.example");
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import { buildTelegramPayload, formatMessageText, importLinkPreviewOptions, importMessageMedia, importMessageText, messageColumns, withMessageColumns, type MessageState } from "@/lib/messagePayload";
+import { TelegramHtmlError } from "@/lib/formatting/telegramHtml";
+
+describe("importMessageText", () => {
+  it("converts MarkdownV2 text and captions to editor markup", () => {
+    const source = "*Order* \\#42 _ready_\\! [Track](https://t.me/x)";
+    const markup = importMessageText({ text: source, parse_mode: "MarkdownV2" });
+    expect(markup).toBe("**Order** #42 _ready_! [Track](https://t.me/x)");
+    expect(formatMessageText(markup!, "MarkdownV2")).toBe(source);
+
+    expect(importMessageText({ caption: "||hidden||", parse_mode: "MarkdownV2" })).toBe("||hidden||");
+  });
+
+  it("converts HTML text to editor markup and rejects invalid HTML", () => {
+    const source = '<b>Order</b> #42 <i>ready</i>! <a href="https://t.me/x">Track</a>';
+    const markup = importMessageText({ text: source, parse_mode: "HTML" });
+    expect(markup).toBe("**Order** #42 _ready_! [Track](https://t.me/x)");
+    expect(formatMessageText(markup!, "HTML")).toBe(source);
+
+    expect(importMessageText({ text: "a*b", parse_mode: "HTML" })).toBe("a\\*b");
+    expect(() => importMessageText({ text: "<b>open", parse_mode: "HTML" })).toThrow(TelegramHtmlError);
+  });
+
+  it("keeps editor markup and text without a parse mode unchanged", () => {
+    expect(importMessageText({ message_content: "**bold**", parse_mode: "MarkdownV2" })).toBe("**bold**");
+    expect(importMessageText({ text: "**plain**" })).toBe("**plain**");
+    expect(importMessageText({})).toBeNull();
+  });
+});
+
+const state = (overrides: Partial<MessageState>): MessageState => ({
+  text: "**Hi**",
+  parseMode: "HTML",
+  messageType: "text",
+  mediaUrl: "",
+  mediaGroup: [],
+  keyboard: [],
+  keyboardKind: "inline",
+  replyKeyboardOptions: {},
+  linkPreviewOptions: {},
+  ...overrides,
+});
+
+describe("buildTelegramPayload", () => {
+  it("sends single media under its Bot API field", () => {
+    expect(buildTelegramPayload(state({ messageType: "document", mediaUrl: "https://x.y/a.pdf" }))).toEqual({
+      document: "https://x.y/a.pdf",
+      caption: "<b>Hi</b>",
+      parse_mode: "HTML",
+    });
+    expect(buildTelegramPayload(state({ messageType: "video_note", mediaUrl: "https://x.y/n.mp4" }))).toEqual({
+      video_note: "https://x.y/n.mp4",
+      parse_mode: "HTML",
+    });
+    expect(buildTelegramPayload(state({ messageType: "voice" }))).toEqual({ text: "<b>Hi</b>", parse_mode: "HTML" });
+  });
+
+  it("exports albums with formatted per-item captions", () => {
+    const payload = buildTelegramPayload(
+      state({
+        messageType: "media_group",
+        mediaGroup: [
+          { type: "photo", media: "https://x.y/1.jpg", caption: "_one_" },
+          { type: "photo", media: "https://x.y/2.jpg" },
+        ],
+      }),
+    );
+    expect(payload).toEqual({
+      media_group: [
+        { type: "photo", media: "https://x.y/1.jpg", caption: "<i>one</i>", parse_mode: "HTML" },
+        { type: "photo", media: "https://x.y/2.jpg" },
+      ],
+      text: "<b>Hi</b>",
+      parse_mode: "HTML",
+    });
+  });
+});
+
+describe("importMessageMedia", () => {
+  it("reads single media fields and albums", () => {
+    expect(importMessageMedia({ animation: "https://x.y/a.gif" })).toEqual({
+      messageType: "animation",
+      mediaUrl: "https://x.y/a.gif",
+      mediaGroup: [],
+    });
+    expect(importMessageMedia({ text: "hi" })).toEqual({ messageType: "text", mediaUrl: "", mediaGroup: [] });
+
+    const album = {
+      parse_mode: "MarkdownV2",
+      media: [
+        { type: "audio", media: "https://x.y/1.mp3", caption: "*Side A*" },
+        { type: "audio", media: "https://x.y/2.mp3" },
+      ],
+    };
+    expect(importMessageMedia(album).mediaGroup).toEqual([
+      { type: "audio", media: "https://x.y/1.mp3", caption: "**Side A**" },
+      { type: "audio", media: "https://x.y/2.mp3" },
+    ]);
+    expect(() => importMessageMedia({ media_group: [{ type: "photo", media: "https://x.y/1.jpg" }] })).toThrow(/媒体组验证失败/);
+  });
+});
+
+describe("link preview options", () => {
+  it("exports them with text messages only", () => {
+    const linkPreviewOptions = { url: "https://x.y", show_above_text: true, prefer_small_media: false };
+    expect(buildTelegramPayload(state({ linkPreviewOptions }))).toEqual({
+      text: "<b>Hi</b>",
+      parse_mode: "HTML",
+      link_preview_options: { url: "https://x.y", show_above_text: true },
+    });
+    expect(buildTelegramPayload(state({ linkPreviewOptions: { is_disabled: true, url: "https://x.y" } }))).toMatchObject({
+      link_preview_options: { is_disabled: true },
+    });
+    expect(buildTelegramPayload(state({ messageType: "photo", mediaUrl: "https://x.y/p.jpg", linkPreviewOptions }))).not.toHaveProperty(
+      "link_preview_options",
+    );
+  });
+
+  it("imports them, including the deprecated disable_web_page_preview flag", () => {
+    expect(importLinkPreviewOptions({ link_preview_options: { prefer_large_media: true, url: "" } })).toEqual({ prefer_large_media: true });
+    expect(importLinkPreviewOptions({ disable_web_page_preview: true })).toEqual({ is_disabled: true });
+    expect(importLinkPreviewOptions({})).toEqual({});
+    expect(() => importLinkPreviewOptions({ link_preview_options: { url: "javascript:alert(1)" } })).toThrow(/链接预览验证失败/);
+  });
+});
+
+describe("message columns", () => {
+  it("mirrors parse mode, message type and media URL of message_content", () => {
+    expect(messageColumns("plain")).toEqual({ parse_mode: "HTML", message_type: "text", media_url: null });
+    expect(messageColumns(JSON.stringify({ type: "photo", text: "", mediaUrl: "https://x.y/p.jpg", parse_mode: "MarkdownV2" }))).toEqual({
+      parse_mode: "MarkdownV2",
+      message_type: "photo",
+      media_url: "https://x.y/p.jpg",
+    });
+  });
+
+  it("fills them in only for rows that write message_content without them", () => {
+    const legacy = { message_content: JSON.stringify({ type: "video", text: "", mediaUrl: "v.mp4", parse_mode: "HTML" }), keyboard: [] };
+    expect(withMessageColumns(legacy)).toMatchObject({ message_type: "video", media_url: "v.mp4", parse_mode: "HTML" });
+    const current = { message_content: "x", parse_mode: "MarkdownV2", message_type: "text", media_url: null };
+    expect(withMessageColumns(current)).toBe(current);
+    const rename: { name: string; message_content?: string } = { name: "New" };
+    expect(withMessageColumns(rename)).toBe(rename);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { CallbackFactory } from "../../../telegram-callback-factory/src";
+import {
+  buildPageKeyboard,
+  expandPagination,
+  formatPaginationItems,
+  pageCallbackData,
+  pageCount,
+  parsePageCallbackData,
+  parsePaginationItems,
+} from "@/lib/keyboard/pagination";
+import { getPaginationValidationErrors, validatePagination } from "@/lib/validation";
+
+const block = {
+  items: ["A", "B", "C", "D", "E"].map((text) => ({ text })),
+  page_size: 2,
+  columns: 2,
+};
+
+const texts = (rows: ReturnType<typeof buildPageKeyboard>) => rows.map((row) => row.buttons.map((button) => button.text));
+
+describe("page callback data", () => {
+  it("matches CallbackFactory.make('page', 'nav', { page }) without a nonce and parses back", () => {
+    expect(pageCallbackData(2)).toBe(new CallbackFactory().make("page", "nav", { page: 2 }, { nonce: false }));
+    expect(pageCallbackData(2)).toBe("page:nav:eyJwYWdlIjoyfQ:");
+    expect(parsePageCallbackData(pageCallbackData(12))).toBe(12);
+    expect(parsePageCallbackData("page:nav::")).toBeNull();
+    expect(parsePageCallbackData("buy_a")).toBeNull();
+  });
+});
+
+describe("buildPageKeyboard", () => {
+  it("lays out a page's items and the navigation row", () => {
+    expect(pageCount(block)).toBe(3);
+    expect(texts(buildPageKeyboard(block, 1))).toEqual([["A", "B"], ["1/3", "▶"]]);
+    expect(texts(buildPageKeyboard(block, 2))).toEqual([["C", "D"], ["◀", "2/3", "▶"]]);
+    expect(texts(buildPageKeyboard(block, 9))).toEqual([["E"], ["◀", "3/3"]]);
+    const [items, nav] = buildPageKeyboard(block, 2);
+    expect(items.buttons.map((button) => button.callback_data)).toEqual(["item_3", "item_4"]);
+    expect(nav.buttons.map((button) => button.callback_data)).toEqual([pageCallbackData(1), "noop", pageCallbackData(3)]);
+  });
+
+  it("links the page buttons of generated screens", () => {
+    const pages = expandPagination(block, ["s1", "s2", "s3"]);
+    expect(pages).toHaveLength(3);
+    expect(pages[1][1].buttons.map((button) => button.linked_screen_id)).toEqual(["s1", undefined, "s3"]);
+  });
+});
+
+describe("pagination items", () => {
+  it("reads one item per line with an optional callback_data", () => {
+    const items = parsePaginationItems("Apple | buy_apple\n\n  Pear  \nA|B|c\n");
+    expect(items).toEqual([{ text: "Apple", callback_data: "buy_apple" }, { text: "Pear" }, { text: "A|B", callback_data: "c" }]);
+    expect(formatPaginationItems(items)).toBe("Apple|buy_apple\nPear\nA|B|c");
+  });
+
+  it("validates the block", () => {
+    expect(validatePagination(block)).toEqual(block);
+    expect(getPaginationValidationErrors({ items: [], page_size: 0, columns: 9 })).toEqual([
+      "分页列表至少需要1个项目",
+      "每页至少1个项目",
+      "每行最多8列",
+    ]);
+    expect(() => validatePagination({ ...block, items: [{ text: "X", callback_data: pageCallbackData(1) }] })).toThrow(
+      "分页验证失败: 第1个项目 callback_data 不能以 page:nav: 开头（翻页按钮专用）",
+    );
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import {
+  enqueueEntryOperation,
   enqueueSaveOperation,
   enqueueUpdateOperation,
   processPendingOps,
@@ -48,6 +49,19 @@ describe("pendingQueue", () => {
     expect(queue[0].payload.update?.message_content).toBe("v2");
   });
 
+  it("keeps only the latest entry choice per project", async () => {
+    await enqueueEntryOperation({ project_id: null, screen_id: "s1" }, "user-1");
+    await enqueueEntryOperation({ project_id: "p1", screen_id: "s2" }, "user-1");
+    await enqueueEntryOperation({ project_id: null, screen_id: "s3" }, "user-1");
+
+    const queue = readPendingOps("user-1");
+    expect(queue.map((item) => item.kind)).toEqual(["entry", "entry"]);
+    expect(queue.map((item) => item.payload)).toEqual([
+      { project_id: "p1", screen_id: "s2" },
+      { project_id: null, screen_id: "s3" },
+    ]);
+  });
+
   it("processes queue with retries and drops after max attempts", async () => {
     await enqueueSaveOperation(
       {
@@ -349,7 +363,7 @@ describe("pendingQueue", () => {
     const migrated = readPendingOps(null);
     expect(migrated).toHaveLength(1);
     expect(migrated[0].kind).toBe("update");
-    expect(migrated[0].payload.id).toBe("");
+    expect((migrated[0] as Extract<PendingItem, { kind: "update" }>).payload.id).toBe("");
     expect(migrated[0].payload.update.message_content).toBe("");
   });
 
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import type { Screen } from "@/types/telegram";
+import {
+  CURSOR_TTL_MS,
+  anchorToNearestNode,
+  appendScreens,
+  isSameScreenContent,
+  listViewers,
+  mergeRemoteScreen,
+  pruneCursors,
+  realtimeChannelName,
+  upsertCursor,
+  type PresencePayload,
+} from "../realtime";
+
+const makeScreen = (id: string, overrides: Partial<Screen> = {}): Screen => ({
+  id,
+  name: id,
+  message_content: `text ${id}`,
+  keyboard: [],
+  project_id: "p1",
+  ...overrides,
+});
+
+const presence = (tab_id: string, online_at: string): PresencePayload => ({
+  tab_id,
+  user_id: "user-1",
+  email: "me@example.com",
+  screen_id: null,
+  online_at,
+});
+
+describe("realtimeChannelName", () => {
+  it("shares project channels and keeps ungrouped screens per user", () => {
+    expect(realtimeChannelName("user-1", "p1")).toBe("project:p1");
+    expect(realtimeChannelName("user-1", null)).toBe("user:user-1:ungrouped");
+  });
+});
+
+describe("mergeRemoteScreen", () => {
+  const screens = [makeScreen("s1"), makeScreen("s2")];
+
+  it("inserts, updates and deletes rows of the active project", () => {
+    const inserted = mergeRemoteScreen(screens, { eventType: "INSERT", new: { id: "s3", name: "s3", project_id: "p1" }, old: {} }, "p1");
+    expect(inserted.map((screen) => screen.id)).toEqual(["s1", "s2", "s3"]);
+
+    const updated = mergeRemoteScreen(screens, { eventType: "UPDATE", new: { id: "s1", message_content: "new", project_id: "p1" }, old: {} }, "p1");
+    expect(updated[0]).toMatchObject({ id: "s1", name: "s1", message_content: "new" });
+
+    const deleted = mergeRemoteScreen(screens, { eventType: "DELETE", new: {}, old: { id: "s2" } }, "p1");
+    expect(deleted.map((screen) => screen.id)).toEqual(["s1"]);
+  });
+
+  it("drops rows moved to another project and ignores unknown ones", () => {
+    const moved = mergeRemoteScreen(screens, { eventType: "UPDATE", new: { id: "s1", project_id: "p2" }, old: {} }, "p1");
+    expect(moved.map((screen) => screen.id)).toEqual(["s2"]);
+
+    expect(mergeRemoteScreen(screens, { eventType: "UPDATE", new: { id: "s9", project_id: "p2" }, old: {} }, "p1")).toBe(screens);
+    expect(mergeRemoteScreen(screens, { eventType: "DELETE", new: {}, old: { id: "s9" } }, "p1")).toBe(screens);
+  });
+
+  it("treats rows without a project as the ungrouped list", () => {
+    const ungrouped = [makeScreen("s1", { project_id: null })];
+    const merged = mergeRemoteScreen(ungrouped, { eventType: "INSERT", new: { id: "s2", project_id: null }, old: {} }, null);
+    expect(merged.map((screen) => screen.id)).toEqual(["s1", "s2"]);
+  });
+});
+
+describe("appendScreens", () => {
+  it("skips screens a Realtime insert already added", () => {
+    const screens = [makeScreen("s1")];
+    expect(appendScreens(screens, [makeScreen("s1")])).toBe(screens);
+    expect(appendScreens(screens, [makeScreen("s1"), makeScreen("s2")]).map((screen) => screen.id)).toEqual(["s1", "s2"]);
+  });
+});
+
+describe("isSameScreenContent", () => {
+  it("compares the message and keyboard only", () => {
+    const local = { message_content: "hi", keyboard: [{ id: "r1", buttons: [] }] };
+    expect(isSameScreenContent(local, { message_content: "hi", keyboard: [{ id: "r1", buttons: [] }] })).toBe(true);
+    expect(isSameScreenContent(local, { message_content: "hello", keyboard: local.keyboard })).toBe(false);
+    expect(isSameScreenContent(local, { message_content: "hi", keyboard: [] })).toBe(false);
+  });
+});
+
+describe("listViewers", () => {
+  it("flattens presences, leaves out the own tab and sorts by arrival", () => {
+    const state = {
+      a: [presence("a", "2026-10-19T08:02:00Z")],
+      self: [presence("self", "2026-10-19T08:00:00Z")],
+      b: [presence("b", "2026-10-19T08:01:00Z")],
+    };
+    expect(listViewers(state, "self").map((viewer) => viewer.tab_id)).toEqual(["b", "a"]);
+  });
+});
+
+describe("cursors", () => {
+  const payload = { tab_id: "t1", user_id: "user-2", email: null, anchor: "s1", dx: 10, dy: 5 };
+
+  it("replaces the cursor of a tab and removes it when the pointer leaves", () => {
+    const first = upsertCursor([], payload, 1000);
+    const moved = upsertCursor(first, { ...payload, dx: 20 }, 1100);
+    expect(moved).toEqual([{ ...payload, dx: 20, at: 1100 }]);
+    expect(upsertCursor(moved, { ...payload, anchor: null }, 1200)).toEqual([]);
+  });
+
+  it("prunes idle cursors and tabs that left the channel", () => {
+    const cursors = [...upsertCursor([], payload, 1000), ...upsertCursor([], { ...payload, tab_id: "t2" }, 1000 + CURSOR_TTL_MS)];
+    expect(pruneCursors(cursors, 1000 + CURSOR_TTL_MS).map((cursor) => cursor.tab_id)).toEqual(["t2"]);
+    expect(pruneCursors(cursors, 1000, new Set(["t1"])).map((cursor) => cursor.tab_id)).toEqual(["t1"]);
+    expect(pruneCursors(cursors, 1000)).toBe(cursors);
+  });
+});
+
+describe("anchorToNearestNode", () => {
+  it("anchors the point to the closest node", () => {
+    const nodes = [
+      { id: "s1", position: { x: 0, y: 0 } },
+      { id: "s2", position: { x: 300, y: 0 } },
+    ];
+    expect(anchorToNearestNode({ x: 280, y: 40 }, nodes)).toEqual({ anchor: "s2", dx: -20, dy: 40 });
+    expect(anchorToNearestNode({ x: 0, y: 0 }, [])).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { buildReplyMarkup, parseReplyMarkup, pickReplyKeyboardOptions } from "@/lib/keyboard/replyMarkup";
+import { transitionKey } from "@/lib/keyboard/transitions";
+import type { KeyboardRow } from "@/types/telegram";
+
+const keyboard: KeyboardRow[] = [
+  {
+    id: "row-1",
+    buttons: [
+      { id: "btn-1", text: "Visit", url: "https://example.com" },
+      { id: "btn-2", text: "Next", linked_screen_id: "screen-2" },
+      { id: "btn-3", text: "Main Menu" },
+    ],
+  },
+];
+
+describe("reply markup", () => {
+  it("builds inline keyboards by default", () => {
+    expect(buildReplyMarkup(keyboard)).toEqual({
+      inline_keyboard: [
+        [
+          { text: "Visit", url: "https://example.com" },
+          { text: "Next", callback_data: "goto_screen_screen-2" },
+          { text: "Main Menu", callback_data: "main_menu" },
+        ],
+      ],
+    });
+    expect(buildReplyMarkup([], "inline")).toBeUndefined();
+  });
+
+  it("adds a transition key to linked buttons that need more than an edit", () => {
+    const custom: KeyboardRow[] = [
+      {
+        id: "row-1",
+        buttons: [
+          { id: "btn-1", text: "Next", linked_screen_id: "screen-2", transition: "send" },
+          { id: "btn-2", text: "Info", linked_screen_id: "screen-2", callback_answer: { text: "Loading" } },
+          { id: "btn-3", text: "Back", linked_screen_id: "screen-1", transition: "edit" },
+        ],
+      },
+    ];
+    expect(buildReplyMarkup(custom)).toEqual({
+      inline_keyboard: [
+        [
+          { text: "Next", callback_data: `goto_screen_screen-2:${transitionKey("btn-1")}` },
+          { text: "Info", callback_data: `goto_screen_screen-2:${transitionKey("btn-2")}` },
+          { text: "Back", callback_data: "goto_screen_screen-1" },
+        ],
+      ],
+    });
+  });
+
+  it("emits the single action field of each inline button kind", () => {
+    const rows: KeyboardRow[] = [
+      {
+        id: "row-1",
+        buttons: [
+          { id: "a", text: "App", web_app: { url: "https://app.example.com" } },
+          { id: "b", text: "Share", switch_inline_query: "" },
+          { id: "c", text: "Copy", copy_text: { text: "CODE" } },
+          { id: "d", text: "Play", callback_game: {} },
+        ],
+      },
+    ];
+    expect(buildReplyMarkup(rows)).toEqual({
+      inline_keyboard: [
+        [
+          { text: "App", web_app: { url: "https://app.example.com" } },
+          { text: "Share", switch_inline_query: "" },
+          { text: "Copy", copy_text: { text: "CODE" } },
+          { text: "Play", callback_game: {} },
+        ],
+      ],
+    });
+    expect(buildReplyMarkup(rows, "reply")).toEqual({
+      keyboard: [[{ text: "App", web_app: { url: "https://app.example.com" } }, { text: "Share" }, { text: "Copy" }, { text: "Play" }]],
+    });
+  });
+
+  it("builds reply keyboards with only the options Telegram accepts", () => {
+    expect(
+      buildReplyMarkup(keyboard, "reply", {
+        resize_keyboard: true,
+        one_time_keyboard: false,
+        input_field_placeholder: "Pick one",
+      }),
+    ).toEqual({
+      keyboard: [[{ text: "Visit" }, { text: "Next" }, { text: "Main Menu" }]],
+      resize_keyboard: true,
+      input_field_placeholder: "Pick one",
+    });
+    expect(buildReplyMarkup([], "reply", { resize_keyboard: true })).toBeUndefined();
+  });
+
+  it("builds remove and force reply markups without buttons", () => {
+    const options = { resize_keyboard: true, selective: true, input_field_placeholder: "Reply here" };
+    expect(buildReplyMarkup(keyboard, "remove", options)).toEqual({ remove_keyboard: true, selective: true });
+    expect(buildReplyMarkup([], "force_reply", options)).toEqual({
+      force_reply: true,
+      input_field_placeholder: "Reply here",
+      selective: true,
+    });
+  });
+
+  it("drops blank placeholders", () => {
+    expect(pickReplyKeyboardOptions("reply", { input_field_placeholder: "   " })).toEqual({});
+    expect(pickReplyKeyboardOptions("inline", { resize_keyboard: true })).toEqual({});
+  });
+
+  it("parses every markup kind", () => {
+    expect(parseReplyMarkup({ inline_keyboard: [[{ text: "A", callback_data: "a" }]] })).toEqual({
+      kind: "inline",
+      rows: [[{ text: "A", callback_data: "a" }]],
+      options: {},
+    });
+    expect(parseReplyMarkup({ keyboard: [["A", { text: "B" }], "bad"], is_persistent: true, resize_keyboard: "yes" })).toEqual({
+      kind: "reply",
+      rows: [[{ text: "A" }, { text: "B" }], []],
+      options: { is_persistent: true },
+    });
+    expect(parseReplyMarkup({ remove_keyboard: true, selective: true })).toEqual({
+      kind: "remove",
+      options: { selective: true },
+    });
+    expect(parseReplyMarkup({ force_reply: true, input_field_placeholder: "Name?" })).toEqual({
+      kind: "force_reply",
+      options: { input_field_placeholder: "Name?" },
+    });
+    expect(parseReplyMarkup(undefined)).toBeNull();
+    expect(parseReplyMarkup([])).toBeNull();
+    expect(parseReplyMarkup({ remove_keyboard: false })).toBeNull();
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from "vitest";
-import { FlowExportSchema, getKeyboardValidationErrors, isUrlProtocolAllowed, MAX_BUTTONS_PER_ROW, MAX_KEYBOARD_ROWS, MessageContentSchema, screenContainsSensitiveData, ScreenSchema, validateButton, validateCallbackData, validateFlowExport, validateKeyboard, validateMessageContent, validateScreen, validateUrlProtocol } from "../validation";
+import { FlowExportSchema, getFlowVariableValidationErrors, getKeyboardValidationErrors, getMediaGroupValidationErrors, getMessageContentErrors, getTelegramTextLength, getUndeclaredVariableErrors, isUrlProtocolAllowed, MAX_BUTTONS_PER_ROW, MAX_KEYBOARD_ROWS, MessageContentSchema, screenContainsSensitiveData, ScreenSchema, validateButton, validateCallbackData, validateFlowExport, validateFlowVariables, validateKeyboard, validateMediaGroup, validateMessageContent, validateProject, validateReplyKeyboardOptions, validateWorkspace, validateWorkspaceInvite, validateScreen, validateUrlProtocol, validateVariableUsage } from "../validation";
 
 describe("validation", () => {
   it("validates a minimal screen", () => {
@@ -283,4 +283,276 @@ describe("validation", () => {
     circular.self = circular;
     expect(screenContainsSensitiveData("clean", circular)).toBe(false);
   });
+
+  it("rejects inline-only actions on reply keyboards", () => {
+    const keyboard = [
+      {
+        id: "row-1",
+        buttons: [
+          { id: "btn-1", text: "Menu", linked_screen_id: "s2" },
+          { id: "btn-2", text: "Site", url: "https://example.com" },
+          { id: "btn-3", text: "Act", callback_data: "act" },
+        ],
+      },
+    ];
+    expect(() => validateKeyboard(keyboard)).not.toThrow();
+    expect(() => validateKeyboard(keyboard, "reply")).toThrow(/第1行第2个按钮 回复键盘按钮不支持 URL/);
+    expect(getKeyboardValidationErrors(keyboard, "reply")).toEqual([
+      "第1行第2个按钮 回复键盘按钮不支持 URL",
+      "第1行第3个按钮 回复键盘按钮不支持 callback_data",
+    ]);
+    expect(getKeyboardValidationErrors(keyboard, "force_reply")).toEqual([]);
+  });
+
+  it("accepts exactly one action per button", () => {
+    expect(() => validateButton({ id: "b", text: "App", web_app: { url: "https://app.example.com" } })).not.toThrow();
+    expect(() => validateButton({ id: "b", text: "Share", switch_inline_query: "" })).not.toThrow();
+    expect(() => validateButton({ id: "b", text: "Link", callback_data: "goto", linked_screen_id: "s2" })).not.toThrow();
+    expect(() => validateButton({ id: "b", text: "Both", url: "https://a.com", copy_text: { text: "x" } })).toThrow(
+      /只能设置一种按钮操作（当前: url, copy_text）/
+    );
+  });
+
+  it("accepts legacy URL buttons that still carry a screen link and drops the link", () => {
+    const legacy = [{ id: "r", buttons: [{ id: "b", text: "Site", url: "https://a.com", linked_screen_id: "s2" }] }];
+    expect(validateKeyboard(legacy)[0].buttons[0]).toEqual({ id: "b", text: "Site", url: "https://a.com" });
+  });
+
+  it("validates the payload of each button kind", () => {
+    expect(() => validateButton({ id: "b", text: "App", web_app: { url: "http://app.example.com" } })).toThrow(/仅支持 HTTPS 链接/);
+    expect(() => validateButton({ id: "b", text: "Login", login_url: { url: "https://a.com", bot_username: "bot" } })).not.toThrow();
+    expect(() => validateButton({ id: "b", text: "Copy", copy_text: { text: "" } })).toThrow(/复制文本不能为空/);
+    expect(() => validateButton({ id: "b", text: "Copy", copy_text: { text: "x".repeat(257) } })).toThrow(/复制文本最多256个字符/);
+    expect(() => validateButton({ id: "b", text: "Play", callback_game: { level: 1 } as never })).toThrow();
+  });
+
+  it("requires game and pay buttons to come first", () => {
+    const first = [{ id: "row-1", buttons: [{ id: "b1", text: "Pay", pay: true }, { id: "b2", text: "Info" }] }];
+    expect(() => validateKeyboard(first)).not.toThrow();
+    const later = [
+      { id: "row-1", buttons: [{ id: "b1", text: "Info" }] },
+      { id: "row-2", buttons: [{ id: "b2", text: "Play", callback_game: {} }] },
+    ];
+    expect(getKeyboardValidationErrors(later)).toEqual(["第2行第1个按钮 callback_game 按钮必须位于第一行第一个"]);
+  });
+
+  it("only allows web_app actions on reply keyboards", () => {
+    const keyboard = [
+      {
+        id: "row-1",
+        buttons: [
+          { id: "b1", text: "App", web_app: { url: "https://app.example.com" } },
+          { id: "b2", text: "Copy", copy_text: { text: "x" } },
+        ],
+      },
+    ];
+    expect(getKeyboardValidationErrors(keyboard, "reply")).toEqual(["第1行第2个按钮 回复键盘按钮不支持 copy_text"]);
+  });
+
+  it("validates reply keyboard options", () => {
+    expect(validateReplyKeyboardOptions(undefined)).toEqual({});
+    expect(validateReplyKeyboardOptions({ resize_keyboard: true, input_field_placeholder: "选择菜单" })).toEqual({
+      resize_keyboard: true,
+      input_field_placeholder: "选择菜单",
+    });
+    expect(() => validateReplyKeyboardOptions({ input_field_placeholder: "x".repeat(65) })).toThrow(/键盘选项验证失败: 输入框占位文本最多64个字符/);
+    expect(() => validateReplyKeyboardOptions({ selective: "yes" })).toThrow(/键盘选项验证失败/);
+  });
+
+  it("validates media groups", () => {
+    const photo = { type: "photo", media: "https://example.com/1.jpg" };
+    expect(validateMediaGroup([photo, { type: "video", media: " https://example.com/2.mp4 ", caption: "two" }])).toEqual([
+      photo,
+      { type: "video", media: "https://example.com/2.mp4", caption: "two" },
+    ]);
+    expect(() => validateMediaGroup([photo])).toThrow("媒体组验证失败: 媒体组至少需要2个媒体");
+    expect(() => validateMediaGroup(Array(11).fill(photo))).toThrow("媒体组最多10个媒体");
+    expect(getMediaGroupValidationErrors([photo, { type: "document", media: "" }])).toEqual([
+      "第2个媒体 媒体 URL 不能为空",
+      "文件不能与其他类型的媒体混在同一相册",
+    ]);
+    expect(getMediaGroupValidationErrors([photo, { type: "voice", media: "https://example.com/v.ogg" }])).toEqual([
+      "第2个媒体 不支持的媒体类型",
+    ]);
+  });
+
+  it("counts message length the way Telegram does", () => {
+    expect(getTelegramTextLength("**bold** [link](https://t.me/x)")).toBe(9);
+    expect(getTelegramTextLength("👍")).toBe(2);
+
+    expect(() => validateMessageContent("a".repeat(4096))).not.toThrow();
+    expect(() => validateMessageContent("a".repeat(4097))).toThrow("消息内容最多4096个字符");
+    expect(() => validateMessageContent(`**${"a".repeat(4096)}**`)).not.toThrow();
+    expect(() => validateMessageContent("👍".repeat(2049))).toThrow(/4096/);
+  });
+
+  it("limits media captions to 1024 characters", () => {
+    const caption = "a".repeat(1025);
+    expect(() => validateMessageContent(caption, "photo")).toThrow("消息内容验证失败: 媒体说明文字最多1024个字符");
+    expect(() => validateMessageContent(caption, "media_group")).not.toThrow();
+    expect(getMessageContentErrors(caption, "video")).toEqual(["媒体说明文字最多1024个字符"]);
+    expect(getMessageContentErrors("a".repeat(1024), "document")).toEqual([]);
+
+    const photo = { type: "photo", media: "https://example.com/1.jpg" };
+    expect(getMediaGroupValidationErrors([{ ...photo, caption }, photo])).toEqual(["第1个媒体 说明文字最多1024个字符"]);
+  });
+
+  describe("flow variables", () => {
+    it("accepts identifier names with samples matching their type", () => {
+      expect(
+        validateFlowVariables([
+          { name: " first_name ", type: "string", sample: "Ann" },
+          { name: "count", type: "number", sample: "3.5" },
+          { name: "vip", type: "boolean", sample: "false" },
+        ]),
+      ).toEqual([
+        { name: "first_name", type: "string", sample: "Ann" },
+        { name: "count", type: "number", sample: "3.5" },
+        { name: "vip", type: "boolean", sample: "false" },
+      ]);
+    });
+
+    it("reports invalid, reserved and duplicate names and mistyped samples", () => {
+      expect(
+        getFlowVariableValidationErrors([
+          { name: "1st", type: "string", sample: "" },
+          { name: "ctx", type: "string", sample: "" },
+          { name: "n", type: "number", sample: "many" },
+          { name: "n", type: "boolean", sample: "yes" },
+        ]),
+      ).toEqual([
+        "第1个变量 变量名只能包含字母、数字和下划线，且不能以数字开头",
+        "第2个变量 变量名为保留字",
+        "第3个变量 数字变量的示例值必须是数字",
+        "第4个变量 布尔变量的示例值必须是 true 或 false",
+        "第4个变量 变量名重复",
+      ]);
+      expect(() => validateFlowVariables([{ name: "", type: "string", sample: "" }])).toThrow("变量验证失败: 第1个变量 变量名不能为空");
+    });
+
+    it("rejects keywords and names the generated handlers already use", () => {
+      const names = ["class", "from", "import", "default", "update", "context", "edit", "message", "markup", "rows", "SCREENS"];
+      expect(getFlowVariableValidationErrors(names.map((name) => ({ name, type: "string" as const, sample: "" })))).toEqual(
+        names.map((_, index) => `第${index + 1}个变量 变量名为保留字`),
+      );
+      expect(getFlowVariableValidationErrors([{ name: "classes", type: "string", sample: "" }])).toEqual([]);
+    });
+
+    it("flags placeholders that are not declared", () => {
+      const screen = {
+        text: "Hi {{name}}",
+        keyboard: [{ id: "r", buttons: [{ id: "b", text: "Go", url: "https://x.y/{{slug}}" }] }],
+      };
+      const variables = [{ name: "name", type: "string" as const, sample: "Ann" }];
+      expect(getUndeclaredVariableErrors(screen, variables)).toEqual(["变量 {{slug}} 未声明"]);
+      expect(() => validateVariableUsage(screen, variables)).toThrow("变量验证失败: 变量 {{slug}} 未声明");
+      expect(() => validateVariableUsage(screen, [...variables, { name: "slug", type: "string", sample: "a" }])).not.toThrow();
+    });
+
+    it("keeps declared variables in flow exports", () => {
+      const flow = { version: "1.0", entry_screen_id: "a", screens: [], variables: [{ name: "n", type: "number", sample: "1" }] };
+      expect(FlowExportSchema.parse(flow).variables).toEqual(flow.variables);
+      expect(() => validateFlowExport({ ...flow, variables: [{ name: "n", type: "date", sample: "" }] })).toThrow("不支持的变量类型");
+    });
+  });
+
+  describe("button conditions", () => {
+    const conditional = { id: "b", text: "Admin", callback_data: "admin", visible_if: 'is_admin && plan == "pro"' };
+
+    it("accepts well-formed conditions and reports malformed ones", () => {
+      expect(validateButton(conditional)).toMatchObject({ visible_if: 'is_admin && plan == "pro"' });
+      expect(() => validateButton({ ...conditional, visible_if: "is_admin &&" })).toThrow("显示条件无效：条件不完整");
+      expect(validateButton({ ...conditional, visible_if: "" })).toMatchObject({ visible_if: "" });
+    });
+
+    it("rejects conditions on reply keyboard buttons", () => {
+      const keyboard = [{ id: "r", buttons: [{ id: "b", text: "Admin", visible_if: "is_admin" }] }];
+      expect(() => validateKeyboard(keyboard, "inline")).not.toThrow();
+      expect(getKeyboardValidationErrors(keyboard, "reply")).toEqual(["第1行第1个按钮 回复键盘按钮不支持显示条件"]);
+    });
+
+    it("flags undeclared variables used in conditions", () => {
+      const screen = { text: "Hi", keyboard: [{ id: "r", buttons: [conditional] }] };
+      expect(getUndeclaredVariableErrors(screen, [{ name: "plan", type: "string", sample: "pro" }])).toEqual(["变量 {{is_admin}} 未声明"]);
+    });
+
+    it("keeps conditions in flow exports", () => {
+      const flow = {
+        version: "1.0",
+        entry_screen_id: "a",
+        screens: [{ id: "a", name: "A", message_content: "Hi", keyboard: [{ id: "r", buttons: [conditional] }], is_public: false }],
+      };
+      expect(FlowExportSchema.parse(flow).screens[0].keyboard[0].buttons[0].visible_if).toBe('is_admin && plan == "pro"');
+    });
+  });
+
+  describe("button transitions", () => {
+    const linked = {
+      id: "b",
+      text: "Buy",
+      linked_screen_id: "cart",
+      transition: "replace" as const,
+      callback_answer: { text: "Added", show_alert: true },
+    };
+
+    it("only allows transitions and callback answers on linked inline buttons", () => {
+      expect(validateButton(linked)).toMatchObject({ transition: "replace", callback_answer: { text: "Added", show_alert: true } });
+      expect(() => validateButton({ ...linked, transition: "jump" })).toThrow("不支持的切换方式");
+      expect(() => validateButton({ ...linked, callback_answer: { text: "x".repeat(201) } })).toThrow("回调应答最多200个字符");
+      expect(() => validateButton({ id: "b", text: "Buy", callback_data: "buy", transition: "send" })).toThrow(
+        "只有链接模版的按钮可以设置切换方式和回调应答",
+      );
+      expect(getKeyboardValidationErrors([{ id: "r", buttons: [linked] }], "reply")).toEqual([
+        "第1行第1个按钮 回复键盘按钮不支持切换方式和回调应答",
+      ]);
+    });
+
+    it("keeps transitions in flow exports", () => {
+      const flow = {
+        version: "1.0",
+        entry_screen_id: "a",
+        screens: [{ id: "a", name: "A", message_content: "Hi", keyboard: [{ id: "r", buttons: [linked] }], is_public: false }],
+      };
+      expect(FlowExportSchema.parse(flow).screens[0].keyboard[0].buttons[0]).toMatchObject({
+        transition: "replace",
+        callback_answer: { text: "Added", show_alert: true },
+      });
+    });
+  });
+
+  describe("projects", () => {
+    it("normalizes the bot username and defaults it to null", () => {
+      expect(validateProject({ name: " Shop ", bot_username: "@shop_bot", default_parse_mode: "HTML" })).toEqual({
+        name: "Shop",
+        bot_username: "shop_bot",
+        default_parse_mode: "HTML",
+      });
+      expect(validateProject({ name: "Shop", bot_username: " ", default_parse_mode: "MarkdownV2" }).bot_username).toBeNull();
+      expect(validateProject({ name: "Shop", default_parse_mode: "HTML" }).bot_username).toBeNull();
+    });
+
+    it("rejects empty names, invalid usernames and unknown parse modes", () => {
+      expect(() => validateProject({ name: " ", bot_username: "1bot", default_parse_mode: "Markdown" })).toThrow(
+        "项目验证失败: 项目名称不能为空, 机器人用户名需为 5-32 位字母、数字或下划线，并以字母开头, 不支持的解析模式",
+      );
+    });
+  });
+
+  describe("workspaces", () => {
+    it("trims team names and lowercases invite emails", () => {
+      expect(validateWorkspace({ name: " Design " })).toEqual({ name: "Design" });
+      expect(validateWorkspaceInvite({ email: " Ann@Example.com ", role: "viewer" })).toEqual({
+        email: "ann@example.com",
+        role: "viewer",
+      });
+      expect(validateProject({ name: "Shop", default_parse_mode: "HTML", workspace_id: "w1" }).workspace_id).toBe("w1");
+    });
+
+    it("rejects empty team names, malformed emails and owner invites", () => {
+      expect(() => validateWorkspace({ name: "  " })).toThrow("团队验证失败: 团队名称不能为空");
+      expect(() => validateWorkspaceInvite({ email: "ann", role: "owner" })).toThrow(
+        "邀请验证失败: 邮箱格式不正确, 不支持的成员角色",
+      );
+    });
+  });
 });
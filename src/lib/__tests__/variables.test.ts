@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  collectVariableUsages,
+  extractVariableNames,
+  filterVisibleButtons,
+  findUndeclaredVariables,
+  interpolateKeyboard,
+  interpolateVariables,
+  sampleValues,
+} from "@/lib/variables";
+import type { KeyboardRow } from "@/types/telegram";
+
+const keyboard: KeyboardRow[] = [
+  {
+    id: "r1",
+    buttons: [
+      { id: "b1", text: "Hi {{ name }}", url: "https://x.y/u/{{user_id}}" },
+      { id: "b2", text: "App", web_app: { url: "https://x.y/app?ref={{ref}}" } },
+    ],
+  },
+];
+
+describe("variables", () => {
+  it("extracts placeholder names in order of first use", () => {
+    expect(extractVariableNames("{{a}} {{ b }} {{a}} {{1x}} {c}")).toEqual(["a", "b"]);
+  });
+
+  it("substitutes known values and keeps unknown placeholders", () => {
+    expect(interpolateVariables("Hi {{ name }}, {{missing}}", { name: "Ann" })).toBe("Hi Ann, {{missing}}");
+    expect(sampleValues([{ name: "n", type: "number", sample: "3" }, { name: "", type: "string", sample: "x" }])).toEqual({ n: "3" });
+  });
+
+  it("collects usages from text, button texts and button URLs", () => {
+    const names = collectVariableUsages({ text: "**{{greeting}}**", keyboard });
+    expect(names).toEqual(["greeting", "name", "user_id", "ref"]);
+    expect(findUndeclaredVariables(names, [{ name: "name", type: "string", sample: "" }])).toEqual(["greeting", "user_id", "ref"]);
+  });
+
+  it("interpolates button texts and URLs for the preview", () => {
+    const [row] = interpolateKeyboard(keyboard, { name: "Ann", user_id: "7", ref: "r" });
+    expect(row.buttons[0]).toMatchObject({ text: "Hi Ann", url: "https://x.y/u/7" });
+    expect(row.buttons[1].web_app).toEqual({ url: "https://x.y/app?ref=r" });
+    expect(keyboard[0].buttons[0].text).toBe("Hi {{ name }}");
+  });
+
+  it("collects condition variables and drops hidden buttons and emptied rows", () => {
+    const gated: KeyboardRow[] = [
+      { id: "r1", buttons: [{ id: "b1", text: "Shop" }, { id: "b2", text: "Admin", visible_if: "is_admin && credits > 1" }] },
+      { id: "r2", buttons: [{ id: "b3", text: "Pay", visible_if: "!is_admin" }] },
+    ];
+    expect(collectVariableUsages({ text: "{{credits}}", keyboard: gated })).toEqual(["credits", "is_admin"]);
+
+    const variables = [
+      { name: "is_admin", type: "boolean" as const, sample: "true" },
+      { name: "credits", type: "number" as const, sample: "2" },
+    ];
+    const visible = filterVisibleButtons(gated, { is_admin: "true", credits: "2" }, variables);
+    expect(visible.map((row) => row.buttons.map((button) => button.text))).toEqual([["Shop", "Admin"]]);
+  });
+});
@@ -0,0 +1,165 @@
+import type { MessageEntity, MessageEntityType } from "@/types/telegram";
+import { toMarkup } from "@/lib/formatting/entities";
+import { MEDIA_MESSAGE_TYPES } from "@/lib/messagePayload";
+import { parseReplyMarkup } from "@/lib/keyboard/replyMarkup";
+
+/**
+ * Bot API JSON pasted into the import dialog: a `sendMessage`/`sendPhoto`/`editMessageText`/... request body, a
+ * `Message` object, an `Update` or a whole `getUpdates` response. normalizeBotApiImport turns it into the fields
+ * the importer reads (`text`/`caption` with `parse_mode`, or `message_content` markup when the text comes with
+ * entities; media as a file id or URL) and lists every field it had to drop.
+ */
+
+type JsonObject = Record<string, unknown>;
+
+export type BotApiImport = {
+  payload: JsonObject;
+  /** Dropped fields, e.g. `protect_content` or `entities[].text_mention`. */
+  dropped: string[];
+};
+
+const UPDATE_MESSAGE_KEYS = [
+  "message",
+  "edited_message",
+  "channel_post",
+  "edited_channel_post",
+  "business_message",
+  "edited_business_message",
+] as const;
+
+/** Fields the importer reads. */
+const MESSAGE_FIELDS = new Set<string>([
+  "text",
+  "caption",
+  "entities",
+  "caption_entities",
+  "parse_mode",
+  "reply_markup",
+  "link_preview_options",
+  "disable_web_page_preview",
+  "media",
+  "media_group",
+  "message_content",
+  "keyboard",
+  ...MEDIA_MESSAGE_TYPES,
+]);
+
+/** Where and when the message was sent; the editor does not model them, so they are skipped without a report. */
+const ADDRESS_FIELDS = new Set([
+  "method",
+  "chat_id",
+  "chat",
+  "message_id",
+  "inline_message_id",
+  "business_connection_id",
+  "message_thread_id",
+  "is_topic_message",
+  "from",
+  "sender_chat",
+  "date",
+  "edit_date",
+]);
+
+const EDITOR_ENTITY_TYPES = new Set<string>([
+  "bold",
+  "italic",
+  "underline",
+  "strikethrough",
+  "spoiler",
+  "code",
+  "pre",
+  "text_link",
+  "custom_emoji",
+  "blockquote",
+  "expandable_blockquote",
+] satisfies MessageEntityType[]);
+
+/** Entities Telegram detects in the text by itself; the editor needs no markup for them. */
+const AUTO_ENTITY_TYPES = new Set(["mention", "hashtag", "cashtag", "bot_command", "url", "email", "phone_number"]);
+
+const isObject = (value: unknown): value is JsonObject => !!value && typeof value === "object" && !Array.isArray(value);
+
+const updateMessage = (update: JsonObject): JsonObject | null => {
+  const key = UPDATE_MESSAGE_KEYS.find((item) => isObject(update[item]));
+  if (key) return update[key] as JsonObject;
+  const query = update.callback_query;
+  return isObject(query) && isObject(query.message) ? query.message : null;
+};
+
+/**
+ * The message to import: the last message of a `getUpdates` response, the Message a `send*` call returned, the
+ * message of an Update, or the data itself (a request body or a Message).
+ */
+const unwrapMessage = (data: JsonObject): JsonObject => {
+  if (typeof data.ok !== "boolean") return updateMessage(data) ?? data;
+  if (data.ok !== true) throw new Error(`Bot API 返回错误：${String(data.description ?? "未知错误")}`);
+  const results = (Array.isArray(data.result) ? data.result : [data.result]).filter(isObject);
+  const message = results.map((result) => updateMessage(result) ?? ("update_id" in result ? null : result)).filter(Boolean).at(-1);
+  if (!message) throw new Error("Bot API 响应中没有可导入的消息");
+  return message;
+};
+
+const isEntity = (value: unknown): value is MessageEntity =>
+  isObject(value) && typeof value.type === "string" && Number.isInteger(value.offset) && Number.isInteger(value.length);
+
+/** Editor markup for text with Bot API entities; entities the editor cannot express are reported as dropped. */
+const entitiesToMarkup = (text: string, raw: unknown, field: string, dropped: Set<string>) => {
+  const entities = (Array.isArray(raw) ? raw : []).filter((entity) => {
+    if (isEntity(entity) && EDITOR_ENTITY_TYPES.has(entity.type)) return true;
+    if (isEntity(entity) && AUTO_ENTITY_TYPES.has(entity.type)) return false;
+    dropped.add(isEntity(entity) ? `${field}[].${entity.type}` : `${field}[]`);
+    return false;
+  });
+  return toMarkup({ text, entities });
+};
+
+/** File id or URL of a media field: a string, a `{ file_id }` object or a PhotoSize list (largest size last). */
+const mediaSource = (value: unknown): string | null => {
+  const item = Array.isArray(value) ? value.at(-1) : value;
+  if (typeof item === "string") return item;
+  return isObject(item) && typeof item.file_id === "string" ? item.file_id : null;
+};
+
+export const normalizeBotApiImport = (data: unknown): BotApiImport => {
+  if (!isObject(data)) throw new Error("导入数据必须是 JSON 对象");
+  const message = unwrapMessage(data);
+  const dropped = new Set<string>();
+  const payload: JsonObject = {};
+
+  for (const [key, value] of Object.entries(message)) {
+    if (ADDRESS_FIELDS.has(key)) continue;
+    if (!MESSAGE_FIELDS.has(key)) {
+      dropped.add(key);
+      continue;
+    }
+    if (key === "entities" || key === "caption_entities") continue;
+    if ((MEDIA_MESSAGE_TYPES as readonly string[]).includes(key)) {
+      const source = mediaSource(value);
+      if (source) payload[key] = source;
+      else dropped.add(key);
+      continue;
+    }
+    payload[key] = value;
+  }
+
+  // Telegram sends GIFs as `animation` with a copy in `document`.
+  if (typeof payload.animation === "string") delete payload.document;
+
+  const textField = typeof message.text === "string" ? "text" : typeof message.caption === "string" ? "caption" : null;
+  const entitiesField = textField === "text" ? "entities" : "caption_entities";
+  if (textField && (message[entitiesField] !== undefined || message.parse_mode === undefined)) {
+    // Without a parse mode the text is plain (formatted only by its entities), so markup characters are escaped.
+    payload.message_content = entitiesToMarkup(message[textField] as string, message[entitiesField] ?? [], entitiesField, dropped);
+    delete payload.text;
+    delete payload.caption;
+  }
+  (["entities", "caption_entities"] as const).forEach((field) => {
+    if (message[field] !== undefined && !(textField && field === entitiesField)) dropped.add(field);
+  });
+  if (payload.reply_markup !== undefined && !parseReplyMarkup(payload.reply_markup)) {
+    dropped.add("reply_markup");
+    delete payload.reply_markup;
+  }
+
+  return { payload, dropped: [...dropped] };
+};
@@ -0,0 +1,73 @@
+import type { ReplyMarkup } from "@/lib/keyboard/replyMarkup";
+import { GOTO_SCREEN_PREFIX } from "@/lib/keyboard/transitions";
+import { collectCallbackData } from "./markup";
+
+export type CallbackRoute = { ns: string; action: string };
+
+/**
+ * callback_data produced by telegram-callback-factory (`ns:action:data:exp:nonce`, see buildCallbackData).
+ * Namespace and action use the same identifier rules as callbackHelper. Linked buttons' `goto_screen_<id>:<key>`
+ * has the same shape but is handled by the navigation route.
+ */
+const FACTORY_CALLBACK_PATTERN = /^([a-zA-Z0-9_-]+):([a-zA-Z0-9_-]+)(?::|$)/;
+
+const matchFactoryCallbackData = (data: string) => (data.startsWith(GOTO_SCREEN_PREFIX) ? null : FACTORY_CALLBACK_PATTERN.exec(data));
+
+export const isFactoryCallbackData = (data: string) => !!matchFactoryCallbackData(data);
+
+/** Distinct namespace/action pairs across the given markups, in first-seen order. */
+export const collectCallbackRoutes = (markups: Array<ReplyMarkup | undefined>): CallbackRoute[] => {
+  const routes = new Map<string, CallbackRoute>();
+  for (const data of markups.flatMap((markup) => collectCallbackData(markup))) {
+    const match = matchFactoryCallbackData(data);
+    if (!match) continue;
+    const [, ns, action] = match;
+    if (!routes.has(`${ns}:${action}`)) routes.set(`${ns}:${action}`, { ns, action });
+  }
+  return [...routes.values()];
+};
+
+type CallbackManagerCode = {
+  /** Import/require line for the factory package. */
+  importLine: string;
+  /** Manager instance, declared next to `bot`. */
+  setup: string;
+  /** Route stubs plus the middleware that parses callbacks and dispatches to them; ends with a blank line. */
+  handlers: string;
+};
+
+const routePattern = (routes: CallbackRoute[]) => `/^(?:${[...new Set(routes.map((route) => route.ns))].join("|")}):/`;
+
+/**
+ * Wire telegram-callback-factory into generated Telegraf/grammY code: one `router.on(ns, action)` stub per route
+ * and a middleware in front of them that answers expired and duplicate callbacks. Unmatched callbacks fall through
+ * to the next handler.
+ * Returns null when no button uses factory callback_data.
+ */
+export const buildCallbackManagerCode = (
+  framework: "telegraf" | "grammy",
+  routes: CallbackRoute[],
+): CallbackManagerCode | null => {
+  if (!routes.length) return null;
+  const typed = framework === "grammy";
+  const answer = typed ? "(ctx as Context).answerCallbackQuery" : "ctx.answerCbQuery";
+  const stubs = routes
+    .map(
+      ({ ns, action }) =>
+        `cbx.router.on("${ns}", "${action}", async (parsed, ctx) => {\n  await ${answer}("Received: ${ns}:${action} " + JSON.stringify(parsed.data ?? {}));\n});\n\n`,
+    )
+    .join("");
+  // Expired and duplicate callbacks are answered here with the framework's own method (the factory's parser
+  // middleware calls grammY's `answerCallbackQuery`, which Telegraf contexts lack), so the button stops loading.
+  const [expiredAnswer, duplicateAnswer] = typed
+    ? ['ctx.answerCallbackQuery({ text: "操作已过期", show_alert: true })', 'ctx.answerCallbackQuery("请勿重复点击")']
+    : ['ctx.answerCbQuery("操作已过期", { show_alert: true })', 'ctx.answerCbQuery("请勿重复点击")'];
+  const middleware = `bot.${typed ? "callbackQuery" : "action"}(${routePattern(routes)}, async (ctx, next) => {\n  const parsed = cbx.parse(ctx.callbackQuery.data);\n  if (parsed.expired) {\n    await ${expiredAnswer};\n    return;\n  }\n  if (parsed.duplicate) {\n    await ${duplicateAnswer};\n    return;\n  }\n  if (!(await cbx.router.dispatch(parsed, ctx))) await next();\n});\n\n`;
+  return {
+    importLine: typed
+      ? 'import { createCallbackManager } from "telegram-callback-factory";'
+      : 'const { createCallbackManager } = require("telegram-callback-factory");',
+    setup: "const cbx = createCallbackManager();",
+    handlers: `${stubs}${middleware}`,
+  };
+};
@@ -0,0 +1,124 @@
+import type { KeyboardRow } from "@/types/telegram";
+import type { InlineMarkupButton } from "@/lib/keyboard/replyMarkup";
+import { parseCondition, toJsCondition, toPythonCondition } from "@/lib/conditions";
+import {
+  buildGrammyButton,
+  buildPythonAction,
+  buildTelegrafButton,
+  escapeStr,
+  toJsObject,
+  type CodegenFramework,
+  type CodegenPayload,
+} from "./markup";
+
+const isValidCondition = (condition: string) => {
+  try {
+    parseCondition(condition);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Payload carrying the visibility conditions of its inline buttons, aligned with `inline_keyboard`
+ * (buildReplyMarkup maps rows and buttons one to one). Malformed conditions are dropped, so those buttons
+ * are always shown, as in the preview.
+ */
+export const withButtonConditions = (payload: CodegenPayload, keyboard: KeyboardRow[]): CodegenPayload => {
+  if (!payload.reply_markup?.inline_keyboard) return payload;
+  const conditions = keyboard.map((row) =>
+    row.buttons.map((button) => {
+      const condition = button.visible_if?.trim();
+      return condition && isValidCondition(condition) ? condition : null;
+    }),
+  );
+  return conditions.some((row) => row.some(Boolean)) ? { ...payload, button_conditions: conditions } : payload;
+};
+
+type KeyboardTarget = {
+  python: boolean;
+  button: (btn: InlineMarkupButton) => string;
+  markup: string;
+  /** Type annotations of the row arrays (grammY snippets are TypeScript). */
+  rowType?: string;
+};
+
+const TARGETS: Record<CodegenFramework, KeyboardTarget> = {
+  "python-telegram-bot": {
+    python: true,
+    button: (btn) => `InlineKeyboardButton(text="${escapeStr(btn.text)}", ${buildPythonAction(btn)})`,
+    markup: "InlineKeyboardMarkup(rows)",
+  },
+  aiogram: {
+    python: true,
+    button: (btn) => `InlineKeyboardButton(text="${escapeStr(btn.text)}", ${buildPythonAction(btn)})`,
+    markup: "InlineKeyboardMarkup(inline_keyboard=rows)",
+  },
+  telegraf: { python: false, button: buildTelegrafButton, markup: "Markup.inlineKeyboard(rows)" },
+  grammy: {
+    python: false,
+    button: (btn) => `InlineKeyboard${buildGrammyButton(btn)}`,
+    markup: "new InlineKeyboard(rows)",
+    rowType: "InlineKeyboardButton",
+  },
+  "node-telegram-bot-api": { python: false, button: toJsObject, markup: "{ inline_keyboard: rows }" },
+};
+
+/** Statements building the rows of a keyboard with conditional buttons, one `if` per conditional button. */
+const buildRowStatements = (target: KeyboardTarget, rows: InlineMarkupButton[][], conditions: (string | null)[][]) => {
+  const lines = [target.python ? "rows = []" : `const rows${target.rowType ? `: ${target.rowType}[][]` : ""} = [];`];
+  rows.forEach((row, rowIdx) => {
+    const rowConditions = conditions[rowIdx] ?? [];
+    const always = row.filter((_, btnIdx) => !rowConditions[btnIdx]).map(target.button);
+    if (!rowConditions.some(Boolean)) {
+      lines.push(target.python ? `rows.append([${always.join(", ")}])` : `rows.push([${always.join(", ")}]);`);
+      return;
+    }
+    // Buttons keep their order: unconditional ones before the first conditional one go into the initial list.
+    const firstConditional = rowConditions.findIndex(Boolean);
+    const initial = row.slice(0, firstConditional).map(target.button);
+    const name = target.python ? "row" : `row${rowIdx + 1}`;
+    lines.push(
+      target.python
+        ? `${name} = [${initial.join(", ")}]`
+        : `const ${name}${target.rowType ? `: ${target.rowType}[]` : ""} = [${initial.join(", ")}];`,
+    );
+    row.slice(firstConditional).forEach((btn, offset) => {
+      const condition = rowConditions[firstConditional + offset];
+      const add = target.python ? `${name}.append(${target.button(btn)})` : `${name}.push(${target.button(btn)});`;
+      if (!condition) lines.push(add);
+      else if (target.python) lines.push(`if ${toPythonCondition(condition)}:`, `    ${add}`);
+      else lines.push(`if (${toJsCondition(condition)}) ${add}`);
+    });
+    // A row whose buttons are all conditional may end up empty, and Telegram rejects empty rows.
+    const push = target.python ? `rows.append(${name})` : `rows.push(${name});`;
+    if (always.length) lines.push(push);
+    else if (target.python) lines.push(`if ${name}:`, `    ${push}`);
+    else lines.push(`if (${name}.length) ${push}`);
+  });
+  return lines;
+};
+
+/**
+ * `<assignment of the markup>` for a handler body, indented by `indent`. Keyboards with conditional buttons are
+ * built row by row first; other keyboards are assigned `fallback`, the framework's usual markup expression.
+ */
+export const buildKeyboardAssignment = (
+  framework: CodegenFramework,
+  payload: CodegenPayload,
+  assign: (markup: string) => string,
+  fallback: string,
+  indent: string,
+) => {
+  const rows = payload.reply_markup?.inline_keyboard;
+  if (!rows || !payload.button_conditions) return `${indent}${assign(fallback)}`;
+  const target = TARGETS[framework];
+  return [...buildRowStatements(target, rows, payload.button_conditions), assign(target.markup)]
+    .map((line) => `${indent}${line}`)
+    .join("\n");
+};
+
+/** Type import the grammY row arrays need when any keyboard has conditional buttons. */
+export const grammyConditionImports = (payloads: CodegenPayload[]) =>
+  payloads.some((payload) => payload.button_conditions) ? ['import type { InlineKeyboardButton } from "grammy/types";'] : [];
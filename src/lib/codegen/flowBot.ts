@@ -0,0 +1,789 @@
+import type { InputMediaPayload, MessageState } from "@/lib/messagePayload";
+import type { FlowVariable, InputStep, LinkPreviewOptions } from "@/types/telegram";
+import { buildTelegramPayload } from "@/lib/messagePayload";
+import {
+  buildGrammyKeyboard,
+  buildJsonMarkup,
+  buildPythonMarkup,
+  buildTelegrafKeyboard,
+  collectCallbackData,
+  escapeStr,
+  grammyMarkupImports,
+  pythonMarkupImports,
+  type CodegenFramework,
+  type CodegenPayload,
+  type PythonFlavor,
+} from "./markup";
+import { buildCallbackManagerCode, collectCallbackRoutes, isFactoryCallbackData } from "./callbackRoutes";
+import {
+  buildJsMediaGroup,
+  buildPythonMediaGroup,
+  hasCaption,
+  isEditableMedia,
+  pascalMedia,
+  payloadMedia,
+  payloadMediaGroup,
+  pythonInputMedia,
+  pythonMediaGroupImports,
+  type PayloadMedia,
+} from "./media";
+import { buildKeyboardAssignment, grammyConditionImports, withButtonConditions } from "./conditions";
+import { jsLinkPreviewField, payloadLinkPreview, pythonLinkPreviewArgs, pythonLinkPreviewImports } from "./linkPreview";
+import {
+  escapeHelpers,
+  interpolateCode,
+  type CodeLanguage,
+  jsVariableParam,
+  markPayloadVariables,
+  payloadVariables,
+  pythonVariableParams,
+  usableVariables,
+} from "./variables";
+import {
+  buildAiogramInputHandler,
+  buildAiogramStatesGroup,
+  buildJsInputDispatcher,
+  buildJsInputs,
+  buildPtbInputHandler,
+  buildPtbInputStates,
+  buildPythonInputStates,
+  pythonInputImports,
+  type FlowInput,
+} from "./inputSteps";
+import {
+  buildJsTransitions,
+  buildPythonTransitions,
+  collectTransitions,
+  JS_GOTO_PATTERN,
+  pythonGotoParse,
+  pythonTransitionLines,
+  type FlowTransition,
+} from "./transitions";
+
+export type FlowCodegenScreen = {
+  id: string;
+  name: string;
+  state: MessageState;
+};
+
+type PreparedScreen = {
+  id: string;
+  label: string;
+  index: number;
+  payload: CodegenPayload;
+  media: PayloadMedia | null;
+  /** Album items; the screen text and keyboard follow the album as a separate message. */
+  group: InputMediaPayload[] | null;
+  /** Link preview options of the screen's text message, if any differ from Telegram's default. */
+  linkPreview: LinkPreviewOptions | null;
+  /** Declared variables the screen refers to; they become parameters of its handler. */
+  variables: FlowVariable[];
+  /**
+   * Only inline markups (or none) can be attached through edit_message_*, and only to text or editable media;
+   * other screens always send a new message.
+   */
+  editable: boolean;
+  /** Set when the screen waits for the user's reply. */
+  input: InputStep | null;
+};
+
+type TextRoute = { text: string; targetId: string };
+
+/** Prefix of the callback_data that linked buttons export (see buildReplyMarkup). */
+const GOTO_PREFIX = "goto_screen_";
+
+/**
+ * Order screens breadth-first from the entry screen; screens that are not reachable follow in their original order.
+ */
+const orderScreens = (screens: FlowCodegenScreen[], entryScreenId: string | null) => {
+  const byId = new Map(screens.map((screen) => [screen.id, screen]));
+  const entry = (entryScreenId && byId.get(entryScreenId)) || screens[0];
+  const ordered: FlowCodegenScreen[] = [];
+  const seen = new Set<string>();
+  const queue = [entry];
+  seen.add(entry.id);
+  while (queue.length) {
+    const screen = queue.shift()!;
+    ordered.push(screen);
+    for (const row of screen.state.keyboard) {
+      for (const button of row.buttons) {
+        const target = button.linked_screen_id ? byId.get(button.linked_screen_id) : undefined;
+        if (target && !seen.has(target.id)) {
+          seen.add(target.id);
+          queue.push(target);
+        }
+      }
+    }
+    const next = screen.state.inputStep?.next_screen_id ? byId.get(screen.state.inputStep.next_screen_id) : undefined;
+    if (next && !seen.has(next.id)) {
+      seen.add(next.id);
+      queue.push(next);
+    }
+  }
+  return [...ordered, ...screens.filter((screen) => !seen.has(screen.id))];
+};
+
+const prepareScreens = (ordered: FlowCodegenScreen[], variables: FlowVariable[]): PreparedScreen[] =>
+  ordered.map((screen, index) => {
+    const payload = markPayloadVariables(withButtonConditions(buildTelegramPayload(screen.state), screen.state.keyboard), variables);
+    const media = payloadMedia(payload);
+    const group = payloadMediaGroup(payload);
+    return {
+      id: screen.id,
+      label: `${screen.name.replace(/\s+/g, " ").trim() || "未命名"} (${screen.id})`,
+      index: index + 1,
+      payload,
+      media,
+      group,
+      linkPreview: payloadLinkPreview(payload),
+      variables: payloadVariables(payload, variables),
+      editable:
+        !group && (!media || isEditableMedia(media.kind)) && (!payload.reply_markup || "inline_keyboard" in payload.reply_markup),
+      input: screen.state.inputStep ?? null,
+    };
+  });
+
+/** Screens that wait for a reply; a next screen outside the flow ends the conversation instead. */
+const flowInputs = (screens: PreparedScreen[]): FlowInput[] => {
+  const knownIds = new Set(screens.map((screen) => screen.id));
+  return screens.flatMap((screen) => {
+    if (!screen.input) return [];
+    const next = screen.input.next_screen_id;
+    return [{ id: screen.id, index: screen.index, label: screen.label, step: screen.input, next: next && knownIds.has(next) ? next : null }];
+  });
+};
+
+/** Reply keyboard buttons only send their text, so linked ones are routed by matching the incoming message text. */
+const collectTextRoutes = (ordered: FlowCodegenScreen[], knownIds: Set<string>): TextRoute[] => {
+  const routes = new Map<string, string>();
+  for (const screen of ordered) {
+    if (screen.state.keyboardKind !== "reply") continue;
+    for (const row of screen.state.keyboard) {
+      for (const button of row.buttons) {
+        if (button.linked_screen_id && knownIds.has(button.linked_screen_id) && button.text && !routes.has(button.text)) {
+          routes.set(button.text, button.linked_screen_id);
+        }
+      }
+    }
+  }
+  return [...routes].map(([text, targetId]) => ({ text, targetId }));
+};
+
+const flowCallbackManager = (framework: "telegraf" | "grammy", screens: PreparedScreen[]) =>
+  buildCallbackManagerCode(framework, collectCallbackRoutes(screens.map((screen) => screen.payload.reply_markup)));
+
+const captionOf = (payload: CodegenPayload) => escapeStr(("text" in payload ? payload.text : payload.caption) || "");
+
+const uniq = (items: string[]) => [...new Set(items)];
+
+/** `, <param>` after a handler's own parameters, or nothing when the screen uses no variables. */
+const extraParam = (param: string) => (param ? `, ${param}` : "");
+
+/** `caption=..., parse_mode=..., ` for a Python send call; video notes take neither. */
+const pythonCaptionArgs = (media: PayloadMedia, caption: string, parseMode: string) =>
+  hasCaption(media.kind) ? `caption="${caption}", parse_mode=${parseMode}, ` : "";
+
+/** Options object of a JavaScript send call; only media messages carry the text as a caption. */
+const jsSendOptions = (screen: PreparedScreen, caption: string, parseMode: string | undefined, replyMarkup: string) =>
+  screen.media && !hasCaption(screen.media.kind)
+    ? `{ ${replyMarkup} }`
+    : `{ ${screen.media ? `caption: "${caption}", ` : ""}parse_mode: "${parseMode}", ${jsLinkPreviewField(screen.linkPreview)}${replyMarkup} }`;
+
+/** Screen handlers with their variables interpolated, plus the escape helpers those handlers call. */
+const buildHandlers = (screens: PreparedScreen[], build: (screen: PreparedScreen) => string, language: CodeLanguage, typed = false) => {
+  const code = screens.map((screen) => interpolateCode(build(screen), language, screen.variables, screen.payload.parse_mode));
+  return { code, helpers: escapeHelpers(code.join("\n"), language, typed) };
+};
+
+const pythonImports = (screens: PreparedScreen[], flavor: PythonFlavor) => {
+  const inputMedia = screens
+    .filter((screen) => screen.media && screen.editable)
+    .map((screen) => pythonInputMedia(screen.media!.kind));
+  const groupMedia = screens.flatMap((screen) => (screen.group ? pythonMediaGroupImports(screen.group) : []));
+  const linkPreview = screens.flatMap((screen) => pythonLinkPreviewImports(screen.linkPreview));
+  const names = uniq([
+    ...screens.flatMap((screen) => pythonMarkupImports(screen.payload.reply_markup)),
+    ...inputMedia,
+    ...groupMedia,
+    ...linkPreview,
+  ]);
+  return flavor === "ptb" ? ["Update", ...names] : [...names, "Message", "CallbackQuery"];
+};
+
+const pythonRoutes = (screens: PreparedScreen[], textRoutes: TextRoute[]) => {
+  const fnById = new Map(screens.map((screen) => [screen.id, `screen_${screen.index}`]));
+  const screenMap = `SCREENS = {\n${screens.map((screen) => `    "${escapeStr(screen.id)}": screen_${screen.index},`).join("\n")}\n}`;
+  const textMap = textRoutes.length
+    ? `\n\nTEXT_ROUTES = {\n${textRoutes.map((route) => `    "${escapeStr(route.text)}": "${escapeStr(route.targetId)}",`).join("\n")}\n}`
+    : "";
+  return { fnById, table: `${screenMap}${textMap}` };
+};
+
+const buildPtbScreen = (screen: PreparedScreen) => {
+  const caption = captionOf(screen.payload);
+  const parseMode = screen.payload.parse_mode;
+  const lines = [
+    `# ${screen.label}`,
+    `async def screen_${screen.index}(update: Update, context: ContextTypes.DEFAULT_TYPE, edit: bool = False${extraParam(pythonVariableParams(screen.variables))}):`,
+    buildKeyboardAssignment("python-telegram-bot", screen.payload, (markup) => `markup = ${markup}`, buildPythonMarkup(screen.payload.reply_markup, "ptb"), "    "),
+    "    message = update.effective_message",
+  ];
+  const preview = pythonLinkPreviewArgs(screen.linkPreview);
+  const replyText = `await message.reply_text("${caption}", parse_mode="${parseMode}", ${preview}reply_markup=markup)`;
+  const send = screen.group
+    ? `await message.reply_media_group(${buildPythonMediaGroup(screen.group)})\n    ${replyText}`
+    : screen.media
+      ? `await message.reply_${screen.media.kind}("${escapeStr(screen.media.url)}", ${pythonCaptionArgs(screen.media, caption, `"${parseMode}"`)}reply_markup=markup)`
+      : replyText;
+  if (!screen.editable) {
+    lines.push(`    ${send}`);
+    return lines.join("\n");
+  }
+  const edit = screen.media
+    ? `await update.callback_query.edit_message_media(${pythonInputMedia(screen.media.kind)}("${escapeStr(screen.media.url)}", caption="${caption}", parse_mode="${parseMode}"), reply_markup=markup)`
+    : `await update.callback_query.edit_message_text("${caption}", parse_mode="${parseMode}", ${preview}reply_markup=markup)`;
+  lines.push(
+    `    if edit and message.text ${screen.media ? "is None" : "is not None"}:`,
+    `        ${edit}`,
+    "    else:",
+    `        ${send}`,
+  );
+  return lines.join("\n");
+};
+
+const generatePtb = (screens: PreparedScreen[], textRoutes: TextRoute[], transitions: FlowTransition[]) => {
+  const { fnById, table } = pythonRoutes(screens, textRoutes);
+  const handlers = buildHandlers(screens, buildPtbScreen, "python");
+  const inputs = flowInputs(screens);
+  const needsMessages = textRoutes.length > 0 || inputs.length > 0;
+  const extImports = [
+    "ApplicationBuilder",
+    "CommandHandler",
+    "CallbackQueryHandler",
+    "ContextTypes",
+    ...(inputs.length ? ["ConversationHandler"] : []),
+    ...(needsMessages ? ["MessageHandler", "filters"] : []),
+  ];
+  // With input screens every route returns the state the opened screen leads to, for the ConversationHandler.
+  const nextState = (screenId: string) => `\n        return INPUT_STATES.get(${screenId}, ConversationHandler.END)`;
+  const entryId = `"${escapeStr(screens[0].id)}"`;
+  const textHandler = !textRoutes.length
+    ? ""
+    : inputs.length
+      ? `\n\n\nasync def on_text(update: Update, context: ContextTypes.DEFAULT_TYPE):\n    screen_id = TEXT_ROUTES.get(update.message.text or "")\n    handler = SCREENS.get(screen_id)\n    if handler:\n        await handler(update, context)${nextState("screen_id")}`
+      : `\n\n\nasync def on_text(update: Update, context: ContextTypes.DEFAULT_TYPE):\n    handler = SCREENS.get(TEXT_ROUTES.get(update.message.text or ""))\n    if handler:\n        await handler(update, context)`;
+  const start = inputs.length
+    ? `async def start(update: Update, context: ContextTypes.DEFAULT_TYPE):\n    await ${fnById.get(screens[0].id)}(update, context)\n    return INPUT_STATES.get(${entryId}, ConversationHandler.END)`
+    : `async def start(update: Update, context: ContextTypes.DEFAULT_TYPE):\n    await ${fnById.get(screens[0].id)}(update, context)`;
+  const onCallback = transitions.length
+    ? [
+        "async def on_callback(update: Update, context: ContextTypes.DEFAULT_TYPE):",
+        "    query = update.callback_query",
+        '    data = query.data or ""',
+        `    ${pythonGotoParse("data")}`,
+        "    handler = SCREENS.get(screen_id) if data.startswith(GOTO_PREFIX) else None",
+        "    if handler:",
+        ...pythonTransitionLines((edit) => `await handler(update, context, edit=${edit})`, "        "),
+        ...(inputs.length
+          ? [nextState("screen_id").slice(1), '    await query.answer("Received: " + data)']
+          : ["    else:", '        await query.answer("Received: " + data)']),
+      ].join("\n")
+    : inputs.length
+    ? `async def on_callback(update: Update, context: ContextTypes.DEFAULT_TYPE):\n    query = update.callback_query\n    data = query.data or ""\n    screen_id = data[len(GOTO_PREFIX):] if data.startswith(GOTO_PREFIX) else None\n    handler = SCREENS.get(screen_id)\n    if handler:\n        await query.answer()\n        await handler(update, context, edit=True)${nextState("screen_id")}\n    await query.answer("Received: " + data)`
+    : `async def on_callback(update: Update, context: ContextTypes.DEFAULT_TYPE):\n    query = update.callback_query\n    data = query.data or ""\n    handler = SCREENS.get(data[len(GOTO_PREFIX):]) if data.startswith(GOTO_PREFIX) else None\n    if handler:\n        await query.answer()\n        await handler(update, context, edit=True)\n    else:\n        await query.answer("Received: " + data)`;
+  const inputHandlers = inputs.map((input) => `\n\n\n${buildPtbInputHandler(input, input.next ? fnById.get(input.next) : undefined)}`).join("");
+  const registration = inputs.length
+    ? [
+        "app.add_handler(ConversationHandler(",
+        `    entry_points=[CommandHandler("start", start), CallbackQueryHandler(on_callback)${textRoutes.length ? ", MessageHandler(filters.Text(list(TEXT_ROUTES)), on_text)" : ""}],`,
+        "    states={",
+        buildPtbInputStates(inputs),
+        "    },",
+        "    fallbacks=[],",
+        "    allow_reentry=True,",
+        "))",
+      ]
+    : [
+        'app.add_handler(CommandHandler("start", start))',
+        "app.add_handler(CallbackQueryHandler(on_callback))",
+        ...(textRoutes.length ? ["app.add_handler(MessageHandler(filters.TEXT & ~filters.COMMAND, on_text))"] : []),
+      ];
+  const stdImports = pythonInputImports(inputs);
+  return [
+    ...(stdImports.length ? [...stdImports, ""] : []),
+    `from telegram import ${pythonImports(screens, "ptb").join(", ")}`,
+    `from telegram.ext import ${extImports.join(", ")}`,
+    "",
+    `GOTO_PREFIX = "${GOTO_PREFIX}"`,
+    "",
+    ...handlers.helpers.flatMap((helper) => ["", helper, ""]),
+    ...handlers.code.flatMap((code) => ["", code, ""]),
+    "",
+    table,
+    ...(transitions.length ? ["", buildPythonTransitions(transitions)] : []),
+    ...(inputs.length ? ["", buildPythonInputStates(inputs, "ptb")] : []),
+    "",
+    "",
+    start,
+    "",
+    "",
+    `${onCallback}${textHandler}${inputHandlers}`,
+    "",
+    "",
+    'app = ApplicationBuilder().token("<BOT_TOKEN>").build()',
+    ...registration,
+    "app.run_polling()",
+    "",
+  ].join("\n");
+};
+
+const aiogramParseMode = (parseMode?: string) => `ParseMode.${parseMode === "HTML" ? "HTML" : "MARKDOWN_V2"}`;
+
+const buildAiogramScreen = (screen: PreparedScreen) => {
+  const caption = captionOf(screen.payload);
+  const parseMode = aiogramParseMode(screen.payload.parse_mode);
+  const lines = [
+    `# ${screen.label}`,
+    `async def screen_${screen.index}(message: Message, edit: bool = False${extraParam(pythonVariableParams(screen.variables))}):`,
+    buildKeyboardAssignment("aiogram", screen.payload, (markup) => `kb = ${markup}`, buildPythonMarkup(screen.payload.reply_markup, "aiogram"), "    "),
+  ];
+  const preview = pythonLinkPreviewArgs(screen.linkPreview);
+  const answerText = `await message.answer("${caption}", parse_mode=${parseMode}, ${preview}reply_markup=kb)`;
+  const send = screen.group
+    ? `await message.answer_media_group(${buildPythonMediaGroup(screen.group)})\n    ${answerText}`
+    : screen.media
+      ? `await message.answer_${screen.media.kind}("${escapeStr(screen.media.url)}", ${pythonCaptionArgs(screen.media, caption, parseMode)}reply_markup=kb)`
+      : answerText;
+  if (!screen.editable) {
+    lines.push(`    ${send}`);
+    return lines.join("\n");
+  }
+  const edit = screen.media
+    ? `await message.edit_media(${pythonInputMedia(screen.media.kind)}(media="${escapeStr(screen.media.url)}", caption="${caption}", parse_mode=${parseMode}), reply_markup=kb)`
+    : `await message.edit_text("${caption}", parse_mode=${parseMode}, ${preview}reply_markup=kb)`;
+  lines.push(
+    `    if edit and message.text ${screen.media ? "is None" : "is not None"}:`,
+    `        ${edit}`,
+    "    else:",
+    `        ${send}`,
+  );
+  return lines.join("\n");
+};
+
+const generateAiogram = (screens: PreparedScreen[], textRoutes: TextRoute[], transitions: FlowTransition[]) => {
+  const { fnById, table } = pythonRoutes(screens, textRoutes);
+  const handlers = buildHandlers(screens, buildAiogramScreen, "python");
+  const inputs = flowInputs(screens);
+  // With input screens every route sets the FSM state the opened screen leads to (None clears it).
+  const stateParam = inputs.length ? ", state: FSMContext" : "";
+  const textHandler = !textRoutes.length
+    ? ""
+    : inputs.length
+      ? `\n\n\n@router.message(F.text.in_(TEXT_ROUTES))\nasync def on_text(message: Message, state: FSMContext):\n    screen_id = TEXT_ROUTES[message.text]\n    await SCREENS[screen_id](message)\n    await state.set_state(INPUT_STATES.get(screen_id))`
+      : `\n\n\n@router.message(F.text.in_(TEXT_ROUTES))\nasync def on_text(message: Message):\n    await SCREENS[TEXT_ROUTES[message.text]](message)`;
+  const start = `@router.message(Command("start"))\nasync def cmd_start(message: Message${stateParam}):\n    await ${fnById.get(screens[0].id)}(message)${
+    inputs.length ? `\n    await state.set_state(INPUT_STATES.get("${escapeStr(screens[0].id)}"))` : ""
+  }`;
+  const onNavigate = transitions.length
+    ? [
+        "@router.callback_query(F.data.startswith(GOTO_PREFIX))",
+        `async def on_navigate(query: CallbackQuery${stateParam}):`,
+        `    ${pythonGotoParse("query.data")}`,
+        "    handler = SCREENS.get(screen_id)",
+        "    if handler:",
+        ...pythonTransitionLines((edit) => `await handler(query.message, edit=${edit})`, "        "),
+        ...(inputs.length ? ["        await state.set_state(INPUT_STATES.get(screen_id))"] : []),
+        "    else:",
+        "        await query.answer()",
+      ].join("\n")
+    : inputs.length
+    ? "@router.callback_query(F.data.startswith(GOTO_PREFIX))\nasync def on_navigate(query: CallbackQuery, state: FSMContext):\n    screen_id = query.data.removeprefix(GOTO_PREFIX)\n    handler = SCREENS.get(screen_id)\n    await query.answer()\n    if handler:\n        await handler(query.message, edit=True)\n        await state.set_state(INPUT_STATES.get(screen_id))"
+    : "@router.callback_query(F.data.startswith(GOTO_PREFIX))\nasync def on_navigate(query: CallbackQuery):\n    handler = SCREENS.get(query.data.removeprefix(GOTO_PREFIX))\n    await query.answer()\n    if handler:\n        await handler(query.message, edit=True)";
+  // Input handlers come before on_text, so a waiting chat's reply isn't taken for a reply keyboard button.
+  const inputHandlers = inputs.map((input) => `\n\n\n${buildAiogramInputHandler(input, input.next ? fnById.get(input.next) : undefined)}`).join("");
+  const stdImports = pythonInputImports(inputs);
+  return [
+    ...(stdImports.length ? [...stdImports, ""] : []),
+    "from aiogram import Bot, Dispatcher, F, Router",
+    `from aiogram.types import ${pythonImports(screens, "aiogram").join(", ")}`,
+    "from aiogram.filters import Command",
+    "from aiogram.enums import ParseMode",
+    ...(inputs.length ? ["from aiogram.fsm.context import FSMContext", "from aiogram.fsm.state import State, StatesGroup"] : []),
+    "",
+    "router = Router()",
+    `GOTO_PREFIX = "${GOTO_PREFIX}"`,
+    ...(inputs.length ? ["", "", buildAiogramStatesGroup(inputs)] : []),
+    "",
+    ...handlers.helpers.flatMap((helper) => ["", helper, ""]),
+    ...handlers.code.flatMap((code) => ["", code, ""]),
+    "",
+    table,
+    ...(transitions.length ? ["", buildPythonTransitions(transitions)] : []),
+    ...(inputs.length ? ["", buildPythonInputStates(inputs, "aiogram")] : []),
+    "",
+    "",
+    start,
+    "",
+    "",
+    onNavigate,
+    "",
+    "",
+    `@router.callback_query()\nasync def on_callback(query: CallbackQuery):\n    await query.answer("Received: " + (query.data or ""))${inputHandlers}${textHandler}`,
+    "",
+    "",
+    'bot = Bot(token="<BOT_TOKEN>")',
+    "dp = Dispatcher()",
+    "dp.include_router(router)",
+    "dp.run_polling(bot)",
+    "",
+  ].join("\n");
+};
+
+const jsScreenMap = (screens: PreparedScreen[], typed: boolean) =>
+  `const SCREENS${typed ? ": Record<string, (ctx: Context, edit?: boolean) => Promise<void>>" : ""} = {\n${screens
+    .map((screen) => `  "${escapeStr(screen.id)}": screen${screen.index},`)
+    .join("\n")}\n};`;
+
+const jsTextRoutes = (textRoutes: TextRoute[], typed: boolean) =>
+  `const TEXT_ROUTES${typed ? ": Record<string, string>" : ""} = {\n${textRoutes
+    .map((route) => `  "${escapeStr(route.text)}": "${escapeStr(route.targetId)}",`)
+    .join("\n")}\n};`;
+
+/**
+ * `/start` and navigation routes of a JavaScript bot. With input screens they also `track` the screen they
+ * opened, so the input dispatcher knows which chats wait for a reply.
+ */
+const jsRoutes = (entry: PreparedScreen, tracks: boolean, chatId: string) => ({
+  start: (register: string, param: string, arg = param) =>
+    tracks
+      ? `${register}async (${param}) => {\n  await screen${entry.index}(${arg});\n  track(${chatId}, "${escapeStr(entry.id)}");\n});`
+      : `${register}(${param}) => screen${entry.index}(${arg}));`,
+  open: (call: string, screenId: string) =>
+    tracks ? `if (handler) {\n    await ${call};\n    track(${chatId}, ${screenId});\n  }` : `if (handler) await ${call};`,
+  track: (screenId: string) => `track(${chatId}, ${screenId});`,
+});
+
+/**
+ * Navigation route of a Telegraf or grammY bot. With transitions the key in the callback_data picks the answer,
+ * whether the message is edited in place and whether the old one is deleted afterwards.
+ */
+const jsNavigation = (
+  register: string,
+  answer: { plain: string; transition: string },
+  routes: ReturnType<typeof jsRoutes>,
+  transitions: FlowTransition[],
+  tracks: boolean,
+  typed = false,
+) => {
+  if (!transitions.length) {
+    return `${register}(/^${GOTO_PREFIX}(.+)$/, async (ctx) => {\n  await ${answer.plain};\n  const handler = SCREENS[ctx.match[1]];\n  ${routes.open("handler(ctx, true)", "ctx.match[1]")}\n});`;
+  }
+  return [
+    `${register}(${JS_GOTO_PATTERN}, async (ctx) => {`,
+    `  const transition${typed ? ": Transition" : ""} = TRANSITIONS[ctx.match[2]] ?? {};`,
+    `  await ${answer.transition};`,
+    "  const handler = SCREENS[ctx.match[1]];",
+    "  if (handler) {",
+    "    await handler(ctx, !transition.mode);",
+    '    if (transition.mode === "replace") await ctx.deleteMessage();',
+    ...(tracks ? [`    ${routes.track("ctx.match[1]")}`] : []),
+    "  }",
+    "});",
+  ].join("\n");
+};
+
+const buildTelegrafScreen = (screen: PreparedScreen) => {
+  const caption = captionOf(screen.payload);
+  const parseMode = screen.payload.parse_mode;
+  const extra = jsSendOptions(screen, caption, parseMode, "reply_markup: keyboard.reply_markup");
+  const send = screen.group
+    ? `await ctx.replyWithMediaGroup(${buildJsMediaGroup(screen.group)});\n  await ctx.reply("${caption}", ${extra});`
+    : screen.media
+      ? `await ctx.replyWith${pascalMedia(screen.media.kind)}("${escapeStr(screen.media.url)}", ${extra});`
+      : `await ctx.reply("${caption}", ${extra});`;
+  const lines = [
+    `// ${screen.label}`,
+    `async function screen${screen.index}(ctx, edit = false${extraParam(jsVariableParam(screen.variables))}) {`,
+    buildKeyboardAssignment("telegraf", screen.payload, (markup) => `const keyboard = ${markup};`, buildTelegrafKeyboard(screen.payload.reply_markup), "  "),
+  ];
+  if (!screen.editable) {
+    lines.push(`  ${send}`, "}");
+    return lines.join("\n");
+  }
+  const edit = screen.media
+    ? `await ctx.editMessageMedia({ type: "${screen.media.kind}", media: "${escapeStr(screen.media.url)}", caption: "${caption}", parse_mode: "${parseMode}" }, { reply_markup: keyboard.reply_markup });`
+    : `await ctx.editMessageText("${caption}", ${extra});`;
+  lines.push(
+    `  if (edit && ctx.callbackQuery?.message && ${screen.media ? '!("text" in ctx.callbackQuery.message)' : '"text" in ctx.callbackQuery.message'}) {`,
+    `    ${edit}`,
+    "  } else {",
+    `    ${send}`,
+    "  }",
+    "}",
+  );
+  return lines.join("\n");
+};
+
+const generateTelegraf = (screens: PreparedScreen[], textRoutes: TextRoute[], transitions: FlowTransition[]) => {
+  const inputs = flowInputs(screens);
+  const routes = jsRoutes(screens[0], inputs.length > 0, "ctx.chat.id");
+  const textHandler = textRoutes.length
+    ? [
+        "",
+        jsTextRoutes(textRoutes, false),
+        "",
+        inputs.length
+          ? `bot.hears(Object.keys(TEXT_ROUTES), async (ctx) => {\n  const screenId = TEXT_ROUTES[ctx.message.text];\n  await SCREENS[screenId](ctx);\n  ${routes.track("screenId")}\n});`
+          : "bot.hears(Object.keys(TEXT_ROUTES), (ctx) => SCREENS[TEXT_ROUTES[ctx.message.text]](ctx));",
+      ]
+    : [];
+  const callbackManager = flowCallbackManager("telegraf", screens);
+  const handlers = buildHandlers(screens, buildTelegrafScreen, "js");
+  return [
+    'const { Telegraf, Markup } = require("telegraf");',
+    ...(callbackManager ? [callbackManager.importLine] : []),
+    "const bot = new Telegraf(process.env.BOT_TOKEN);",
+    ...(callbackManager ? [callbackManager.setup] : []),
+    "",
+    ...(handlers.helpers.length ? [...handlers.helpers, ""] : []),
+    ...handlers.code.flatMap((code) => [code, ""]),
+    jsScreenMap(screens, false),
+    ...(transitions.length ? ["", buildJsTransitions(transitions, false)] : []),
+    ...(inputs.length ? ["", buildJsInputs(inputs, false)] : []),
+    "",
+    routes.start("bot.start(", "ctx"),
+    "",
+    jsNavigation(
+      "bot.action",
+      { plain: "ctx.answerCbQuery()", transition: "ctx.answerCbQuery(transition.answer, { show_alert: transition.alert })" },
+      routes,
+      transitions,
+      inputs.length > 0,
+    ),
+    "",
+    ...(callbackManager ? [callbackManager.handlers.trimEnd(), ""] : []),
+    'bot.on("callback_query", (ctx) => ctx.answerCbQuery("Received: " + (ctx.callbackQuery?.data || "")));',
+    ...(inputs.length ? ["", buildJsInputDispatcher("telegraf")] : []),
+    ...textHandler,
+    "",
+    "bot.launch();",
+    "",
+  ].join("\n");
+};
+
+const buildGrammyScreen = (screen: PreparedScreen) => {
+  const caption = captionOf(screen.payload);
+  const parseMode = screen.payload.parse_mode;
+  const extra = jsSendOptions(screen, caption, parseMode, "reply_markup: keyboard");
+  const send = screen.group
+    ? `await ctx.replyWithMediaGroup(${buildJsMediaGroup(screen.group)});\n  await ctx.reply("${caption}", ${extra});`
+    : screen.media
+      ? `await ctx.replyWith${pascalMedia(screen.media.kind)}("${escapeStr(screen.media.url)}", ${extra});`
+      : `await ctx.reply("${caption}", ${extra});`;
+  const lines = [
+    `// ${screen.label}`,
+    `async function screen${screen.index}(ctx: Context, edit = false${extraParam(jsVariableParam(screen.variables, true))}) {`,
+    buildKeyboardAssignment("grammy", screen.payload, (markup) => `const keyboard = ${markup};`, buildGrammyKeyboard(screen.payload.reply_markup), "  "),
+  ];
+  if (!screen.editable) {
+    lines.push(`  ${send}`, "}");
+    return lines.join("\n");
+  }
+  const edit = screen.media
+    ? `await ctx.editMessageMedia(InputMediaBuilder.${screen.media.kind}("${escapeStr(screen.media.url)}", { caption: "${caption}", parse_mode: "${parseMode}" }), { reply_markup: keyboard });`
+    : `await ctx.editMessageText("${caption}", ${extra});`;
+  lines.push(
+    `  if (edit && ctx.callbackQuery?.message && ${screen.media ? '!("text" in ctx.callbackQuery.message)' : '"text" in ctx.callbackQuery.message'}) {`,
+    `    ${edit}`,
+    "  } else {",
+    `    ${send}`,
+    "  }",
+    "}",
+  );
+  return lines.join("\n");
+};
+
+const generateGrammy = (screens: PreparedScreen[], textRoutes: TextRoute[], transitions: FlowTransition[]) => {
+  const inputs = flowInputs(screens);
+  const routes = jsRoutes(screens[0], inputs.length > 0, "ctx.chat!.id");
+  const callbackManager = flowCallbackManager("grammy", screens);
+  const handlers = buildHandlers(screens, buildGrammyScreen, "js", true);
+  const imports = [
+    "Bot",
+    "Context",
+    ...new Set(screens.flatMap((screen) => grammyMarkupImports(screen.payload.reply_markup))),
+    ...(screens.some((screen) => screen.media && screen.editable) ? ["InputMediaBuilder"] : []),
+  ];
+  const callbackHandlers = [...new Set(screens.flatMap((screen) => collectCallbackData(screen.payload.reply_markup)))]
+    .filter((data) => !data.startsWith(GOTO_PREFIX) && !isFactoryCallbackData(data))
+    .map((data) => `bot.callbackQuery("${escapeStr(data)}", async (ctx) => {\n  await ctx.answerCallbackQuery("Received: ${escapeStr(data)}");\n});\n`);
+  const textHandler = textRoutes.length
+    ? [
+        "",
+        jsTextRoutes(textRoutes, true),
+        "",
+        inputs.length
+          ? `bot.hears(Object.keys(TEXT_ROUTES), async (ctx) => {\n  const screenId = TEXT_ROUTES[ctx.message!.text!];\n  await SCREENS[screenId](ctx);\n  ${routes.track("screenId")}\n});`
+          : "bot.hears(Object.keys(TEXT_ROUTES), (ctx) => SCREENS[TEXT_ROUTES[ctx.message!.text!]](ctx));",
+      ]
+    : [];
+  const typeNames = [
+    ...(grammyConditionImports(screens.map((screen) => screen.payload)).length ? ["InlineKeyboardButton"] : []),
+    ...(inputs.length ? ["Message"] : []),
+  ];
+  return [
+    `import { ${imports.join(", ")} } from "grammy";`,
+    ...(typeNames.length ? [`import type { ${typeNames.join(", ")} } from "grammy/types";`] : []),
+    ...(callbackManager ? [callbackManager.importLine] : []),
+    "",
+    "const bot = new Bot(process.env.BOT_TOKEN!);",
+    ...(callbackManager ? [callbackManager.setup] : []),
+    "",
+    ...(handlers.helpers.length ? [...handlers.helpers, ""] : []),
+    ...handlers.code.flatMap((code) => [code, ""]),
+    jsScreenMap(screens, true),
+    ...(transitions.length ? ["", buildJsTransitions(transitions, true)] : []),
+    ...(inputs.length ? ["", buildJsInputs(inputs, true)] : []),
+    "",
+    routes.start('bot.command("start", ', "ctx"),
+    "",
+    jsNavigation(
+      "bot.callbackQuery",
+      {
+        plain: "ctx.answerCallbackQuery()",
+        transition: "ctx.answerCallbackQuery({ text: transition.answer, show_alert: transition.alert })",
+      },
+      routes,
+      transitions,
+      inputs.length > 0,
+      true,
+    ),
+    "",
+    ...(callbackManager ? [`${callbackManager.handlers.trimEnd()}\n`] : []),
+    ...callbackHandlers,
+    'bot.on("callback_query:data", (ctx) => ctx.answerCallbackQuery("Received: " + ctx.callbackQuery.data));',
+    ...(inputs.length ? ["", buildJsInputDispatcher("grammy")] : []),
+    ...textHandler,
+    "",
+    "bot.start();",
+    "",
+  ].join("\n");
+};
+
+const buildNodeScreen = (screen: PreparedScreen) => {
+  const caption = captionOf(screen.payload);
+  const parseMode = screen.payload.parse_mode;
+  const extra = jsSendOptions(screen, caption, parseMode, "reply_markup");
+  const send = screen.group
+    ? `await bot.sendMediaGroup(chatId, ${buildJsMediaGroup(screen.group)});\n  await bot.sendMessage(chatId, "${caption}", ${extra});`
+    : screen.media
+      ? `await bot.send${pascalMedia(screen.media.kind)}(chatId, "${escapeStr(screen.media.url)}", ${extra});`
+      : `await bot.sendMessage(chatId, "${caption}", ${extra});`;
+  const lines = [
+    `// ${screen.label}`,
+    `async function screen${screen.index}(chatId, message${extraParam(jsVariableParam(screen.variables))}) {`,
+    buildKeyboardAssignment("node-telegram-bot-api", screen.payload, (markup) => `const reply_markup = ${markup};`, buildJsonMarkup(screen.payload.reply_markup), "  "),
+  ];
+  if (!screen.editable) {
+    lines.push(`  ${send}`, "}");
+    return lines.join("\n");
+  }
+  const target = "chat_id: chatId, message_id: message.message_id";
+  const edit = screen.media
+    ? `await bot.editMessageMedia({ type: "${screen.media.kind}", media: "${escapeStr(screen.media.url)}", caption: "${caption}", parse_mode: "${parseMode}" }, { ${target}, reply_markup });`
+    : `await bot.editMessageText("${caption}", { ${target}, parse_mode: "${parseMode}", ${jsLinkPreviewField(screen.linkPreview)}reply_markup });`;
+  lines.push(
+    `  if (message && message.text ${screen.media ? "=== undefined" : "!== undefined"}) {`,
+    `    ${edit}`,
+    "  } else {",
+    `    ${send}`,
+    "  }",
+    "}",
+  );
+  return lines.join("\n");
+};
+
+const generateNodeTelegramBotApi = (screens: PreparedScreen[], textRoutes: TextRoute[], transitions: FlowTransition[]) => {
+  const handlers = buildHandlers(screens, buildNodeScreen, "js");
+  const inputs = flowInputs(screens);
+  const routes = jsRoutes(screens[0], inputs.length > 0, "msg.chat.id");
+  // Every "message" listener runs; this one is registered before the input dispatcher and leaves waiting chats to it.
+  const textHandler = textRoutes.length
+    ? [
+        "",
+        jsTextRoutes(textRoutes, false),
+        "",
+        inputs.length
+          ? 'bot.on("message", async (msg) => {\n  const screenId = TEXT_ROUTES[msg.text];\n  if (!SCREENS[screenId] || waiting.has(msg.chat.id)) return;\n  await SCREENS[screenId](msg.chat.id);\n  track(msg.chat.id, screenId);\n});'
+          : 'bot.on("message", (msg) => {\n  const handler = SCREENS[TEXT_ROUTES[msg.text]];\n  if (handler) handler(msg.chat.id);\n});',
+      ]
+    : [];
+  return [
+    'const TelegramBot = require("node-telegram-bot-api");',
+    "const bot = new TelegramBot(process.env.BOT_TOKEN, { polling: true });",
+    `const GOTO_PREFIX = "${GOTO_PREFIX}";`,
+    "",
+    ...(handlers.helpers.length ? [...handlers.helpers, ""] : []),
+    ...handlers.code.flatMap((code) => [code, ""]),
+    jsScreenMap(screens, false),
+    ...(transitions.length ? ["", buildJsTransitions(transitions, false)] : []),
+    ...(inputs.length ? ["", buildJsInputs(inputs, false)] : []),
+    "",
+    routes.start("bot.onText(/^\\/start/, ", "msg", "msg.chat.id"),
+    "",
+    transitions.length
+      ? [
+          'bot.on("callback_query", async (query) => {',
+          '  const data = query.data || "";',
+          '  const [screenId, key] = data.slice(GOTO_PREFIX.length).split(":");',
+          "  const handler = data.startsWith(GOTO_PREFIX) ? SCREENS[screenId] : undefined;",
+          "  if (handler) {",
+          "    const transition = TRANSITIONS[key] || {};",
+          "    await bot.answerCallbackQuery(query.id, { text: transition.answer, show_alert: transition.alert });",
+          "    await handler(query.message.chat.id, transition.mode ? undefined : query.message);",
+          '    if (transition.mode === "replace") await bot.deleteMessage(query.message.chat.id, query.message.message_id);',
+          ...(inputs.length ? ["    track(query.message.chat.id, screenId);"] : []),
+          "  } else {",
+          '    await bot.answerCallbackQuery(query.id, { text: "Received: " + data });',
+          "  }",
+          "});",
+        ].join("\n")
+      : `bot.on("callback_query", async (query) => {\n  const data = query.data || "";\n  const handler = data.startsWith(GOTO_PREFIX) ? SCREENS[data.slice(GOTO_PREFIX.length)] : undefined;\n  if (handler) {\n    await bot.answerCallbackQuery(query.id);\n    await handler(query.message.chat.id, query.message);${
+      inputs.length ? "\n    track(query.message.chat.id, data.slice(GOTO_PREFIX.length));" : ""
+    }\n  } else {\n    await bot.answerCallbackQuery(query.id, { text: "Received: " + data });\n  }\n});`,
+    ...textHandler,
+    ...(inputs.length ? ["", buildJsInputDispatcher("node-telegram-bot-api")] : []),
+    "",
+  ].join("\n");
+};
+
+/**
+ * Generate a runnable bot for the whole flow: one handler per screen, `/start` opens the entry screen and
+ * linked buttons edit the current message in place (or send a new one when the message kind can't be edited).
+ * Buttons with another transition or a callback answer get an entry in a `TRANSITIONS` table, keyed by the suffix
+ * of their callback_data, that the navigation route answers with and that makes it send a new message instead
+ * (deleting the old one for `replace`).
+ * Declared variables a screen uses become parameters of its handler, defaulting to their sample values;
+ * buttons with a visibility condition are added to the keyboard inside an `if` on those parameters.
+ * Screens that wait for a reply become states (an aiogram `StatesGroup`, a python-telegram-bot `ConversationHandler`,
+ * a per-chat map in JavaScript) whose handler checks the reply, sends the retry message or opens the next screen.
+ * Returns an empty string when there are no screens.
+ */
+export const generateFlowBot = (
+  framework: CodegenFramework,
+  screens: FlowCodegenScreen[],
+  entryScreenId: string | null,
+  variables: FlowVariable[] = [],
+) => {
+  if (!screens.length) return "";
+  const ordered = orderScreens(screens, entryScreenId);
+  const prepared = prepareScreens(ordered, usableVariables(variables));
+  const textRoutes = collectTextRoutes(ordered, new Set(screens.map((screen) => screen.id)));
+  const inlineKeyboards = ordered.filter((screen) => screen.state.keyboardKind === "inline").map((screen) => screen.state.keyboard);
+  const transitions = collectTransitions(inlineKeyboards);
+  if (framework === "python-telegram-bot") return generatePtb(prepared, textRoutes, transitions);
+  if (framework === "aiogram") return generateAiogram(prepared, textRoutes, transitions);
+  if (framework === "grammy") return generateGrammy(prepared, textRoutes, transitions);
+  if (framework === "node-telegram-bot-api") return generateNodeTelegramBotApi(prepared, textRoutes, transitions);
+  return generateTelegraf(prepared, textRoutes, transitions);
+};
@@ -0,0 +1,169 @@
+import type { InputStep } from "@/types/telegram";
+import { inputPatterns, isTextInput } from "@/lib/inputStep";
+import { escapeStr } from "./markup";
+
+/** A flow screen that waits for the user's reply; `next` is its next screen's id, if that screen is in the flow. */
+export type FlowInput = { id: string; index: number; label: string; step: InputStep; next: string | null };
+
+/** Name of the screen's waiting state: a `StatesGroup` attribute in aiogram, a ConversationHandler state in PTB. */
+const stateName = (input: FlowInput) => `screen_${input.index}`;
+
+const comment = (input: FlowInput) => `Reply to ${input.label}: expects ${input.step.expect}`;
+
+const needsRegex = (inputs: FlowInput[]) => inputs.some((input) => inputPatterns(input.step).length > 0);
+
+/** Python modules the reply checks need. */
+export const pythonInputImports = (inputs: FlowInput[]) => (needsRegex(inputs) ? ["import re"] : []);
+
+/** aiogram `StatesGroup` with one state per input screen. */
+export const buildAiogramStatesGroup = (inputs: FlowInput[]) =>
+  `class InputSteps(StatesGroup):\n${inputs.map((input) => `    ${stateName(input)} = State()`).join("\n")}`;
+
+/** `INPUT_STATES`: the waiting state each input screen's id leads to. */
+export const buildPythonInputStates = (inputs: FlowInput[], flavor: "ptb" | "aiogram") =>
+  `INPUT_STATES = {\n${inputs
+    .map((input) => `    "${escapeStr(input.id)}": ${flavor === "ptb" ? `"${stateName(input)}"` : `InputSteps.${stateName(input)}`},`)
+    .join("\n")}\n}`;
+
+const PYTHON_ATTACHMENTS: Record<"photo" | "location" | "contact", string> = {
+  photo: "message.photo[-1].file_id if message.photo else None",
+  location: "(message.location.latitude, message.location.longitude) if message.location else None",
+  contact: "message.contact.phone_number if message.contact else None",
+};
+
+/** `reply = ...` and the `if` that rejects it, for a handler whose message is `message`. */
+const pythonReplyCheck = (step: InputStep) => {
+  if (!isTextInput(step.expect)) {
+    return [`    reply = ${PYTHON_ATTACHMENTS[step.expect as keyof typeof PYTHON_ATTACHMENTS]}`, "    if reply is None:"];
+  }
+  const checks = ["not reply", ...inputPatterns(step).map((pattern) => `not re.fullmatch("${escapeStr(pattern)}", reply)`)];
+  return ['    reply = (message.text or "").strip()', `    if ${checks.join(" or ")}:`];
+};
+
+/**
+ * PTB handler of an input screen's waiting state: a rejected reply gets the retry message and keeps the state,
+ * an accepted one is stored in `context.user_data` under the screen id and opens the next screen.
+ */
+export const buildPtbInputHandler = (input: FlowInput, nextFn: string | undefined) =>
+  [
+    `# ${comment(input)}`,
+    `async def input_${input.index}(update: Update, context: ContextTypes.DEFAULT_TYPE):`,
+    "    message = update.effective_message",
+    ...pythonReplyCheck(input.step),
+    `        await message.reply_text("${escapeStr(input.step.retry_message)}")`,
+    `        return "${stateName(input)}"`,
+    `    context.user_data["${escapeStr(input.id)}"] = reply`,
+    ...(input.next && nextFn
+      ? [`    await ${nextFn}(update, context)`, `    return INPUT_STATES.get("${escapeStr(input.next)}", ConversationHandler.END)`]
+      : ["    return ConversationHandler.END"]),
+  ].join("\n");
+
+/** `states={...}` entries of the PTB ConversationHandler; any non-command message is checked by the screen's handler. */
+export const buildPtbInputStates = (inputs: FlowInput[]) =>
+  inputs.map((input) => `        "${stateName(input)}": [MessageHandler(filters.ALL & ~filters.COMMAND, input_${input.index})],`).join("\n");
+
+/** aiogram handler of an input screen's state; an accepted reply is stored in the FSM data under the screen id. */
+export const buildAiogramInputHandler = (input: FlowInput, nextFn: string | undefined) =>
+  [
+    `# ${comment(input)}`,
+    `@router.message(InputSteps.${stateName(input)})`,
+    `async def input_${input.index}(message: Message, state: FSMContext):`,
+    ...pythonReplyCheck(input.step),
+    `        await message.answer("${escapeStr(input.step.retry_message)}")`,
+    "        return",
+    `    await state.update_data({"${escapeStr(input.id)}": reply})`,
+    ...(input.next && nextFn
+      ? [`    await ${nextFn}(message)`, `    await state.set_state(INPUT_STATES.get("${escapeStr(input.next)}"))`]
+      : ["    await state.set_state(None)"]),
+  ].join("\n");
+
+const JS_ATTACHMENTS: Record<"photo" | "location" | "contact", string> = {
+  photo: "message.photo && message.photo[message.photo.length - 1].file_id",
+  location: "message.location",
+  contact: "message.contact && message.contact.phone_number",
+};
+
+const jsReply = (step: InputStep) =>
+  isTextInput(step.expect)
+    ? `matchText(message.text, [${inputPatterns(step).map((pattern) => `new RegExp("${escapeStr(`^(?:${pattern})$`)}")`).join(", ")}])`
+    : JS_ATTACHMENTS[step.expect as keyof typeof JS_ATTACHMENTS];
+
+/**
+ * `INPUTS` (how each input screen reads an accepted reply, its retry message and next screen), the chats
+ * currently waiting on one of them, the accepted replies per chat, and `track`, which the routes call after
+ * opening a screen.
+ */
+export const buildJsInputs = (inputs: FlowInput[], typed: boolean) => {
+  const type = (annotation: string) => (typed ? annotation : "");
+  const matchText = inputs.some((input) => isTextInput(input.step.expect))
+    ? [
+        "",
+        `const matchText = (text${type(": string | undefined")}, patterns${type(": RegExp[]")}) => {`,
+        '  const reply = (text || "").trim();',
+        "  return reply && patterns.every((pattern) => pattern.test(reply)) ? reply : undefined;",
+        "};",
+      ]
+    : [];
+  return [
+    ...matchText,
+    "",
+    "// Input screens by id: how to read an accepted reply, what to send for a rejected one, and the next screen.",
+    `const INPUTS${type(": Record<string, { reply: (message: Message) => unknown; retry: string; next?: string }>")} = {`,
+    ...inputs.flatMap((input) => [
+      `  // ${comment(input)}`,
+      `  "${escapeStr(input.id)}": {`,
+      `    reply: (message) => ${jsReply(input.step)},`,
+      `    retry: "${escapeStr(input.step.retry_message)}",`,
+      ...(input.next ? [`    next: "${escapeStr(input.next)}",`] : []),
+      "  },",
+    ]),
+    "};",
+    `const waiting = new Map${type("<number, string>")}();`,
+    `const answers = new Map${type("<number, Record<string, unknown>>")}();`,
+    "",
+    `const track = (chatId${type(": number")}, screenId${type(": string")}) => {`,
+    "  if (screenId in INPUTS) waiting.set(chatId, screenId);",
+    "  else waiting.delete(chatId);",
+    "};",
+  ]
+    .join("\n")
+    .trimStart();
+};
+
+const acceptReply = (chatId: string, open: string) =>
+  [
+    `  answers.set(${chatId}, { ...answers.get(${chatId}), [screenId]: reply });`,
+    `  waiting.delete(${chatId});`,
+    "  if (input.next) {",
+    `    await ${open};`,
+    `    track(${chatId}, input.next);`,
+    "  }",
+    "});",
+  ];
+
+/**
+ * Message handler that checks replies of waiting chats. Telegraf and grammY pass other messages on with
+ * `next()`; node-telegram-bot-api calls every listener, so this one skips commands.
+ */
+export const buildJsInputDispatcher = (framework: "telegraf" | "grammy" | "node-telegram-bot-api") => {
+  if (framework === "node-telegram-bot-api") {
+    return [
+      'bot.on("message", async (msg) => {',
+      "  const screenId = waiting.get(msg.chat.id);",
+      "  const input = screenId ? INPUTS[screenId] : undefined;",
+      '  if (!screenId || !input || (msg.text && msg.text.startsWith("/"))) return;',
+      "  const reply = input.reply(msg);",
+      "  if (reply === undefined) return bot.sendMessage(msg.chat.id, input.retry);",
+      ...acceptReply("msg.chat.id", "SCREENS[input.next](msg.chat.id)"),
+    ].join("\n");
+  }
+  return [
+    'bot.on("message", async (ctx, next) => {',
+    "  const screenId = waiting.get(ctx.chat.id);",
+    "  const input = screenId ? INPUTS[screenId] : undefined;",
+    "  if (!screenId || !input) return next();",
+    "  const reply = input.reply(ctx.message);",
+    "  if (reply === undefined) return ctx.reply(input.retry);",
+    ...acceptReply("ctx.chat.id", "SCREENS[input.next](ctx)"),
+  ].join("\n");
+};
@@ -0,0 +1,21 @@
+import type { LinkPreviewOptions } from "@/types/telegram";
+import { escapeStr, toJsObject, type CodegenPayload } from "./markup";
+
+/** Link preview options of a text payload, or null when Telegram's default preview applies. */
+export const payloadLinkPreview = (payload: CodegenPayload): LinkPreviewOptions | null =>
+  payload.link_preview_options && Object.keys(payload.link_preview_options).length ? payload.link_preview_options : null;
+
+/** `link_preview_options=LinkPreviewOptions(...), ` for a Python send/edit call; same class in python-telegram-bot and aiogram. */
+export const pythonLinkPreviewArgs = (options: LinkPreviewOptions | null) => {
+  if (!options) return "";
+  const args = Object.entries(options).map(([key, value]) =>
+    typeof value === "string" ? `${key}="${escapeStr(value)}"` : `${key}=${value ? "True" : "False"}`
+  );
+  return `link_preview_options=LinkPreviewOptions(${args.join(", ")}), `;
+};
+
+export const pythonLinkPreviewImports = (options: LinkPreviewOptions | null) => (options ? ["LinkPreviewOptions"] : []);
+
+/** `link_preview_options: { ... }, ` for the options object of a JavaScript send/edit call. */
+export const jsLinkPreviewField = (options: LinkPreviewOptions | null) =>
+  options ? `link_preview_options: ${toJsObject(options)}, ` : "";
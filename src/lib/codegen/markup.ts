@@ -0,0 +1,305 @@
+import type { InlineMarkupButton, ReplyMarkup } from "@/lib/keyboard/replyMarkup";
+import { getButtonActionKind, type InlineButtonAction } from "@/lib/keyboard/buttonActions";
+import type { InputMediaPayload } from "@/lib/messagePayload";
+import type { MediaMessageType } from "@/types/templates";
+import type { LinkPreviewOptions, PaginatedKeyboard } from "@/types/telegram";
+
+export type CodegenFramework = "python-telegram-bot" | "aiogram" | "telegraf" | "grammy" | "node-telegram-bot-api";
+
+export type CodegenPayload = Partial<Record<MediaMessageType, string>> & {
+  text?: string;
+  caption?: string;
+  media_group?: InputMediaPayload[];
+  parse_mode?: string;
+  link_preview_options?: LinkPreviewOptions;
+  reply_markup?: ReplyMarkup;
+  /** Codegen only: visibility condition per `inline_keyboard` button (null = always shown); never sent to Telegram. */
+  button_conditions?: (string | null)[][];
+  /** Codegen only: dynamic paginated keyboard whose first page is `inline_keyboard`. */
+  pagination?: PaginatedKeyboard;
+};
+
+export type PythonFlavor = "ptb" | "aiogram";
+
+/** Escape a value for a double-quoted Python or JavaScript string literal. */
+export const escapeStr = (val: string) => val.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+/** Python classes (same names in telegram and aiogram.types) needed by each button action. */
+const PYTHON_ACTION_TYPES: Partial<Record<InlineButtonAction, string>> = {
+  web_app: "WebAppInfo",
+  login_url: "LoginUrl",
+  switch_inline_query_chosen_chat: "SwitchInlineQueryChosenChat",
+  copy_text: "CopyTextButton",
+  callback_game: "CallbackGame",
+};
+
+const inlineRows = (markup?: ReplyMarkup) => (markup && "inline_keyboard" in markup ? markup.inline_keyboard : []);
+const replyRows = (markup?: ReplyMarkup) => (markup && "keyboard" in markup ? markup.keyboard : []);
+
+export const buildPythonAction = (btn: InlineMarkupButton) => {
+  const kind = getButtonActionKind(btn);
+  switch (kind) {
+    case "url":
+      return `url="${escapeStr(btn.url)}"`;
+    case "web_app":
+      return `web_app=WebAppInfo(url="${escapeStr(btn.web_app.url)}")`;
+    case "login_url": {
+      const { url, forward_text, bot_username, request_write_access } = btn.login_url;
+      const args = [`url="${escapeStr(url)}"`];
+      if (forward_text) args.push(`forward_text="${escapeStr(forward_text)}"`);
+      if (bot_username) args.push(`bot_username="${escapeStr(bot_username)}"`);
+      if (request_write_access) args.push("request_write_access=True");
+      return `login_url=LoginUrl(${args.join(", ")})`;
+    }
+    case "switch_inline_query":
+    case "switch_inline_query_current_chat":
+      return `${kind}="${escapeStr(btn[kind])}"`;
+    case "switch_inline_query_chosen_chat": {
+      const { query, ...allowed } = btn.switch_inline_query_chosen_chat;
+      const args = query !== undefined ? [`query="${escapeStr(query)}"`] : [];
+      for (const [key, value] of Object.entries(allowed)) {
+        if (value) args.push(`${key}=True`);
+      }
+      return `switch_inline_query_chosen_chat=SwitchInlineQueryChosenChat(${args.join(", ")})`;
+    }
+    case "copy_text":
+      return `copy_text=CopyTextButton(text="${escapeStr(btn.copy_text.text)}")`;
+    case "callback_game":
+      return "callback_game=CallbackGame()";
+    case "pay":
+      return "pay=True";
+    default:
+      return `callback_data="${escapeStr(btn.callback_data || "")}"`;
+  }
+};
+
+const buildPythonInlineKeyboard = (markup?: ReplyMarkup) =>
+  inlineRows(markup)
+    .map(
+      (row) =>
+        "    [" +
+        row.map((btn) => `InlineKeyboardButton(text="${escapeStr(btn.text)}", ${buildPythonAction(btn)})`).join(", ") +
+        "]"
+    )
+    .join("\n");
+
+const buildPythonReplyKeyboard = (markup?: ReplyMarkup) =>
+  replyRows(markup)
+    .map(
+      (row) =>
+        "    [" +
+        row
+          .map((btn) =>
+            btn.web_app
+              ? `KeyboardButton(text="${escapeStr(btn.text)}", web_app=WebAppInfo(url="${escapeStr(btn.web_app.url)}"))`
+              : `KeyboardButton(text="${escapeStr(btn.text)}")`
+          )
+          .join(", ") +
+        "]"
+    )
+    .join("\n");
+
+// Keyword arguments shared by python-telegram-bot and aiogram for non-inline markups.
+const buildPythonMarkupKwargs = (markup?: ReplyMarkup) => {
+  if (!markup || "inline_keyboard" in markup) return [];
+  const kwargs: string[] = [];
+  if ("resize_keyboard" in markup && markup.resize_keyboard) kwargs.push("resize_keyboard=True");
+  if ("one_time_keyboard" in markup && markup.one_time_keyboard) kwargs.push("one_time_keyboard=True");
+  if ("is_persistent" in markup && markup.is_persistent) kwargs.push("is_persistent=True");
+  if ("input_field_placeholder" in markup && markup.input_field_placeholder) {
+    kwargs.push(`input_field_placeholder="${escapeStr(markup.input_field_placeholder)}"`);
+  }
+  if (markup.selective) kwargs.push("selective=True");
+  return kwargs;
+};
+
+export const buildPythonMarkup = (markup: ReplyMarkup | undefined, flavor: PythonFlavor) => {
+  const kwargs = buildPythonMarkupKwargs(markup);
+  const withKwargs = (head: string) => [head, ...kwargs].filter(Boolean).join(", ");
+  if (markup && "keyboard" in markup) {
+    const rows = `[\n${buildPythonReplyKeyboard(markup)}\n    ]`;
+    return flavor === "ptb"
+      ? `ReplyKeyboardMarkup(${withKwargs(rows)})`
+      : `ReplyKeyboardMarkup(${withKwargs(`keyboard=${rows}`)})`;
+  }
+  if (markup && "remove_keyboard" in markup) return `ReplyKeyboardRemove(${withKwargs("")})`;
+  if (markup && "force_reply" in markup) return `ForceReply(${withKwargs("")})`;
+  const rows = inlineRows(markup).length ? `[\n${buildPythonInlineKeyboard(markup)}\n    ]` : "[]";
+  return flavor === "ptb" ? `InlineKeyboardMarkup(${rows})` : `InlineKeyboardMarkup(inline_keyboard=${rows})`;
+};
+
+const pythonActionImports = (markup?: ReplyMarkup) => {
+  const used = new Set<string>();
+  for (const btn of [...inlineRows(markup).flat(), ...replyRows(markup).flat()]) {
+    const type = PYTHON_ACTION_TYPES[getButtonActionKind(btn) as InlineButtonAction];
+    if (type) used.add(type);
+  }
+  return [...used];
+};
+
+/** Python names a markup needs imported, in a stable order. */
+export const pythonMarkupImports = (markup?: ReplyMarkup) => {
+  if (markup && "keyboard" in markup) return ["KeyboardButton", "ReplyKeyboardMarkup", ...pythonActionImports(markup)];
+  if (markup && "remove_keyboard" in markup) return ["ReplyKeyboardRemove"];
+  if (markup && "force_reply" in markup) return ["ForceReply"];
+  return ["InlineKeyboardButton", "InlineKeyboardMarkup", ...pythonActionImports(markup)];
+};
+
+export const buildTelegrafButton = (btn: InlineMarkupButton) => {
+  const text = `"${escapeStr(btn.text)}"`;
+  const kind = getButtonActionKind(btn);
+  switch (kind) {
+    case "url":
+      return `Markup.button.url(${text}, "${escapeStr(btn.url)}")`;
+    case "web_app":
+      return `Markup.button.webApp(${text}, "${escapeStr(btn.web_app.url)}")`;
+    case "login_url": {
+      const { url, ...opts } = btn.login_url;
+      const extra = Object.keys(opts).length ? `, ${JSON.stringify(opts)}` : "";
+      return `Markup.button.login(${text}, "${escapeStr(url)}"${extra})`;
+    }
+    case "switch_inline_query":
+      return `Markup.button.switchToChat(${text}, "${escapeStr(btn.switch_inline_query)}")`;
+    case "switch_inline_query_current_chat":
+      return `Markup.button.switchToCurrentChat(${text}, "${escapeStr(btn.switch_inline_query_current_chat)}")`;
+    case "switch_inline_query_chosen_chat":
+    case "copy_text":
+      // No Markup.button helper for these yet; emit the raw Bot API object.
+      return `{ text: ${text}, ${kind}: ${JSON.stringify(btn[kind])} }`;
+    case "callback_game":
+      return `Markup.button.game(${text})`;
+    case "pay":
+      return `Markup.button.pay(${text})`;
+    default:
+      return `Markup.button.callback(${text}, "${escapeStr(btn.callback_data || "")}")`;
+  }
+};
+
+export const buildTelegrafKeyboard = (markup?: ReplyMarkup) => {
+  if (markup && "keyboard" in markup) {
+    const rows = replyRows(markup)
+      .map(
+        (row) =>
+          "[" +
+          row
+            .map((btn) =>
+              btn.web_app
+                ? `Markup.button.webApp("${escapeStr(btn.text)}", "${escapeStr(btn.web_app.url)}")`
+                : `"${escapeStr(btn.text)}"`
+            )
+            .join(", ") +
+          "]"
+      )
+      .join(",\n    ");
+    const modifiers = [
+      markup.resize_keyboard ? ".resize()" : "",
+      markup.one_time_keyboard ? ".oneTime()" : "",
+      markup.is_persistent ? ".persistent()" : "",
+      markup.input_field_placeholder ? `.placeholder("${escapeStr(markup.input_field_placeholder)}")` : "",
+      markup.selective ? ".selective()" : "",
+    ].join("");
+    return `Markup.keyboard([\n    ${rows}\n  ])${modifiers}`;
+  }
+  if (markup && "remove_keyboard" in markup) {
+    return `Markup.removeKeyboard()${markup.selective ? ".selective()" : ""}`;
+  }
+  if (markup && "force_reply" in markup) {
+    const placeholder = markup.input_field_placeholder ? `.placeholder("${escapeStr(markup.input_field_placeholder)}")` : "";
+    return `Markup.forceReply()${placeholder}${markup.selective ? ".selective()" : ""}`;
+  }
+  const kb = inlineRows(markup);
+  if (!kb.length) return "Markup.inlineKeyboard([])";
+  const rows = kb.map((row) => "[" + row.map(buildTelegrafButton).join(", ") + "]").join(",\n    ");
+  return `Markup.inlineKeyboard([\n    ${rows}\n  ])`;
+};
+
+/** Format a flat object as a JavaScript literal with unquoted keys. */
+export const toJsObject = (value: object) =>
+  `{ ${Object.entries(value)
+    .map(([key, val]) => `${key}: ${JSON.stringify(val)}`)
+    .join(", ")} }`;
+
+export const buildGrammyButton = (btn: InlineMarkupButton) => {
+  const text = `"${escapeStr(btn.text)}"`;
+  switch (getButtonActionKind(btn)) {
+    case "url":
+      return `.url(${text}, "${escapeStr(btn.url)}")`;
+    case "web_app":
+      return `.webApp(${text}, "${escapeStr(btn.web_app.url)}")`;
+    case "login_url":
+      return Object.keys(btn.login_url).length > 1
+        ? `.login(${text}, ${toJsObject(btn.login_url)})`
+        : `.login(${text}, "${escapeStr(btn.login_url.url)}")`;
+    case "switch_inline_query":
+      return `.switchInline(${text}, "${escapeStr(btn.switch_inline_query)}")`;
+    case "switch_inline_query_current_chat":
+      return `.switchInlineCurrent(${text}, "${escapeStr(btn.switch_inline_query_current_chat)}")`;
+    case "switch_inline_query_chosen_chat":
+      return `.switchInlineChosen(${text}, ${toJsObject(btn.switch_inline_query_chosen_chat)})`;
+    case "copy_text":
+      return `.copyText(${text}, "${escapeStr(btn.copy_text.text)}")`;
+    case "callback_game":
+      return `.game(${text})`;
+    case "pay":
+      return `.pay(${text})`;
+    default:
+      return `.text(${text}, "${escapeStr(btn.callback_data || "")}")`;
+  }
+};
+
+/** grammY `InlineKeyboard`/`Keyboard` builder chain (continuation lines are indented for a 2-space body). */
+export const buildGrammyKeyboard = (markup?: ReplyMarkup) => {
+  const chain = (head: string, rows: string[]) =>
+    rows.length ? `${head}\n    ${rows.join(".row()\n    ")}` : head;
+  if (markup && "keyboard" in markup) {
+    const rows = replyRows(markup).map((row) =>
+      row
+        .map((btn) =>
+          btn.web_app
+            ? `.webApp("${escapeStr(btn.text)}", "${escapeStr(btn.web_app.url)}")`
+            : `.text("${escapeStr(btn.text)}")`
+        )
+        .join("")
+    );
+    const modifiers = [
+      markup.resize_keyboard ? ".resized()" : "",
+      markup.one_time_keyboard ? ".oneTime()" : "",
+      markup.is_persistent ? ".persistent()" : "",
+      markup.input_field_placeholder ? `.placeholder("${escapeStr(markup.input_field_placeholder)}")` : "",
+      markup.selective ? ".selected()" : "",
+    ].join("");
+    return `${chain("new Keyboard()", rows)}${modifiers}`;
+  }
+  if (markup && ("remove_keyboard" in markup || "force_reply" in markup)) {
+    return `${toJsObject(markup)} as const`;
+  }
+  return chain("new InlineKeyboard()", inlineRows(markup).map((row) => row.map(buildGrammyButton).join("")));
+};
+
+/** Names a grammY snippet imports for its markup. */
+export const grammyMarkupImports = (markup?: ReplyMarkup) => {
+  if (markup && "keyboard" in markup) return ["Keyboard"];
+  if (markup && ("remove_keyboard" in markup || "force_reply" in markup)) return [];
+  return ["InlineKeyboard"];
+};
+
+/** Raw Bot API `reply_markup` literal for node-telegram-bot-api, indented for a 2-space body. */
+export const buildJsonMarkup = (markup?: ReplyMarkup) => {
+  if (!markup) return "undefined";
+  const fields = Object.entries(markup).map(([key, value]) =>
+    Array.isArray(value)
+      ? `${key}: [\n${value.map((row: object[]) => `      [${row.map(toJsObject).join(", ")}],`).join("\n")}\n    ]`
+      : `${key}: ${JSON.stringify(value)}`
+  );
+  return `{\n    ${fields.join(",\n    ")},\n  }`;
+};
+
+/** Distinct callback_data values of an inline markup, in button order. */
+export const collectCallbackData = (markup?: ReplyMarkup) => [
+  ...new Set(
+    inlineRows(markup)
+      .flat()
+      .map((btn) => btn.callback_data)
+      .filter((data): data is string => !!data)
+  ),
+];
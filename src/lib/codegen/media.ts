@@ -0,0 +1,49 @@
+import type { MediaMessageType } from "@/types/templates";
+import { MEDIA_MESSAGE_TYPES, type InputMediaPayload } from "@/lib/messagePayload";
+import { escapeStr, type CodegenPayload } from "./markup";
+
+export type PayloadMedia = { kind: MediaMessageType; url: string };
+
+/** Media types `editMessageMedia` accepts; voice notes and video notes can only be sent. */
+const EDITABLE_MEDIA = new Set<MediaMessageType>(["photo", "video", "animation", "audio", "document"]);
+
+/** The single media a payload sends with `send<Type>`, or null for text messages and albums. */
+export const payloadMedia = (payload: CodegenPayload): PayloadMedia | null => {
+  const kind = MEDIA_MESSAGE_TYPES.find((type) => typeof payload[type] === "string");
+  return kind ? { kind, url: payload[kind]! } : null;
+};
+
+/** Album items of a payload; the payload's text and keyboard are sent as a follow-up message. */
+export const payloadMediaGroup = (payload: CodegenPayload) => (payload.media_group?.length ? payload.media_group : null);
+
+export const isEditableMedia = (kind: MediaMessageType) => EDITABLE_MEDIA.has(kind);
+
+/** Video notes are sent without caption or parse mode. */
+export const hasCaption = (kind: MediaMessageType) => kind !== "video_note";
+
+/** `video_note` → `VideoNote`, as used by `replyWith*` / `send*` / `InputMedia*` names. */
+export const pascalMedia = (kind: string) => kind.replace(/(?:^|_)([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+export const pythonInputMedia = (type: string) => `InputMedia${pascalMedia(type)}`;
+
+/** `[InputMediaPhoto(media="...", caption="..."), ...]`; keyword arguments work in both python-telegram-bot and aiogram. */
+export const buildPythonMediaGroup = (items: InputMediaPayload[]) =>
+  `[${items
+    .map((item) => {
+      const args = [`media="${escapeStr(item.media)}"`];
+      if (item.caption) args.push(`caption="${escapeStr(item.caption)}"`, `parse_mode="${item.parse_mode}"`);
+      return `${pythonInputMedia(item.type)}(${args.join(", ")})`;
+    })
+    .join(", ")}]`;
+
+export const pythonMediaGroupImports = (items: InputMediaPayload[]) => [...new Set(items.map((item) => pythonInputMedia(item.type)))];
+
+/** Plain Bot API `InputMedia` objects, accepted by Telegraf, grammY and node-telegram-bot-api alike. */
+export const buildJsMediaGroup = (items: InputMediaPayload[]) =>
+  `[${items
+    .map((item) => {
+      const fields = [`type: "${item.type}"`, `media: "${escapeStr(item.media)}"`];
+      if (item.caption) fields.push(`caption: "${escapeStr(item.caption)}"`, `parse_mode: "${item.parse_mode}"`);
+      return `{ ${fields.join(", ")} }`;
+    })
+    .join(", ")}]`;
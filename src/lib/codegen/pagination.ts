@@ -0,0 +1,173 @@
+import type { KeyboardKind, PaginatedKeyboard } from "@/types/telegram";
+import { itemCallbackData, PAGE_COUNTER_CALLBACK } from "@/lib/keyboard/pagination";
+import type { CallbackRoute } from "./callbackRoutes";
+import { escapeStr, type CodegenFramework, type CodegenPayload } from "./markup";
+
+/** Payload carrying the screen's dynamic paginated keyboard, so the code builds pages instead of the static first one. */
+export const withPagination = (payload: CodegenPayload, kind: KeyboardKind, pagination?: PaginatedKeyboard): CodegenPayload =>
+  pagination && kind === "inline" && payload.reply_markup?.inline_keyboard ? { ...payload, pagination } : payload;
+
+/** `<markup>` built from the first page, replacing the framework's static markup expression. */
+export const pageMarkup = (framework: CodegenFramework) => {
+  switch (framework) {
+    case "python-telegram-bot":
+      return "InlineKeyboardMarkup(page_keyboard(1))";
+    case "aiogram":
+      return "InlineKeyboardMarkup(inline_keyboard=page_keyboard(1))";
+    case "telegraf":
+      return "Markup.inlineKeyboard(pageKeyboard(1))";
+    case "grammy":
+      return "new InlineKeyboard(pageKeyboard(1))";
+    default:
+      return "{ inline_keyboard: pageKeyboard(1) }";
+  }
+};
+
+/** The page buttons are handled by the page handler, so they get no callback-factory stub. */
+export const withoutPageRoute = (routes: CallbackRoute[]) => routes.filter((route) => !(route.ns === "page" && route.action === "nav"));
+
+const itemTuples = (pagination: PaginatedKeyboard, open: string, close: string, indent: string) =>
+  pagination.items
+    .map((item, index) => `${indent}${open}"${escapeStr(item.text)}", "${escapeStr(itemCallbackData(item, index))}"${close},`)
+    .join("\n");
+
+const buildPythonHelpers = (pagination: PaginatedKeyboard) =>
+  [
+    `PAGE_ITEMS = [\n${itemTuples(pagination, "(", ")", "    ")}\n]`,
+    `PAGE_SIZE = ${pagination.page_size}`,
+    `PAGE_COLUMNS = ${pagination.columns}`,
+    "PAGE_COUNT = max(1, -(-len(PAGE_ITEMS) // PAGE_SIZE))",
+    "",
+    "def page_callback(page: int) -> str:",
+    '    # Same callback_data as CallbackFactory.make("page", "nav", {"page": page}) without a nonce.',
+    '    data = base64.urlsafe_b64encode(json.dumps({"page": page}, separators=(",", ":")).encode()).decode().rstrip("=")',
+    '    return f"page:nav:{data}:"',
+    "",
+    "def parse_page(data: str) -> int:",
+    '    encoded = data.split(":")[2]',
+    '    return int(json.loads(base64.urlsafe_b64decode(encoded + "=" * (-len(encoded) % 4)))["page"])',
+    "",
+    "def page_keyboard(page: int) -> list:",
+    "    page = min(max(page, 1), PAGE_COUNT)",
+    "    items = PAGE_ITEMS[(page - 1) * PAGE_SIZE : page * PAGE_SIZE]",
+    "    rows = [",
+    "        [InlineKeyboardButton(text=text, callback_data=data) for text, data in items[i : i + PAGE_COLUMNS]]",
+    "        for i in range(0, len(items), PAGE_COLUMNS)",
+    "    ]",
+    "    nav = []",
+    "    if page > 1:",
+    '        nav.append(InlineKeyboardButton(text="◀", callback_data=page_callback(page - 1)))',
+    `    nav.append(InlineKeyboardButton(text=f"{page}/{PAGE_COUNT}", callback_data="${PAGE_COUNTER_CALLBACK}"))`,
+    "    if page < PAGE_COUNT:",
+    '        nav.append(InlineKeyboardButton(text="▶", callback_data=page_callback(page + 1)))',
+    "    rows.append(nav)",
+    "    return rows",
+  ].join("\n");
+
+type JsTarget = { button: (text: string, data: string) => string; typed: boolean };
+
+const JS_TARGETS: Record<"telegraf" | "grammy" | "node-telegram-bot-api", JsTarget> = {
+  telegraf: { button: (text, data) => `Markup.button.callback(${text}, ${data})`, typed: false },
+  grammy: { button: (text, data) => `InlineKeyboard.text(${text}, ${data})`, typed: true },
+  "node-telegram-bot-api": { button: (text, data) => `{ text: ${text}, callback_data: ${data} }`, typed: false },
+};
+
+const buildJsHelpers = (pagination: PaginatedKeyboard, target: JsTarget) => {
+  const type = (annotation: string) => (target.typed ? `: ${annotation}` : "");
+  const button = target.button("text", "data");
+  // An arrow function returning an object literal needs parentheses.
+  const itemButton = button.startsWith("{") ? `(${button})` : button;
+  return [
+    `const PAGE_ITEMS${type("[string, string][]")} = [\n${itemTuples(pagination, "[", "]", "  ")}\n];`,
+    `const PAGE_SIZE = ${pagination.page_size};`,
+    `const PAGE_COLUMNS = ${pagination.columns};`,
+    "const PAGE_COUNT = Math.max(1, Math.ceil(PAGE_ITEMS.length / PAGE_SIZE));",
+    "",
+    '// Same callback_data as CallbackFactory.make("page", "nav", { page }, { nonce: false }).',
+    `const pageCallback = (page${type("number")}) => \`page:nav:\${Buffer.from(JSON.stringify({ page })).toString("base64url")}:\`;`,
+    `const parsePage = (data${type("string")}) => Number(JSON.parse(Buffer.from(data.split(":")[2], "base64url").toString()).page) || 1;`,
+    "",
+    `const pageKeyboard = (page${type("number")}) => {`,
+    "  const current = Math.min(Math.max(page, 1), PAGE_COUNT);",
+    "  const items = PAGE_ITEMS.slice((current - 1) * PAGE_SIZE, current * PAGE_SIZE);",
+    `  const rows${type("InlineKeyboardButton[][]")} = [];`,
+    "  for (let i = 0; i < items.length; i += PAGE_COLUMNS) {",
+    `    rows.push(items.slice(i, i + PAGE_COLUMNS).map(([text, data]) => ${itemButton}));`,
+    "  }",
+    `  const nav${type("InlineKeyboardButton[]")} = [];`,
+    `  if (current > 1) nav.push(${target.button('"◀"', "pageCallback(current - 1)")});`,
+    `  nav.push(${target.button("`${current}/${PAGE_COUNT}`", `"${PAGE_COUNTER_CALLBACK}"`)});`,
+    `  if (current < PAGE_COUNT) nav.push(${target.button('"▶"', "pageCallback(current + 1)")});`,
+    "  rows.push(nav);",
+    "  return rows;",
+    "};",
+  ].join("\n");
+};
+
+/** Item list and `page_keyboard(page)` / `pageKeyboard(page)` definitions, placed before the `/start` handler. */
+export const buildPaginationHelpers = (framework: CodegenFramework, pagination: PaginatedKeyboard) =>
+  framework === "python-telegram-bot" || framework === "aiogram"
+    ? buildPythonHelpers(pagination)
+    : buildJsHelpers(pagination, JS_TARGETS[framework]);
+
+/** Python modules the page callbacks need. */
+export const paginationPythonImports = (payload: CodegenPayload) => (payload.pagination ? ["import base64", "import json"] : []);
+
+/**
+ * Handler that redraws the keyboard for the page a ◀ / ▶ button points to and answers the counter button.
+ * It must be registered before the catch-all callback handler. node-telegram-bot-api has a single
+ * `callback_query` listener, so its handler replaces the catch-all one.
+ */
+export const buildPageHandler = (framework: CodegenFramework) => {
+  switch (framework) {
+    case "python-telegram-bot":
+      return [
+        "async def on_page(update: Update, context: ContextTypes.DEFAULT_TYPE):",
+        "    query = update.callback_query",
+        "    await query.answer()",
+        '    if query.data.startswith("page:nav:"):',
+        "        await query.edit_message_reply_markup(reply_markup=InlineKeyboardMarkup(page_keyboard(parse_page(query.data))))",
+      ].join("\n");
+    case "aiogram":
+      return [
+        `@router.callback_query(F.data.startswith("page:nav:") | (F.data == "${PAGE_COUNTER_CALLBACK}"))`,
+        "async def on_page(query: CallbackQuery):",
+        '    if query.data.startswith("page:nav:"):',
+        "        await query.message.edit_reply_markup(reply_markup=InlineKeyboardMarkup(inline_keyboard=page_keyboard(parse_page(query.data))))",
+        "    await query.answer()",
+      ].join("\n");
+    case "telegraf":
+      return [
+        "bot.action(/^page:nav:/, async (ctx) => {",
+        '  const data = "data" in ctx.callbackQuery ? ctx.callbackQuery.data : "";',
+        "  await ctx.editMessageReplyMarkup(Markup.inlineKeyboard(pageKeyboard(parsePage(data))).reply_markup);",
+        "  await ctx.answerCbQuery();",
+        "});",
+        "",
+        `bot.action("${PAGE_COUNTER_CALLBACK}", (ctx) => ctx.answerCbQuery());`,
+      ].join("\n");
+    case "grammy":
+      return [
+        "bot.callbackQuery(/^page:nav:/, async (ctx) => {",
+        "  await ctx.editMessageReplyMarkup({ reply_markup: new InlineKeyboard(pageKeyboard(parsePage(ctx.callbackQuery.data))) });",
+        "  await ctx.answerCallbackQuery();",
+        "});",
+        "",
+        `bot.callbackQuery("${PAGE_COUNTER_CALLBACK}", (ctx) => ctx.answerCallbackQuery());`,
+      ].join("\n");
+    default:
+      return [
+        'bot.on("callback_query", (query) => {',
+        '  if (query.data && query.data.startsWith("page:nav:")) {',
+        "    bot.editMessageReplyMarkup(",
+        "      { inline_keyboard: pageKeyboard(parsePage(query.data)) },",
+        "      { chat_id: query.message.chat.id, message_id: query.message.message_id }",
+        "    );",
+        "    return bot.answerCallbackQuery(query.id);",
+        "  }",
+        `  if (query.data === "${PAGE_COUNTER_CALLBACK}") return bot.answerCallbackQuery(query.id);`,
+        '  return bot.answerCallbackQuery(query.id, { text: "Received: " + (query.data || "") });',
+        "});",
+      ].join("\n");
+  }
+};
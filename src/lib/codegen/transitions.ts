@@ -0,0 +1,74 @@
+import type { KeyboardButton } from "@/types/telegram";
+import { buttonTransition, GOTO_SCREEN_PREFIX, hasCustomTransition, transitionKey } from "@/lib/keyboard/transitions";
+import { escapeStr } from "./markup";
+
+/**
+ * What a linked button does besides opening its screen, looked up by the key its callback_data carries
+ * (see linkCallbackData): send a new message instead of editing (`replace` also deletes the old one) and
+ * answer the callback query with a text or an alert.
+ */
+export type FlowTransition = { key: string; mode?: "send" | "replace"; answer?: string; alert?: boolean };
+
+/** Transitions of the linked buttons that need more than the default edit; empty when the flow has none. */
+export const collectTransitions = (keyboards: { buttons: KeyboardButton[] }[][]): FlowTransition[] => {
+  const transitions = new Map<string, FlowTransition>();
+  for (const button of keyboards.flat().flatMap((row) => row.buttons)) {
+    if (!hasCustomTransition(button)) continue;
+    const key = transitionKey(button.id);
+    const mode = buttonTransition(button);
+    transitions.set(key, {
+      key,
+      ...(mode !== "edit" && { mode }),
+      ...(button.callback_answer?.text && { answer: button.callback_answer.text }),
+      ...(button.callback_answer?.show_alert && { alert: true }),
+    });
+  }
+  return [...transitions.values()];
+};
+
+/** `TRANSITIONS` dict of a Python bot. */
+export const buildPythonTransitions = (transitions: FlowTransition[]) =>
+  `TRANSITIONS = {\n${transitions
+    .map((transition) => {
+      const fields = [
+        ...(transition.mode ? [`"mode": "${transition.mode}"`] : []),
+        ...(transition.answer ? [`"answer": "${escapeStr(transition.answer)}"`] : []),
+        ...(transition.alert ? ['"alert": True'] : []),
+      ];
+      return `    "${transition.key}": {${fields.join(", ")}},`;
+    })
+    .join("\n")}\n}`;
+
+/** `TRANSITIONS` object of a JavaScript bot; typed for grammY. */
+export const buildJsTransitions = (transitions: FlowTransition[], typed: boolean) =>
+  `${typed ? 'type Transition = { mode?: "send" | "replace"; answer?: string; alert?: boolean };\n\n' : ""}const TRANSITIONS${
+    typed ? ": Record<string, Transition>" : ""
+  } = {\n${transitions
+    .map((transition) => {
+      const fields = [
+        ...(transition.mode ? [`mode: "${transition.mode}"`] : []),
+        ...(transition.answer ? [`answer: "${escapeStr(transition.answer)}"`] : []),
+        ...(transition.alert ? ["alert: true"] : []),
+      ];
+      return `  "${transition.key}": { ${fields.join(", ")} },`;
+    })
+    .join("\n")}\n};`;
+
+/** Navigation callback_data with the screen id in the first group and the transition key, if any, in the second. */
+export const JS_GOTO_PATTERN = `/^${GOTO_SCREEN_PREFIX}([^:]+)(?::(.+))?$/`;
+
+/** `screen_id` and `key` of a Python navigation callback, from the callback_data in `data`. */
+export const pythonGotoParse = (data: string) => `screen_id, _, key = ${data}.removeprefix(GOTO_PREFIX).partition(":")`;
+
+/**
+ * Body of a Python navigation handler once the screen's handler is found: answer the query, open the screen
+ * (editing the message only for the default transition) and delete the old message for `replace`.
+ */
+export const pythonTransitionLines = (open: (edit: string) => string, indent: string) =>
+  [
+    'transition = TRANSITIONS.get(key, {})',
+    'await query.answer(transition.get("answer"), show_alert=transition.get("alert", False))',
+    open('not transition.get("mode")'),
+    'if transition.get("mode") == "replace":',
+    "    await query.message.delete()",
+  ].map((line) => `${indent}${line}`);
@@ -0,0 +1,148 @@
+import type { FlowVariable } from "@/types/telegram";
+import { conditionVariables } from "@/lib/conditions";
+import { isUsableVariableName } from "@/lib/variables";
+import { escapeStr, type CodegenPayload } from "./markup";
+
+export type CodeLanguage = "python" | "js";
+
+/**
+ * Stand-in for a `{{name}}` of the formatted message text. Text values must be escaped for the parse mode at
+ * runtime, unlike button texts and URLs, so the two kinds of placeholders are told apart before code is built.
+ * A private-use character survives both escapeStr and JSON.stringify unchanged.
+ */
+const TEXT_MARK = "\uE000";
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** `{{name}}` as written, or as MarkdownV2 escapes it (`\{\{first\_name\}\}`). */
+const formattedTokenPattern = (names: string[]) =>
+  new RegExp(`\\\\?\\{\\\\?\\{\\s*(${names.map((name) => escapeRegExp(name).replace(/_/g, "\\\\?_")).join("|")})\\s*\\\\?\\}\\\\?\\}`, "g");
+
+const plainTokenPattern = (names: string[]) => new RegExp(`\\{\\{\\s*(${names.map(escapeRegExp).join("|")})\\s*\\}\\}`, "g");
+
+const markText = (text: string, pattern: RegExp) =>
+  text.replace(pattern, (_, name: string) => `${TEXT_MARK}${name.replace(/\\/g, "")}${TEXT_MARK}`);
+
+/**
+ * Declarations that can become handler parameters. The variable editor rejects the others, but drafts reach the
+ * code view unsaved; their placeholders are left as written, like those of undeclared variables.
+ */
+export const usableVariables = (variables: FlowVariable[]) => variables.filter((variable) => isUsableVariableName(variable.name));
+
+/** Payload whose formatted text and captions carry marked placeholders of the declared variables. */
+export const markPayloadVariables = (payload: CodegenPayload, variables: FlowVariable[]): CodegenPayload => {
+  const names = variables.map((variable) => variable.name).filter(Boolean);
+  if (!names.length) return payload;
+  const pattern = formattedTokenPattern(names);
+  return {
+    ...payload,
+    ...(payload.text !== undefined && { text: markText(payload.text, pattern) }),
+    ...(payload.caption !== undefined && { caption: markText(payload.caption, pattern) }),
+    ...(payload.media_group && {
+      media_group: payload.media_group.map((item) => (item.caption ? { ...item, caption: markText(item.caption, pattern) } : item)),
+    }),
+  };
+};
+
+/** Declared variables a (marked) payload refers to, including its button conditions, in declaration order. */
+export const payloadVariables = (payload: CodegenPayload, variables: FlowVariable[]) => {
+  const { button_conditions, ...rest } = payload;
+  const serialized = JSON.stringify(rest);
+  const inConditions = new Set((button_conditions ?? []).flat().flatMap((condition) => (condition ? conditionVariables(condition) : [])));
+  return variables.filter(
+    (variable) =>
+      variable.name &&
+      (inConditions.has(variable.name) ||
+        serialized.includes(`${TEXT_MARK}${variable.name}${TEXT_MARK}`) ||
+        plainTokenPattern([variable.name]).test(serialized)),
+  );
+};
+
+const defaultLiteral = (variable: FlowVariable, language: CodeLanguage) => {
+  if (variable.type === "number") return String(Number(variable.sample.trim()) || 0);
+  if (variable.type === "boolean") {
+    const value = variable.sample === "true";
+    return language === "python" ? (value ? "True" : "False") : String(value);
+  }
+  return `"${escapeStr(variable.sample)}"`;
+};
+
+const PYTHON_TYPES: Record<FlowVariable["type"], string> = { string: "str", number: "float", boolean: "bool" };
+
+/** `*, name: str = "sample"`: keyword-only parameters, so existing positional calls keep working. */
+export const pythonVariableParams = (variables: FlowVariable[]) =>
+  variables.length
+    ? `*, ${variables.map((variable) => `${variable.name}: ${PYTHON_TYPES[variable.type]} = ${defaultLiteral(variable, "python")}`).join(", ")}`
+    : "";
+
+/** `{ name = "sample" } = {}` (typed for TypeScript): a trailing options object that callers may omit. */
+export const jsVariableParam = (variables: FlowVariable[], typed = false) => {
+  if (!variables.length) return "";
+  const defaults = `{ ${variables.map((variable) => `${variable.name} = ${defaultLiteral(variable, "js")}`).join(", ")} }`;
+  const type = typed ? `: { ${variables.map((variable) => `${variable.name}?: ${variable.type}`).join("; ")} }` : "";
+  return `${defaults}${type} = {}`;
+};
+
+const ESCAPERS: Record<CodeLanguage, Record<string, string>> = {
+  python: { HTML: "escape_html", MarkdownV2: "escape_markdown_v2" },
+  js: { HTML: "escapeHtml", MarkdownV2: "escapeMarkdownV2" },
+};
+
+const STRING_LITERAL = /"((?:[^"\\\n]|\\.)*)"/g;
+
+/**
+ * Turn the string literals of generated code that contain placeholders of `variables` into f-strings (Python)
+ * or template literals (JavaScript). Message text placeholders go through the parse mode's escape helper;
+ * button texts and URLs are interpolated as-is. Comment lines are left alone.
+ */
+export const interpolateCode = (code: string, language: CodeLanguage, variables: FlowVariable[], parseMode = "HTML") => {
+  const names = variables.map((variable) => variable.name).filter(Boolean);
+  if (!names.length) return code;
+  const token = new RegExp(`${TEXT_MARK}(${names.map(escapeRegExp).join("|")})${TEXT_MARK}|${plainTokenPattern(names).source}`, "g");
+  const escaper = ESCAPERS[language][parseMode] ?? ESCAPERS[language].HTML;
+  const convert = (literalCode: string, body: string) => {
+    const matches = [...body.matchAll(token)];
+    if (!matches.length) return literalCode;
+    const parts: string[] = [];
+    let last = 0;
+    for (const match of matches) {
+      const literal = body.slice(last, match.index);
+      parts.push(language === "python" ? literal.replace(/[{}]/g, "$&$&") : literal.replace(/`|\$\{/g, "\\$&"));
+      const expression = match[1] ? `${escaper}(${match[1]})` : match[2];
+      parts.push(language === "python" ? `{${expression}}` : `\${${expression}}`);
+      last = match.index! + match[0].length;
+    }
+    const rest = body.slice(last);
+    parts.push(language === "python" ? rest.replace(/[{}]/g, "$&$&") : rest.replace(/`|\$\{/g, "\\$&"));
+    return language === "python" ? `f"${parts.join("")}"` : `\`${parts.join("")}\``;
+  };
+  return code
+    .split("\n")
+    .map((line) =>
+      /^\s*(#|\/\/)/.test(line)
+        ? line
+        : line.replace(STRING_LITERAL, convert),
+    )
+    .join("\n");
+};
+
+const HELPERS: Record<CodeLanguage, Record<string, (typed: boolean) => string>> = {
+  python: {
+    escape_html: () =>
+      'def escape_html(value) -> str:\n    return str(value).replace("&", "&amp;").replace("<", "&lt;").replace(">", "&gt;")',
+    escape_markdown_v2: () =>
+      'def escape_markdown_v2(value) -> str:\n    return "".join("\\\\" + ch if ch in "_*[]()~`>#+-=|{}.!\\\\" else ch for ch in str(value))',
+  },
+  js: {
+    escapeHtml: (typed) =>
+      `const escapeHtml = (value${typed ? ": unknown" : ""}) => String(value).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");`,
+    escapeMarkdownV2: (typed) =>
+      `const escapeMarkdownV2 = (value${typed ? ": unknown" : ""}) => String(value).replace(/[_*[\\]()~\`>#+\\-=|{}.!\\\\]/g, "\\\\$&");`,
+  },
+};
+
+/** Definitions of the escape helpers that `code` calls, to be placed before the code that uses them. */
+export const escapeHelpers = (code: string, language: CodeLanguage, typed = false) =>
+  Object.entries(HELPERS[language])
+    .filter(([name]) => code.includes(`${name}(`))
+    .map(([, helper]) => helper(typed));
@@ -0,0 +1,273 @@
+import type { FlowVariable } from "@/types/telegram";
+
+/**
+ * Button visibility conditions: small boolean expressions over flow variables, e.g. `is_admin`,
+ * `plan == "pro" && credits > 0` or `!(has_paid)`. Comparisons take one operator each (no chaining),
+ * `!` binds looser than comparisons (`!a == b` means `!(a == b)`), then `&&`, then `||`.
+ */
+export type ComparisonOperator = "==" | "!=" | ">" | ">=" | "<" | "<=";
+
+export type ConditionNode =
+  | { type: "literal"; value: string | number | boolean }
+  | { type: "variable"; name: string }
+  | { type: "not"; operand: ConditionNode }
+  | { type: "logical"; operator: "&&" | "||"; left: ConditionNode; right: ConditionNode }
+  | { type: "compare"; operator: ComparisonOperator; left: ConditionNode; right: ConditionNode };
+
+type Token =
+  | { kind: "identifier"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "string"; value: string }
+  | { kind: "operator"; value: string };
+
+export class ConditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConditionError";
+  }
+}
+
+const OPERATORS = ["==", "!=", ">=", "<=", "&&", "||", ">", "<", "!", "(", ")"];
+const COMPARISON_OPERATORS = new Set<string>(["==", "!=", ">", ">=", "<", "<="]);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+    if (identifier) {
+      tokens.push({ kind: "identifier", value: identifier[0] });
+      i += identifier[0].length;
+      continue;
+    }
+    const number = /^\d+(?:\.\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ kind: "number", value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+    if (rest[0] === '"') {
+      let value = "";
+      let j = 1;
+      while (j < rest.length && rest[j] !== '"') {
+        if (rest[j] === "\\" && j + 1 < rest.length) j += 1;
+        value += rest[j];
+        j += 1;
+      }
+      if (j >= rest.length) throw new ConditionError("字符串缺少结束引号");
+      tokens.push({ kind: "string", value });
+      i += j + 1;
+      continue;
+    }
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+    if (!operator) throw new ConditionError(`无法识别的字符 "${rest[0]}"`);
+    tokens.push({ kind: "operator", value: operator });
+    i += operator.length;
+  }
+  return tokens;
+};
+
+const describeToken = (token?: Token) => (token ? `"${token.kind === "string" ? `"${token.value}"` : token.value}"` : "表达式结尾");
+
+/** Parse a condition, throwing a ConditionError with a readable message when it is malformed. */
+export const parseCondition = (source: string): ConditionNode => {
+  const tokens = tokenize(source);
+  if (!tokens.length) throw new ConditionError("条件不能为空");
+  let pos = 0;
+  const peekOperator = (value: string) => tokens[pos]?.kind === "operator" && tokens[pos].value === value;
+
+  const parseOr = (): ConditionNode => {
+    let left = parseAnd();
+    while (peekOperator("||")) {
+      pos += 1;
+      left = { type: "logical", operator: "||", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ConditionNode => {
+    let left = parseNot();
+    while (peekOperator("&&")) {
+      pos += 1;
+      left = { type: "logical", operator: "&&", left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): ConditionNode => {
+    if (peekOperator("!")) {
+      pos += 1;
+      return { type: "not", operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ConditionNode => {
+    const left = parsePrimary();
+    const token = tokens[pos];
+    if (token?.kind === "operator" && COMPARISON_OPERATORS.has(token.value)) {
+      pos += 1;
+      const right = parsePrimary();
+      const next = tokens[pos];
+      if (next?.kind === "operator" && COMPARISON_OPERATORS.has(next.value)) {
+        throw new ConditionError("比较不能连写，请用 && 连接");
+      }
+      return { type: "compare", operator: token.value as ComparisonOperator, left, right };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): ConditionNode => {
+    const token = tokens[pos];
+    pos += 1;
+    if (!token) throw new ConditionError("条件不完整");
+    if (token.kind === "number" || token.kind === "string") return { type: "literal", value: token.value };
+    if (token.kind === "identifier") {
+      if (token.value === "true" || token.value === "false") return { type: "literal", value: token.value === "true" };
+      return { type: "variable", name: token.value };
+    }
+    if (token.value === "(") {
+      const inner = parseOr();
+      if (!peekOperator(")")) throw new ConditionError("缺少右括号");
+      pos += 1;
+      return inner;
+    }
+    throw new ConditionError(`意外的 ${describeToken(token)}`);
+  };
+
+  const tree = parseOr();
+  if (pos < tokens.length) throw new ConditionError(`意外的 ${describeToken(tokens[pos])}`);
+  return tree;
+};
+
+const collectNames = (node: ConditionNode, names: string[]) => {
+  if (node.type === "variable") names.push(node.name);
+  else if (node.type === "not") collectNames(node.operand, names);
+  else if (node.type !== "literal") {
+    collectNames(node.left, names);
+    collectNames(node.right, names);
+  }
+  return names;
+};
+
+/** Variables a condition refers to, in order of first use; a malformed condition refers to none. */
+export const conditionVariables = (source: string) => {
+  try {
+    return [...new Set(collectNames(parseCondition(source), []))];
+  } catch {
+    return [];
+  }
+};
+
+/** Typed value of a variable from its text form (sample or simulated value). */
+const typedValue = (raw: string | undefined, type: FlowVariable["type"] | undefined) => {
+  if (raw === undefined) return undefined;
+  if (type === "number") return Number(raw.trim());
+  if (type === "boolean") return raw === "true";
+  return raw;
+};
+
+const evaluate = (node: ConditionNode, lookup: (name: string) => unknown): unknown => {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "variable":
+      return lookup(node.name);
+    case "not":
+      return !evaluate(node.operand, lookup);
+    case "logical":
+      return node.operator === "&&"
+        ? !!evaluate(node.left, lookup) && !!evaluate(node.right, lookup)
+        : !!evaluate(node.left, lookup) || !!evaluate(node.right, lookup);
+    case "compare": {
+      const left = evaluate(node.left, lookup) as string | number;
+      const right = evaluate(node.right, lookup) as string | number;
+      if (node.operator === "==") return left === right;
+      if (node.operator === "!=") return left !== right;
+      if (left === undefined || right === undefined) return false;
+      if (node.operator === ">") return left > right;
+      if (node.operator === ">=") return left >= right;
+      if (node.operator === "<") return left < right;
+      return left <= right;
+    }
+  }
+};
+
+/**
+ * Whether a button with this condition is shown for the given variable values (text form, as in the preview).
+ * Values are typed by the variable declarations; an empty or malformed condition always shows the button.
+ */
+export const evaluateCondition = (source: string | undefined, values: Record<string, string>, variables: FlowVariable[]) => {
+  if (!source?.trim()) return true;
+  let tree: ConditionNode;
+  try {
+    tree = parseCondition(source);
+  } catch {
+    return true;
+  }
+  const types = new Map(variables.map((variable) => [variable.name, variable.type]));
+  return !!evaluate(tree, (name) => typedValue(values[name], types.get(name)));
+};
+
+type Syntax = {
+  and: string;
+  or: string;
+  not: (operand: string) => string;
+  equal: string;
+  notEqual: string;
+  boolean: (value: boolean) => string;
+};
+
+const PYTHON_SYNTAX: Syntax = {
+  and: "and",
+  or: "or",
+  not: (operand) => `not ${operand}`,
+  equal: "==",
+  notEqual: "!=",
+  boolean: (value) => (value ? "True" : "False"),
+};
+
+const JS_SYNTAX: Syntax = {
+  and: "&&",
+  or: "||",
+  not: (operand) => `!${operand}`,
+  equal: "===",
+  notEqual: "!==",
+  boolean: String,
+};
+
+const print = (node: ConditionNode, syntax: Syntax): string => {
+  // Parenthesize wherever the two targets' precedence could differ from ours: `!` and comparison operands that
+  // are not plain values, and `||` inside `&&`.
+  const wrapped = (child: ConditionNode) => `(${print(child, syntax)})`;
+  switch (node.type) {
+    case "literal":
+      return typeof node.value === "boolean" ? syntax.boolean(node.value) : JSON.stringify(node.value);
+    case "variable":
+      return node.name;
+    case "not":
+      return syntax.not(node.operand.type === "logical" || node.operand.type === "compare" ? wrapped(node.operand) : print(node.operand, syntax));
+    case "logical": {
+      const side = (child: ConditionNode) =>
+        child.type === "logical" && child.operator !== node.operator && node.operator === "&&" ? wrapped(child) : print(child, syntax);
+      return `${side(node.left)} ${node.operator === "&&" ? syntax.and : syntax.or} ${side(node.right)}`;
+    }
+    case "compare": {
+      const operator = node.operator === "==" ? syntax.equal : node.operator === "!=" ? syntax.notEqual : node.operator;
+      const side = (child: ConditionNode) => (child.type === "literal" || child.type === "variable" ? print(child, syntax) : wrapped(child));
+      return `${side(node.left)} ${operator} ${side(node.right)}`;
+    }
+  }
+};
+
+/** Python expression for a condition (`and`/`or`/`not`, `True`/`False`). */
+export const toPythonCondition = (source: string) => print(parseCondition(source), PYTHON_SYNTAX);
+
+/** JavaScript expression for a condition (strict equality). */
+export const toJsCondition = (source: string) => print(parseCondition(source), JS_SYNTAX);
@@ -1,6 +1,8 @@
 import { supabase } from "@/integrations/supabase/client";
 import type { TablesInsert, TablesUpdate, Database } from "@/integrations/supabase/types";
+import type { WorkspaceRole } from "@/types/telegram";
 import { withRetry, logSupabaseError, type RetryEvent } from "./supabaseRetry";
+import { messageColumns } from "./messagePayload";
 
 export type SaveScreenInput = TablesInsert<"screens">;
 export type UpdateScreenInput = {
@@ -13,10 +15,35 @@ export type DeleteScreensInput = {
 };
 
 export type UpsertPinsInput = TablesInsert<"user_pins">;
+export type SaveProjectInput = Pick<TablesInsert<"projects">, "name" | "bot_username" | "default_parse_mode" | "workspace_id">;
+export type UpdateProjectInput = {
+  projectId: string;
+  update: Pick<TablesUpdate<"projects">, "name" | "bot_username" | "default_parse_mode" | "entry_screen_id" | "workspace_id">;
+};
 export type UpsertLayoutsInput = TablesInsert<"screen_layouts">[];
+/** Entry screen of a project, or of the screens without a project when `projectId` is null. */
+export type SaveEntryScreenInput = {
+  projectId: string | null;
+  screenId: string | null;
+};
+
+export type WorkspaceMemberInput = {
+  workspaceId: string;
+  userId: string;
+};
+export type SaveWorkspaceInviteInput = {
+  workspaceId: string;
+  email: string;
+  role: Exclude<WorkspaceRole, "owner">;
+};
 
 export interface DataAccessOptions {
   userId?: string | null;
+  /**
+   * The user's role in the workspace the rows belong to. Unset for personal rows, which are also matched on
+   * `user_id`; workspace rows may have been created by other members, so RLS alone scopes them.
+   */
+  workspaceRole?: WorkspaceRole | null;
   retryAttempts?: number;
   backoffMs?: number;
   jitterRatio?: number;
@@ -25,9 +52,14 @@ export interface DataAccessOptions {
 
 type ScreenRow = Database["public"]["Tables"]["screens"]["Row"];
 type LayoutRow = Database["public"]["Tables"]["screen_layouts"]["Row"];
+type ProjectRow = Database["public"]["Tables"]["projects"]["Row"];
+type WorkspaceRow = Database["public"]["Tables"]["workspaces"]["Row"];
+type WorkspaceMemberRow = Database["public"]["Tables"]["workspace_members"]["Row"];
+type WorkspaceInviteRow = Database["public"]["Tables"]["workspace_invites"]["Row"];
 type PublicScreenResult = Database["public"]["Functions"]["get_public_screen_by_token"]["Returns"];
 type PublicScreenRow = PublicScreenResult extends (infer Row)[] ? Row : PublicScreenResult;
-type ScreenCopySource = Pick<ScreenRow, "name" | "message_content" | "keyboard" | "is_public" | "share_token">;
+type ScreenCopySource = Pick<ScreenRow, "name" | "message_content" | "keyboard" | "is_public" | "share_token"> &
+  Partial<Pick<ScreenRow, "parse_mode" | "message_type" | "media_url">>;
 
 /**
  * SupabaseDataAccess centralizes persistence operations with retries,
@@ -35,6 +67,7 @@ type ScreenCopySource = Pick<ScreenRow, "name" | "message_content" | "keyboard"
  */
 export class SupabaseDataAccess {
   private readonly userId?: string | null;
+  private readonly workspaceRole?: WorkspaceRole | null;
   private readonly retryAttempts: number;
   private readonly backoffMs: number;
   private readonly jitterRatio: number;
@@ -42,6 +75,7 @@ export class SupabaseDataAccess {
 
   constructor(private readonly client = supabase, options: DataAccessOptions = {}) {
     this.userId = options.userId;
+    this.workspaceRole = options.workspaceRole;
     this.retryAttempts = options.retryAttempts ?? 3;
     this.backoffMs = options.backoffMs ?? 400;
     this.jitterRatio = options.jitterRatio ?? 0.25;
@@ -49,7 +83,7 @@ export class SupabaseDataAccess {
   }
 
   async saveScreen(payload: SaveScreenInput) {
-    const targetUserId = assertUserOwnership("saveScreen", payload.user_id ?? this.userId);
+    const targetUserId = assertPermission("saveScreen", payload.user_id ?? this.userId, this.workspaceRole, "editor");
     const nextPayload: SaveScreenInput = { ...payload, user_id: targetUserId };
     return this.run("insert", "screens", async () => {
       const { data, error } = await this.client
@@ -63,7 +97,7 @@ export class SupabaseDataAccess {
   }
 
   async insertScreens(payload: SaveScreenInput[]): Promise<ScreenRow[]> {
-    const targetUserId = assertUserOwnership("insertScreens", this.userId);
+    const targetUserId = assertPermission("insertScreens", this.userId, this.workspaceRole, "editor");
     if (payload.length === 0) return [];
     const sanitized = payload.map((screen) => ({ ...screen, user_id: targetUserId }));
     return this.run("insert_many", "screens", async () => {
@@ -74,32 +108,29 @@ export class SupabaseDataAccess {
   }
 
   async updateScreen(params: UpdateScreenInput) {
-    const targetUserId = assertUserOwnership("updateScreen", params.update.user_id ?? this.userId);
+    const targetUserId = assertPermission("updateScreen", params.update.user_id ?? this.userId, this.workspaceRole, "editor");
 
     return this.run("update", "screens", async () => {
-      const { data, error } = await this.client
-        .from("screens")
-        .update(params.update)
-        .eq("id", params.screenId)
-        .eq("user_id", targetUserId)
-        .select()
-        .single();
+      let query = this.client.from("screens").update(params.update).eq("id", params.screenId);
+      if (!this.workspaceRole) query = query.eq("user_id", targetUserId);
+      const { data, error } = await query.select().single();
       assertNoError(error);
       return data;
     });
   }
 
   async deleteScreens(params: DeleteScreensInput) {
-    const targetUserId = assertUserOwnership("deleteScreens", this.userId);
+    const targetUserId = assertPermission("deleteScreens", this.userId, this.workspaceRole, "editor");
     return this.run("delete", "screens", async () => {
-      const { error } = await this.client.from("screens").delete().eq("user_id", targetUserId).in("id", params.ids);
+      const query = this.client.from("screens").delete();
+      const { error } = await (this.workspaceRole ? query : query.eq("user_id", targetUserId)).in("id", params.ids);
       assertNoError(error);
       return params.ids;
     });
   }
 
   async upsertPins(payload: UpsertPinsInput) {
-    const targetUserId = assertUserOwnership("upsertPins", payload.user_id ?? this.userId);
+    const targetUserId = assertPermission("upsertPins", payload.user_id ?? this.userId, this.workspaceRole, "viewer");
     const nextPayload: UpsertPinsInput = { ...payload, user_id: targetUserId };
     return this.run("upsert", "user_pins", async () => {
       const { error } = await this.client.from("user_pins").upsert(nextPayload, { onConflict: "user_id" });
@@ -109,7 +140,7 @@ export class SupabaseDataAccess {
   }
 
   async fetchPins(): Promise<string[]> {
-    const targetUserId = assertUserOwnership("fetchPins", this.userId);
+    const targetUserId = assertPermission("fetchPins", this.userId, this.workspaceRole, "viewer");
     return this.run("select", "user_pins", async () => {
       const { data, error } = await this.client
         .from("user_pins")
@@ -123,7 +154,7 @@ export class SupabaseDataAccess {
 
   async upsertLayouts(payload: UpsertLayoutsInput) {
     if (payload.length === 0) return [];
-    const targetUserId = assertUserOwnership("upsertLayouts", payload[0]?.user_id ?? this.userId);
+    const targetUserId = assertPermission("upsertLayouts", payload[0]?.user_id ?? this.userId, this.workspaceRole, "viewer");
     const normalized = payload.map((layout) => ({ ...layout, user_id: targetUserId }));
     return this.run("upsert", "screen_layouts", async () => {
       const { error } = await this.client
@@ -135,7 +166,7 @@ export class SupabaseDataAccess {
   }
 
   async deleteLayouts(params: { ids?: string[] }) {
-    const targetUserId = assertUserOwnership("deleteLayouts", this.userId);
+    const targetUserId = assertPermission("deleteLayouts", this.userId, this.workspaceRole, "viewer");
     return this.run("delete", "screen_layouts", async () => {
       const query = this.client.from("screen_layouts").delete().eq("user_id", targetUserId);
       if (params.ids && params.ids.length > 0) {
@@ -148,7 +179,7 @@ export class SupabaseDataAccess {
   }
 
   async fetchLayouts(params: { ids: string[] }): Promise<LayoutRow[]> {
-    const targetUserId = assertUserOwnership("fetchLayouts", this.userId);
+    const targetUserId = assertPermission("fetchLayouts", this.userId, this.workspaceRole, "viewer");
     if (params.ids.length === 0) return [];
     return this.run("select", "screen_layouts", async () => {
       const { data, error } = await this.client
@@ -161,6 +192,226 @@ export class SupabaseDataAccess {
     });
   }
 
+  async fetchProjects(): Promise<ProjectRow[]> {
+    const targetUserId = assertPermission("fetchProjects", this.userId, this.workspaceRole, "viewer");
+    return this.run("select", "projects", async () => {
+      const { data, error } = await this.client
+        .from("projects")
+        .select("*")
+        .eq("user_id", targetUserId)
+        .order("created_at", { ascending: true });
+      assertNoError(error);
+      return (data ?? []) as ProjectRow[];
+    });
+  }
+
+  /** Projects other members filed under the user's workspaces; RLS limits them to those workspaces. */
+  async fetchSharedProjects(): Promise<ProjectRow[]> {
+    const targetUserId = assertPermission("fetchSharedProjects", this.userId, this.workspaceRole, "viewer");
+    return this.run("select", "projects", async () => {
+      const { data, error } = await this.client
+        .from("projects")
+        .select("*")
+        .not("workspace_id", "is", null)
+        .neq("user_id", targetUserId)
+        .order("created_at", { ascending: true });
+      assertNoError(error);
+      return (data ?? []) as ProjectRow[];
+    });
+  }
+
+  async createProject(payload: SaveProjectInput): Promise<ProjectRow> {
+    const targetUserId = assertPermission("createProject", this.userId, this.workspaceRole, "viewer");
+    return this.run("insert", "projects", async () => {
+      const { data, error } = await this.client
+        .from("projects")
+        .insert([{ ...payload, user_id: targetUserId }])
+        .select()
+        .single();
+      assertNoError(error);
+      return data as ProjectRow;
+    });
+  }
+
+  async updateProject(params: UpdateProjectInput): Promise<ProjectRow> {
+    const targetUserId = assertPermission("updateProject", this.userId, this.workspaceRole, "editor");
+    return this.run("update", "projects", async () => {
+      let query = this.client.from("projects").update(params.update).eq("id", params.projectId);
+      if (!this.workspaceRole) query = query.eq("user_id", targetUserId);
+      const { data, error } = await query.select().single();
+      assertNoError(error);
+      return data as ProjectRow;
+    });
+  }
+
+  /** Entry screens of projects live on the project row; the ungrouped one lives next to the pins. */
+  async fetchEntryScreen(params: { projectId: string | null }): Promise<string | null> {
+    const targetUserId = assertPermission("fetchEntryScreen", this.userId, this.workspaceRole, "viewer");
+    if (params.projectId) {
+      return this.run("select", "projects", async () => {
+        let query = this.client.from("projects").select("entry_screen_id").eq("id", params.projectId);
+        if (!this.workspaceRole) query = query.eq("user_id", targetUserId);
+        const { data, error } = await query.single();
+        if (error && error.code !== "PGRST116") throw error;
+        return data?.entry_screen_id ?? null;
+      });
+    }
+    return this.run("select", "user_pins", async () => {
+      const { data, error } = await this.client
+        .from("user_pins")
+        .select("entry_screen_id")
+        .eq("user_id", targetUserId)
+        .single();
+      if (error && error.code !== "PGRST116") throw error;
+      return data?.entry_screen_id ?? null;
+    });
+  }
+
+  async saveEntryScreen(params: SaveEntryScreenInput) {
+    const targetUserId = assertPermission("saveEntryScreen", this.userId, this.workspaceRole, "editor");
+    if (params.projectId) {
+      return this.run("update", "projects", async () => {
+        const query = this.client.from("projects").update({ entry_screen_id: params.screenId }).eq("id", params.projectId);
+        const { error } = await (this.workspaceRole ? query : query.eq("user_id", targetUserId));
+        assertNoError(error);
+        return params;
+      });
+    }
+    return this.run("upsert", "user_pins", async () => {
+      const { error } = await this.client
+        .from("user_pins")
+        .upsert({ user_id: targetUserId, entry_screen_id: params.screenId }, { onConflict: "user_id" });
+      assertNoError(error);
+      return params;
+    });
+  }
+
+  /** Workspaces the user belongs to, oldest first, each with the user's role. */
+  async fetchWorkspaces(): Promise<(WorkspaceRow & { role: string })[]> {
+    const targetUserId = assertPermission("fetchWorkspaces", this.userId, this.workspaceRole, "viewer");
+    return this.run("select", "workspaces", async () => {
+      const { data: memberships, error } = await this.client
+        .from("workspace_members")
+        .select("workspace_id, role")
+        .eq("user_id", targetUserId);
+      assertNoError(error);
+      if (!memberships || memberships.length === 0) return [];
+      const roles = new Map(memberships.map((membership) => [membership.workspace_id, membership.role]));
+      const { data, error: workspacesError } = await this.client
+        .from("workspaces")
+        .select("*")
+        .in("id", Array.from(roles.keys()))
+        .order("created_at", { ascending: true });
+      assertNoError(workspacesError);
+      return ((data ?? []) as WorkspaceRow[]).map((workspace) => ({ ...workspace, role: roles.get(workspace.id) ?? "viewer" }));
+    });
+  }
+
+  /** The creator becomes the owner member (database trigger). */
+  async createWorkspace(payload: { name: string }): Promise<WorkspaceRow> {
+    const targetUserId = assertPermission("createWorkspace", this.userId, this.workspaceRole, "viewer");
+    return this.run("insert", "workspaces", async () => {
+      const { data, error } = await this.client
+        .from("workspaces")
+        .insert([{ name: payload.name, owner_id: targetUserId }])
+        .select()
+        .single();
+      assertNoError(error);
+      return data as WorkspaceRow;
+    });
+  }
+
+  async fetchWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberRow[]> {
+    assertPermission("fetchWorkspaceMembers", this.userId, this.workspaceRole, "viewer");
+    return this.run("select", "workspace_members", async () => {
+      const { data, error } = await this.client
+        .from("workspace_members")
+        .select("*")
+        .eq("workspace_id", workspaceId)
+        .order("created_at", { ascending: true });
+      assertNoError(error);
+      return (data ?? []) as WorkspaceMemberRow[];
+    });
+  }
+
+  async updateWorkspaceMember(params: WorkspaceMemberInput & { role: Exclude<WorkspaceRole, "owner"> }) {
+    assertPermission("updateWorkspaceMember", this.userId, this.workspaceRole, "owner");
+    return this.run("update", "workspace_members", async () => {
+      const { data, error } = await this.client
+        .from("workspace_members")
+        .update({ role: params.role })
+        .eq("workspace_id", params.workspaceId)
+        .eq("user_id", params.userId)
+        .select()
+        .single();
+      assertNoError(error);
+      return data as WorkspaceMemberRow;
+    });
+  }
+
+  /** Owners remove members; any member may remove themselves (leave). */
+  async removeWorkspaceMember(params: WorkspaceMemberInput) {
+    const required: WorkspaceRole = params.userId === this.userId ? "viewer" : "owner";
+    assertPermission("removeWorkspaceMember", this.userId, this.workspaceRole, required);
+    return this.run("delete", "workspace_members", async () => {
+      const { error } = await this.client
+        .from("workspace_members")
+        .delete()
+        .eq("workspace_id", params.workspaceId)
+        .eq("user_id", params.userId);
+      assertNoError(error);
+      return params;
+    });
+  }
+
+  /** Pending (not yet accepted) invites of a workspace. */
+  async fetchWorkspaceInvites(workspaceId: string): Promise<WorkspaceInviteRow[]> {
+    assertPermission("fetchWorkspaceInvites", this.userId, this.workspaceRole, "owner");
+    return this.run("select", "workspace_invites", async () => {
+      const { data, error } = await this.client
+        .from("workspace_invites")
+        .select("*")
+        .eq("workspace_id", workspaceId)
+        .is("accepted_at", null)
+        .order("created_at", { ascending: true });
+      assertNoError(error);
+      return (data ?? []) as WorkspaceInviteRow[];
+    });
+  }
+
+  /** The token is generated by the database and returned with the invite. */
+  async createWorkspaceInvite(params: SaveWorkspaceInviteInput): Promise<WorkspaceInviteRow> {
+    const targetUserId = assertPermission("createWorkspaceInvite", this.userId, this.workspaceRole, "owner");
+    return this.run("insert", "workspace_invites", async () => {
+      const { data, error } = await this.client
+        .from("workspace_invites")
+        .insert([{ workspace_id: params.workspaceId, email: params.email, role: params.role, invited_by: targetUserId }])
+        .select()
+        .single();
+      assertNoError(error);
+      return data as WorkspaceInviteRow;
+    });
+  }
+
+  async revokeWorkspaceInvite(inviteId: string) {
+    assertPermission("revokeWorkspaceInvite", this.userId, this.workspaceRole, "owner");
+    return this.run("delete", "workspace_invites", async () => {
+      const { error } = await this.client.from("workspace_invites").delete().eq("id", inviteId);
+      assertNoError(error);
+      return inviteId;
+    });
+  }
+
+  /** Joins the invite's workspace; the invite must be addressed to the signed-in user's email. */
+  async acceptWorkspaceInvite(token: string): Promise<string> {
+    assertPermission("acceptWorkspaceInvite", this.userId, this.workspaceRole, "viewer");
+    return this.run("rpc", "workspace_invites", async () => {
+      const { data, error } = await this.client.rpc("accept_workspace_invite", { invite_token: token });
+      assertNoError(error);
+      return data as string;
+    });
+  }
+
   async getPublicScreenByToken(token: string, options?: { signal?: AbortSignal }): Promise<PublicScreenRow | null> {
     return this.run("select", "screens", async () => {
       const baseQuery = this.client.rpc("get_public_screen_by_token", { token });
@@ -181,6 +432,9 @@ export class SupabaseDataAccess {
       user_id: userId,
       name: `${source.name}${nameSuffix}`,
       message_content: source.message_content,
+      ...(source.parse_mode
+        ? { parse_mode: source.parse_mode, message_type: source.message_type ?? null, media_url: source.media_url ?? null }
+        : messageColumns(source.message_content)),
       keyboard: source.keyboard,
       is_public: false,
       share_token: null,
@@ -189,48 +443,39 @@ export class SupabaseDataAccess {
   }
 
   async publishShareToken(params: { screenId: string; token: string }) {
-    const targetUserId = assertUserOwnership("publishShareToken", this.userId);
+    const targetUserId = assertPermission("publishShareToken", this.userId, this.workspaceRole, "editor");
 
     return this.run("share_publish", "screens", async () => {
-      const { data, error } = await this.client
+      let query = this.client
         .from("screens")
         .update({ share_token: params.token, is_public: true })
-        .eq("id", params.screenId)
-        .eq("user_id", targetUserId)
-        .select()
-        .single();
+        .eq("id", params.screenId);
+      if (!this.workspaceRole) query = query.eq("user_id", targetUserId);
+      const { data, error } = await query.select().single();
       assertNoError(error);
       return data as ScreenRow;
     });
   }
 
   async rotateShareToken(screenId: string, token: string) {
-    const targetUserId = assertUserOwnership("rotateShareToken", this.userId);
+    const targetUserId = assertPermission("rotateShareToken", this.userId, this.workspaceRole, "editor");
 
     return this.run("share_rotate", "screens", async () => {
-      const { data, error } = await this.client
-        .from("screens")
-        .update({ share_token: token, is_public: true })
-        .eq("id", screenId)
-        .eq("user_id", targetUserId)
-        .select()
-        .single();
+      let query = this.client.from("screens").update({ share_token: token, is_public: true }).eq("id", screenId);
+      if (!this.workspaceRole) query = query.eq("user_id", targetUserId);
+      const { data, error } = await query.select().single();
       assertNoError(error);
       return data as ScreenRow;
     });
   }
 
   async revokeShareToken(screenId: string) {
-    const targetUserId = assertUserOwnership("revokeShareToken", this.userId);
+    const targetUserId = assertPermission("revokeShareToken", this.userId, this.workspaceRole, "editor");
 
     return this.run("share_revoke", "screens", async () => {
-      const { data, error } = await this.client
-        .from("screens")
-        .update({ share_token: null, is_public: false })
-        .eq("id", screenId)
-        .eq("user_id", targetUserId)
-        .select()
-        .single();
+      let query = this.client.from("screens").update({ share_token: null, is_public: false }).eq("id", screenId);
+      if (!this.workspaceRole) query = query.eq("user_id", targetUserId);
+      const { data, error } = await query.select().single();
       assertNoError(error);
       return data as ScreenRow;
     });
@@ -274,10 +519,26 @@ const safeUUID = () => {
   return `req_${Date.now()}_${Math.random().toString(16).slice(2)}`;
 };
 
-const assertUserOwnership = (action: string, userId?: string | null) => {
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+const ROLE_LABELS: Record<WorkspaceRole, string> = { owner: "所有者", editor: "编辑者", viewer: "查看者" };
+
+/**
+ * Returns the acting user id once the user may perform `action`: a signed-in user, whose workspace role (when the
+ * rows belong to a workspace) is at least `required`. Personal rows are the user's own. RLS enforces the same
+ * rules server-side; this fails fast with a readable message.
+ */
+const assertPermission = (
+  action: string,
+  userId: string | null | undefined,
+  role: WorkspaceRole | null | undefined,
+  required: WorkspaceRole,
+) => {
   if (typeof userId !== "string" || userId.trim().length === 0) {
     throw new Error(`操作「${action}」需要用户登录或有效的用户 ID`);
   }
+  if (role && ROLE_RANK[role] < ROLE_RANK[required]) {
+    throw new Error(`操作「${action}」需要${ROLE_LABELS[required]}权限，当前为${ROLE_LABELS[role]}`);
+  }
   return userId;
 };
 
@@ -0,0 +1,128 @@
+import type { FlowVariable, KeyboardRow, Screen } from "@/types/telegram";
+import { parseSerializedMessage, screenToMessageState, serializeMessageState } from "@/lib/messagePayload";
+import { linkCallbackData } from "@/lib/keyboard/transitions";
+import { validateFlowExport } from "@/lib/validation";
+import { FLOW_FORMAT_VERSION } from "@/lib/flowMigrations";
+
+/**
+ * Flow bundles: the whole flow in one JSON file that FlowExportSchema validates — every screen with its message
+ * as the editor resolves it (parse mode, media, keyboard kind, input step), the entry screen, variables, diagram
+ * positions and pinned screens. Importing a bundle gives its screens fresh ids, so a flow can be copied into
+ * another account (or twice into the same one) without clashing with existing screens.
+ */
+
+export type FlowLayout = { screen_id: string; x: number; y: number };
+
+export type FlowBundleScreen = Pick<Screen, "id" | "name" | "message_content" | "keyboard"> & { is_public: boolean };
+
+export type FlowBundle = {
+  /** FLOW_FORMAT_VERSION when written; older files are migrated on import. */
+  version: number;
+  entry_screen_id: string;
+  screens: FlowBundleScreen[];
+  variables?: FlowVariable[];
+  /** Diagram node positions by screen id. */
+  layouts?: FlowLayout[];
+  /** Screens pinned in the screen list. */
+  pinned_ids?: string[];
+};
+
+export type FlowBundleSource = {
+  screens: Screen[];
+  entryScreenId: string;
+  variables: FlowVariable[];
+  layouts: FlowLayout[];
+  pinnedIds: string[];
+};
+
+/** Drop links to screens outside the flow; a button left without an action falls back to its text. */
+const relinkKeyboard = (keyboard: KeyboardRow[], relink: (id: string) => string | undefined): KeyboardRow[] =>
+  keyboard.map((row) => ({
+    ...row,
+    buttons: row.buttons.map((button) => {
+      if (!button.linked_screen_id) return button;
+      const target = relink(button.linked_screen_id);
+      if (target) {
+        const linked = { ...button, linked_screen_id: target };
+        return { ...linked, callback_data: linkCallbackData(linked) };
+      }
+      return { ...button, linked_screen_id: undefined, transition: undefined, callback_answer: undefined, callback_data: undefined };
+    }),
+  }));
+
+/** Point the input step's next screen at the new id, or end the conversation when it is not part of the flow. */
+const relinkMessageContent = (content: string, relink: (id: string) => string | undefined) => {
+  const parsed = parseSerializedMessage(content);
+  const next = parsed?.input_step?.next_screen_id;
+  if (!next) return content;
+  return JSON.stringify({ ...parsed, input_step: { ...parsed.input_step, next_screen_id: relink(next) } });
+};
+
+export const buildFlowBundle = ({ screens, entryScreenId, variables, layouts, pinnedIds }: FlowBundleSource): FlowBundle => {
+  const ids = new Set(screens.map((screen) => screen.id));
+  const keep = (id: string) => (ids.has(id) ? id : undefined);
+  const flowLayouts = layouts.filter((layout) => ids.has(layout.screen_id)).map(({ screen_id, x, y }) => ({ screen_id, x, y }));
+  const pins = pinnedIds.filter((id) => ids.has(id));
+  return {
+    version: FLOW_FORMAT_VERSION,
+    entry_screen_id: entryScreenId,
+    screens: screens.map((screen) => ({
+      id: screen.id,
+      name: screen.name,
+      message_content: relinkMessageContent(serializeMessageState(screenToMessageState(screen)), keep),
+      keyboard: relinkKeyboard(screen.keyboard, keep),
+      is_public: !!screen.is_public,
+    })),
+    ...(variables.length > 0 && { variables }),
+    ...(flowLayouts.length > 0 && { layouts: flowLayouts }),
+    ...(pins.length > 0 && { pinned_ids: pins }),
+  };
+};
+
+/** Upgrade a bundle read from a file to the current format and validate it; throws with the validation messages. */
+export const parseFlowBundle = (data: unknown) => validateFlowExport(data) as FlowBundle;
+
+export type ImportedFlow = {
+  /** Screens ready for insertScreens, with new ids; sharing is not carried over. */
+  screens: Array<FlowBundleScreen & { share_token: null }>;
+  entryScreenId: string;
+  variables: FlowVariable[];
+  layouts: FlowLayout[];
+  pinnedIds: string[];
+  /** New id of each screen, by its id in the bundle. */
+  idMap: Map<string, string>;
+};
+
+/**
+ * Give every screen of the bundle a new id and rewrite the references to it: linked buttons (and their
+ * callback_data), input steps, the entry screen, layouts and pins. Links to screens missing from the bundle are
+ * dropped. Throws when the entry screen is not in the bundle.
+ */
+export const remapFlowBundle = (bundle: FlowBundle, createId: () => string = () => crypto.randomUUID()): ImportedFlow => {
+  const idMap = new Map(bundle.screens.map((screen) => [screen.id, createId()]));
+  const relink = (id: string) => idMap.get(id);
+  const entryScreenId = relink(bundle.entry_screen_id);
+  if (!entryScreenId) throw new Error("入口模版不在导入的流程中");
+  return {
+    screens: bundle.screens.map((screen) => ({
+      id: idMap.get(screen.id)!,
+      name: screen.name,
+      message_content: relinkMessageContent(screen.message_content, relink),
+      keyboard: relinkKeyboard(screen.keyboard, relink),
+      is_public: false,
+      share_token: null,
+    })),
+    entryScreenId,
+    variables: bundle.variables ?? [],
+    layouts: (bundle.layouts ?? []).flatMap((layout) => {
+      const screenId = relink(layout.screen_id);
+      return screenId ? [{ screen_id: screenId, x: layout.x, y: layout.y }] : [];
+    }),
+    pinnedIds: (bundle.pinned_ids ?? []).flatMap((id) => relink(id) ?? []),
+    idMap,
+  };
+};
+
+/** Whether imported JSON is a flow bundle rather than a single message. */
+export const isFlowBundle = (data: unknown): boolean =>
+  !!data && typeof data === "object" && Array.isArray((data as FlowBundle).screens) && "entry_screen_id" in data;
@@ -0,0 +1,71 @@
+/**
+ * Flow export versions. Every exported flow carries the integer `version` of its format; older files are upgraded
+ * one version at a time by the registered migrations before FlowExportSchema validates them, so a file exported
+ * by any earlier release keeps importing. Bump FLOW_FORMAT_VERSION and register a migration from the previous
+ * version whenever a change to the format would make old files fail validation or mean something else.
+ */
+
+export const FLOW_FORMAT_VERSION = 2;
+
+type FlowJson = Record<string, unknown>;
+
+export type FlowMigration = {
+  /** Version the migration upgrades from; it produces `from + 1`. */
+  from: number;
+  description: string;
+  migrate: (flow: FlowJson) => FlowJson;
+};
+
+const isRecord = (value: unknown): value is FlowJson => !!value && typeof value === "object" && !Array.isArray(value);
+
+const mapScreens = (flow: FlowJson, update: (screen: FlowJson) => FlowJson) =>
+  Array.isArray(flow.screens) ? flow.screens.map((screen) => (isRecord(screen) ? update(screen) : screen)) : flow.screens;
+
+export const FLOW_MIGRATIONS: FlowMigration[] = [
+  {
+    from: 1,
+    description: "版本号改为整数；早期导出的模版缺少 is_public，按私有处理",
+    migrate: (flow) => ({
+      ...flow,
+      screens: mapScreens(flow, (screen) => ({ ...screen, is_public: typeof screen.is_public === "boolean" ? screen.is_public : false })),
+    }),
+  },
+];
+
+/** Thrown for files written by a newer release; the caller reports which fields it cannot read. */
+export class UnsupportedFlowVersionError extends Error {
+  constructor(readonly version: number) {
+    super(`流程数据版本 ${version} 高于当前支持的版本 ${FLOW_FORMAT_VERSION}`);
+    this.name = "UnsupportedFlowVersionError";
+  }
+}
+
+/**
+ * Format version of a flow file. Version 1 files wrote it as a string (`"1.0"`); a missing version is read as 1,
+ * the only format that existed before versions were checked.
+ */
+export const readFlowVersion = (value: unknown): number => {
+  if (value === undefined) return 1;
+  const match = typeof value === "string" ? /^(\d+)(?:\.\d+)?$/.exec(value.trim()) : null;
+  const version = typeof value === "number" ? value : match ? Number(match[1]) : NaN;
+  if (!Number.isInteger(version) || version < 1) throw new Error(`无法识别的流程数据版本：${String(value)}`);
+  return version;
+};
+
+/**
+ * Upgrade flow JSON to FLOW_FORMAT_VERSION, applying the migrations in order. Anything that is not an object is
+ * returned as-is for the schema to reject; a newer version throws UnsupportedFlowVersionError.
+ */
+export const migrateFlowExport = (data: unknown, migrations: FlowMigration[] = FLOW_MIGRATIONS): unknown => {
+  if (!isRecord(data)) return data;
+  let version = readFlowVersion(data.version);
+  if (version > FLOW_FORMAT_VERSION) throw new UnsupportedFlowVersionError(version);
+  let flow = data;
+  while (version < FLOW_FORMAT_VERSION) {
+    const migration = migrations.find((item) => item.from === version);
+    if (!migration) throw new Error(`缺少流程数据版本 ${version} 的升级步骤`);
+    flow = migration.migrate(flow);
+    version += 1;
+  }
+  return { ...flow, version };
+};
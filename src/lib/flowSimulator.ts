@@ -0,0 +1,372 @@
+import type { FlowVariable, KeyboardButton, KeyboardRow, PaginatedKeyboard, Screen } from "@/types/telegram";
+import type { MessageType } from "@/types/templates";
+import { isMediaMessageType, parseSerializedMessage, screenToMessageState } from "@/lib/messagePayload";
+import { buildReplyMarkup } from "@/lib/keyboard/replyMarkup";
+import { buildPageKeyboard, PAGE_COUNTER_CALLBACK, parsePageCallbackData } from "@/lib/keyboard/pagination";
+import { getButtonActionKind } from "@/lib/keyboard/buttonActions";
+import { buttonTransition, linkCallbackData } from "@/lib/keyboard/transitions";
+import { isEditableMedia } from "@/lib/codegen/media";
+import { parseMarkup } from "@/lib/formatting/entities";
+import { filterVisibleButtons, interpolateKeyboard, interpolateVariables } from "@/lib/variables";
+import { INPUT_STEP_LABELS, acceptsReply, type SimulatedReply } from "@/lib/inputStep";
+import { validateSimulatorScript } from "@/lib/validation";
+
+/**
+ * Flow simulator: plays a saved flow from its entry screen the way the generated bot does. Linked inline buttons
+ * follow their transition (edit the message in place when both screens allow it, send a new one, or send a new
+ * one and delete the old), reply keyboard taps are routed by their text, and callback queries get the bot's
+ * answer. Sessions are immutable, and the actions taken can be exported as a test script and replayed against a
+ * later version of the flow.
+ */
+
+export type SimulatorFlow = {
+  screens: Screen[];
+  entryScreenId: string | null;
+  variables: FlowVariable[];
+  /** Values the messages and button conditions see. */
+  values: Record<string, string>;
+};
+
+export type TranscriptMessage = {
+  type: "message";
+  /** message_id in the simulated chat; `press` actions refer to their message by it. */
+  id: number;
+  from: "user" | "bot";
+  text: string;
+  /** Screen the bot message shows (the latest one, after edits). */
+  screenId?: string;
+  media?: MessageType;
+  /** Number of items of an album. */
+  mediaCount?: number;
+  /** Inline keyboard under a bot message. */
+  keyboard: KeyboardRow[];
+  pagination?: PaginatedKeyboard;
+  /** Times the bot edited the message in place; Telegram marks such messages as edited. */
+  edits: number;
+  /** The bot deleted the message after sending the next screen (`replace` transition). */
+  deleted?: boolean;
+};
+
+/**
+ * Things that are not chat messages: `callback_answer` is the bot's answerCallbackQuery text (`alert` when it is
+ * shown as a popup), `client_action` what the Telegram client does on its own (opening a link, copying text),
+ * `system` a note from the simulator.
+ */
+export type TranscriptNotice = { type: "callback_answer" | "alert" | "client_action" | "system"; text: string };
+
+export type TranscriptEntry = TranscriptMessage | TranscriptNotice;
+
+export type AttachmentKind = Exclude<SimulatedReply["kind"], "text">;
+
+export type SimulatorAction =
+  | { action: "start" }
+  | { action: "press"; message_id: number; button: string }
+  | { action: "tap"; button: string }
+  | { action: "send"; text: string }
+  | { action: "attach"; kind: AttachmentKind };
+
+/** An action and the screen the chat was left on after it. */
+export type SimulatorScriptStep = SimulatorAction & { expect_screen: string | null };
+
+export type SimulatorScript = {
+  version: 1;
+  entry_screen_id: string;
+  values: Record<string, string>;
+  steps: SimulatorScriptStep[];
+};
+
+export type SimulatorReplyKeyboard = { keyboard: KeyboardRow[]; oneTime: boolean; placeholder?: string };
+
+export type SimulatorSession = {
+  transcript: TranscriptEntry[];
+  /** Screens opened so far, in order; the last one is the current screen. */
+  path: string[];
+  steps: SimulatorScriptStep[];
+  /** Reply keyboard shown in place of the system keyboard, if any. */
+  replyKeyboard: SimulatorReplyKeyboard | null;
+  /** Input screen whose reply the bot waits for. */
+  waitingFor: string | null;
+  /** Accepted replies by input screen id, as the generated bot stores them. */
+  answers: Record<string, string>;
+  nextMessageId: number;
+};
+
+export class SimulatorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SimulatorError";
+  }
+}
+
+export const createSimulatorSession = (): SimulatorSession => ({
+  transcript: [],
+  path: [],
+  steps: [],
+  replyKeyboard: null,
+  waitingFor: null,
+  answers: {},
+  nextMessageId: 1,
+});
+
+export const currentSimulatorScreen = (session: SimulatorSession) => session.path[session.path.length - 1] ?? null;
+
+const ATTACHMENT_LABELS: Record<AttachmentKind, string> = {
+  photo: `[${INPUT_STEP_LABELS.photo}]`,
+  location: `[${INPUT_STEP_LABELS.location}]`,
+  contact: `[${INPUT_STEP_LABELS.contact}]`,
+};
+
+const findScreen = (flow: SimulatorFlow, id: string | null | undefined) => (id ? flow.screens.find((screen) => screen.id === id) : undefined);
+
+const visibleKeyboard = (flow: SimulatorFlow, keyboard: KeyboardRow[]) =>
+  interpolateKeyboard(filterVisibleButtons(keyboard, flow.values, flow.variables), flow.values);
+
+const withNotice = (session: SimulatorSession, type: TranscriptNotice["type"], text: string): SimulatorSession => ({
+  ...session,
+  transcript: [...session.transcript, { type, text }],
+});
+
+const withMessage = (session: SimulatorSession, message: Omit<TranscriptMessage, "type" | "id" | "edits">): SimulatorSession => ({
+  ...session,
+  transcript: [...session.transcript, { type: "message", id: session.nextMessageId, edits: 0, ...message }],
+  nextMessageId: session.nextMessageId + 1,
+});
+
+const userMessage = (session: SimulatorSession, text: string) => withMessage(session, { from: "user", text, keyboard: [] });
+
+/**
+ * Show a screen: edit `source` (the message whose button was pressed) when the generated bot would, send new
+ * messages otherwise. Opening a screen moves the chat to it and sets or clears the input the bot waits for.
+ */
+const openScreen = (flow: SimulatorFlow, session: SimulatorSession, screenId: string, source?: TranscriptMessage): SimulatorSession => {
+  const screen = findScreen(flow, screenId);
+  if (!screen) return withNotice(session, "system", `模版 ${screenId} 不存在，机器人没有回复`);
+  const state = screenToMessageState(screen);
+  const text = interpolateVariables(parseMarkup(state.text).text, flow.values);
+  const album = state.messageType === "media_group" && state.mediaGroup.length > 0;
+  const media = !album && isMediaMessageType(state.messageType) && state.mediaUrl ? state.messageType : undefined;
+  const markup = buildReplyMarkup(state.keyboard, state.keyboardKind, state.replyKeyboardOptions);
+  const inline = !!markup && "inline_keyboard" in markup;
+  const content = {
+    text,
+    screenId,
+    media,
+    keyboard: inline ? visibleKeyboard(flow, state.keyboard) : [],
+    pagination: inline ? state.pagination : undefined,
+  };
+  const editable = !album && (!media || isEditableMedia(media)) && (!markup || inline);
+  const moved = { path: [...session.path, screenId], waitingFor: state.inputStep ? screenId : null };
+
+  // edit_message_text can't turn a text message into a media one, nor the other way round.
+  if (source && editable && !!source.media === !!media) {
+    return {
+      ...session,
+      ...moved,
+      transcript: session.transcript.map((entry) =>
+        entry === source ? { ...source, ...content, edits: source.edits + 1 } : entry
+      ),
+    };
+  }
+
+  let next = session;
+  if (album) {
+    next = withMessage(next, { from: "bot", text: "", screenId, media: "media_group", mediaCount: state.mediaGroup.length, keyboard: [] });
+  }
+  next = withMessage(next, { from: "bot", ...content });
+  if (markup && "keyboard" in markup) {
+    next = {
+      ...next,
+      replyKeyboard: {
+        keyboard: visibleKeyboard(flow, state.keyboard),
+        oneTime: !!markup.one_time_keyboard,
+        placeholder: markup.input_field_placeholder,
+      },
+    };
+  } else if (markup && "remove_keyboard" in markup) {
+    next = { ...next, replyKeyboard: null };
+  }
+  return { ...next, ...moved };
+};
+
+const start = (flow: SimulatorFlow, session: SimulatorSession) => {
+  if (!findScreen(flow, flow.entryScreenId)) throw new SimulatorError("入口模版不存在");
+  return openScreen(flow, { ...userMessage(session, "/start"), waitingFor: null }, flow.entryScreenId!);
+};
+
+const findButton = (keyboard: KeyboardRow[], text: string) => keyboard.flatMap((row) => row.buttons).find((button) => button.text === text);
+
+const clientAction = (button: KeyboardButton) => {
+  switch (getButtonActionKind(button)) {
+    case "url":
+      return `打开链接：${button.url}`;
+    case "web_app":
+      return `打开 Web App：${button.web_app?.url}`;
+    case "login_url":
+      return `打开登录链接：${button.login_url?.url}`;
+    case "copy_text":
+      return `已复制：${button.copy_text?.text ?? ""}`;
+    case "switch_inline_query":
+      return `内联查询：@bot ${button.switch_inline_query ?? ""}`;
+    case "switch_inline_query_current_chat":
+      return `内联查询：@bot ${button.switch_inline_query_current_chat ?? ""}`;
+    case "switch_inline_query_chosen_chat":
+      return `内联查询：@bot ${button.switch_inline_query_chosen_chat?.query ?? ""}`;
+    case "callback_game":
+      return `打开游戏：${button.text}`;
+    case "pay":
+      return `发起支付：${button.text}`;
+    default:
+      return null;
+  }
+};
+
+const press = (flow: SimulatorFlow, session: SimulatorSession, messageId: number, text: string) => {
+  const message = session.transcript.find(
+    (entry): entry is TranscriptMessage => entry.type === "message" && entry.from === "bot" && entry.id === messageId
+  );
+  if (!message) throw new SimulatorError(`找不到消息 #${messageId}`);
+  if (message.deleted) throw new SimulatorError(`消息 #${messageId} 已删除`);
+  const button = findButton(message.keyboard, text);
+  if (!button) throw new SimulatorError(`消息 #${messageId} 上没有按钮「${text}」`);
+
+  if (button.linked_screen_id && !button.url) {
+    if (!findScreen(flow, button.linked_screen_id)) {
+      return withNotice(session, "callback_answer", `Received: ${linkCallbackData(button)}`);
+    }
+    const answer = button.callback_answer;
+    const answered = answer?.text ? withNotice(session, answer.show_alert ? "alert" : "callback_answer", answer.text) : session;
+    const transition = buttonTransition(button);
+    if (transition === "edit") return openScreen(flow, answered, button.linked_screen_id, message);
+    const opened = openScreen(flow, answered, button.linked_screen_id);
+    if (transition === "send") return opened;
+    return {
+      ...opened,
+      transcript: opened.transcript.map((entry) => (entry === message ? { ...message, keyboard: [], deleted: true } : entry)),
+    };
+  }
+  const action = clientAction(button);
+  if (action) return withNotice(session, "client_action", action);
+
+  const page = message.pagination ? parsePageCallbackData(button.callback_data) : null;
+  if (page) {
+    const keyboard = visibleKeyboard(flow, buildPageKeyboard(message.pagination!, page));
+    return {
+      ...session,
+      transcript: session.transcript.map((entry) => (entry === message ? { ...message, keyboard } : entry)),
+    };
+  }
+  if (message.pagination && button.callback_data === PAGE_COUNTER_CALLBACK) return session;
+  return withNotice(session, "callback_answer", `Received: ${button.callback_data ?? ""}`);
+};
+
+/** Text routes of the generated bot: the first linked reply keyboard button with this text, in screen order. */
+const routeText = (flow: SimulatorFlow, text: string) => {
+  for (const screen of flow.screens) {
+    if (parseSerializedMessage(screen.message_content)?.keyboard_kind !== "reply") continue;
+    const button = findButton(screen.keyboard as KeyboardRow[], text);
+    if (button?.linked_screen_id && findScreen(flow, button.linked_screen_id)) return button.linked_screen_id;
+  }
+  return null;
+};
+
+/** A user message the bot reads: the reply to the input it waits for, a text route, or nothing it handles. */
+const receive = (flow: SimulatorFlow, session: SimulatorSession, reply: SimulatedReply) => {
+  const waiting = findScreen(flow, session.waitingFor);
+  const step = waiting && screenToMessageState(waiting).inputStep;
+  if (step) {
+    if (!acceptsReply(step, reply)) {
+      return withMessage(session, { from: "bot", text: step.retry_message, keyboard: [] });
+    }
+    const accepted = {
+      ...session,
+      waitingFor: null,
+      answers: { ...session.answers, [waiting.id]: reply.kind === "text" ? reply.text.trim() : ATTACHMENT_LABELS[reply.kind] },
+    };
+    return step.next_screen_id && findScreen(flow, step.next_screen_id) ? openScreen(flow, accepted, step.next_screen_id) : accepted;
+  }
+  const target = reply.kind === "text" ? routeText(flow, reply.text) : null;
+  return target ? openScreen(flow, session, target) : withNotice(session, "system", "机器人没有处理这条消息");
+};
+
+const send = (flow: SimulatorFlow, session: SimulatorSession, text: string) => {
+  if (text.trim() === "/start") return start(flow, session);
+  return receive(flow, userMessage(session, text), { kind: "text", text });
+};
+
+/** Tap a reply keyboard button: its text is sent as a message, and a one-time keyboard hides afterwards. */
+const tap = (flow: SimulatorFlow, session: SimulatorSession, text: string) => {
+  const button = session.replyKeyboard && findButton(session.replyKeyboard.keyboard, text);
+  if (!button) throw new SimulatorError(`回复键盘上没有按钮「${text}」`);
+  if (button.web_app) return withNotice(session, "client_action", clientAction(button)!);
+  const hidden = session.replyKeyboard!.oneTime ? { ...session, replyKeyboard: null } : session;
+  return receive(flow, userMessage(hidden, text), { kind: "text", text });
+};
+
+const attach = (flow: SimulatorFlow, session: SimulatorSession, kind: AttachmentKind) =>
+  receive(flow, userMessage(session, ATTACHMENT_LABELS[kind]), { kind });
+
+const perform = (flow: SimulatorFlow, session: SimulatorSession, action: SimulatorAction) => {
+  switch (action.action) {
+    case "start":
+      return start(flow, session);
+    case "press":
+      return press(flow, session, action.message_id, action.button);
+    case "tap":
+      return tap(flow, session, action.button);
+    case "send":
+      return send(flow, session, action.text);
+    case "attach":
+      return attach(flow, session, action.kind);
+  }
+};
+
+/** Apply one action and record it as a script step; throws a SimulatorError when the action can't be taken. */
+export const applySimulatorAction = (flow: SimulatorFlow, session: SimulatorSession, action: SimulatorAction): SimulatorSession => {
+  const next = perform(flow, session, action);
+  return { ...next, steps: [...next.steps, { ...action, expect_screen: currentSimulatorScreen(next) }] };
+};
+
+export const buildSimulatorScript = (flow: SimulatorFlow, session: SimulatorSession): SimulatorScript => ({
+  version: 1,
+  entry_screen_id: flow.entryScreenId ?? "",
+  values: flow.values,
+  steps: session.steps,
+});
+
+/** Parse an exported script; throws when it is not JSON or not a valid script. */
+export const parseSimulatorScript = (raw: string) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error("测试脚本不是有效的 JSON");
+  }
+  return validateSimulatorScript(data);
+};
+
+export type ReplayFailure = { step: number; message: string };
+
+/**
+ * Replay a script from its entry screen with its values. A step whose screen differs from the recorded one is
+ * a failure; a step that can't be taken any more (a missing button) is one too and stops the replay.
+ */
+export const replaySimulatorScript = (flow: SimulatorFlow, script: SimulatorScript) => {
+  const replayFlow = { ...flow, entryScreenId: script.entry_screen_id, values: { ...flow.values, ...script.values } };
+  const screenName = (id: string | null) => (id ? findScreen(replayFlow, id)?.name || id : "（无）");
+  let session = createSimulatorSession();
+  const failures: ReplayFailure[] = [];
+  for (const [index, { expect_screen, ...action }] of script.steps.entries()) {
+    try {
+      session = applySimulatorAction(replayFlow, session, action as SimulatorAction);
+    } catch (error) {
+      if (!(error instanceof SimulatorError)) throw error;
+      failures.push({ step: index + 1, message: error.message });
+      break;
+    }
+    const actual = currentSimulatorScreen(session);
+    if (actual !== expect_screen) {
+      failures.push({ step: index + 1, message: `应停留在「${screenName(expect_screen)}」，实际为「${screenName(actual)}」` });
+    }
+  }
+  return { session, failures };
+};
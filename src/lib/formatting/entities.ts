@@ -0,0 +1,316 @@
+import type { MessageEntity, MessageEntityType } from "@/types/telegram";
+import { VARIABLE_TOKEN_AT_START, VARIABLE_TOKEN_SOURCE } from "@/lib/variables";
+
+/** Plain text plus Bot API entities; offsets are UTF-16 code units, i.e. plain JS string indices. */
+export type FormattedText = {
+  text: string;
+  entities: MessageEntity[];
+};
+
+/**
+ * Inline delimiters of the editor markup. Longer tokens come first so `__` wins over `_`.
+ * Full editor syntax: **bold**, _italic_, __underline__, ~~strike~~, ||spoiler||, `code`, ```lang\npre```,
+ * [text](url), ![👍](tg://emoji?id=…), `> ` quote lines and `**> ` expandable quotes ending in `||`.
+ * `{{name}}` variable placeholders are kept verbatim, so underscores in names never open italics.
+ */
+const DELIMITERS: Array<{ token: string; type: MessageEntityType }> = [
+  { token: "**", type: "bold" },
+  { token: "__", type: "underline" },
+  { token: "~~", type: "strikethrough" },
+  { token: "||", type: "spoiler" },
+  { token: "_", type: "italic" },
+];
+
+const ESCAPABLE = new Set(["\\", "*", "_", "~", "|", "`", "[", "]", "(", ")", ">", "!"]);
+const CUSTOM_EMOJI_PATTERN = /^!\[([^\]\n]*)\]\(tg:\/\/emoji\?id=(\d+)\)/;
+const TEXT_LINK_PATTERN = /^\[((?:\\.|[^\]\\\n])+)\]\(((?:\\.|[^)\\\s])+)\)/;
+const PRE_LANGUAGE_PATTERN = /^[\w+#.-]+$/;
+
+const unescapeMarkup = (value: string) => value.replace(/\\(.)/g, (match, ch: string) => (ESCAPABLE.has(ch) ? ch : match));
+
+export const pushEntity = (out: FormattedText, entity: MessageEntity) => {
+  if (entity.length > 0) out.entities.push(entity);
+};
+
+export const appendEntity = (out: FormattedText, type: MessageEntityType, text: string, extra: Partial<MessageEntity> = {}) => {
+  const offset = out.text.length;
+  out.text += text;
+  pushEntity(out, { type, offset, length: text.length, ...extra });
+};
+
+const parseInline = (src: string, out: FormattedText) => {
+  const open: Array<{ token: string; type: MessageEntityType; offset: number }> = [];
+  // Closing a delimiter also closes anything opened after it, so ranges never cross.
+  const closeFrom = (index: number) => {
+    for (let k = open.length - 1; k >= index; k--) {
+      pushEntity(out, { type: open[k].type, offset: open[k].offset, length: out.text.length - open[k].offset });
+    }
+    open.length = index;
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    // \r separates touching markers (`__\r_`), as in MarkdownV2.
+    if (ch === "\r") {
+      i += 1;
+      continue;
+    }
+    if (ch === "\\" && i + 1 < src.length && ESCAPABLE.has(src[i + 1])) {
+      out.text += src[i + 1];
+      i += 2;
+      continue;
+    }
+    if (src.startsWith("```", i)) {
+      const end = src.indexOf("```", i + 3);
+      if (end !== -1) {
+        let body = src.slice(i + 3, end);
+        const firstBreak = body.indexOf("\n");
+        const language = firstBreak > 0 && PRE_LANGUAGE_PATTERN.test(body.slice(0, firstBreak)) ? body.slice(0, firstBreak) : undefined;
+        if (language || firstBreak === 0) body = body.slice(firstBreak + 1);
+        if (body.endsWith("\n")) body = body.slice(0, -1);
+        appendEntity(out, "pre", body, language ? { language } : {});
+        i = end + 3;
+        continue;
+      }
+    }
+    if (ch === "`") {
+      const end = src.indexOf("`", i + 1);
+      if (end > i + 1) {
+        appendEntity(out, "code", src.slice(i + 1, end));
+        i = end + 1;
+        continue;
+      }
+    }
+    if (ch === "{") {
+      const match = VARIABLE_TOKEN_AT_START.exec(src.slice(i));
+      if (match) {
+        out.text += match[0];
+        i += match[0].length;
+        continue;
+      }
+    }
+    if (ch === "!") {
+      const match = CUSTOM_EMOJI_PATTERN.exec(src.slice(i));
+      if (match) {
+        appendEntity(out, "custom_emoji", match[1], { custom_emoji_id: match[2] });
+        i += match[0].length;
+        continue;
+      }
+    }
+    if (ch === "[") {
+      const match = TEXT_LINK_PATTERN.exec(src.slice(i));
+      if (match) {
+        const offset = out.text.length;
+        parseInline(match[1], out);
+        pushEntity(out, { type: "text_link", offset, length: out.text.length - offset, url: unescapeMarkup(match[2]) });
+        i += match[0].length;
+        continue;
+      }
+    }
+    const delimiter = DELIMITERS.find(({ token }) => src.startsWith(token, i));
+    if (delimiter) {
+      const openIndex = open.findIndex(({ token }) => token === delimiter.token);
+      if (openIndex !== -1) {
+        closeFrom(openIndex);
+        i += delimiter.token.length;
+        continue;
+      }
+      if (src.indexOf(delimiter.token, i + delimiter.token.length) !== -1) {
+        open.push({ ...delimiter, offset: out.text.length });
+        i += delimiter.token.length;
+        continue;
+      }
+    }
+    out.text += ch;
+    i += 1;
+  }
+  closeFrom(0);
+};
+
+export type InlineParser = (src: string, out: FormattedText) => void;
+
+const QUOTE_LINE = /^>/;
+const EXPANDABLE_QUOTE_LINE = /^\*\*>/;
+const EXPANDABLE_QUOTE_END = /(?:^|[^\\])\|\|$/;
+
+type MarkupBlock = { quote: false; lines: string[] } | { quote: true; expandable: boolean; closed: boolean; lines: string[] };
+
+const splitBlocks = (source: string): MarkupBlock[] => {
+  const blocks: MarkupBlock[] = [];
+  let inFence = false;
+  for (const line of source.split("\n")) {
+    const last = blocks[blocks.length - 1];
+    const startsQuote = !inFence && QUOTE_LINE.test(line);
+    const startsExpandable = !inFence && EXPANDABLE_QUOTE_LINE.test(line);
+    if (startsQuote && last?.quote && !last.closed) {
+      last.lines.push(line);
+    } else if (startsQuote || startsExpandable) {
+      blocks.push({ quote: true, expandable: startsExpandable, closed: false, lines: [line] });
+    } else if (last && !last.quote) {
+      last.lines.push(line);
+    } else {
+      blocks.push({ quote: false, lines: [line] });
+    }
+    const current = blocks[blocks.length - 1];
+    if (current.quote && current.expandable && EXPANDABLE_QUOTE_END.test(line)) current.closed = true;
+    // Fences only span lines outside quotes; quoted lines carry their own prefix.
+    if (!current.quote && (line.match(/```/g) || []).length % 2 === 1) inFence = !inFence;
+  }
+  return blocks;
+};
+
+export const sortEntities = (entities: MessageEntity[]) =>
+  [...entities].sort((a, b) => a.offset - b.offset || b.length - a.length);
+
+/**
+ * Block layer shared by the editor markup and MarkdownV2: lines starting with `>` form a blockquote, and `**>` opens
+ * an expandable one that ends at the line closing with `||`. Each dialect strips its own quote prefix.
+ */
+export const parseBlocks = (source: string, parseInline: InlineParser, stripQuotePrefix: (line: string) => string): FormattedText => {
+  const out: FormattedText = { text: "", entities: [] };
+  splitBlocks(source).forEach((block, index) => {
+    if (index > 0) out.text += "\n";
+    if (!block.quote) {
+      parseInline(block.lines.join("\n"), out);
+      return;
+    }
+    const lines = block.lines.map(stripQuotePrefix);
+    if (block.closed) lines[lines.length - 1] = lines[lines.length - 1].slice(0, -2);
+    const offset = out.text.length;
+    parseInline(lines.join("\n"), out);
+    pushEntity(out, {
+      type: block.expandable ? "expandable_blockquote" : "blockquote",
+      offset,
+      length: out.text.length - offset,
+    });
+  });
+  return { text: out.text, entities: sortEntities(out.entities) };
+};
+
+/** Parse the editor markup into plain text and entities. */
+export const parseMarkup = (markup: string): FormattedText =>
+  parseBlocks(markup, parseInline, (line) => line.replace(/^(?:\*\*)?> ?/, ""));
+
+export type EntityVisitor = {
+  text: (chunk: string) => void;
+  open: (entity: MessageEntity) => void;
+  close: (entity: MessageEntity) => void;
+};
+
+const entityEnd = (entity: MessageEntity) => entity.offset + entity.length;
+
+/**
+ * Visit text chunks and entity boundaries in order. Entities that cross each other are split, so every
+ * open/close pair nests properly as HTML and MarkdownV2 require.
+ */
+export const walkEntities = ({ text, entities }: FormattedText, visitor: EntityVisitor) => {
+  const valid = sortEntities(entities).filter(
+    (entity) => entity.length > 0 && entity.offset >= 0 && entityEnd(entity) <= text.length,
+  );
+  const boundaries = [...new Set([0, text.length, ...valid.flatMap((entity) => [entity.offset, entityEnd(entity)])])].sort(
+    (a, b) => a - b,
+  );
+  const stack: MessageEntity[] = [];
+  let next = 0;
+  boundaries.forEach((position, index) => {
+    const endingIndex = stack.findIndex((entity) => entityEnd(entity) === position);
+    if (endingIndex !== -1) {
+      const reopen = stack.slice(endingIndex).filter((entity) => entityEnd(entity) > position);
+      for (let k = stack.length - 1; k >= endingIndex; k--) visitor.close(stack[k]);
+      stack.length = endingIndex;
+      reopen.forEach((entity) => {
+        visitor.open(entity);
+        stack.push(entity);
+      });
+    }
+    const starting: MessageEntity[] = [];
+    while (next < valid.length && valid[next].offset === position) starting.push(valid[next++]);
+    starting
+      .sort((a, b) => entityEnd(b) - entityEnd(a))
+      .forEach((entity) => {
+        visitor.open(entity);
+        stack.push(entity);
+      });
+    const until = boundaries[index + 1];
+    if (until !== undefined && until > position) visitor.text(text.slice(position, until));
+  });
+};
+
+const markupMarkers = (entity: MessageEntity): { open: string; close: string } => {
+  switch (entity.type) {
+    case "bold":
+      return { open: "**", close: "**" };
+    case "italic":
+      return { open: "_", close: "_" };
+    case "underline":
+      return { open: "__", close: "__" };
+    case "strikethrough":
+      return { open: "~~", close: "~~" };
+    case "spoiler":
+      return { open: "||", close: "||" };
+    case "code":
+      return { open: "`", close: "`" };
+    case "pre":
+      return { open: `\`\`\`${entity.language ?? ""}\n`, close: "\n```" };
+    case "text_link":
+      return { open: "[", close: `](${(entity.url ?? "").replace(/[\\)]/g, "\\$&")})` };
+    case "custom_emoji":
+      return { open: "![", close: `](tg://emoji?id=${entity.custom_emoji_id ?? ""})` };
+    case "blockquote":
+      return { open: "> ", close: "" };
+    case "expandable_blockquote":
+      return { open: "**> ", close: "||" };
+  }
+};
+
+const RAW_ENTITY_TYPES = new Set<MessageEntity["type"]>(["code", "pre", "custom_emoji"]);
+
+const MARKUP_CHAR_OR_VARIABLE = new RegExp(`${VARIABLE_TOKEN_SOURCE}|[\\\\*_~|\`[\\]]`, "g");
+
+/** Escape markup characters in plain text, leaving `{{name}}` placeholders intact; `>` only matters at the start of a line. */
+const escapeMarkupText = (chunk: string, atLineStart: boolean) =>
+  chunk
+    .replace(MARKUP_CHAR_OR_VARIABLE, (match) => (match.length > 1 ? match : `\\${match}`))
+    .replace(/(^|\n)>/g, (match, lead: string, index: number) => (index === 0 && !atLineStart ? match : `${lead}\\>`));
+
+/**
+ * Serialize entities back to the editor markup, so that `parseMarkup(toMarkup(x))` reproduces `x`.
+ * Entities nested inside code, pre or custom emoji cannot be expressed in the markup and are dropped.
+ */
+export const toMarkup = (formatted: FormattedText) => {
+  let out = "";
+  let rawDepth = 0;
+  let quoteDepth = 0;
+  const dropped = new Set<MessageEntity>();
+  const emit = (marker: string) => {
+    if (marker.startsWith("_") && out.endsWith("_") && !out.endsWith("\\_")) out += "\r";
+    out += marker;
+  };
+  walkEntities(formatted, {
+    text: (chunk) => {
+      if (rawDepth > 0) {
+        out += chunk;
+        return;
+      }
+      const escaped = escapeMarkupText(chunk, out === "" || out.endsWith("\n"));
+      out += quoteDepth > 0 ? escaped.replace(/\n/g, "\n> ") : escaped;
+    },
+    open: (entity) => {
+      if (rawDepth > 0) {
+        dropped.add(entity);
+        return;
+      }
+      if (entity.type === "blockquote" || entity.type === "expandable_blockquote") quoteDepth += 1;
+      if (RAW_ENTITY_TYPES.has(entity.type)) rawDepth += 1;
+      emit(markupMarkers(entity).open);
+    },
+    close: (entity) => {
+      if (dropped.has(entity)) return;
+      if (entity.type === "blockquote" || entity.type === "expandable_blockquote") quoteDepth -= 1;
+      if (RAW_ENTITY_TYPES.has(entity.type)) rawDepth -= 1;
+      emit(markupMarkers(entity).close);
+    },
+  });
+  return out;
+};
@@ -0,0 +1,129 @@
+import type { MessageEntity } from "@/types/telegram";
+import { walkEntities, type FormattedText } from "./entities";
+
+const escapeHtmlText = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const escapeHtmlAttr = (value: string) => escapeHtmlText(value).replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+type HtmlTags = { open: string; close: string };
+
+const telegramTags = (entity: MessageEntity): HtmlTags => {
+  switch (entity.type) {
+    case "bold":
+      return { open: "<b>", close: "</b>" };
+    case "italic":
+      return { open: "<i>", close: "</i>" };
+    case "underline":
+      return { open: "<u>", close: "</u>" };
+    case "strikethrough":
+      return { open: "<s>", close: "</s>" };
+    case "spoiler":
+      return { open: "<tg-spoiler>", close: "</tg-spoiler>" };
+    case "code":
+      return { open: "<code>", close: "</code>" };
+    case "pre":
+      return entity.language
+        ? { open: `<pre><code class="language-${escapeHtmlAttr(entity.language)}">`, close: "</code></pre>" }
+        : { open: "<pre>", close: "</pre>" };
+    case "text_link":
+      return { open: `<a href="${escapeHtmlAttr(entity.url ?? "")}">`, close: "</a>" };
+    case "custom_emoji":
+      return { open: `<tg-emoji emoji-id="${escapeHtmlAttr(entity.custom_emoji_id ?? "")}">`, close: "</tg-emoji>" };
+    case "blockquote":
+      return { open: "<blockquote>", close: "</blockquote>" };
+    case "expandable_blockquote":
+      return { open: "<blockquote expandable>", close: "</blockquote>" };
+  }
+};
+
+/** Serialize to Telegram `parse_mode: "HTML"`. */
+export const toTelegramHtml = (formatted: FormattedText) => {
+  let html = "";
+  walkEntities(formatted, {
+    text: (chunk) => {
+      html += escapeHtmlText(chunk);
+    },
+    open: (entity) => {
+      html += telegramTags(entity).open;
+    },
+    close: (entity) => {
+      html += telegramTags(entity).close;
+    },
+  });
+  return html;
+};
+
+const ALLOWED_URL_PROTOCOLS = ["http:", "https:", "ftp:", "mailto:", "tel:", "data:"] as const;
+
+export const isValidUrlProtocol = (url: string): boolean => {
+  try {
+    const parsed = new URL(url);
+    return ALLOWED_URL_PROTOCOLS.includes(parsed.protocol as (typeof ALLOWED_URL_PROTOCOLS)[number]);
+  } catch {
+    return false;
+  }
+};
+
+const CODE_CLASS = "bg-black/10 dark:bg-white/10 px-1 py-0.5 rounded text-sm font-mono";
+
+const previewTags = (entity: MessageEntity): HtmlTags => {
+  switch (entity.type) {
+    case "bold":
+      return { open: "<strong>", close: "</strong>" };
+    case "italic":
+      return { open: "<em>", close: "</em>" };
+    case "spoiler":
+      return { open: '<span class="tg-spoiler rounded bg-foreground/20">', close: "</span>" };
+    case "code":
+      return { open: `<code class="${CODE_CLASS}">`, close: "</code>" };
+    case "pre":
+      return {
+        open: `<pre class="my-1 rounded bg-black/10 dark:bg-white/10 p-2 text-sm font-mono whitespace-pre-wrap"><code${
+          entity.language ? ` class="language-${escapeHtmlAttr(entity.language)}"` : ""
+        }>`,
+        close: "</code></pre>",
+      };
+    case "text_link": {
+      const url = entity.url ?? "";
+      if (!isValidUrlProtocol(url)) {
+        return { open: '<span class="text-red-500 underline" title="无效的 URL 协议">', close: "</span>" };
+      }
+      return { open: `<a href="${escapeHtmlAttr(url)}" target="_blank" rel="noopener noreferrer" class="underline">`, close: "</a>" };
+    }
+    case "custom_emoji":
+      return { open: `<span class="tg-emoji" title="${escapeHtmlAttr(entity.custom_emoji_id ?? "")}">`, close: "</span>" };
+    case "blockquote":
+    case "expandable_blockquote":
+      return {
+        open: `<blockquote class="${entity.type === "expandable_blockquote" ? "tg-expandable " : ""}my-1 border-l-2 border-current pl-2">`,
+        close: "</blockquote>",
+      };
+    default:
+      return telegramTags(entity);
+  }
+};
+
+/**
+ * Render the workbench preview. Blockquotes are block elements, so the line break that follows one is
+ * implied by the layout rather than rendered as an extra `<br>`.
+ */
+export const toPreviewHtml = (formatted: FormattedText) => {
+  let html = "";
+  let afterQuote = false;
+  walkEntities(formatted, {
+    text: (chunk) => {
+      const visible = afterQuote && chunk.startsWith("\n") ? chunk.slice(1) : chunk;
+      afterQuote = false;
+      html += escapeHtmlText(visible).replace(/\n/g, "<br>");
+    },
+    open: (entity) => {
+      afterQuote = false;
+      html += previewTags(entity).open;
+    },
+    close: (entity) => {
+      html += previewTags(entity).close;
+      afterQuote = entity.type === "blockquote" || entity.type === "expandable_blockquote";
+    },
+  });
+  return html;
+};
@@ -0,0 +1,195 @@
+import type { MessageEntity, MessageEntityType } from "@/types/telegram";
+import { appendEntity, parseBlocks, pushEntity, walkEntities, type FormattedText, type InlineParser } from "./entities";
+
+/** Characters Telegram requires to be escaped in MarkdownV2 text. */
+const MARKDOWN_V2_SPECIAL = /[_*[\]()~`>#+\-=|{}.!\\]/g;
+
+export const escapeMarkdownV2 = (value: string) => value.replace(MARKDOWN_V2_SPECIAL, "\\$&");
+
+/** Inside code/pre only ` and \ are special. */
+const escapeMarkdownV2Code = (value: string) => value.replace(/[`\\]/g, "\\$&");
+
+/** Inside the (...) part of links and custom emoji only ) and \ are special. */
+const escapeMarkdownV2Url = (value: string) => value.replace(/[)\\]/g, "\\$&");
+
+const markers = (entity: MessageEntity): { open: string; close: string } => {
+  switch (entity.type) {
+    case "bold":
+      return { open: "*", close: "*" };
+    case "italic":
+      return { open: "_", close: "_" };
+    case "underline":
+      return { open: "__", close: "__" };
+    case "strikethrough":
+      return { open: "~", close: "~" };
+    case "spoiler":
+      return { open: "||", close: "||" };
+    case "code":
+      return { open: "`", close: "`" };
+    case "pre":
+      return { open: `\`\`\`${entity.language ?? ""}\n`, close: "\n```" };
+    case "text_link":
+      return { open: "[", close: `](${escapeMarkdownV2Url(entity.url ?? "")})` };
+    case "custom_emoji":
+      return { open: "![", close: `](tg://emoji?id=${escapeMarkdownV2Url(entity.custom_emoji_id ?? "")})` };
+    case "blockquote":
+      return { open: ">", close: "" };
+    case "expandable_blockquote":
+      return { open: "**>", close: "||" };
+  }
+};
+
+const isQuote = (entity: MessageEntity) => entity.type === "blockquote" || entity.type === "expandable_blockquote";
+
+const isRaw = (entity: MessageEntity) => entity.type === "code" || entity.type === "pre";
+
+/**
+ * Serialize to Telegram `parse_mode: "MarkdownV2"`.
+ * Telegram does not allow entities inside code or pre, so those are dropped.
+ */
+export const toMarkdownV2 = (formatted: FormattedText) => {
+  let out = "";
+  let rawDepth = 0;
+  let quoteDepth = 0;
+  const dropped = new Set<MessageEntity>();
+  const emit = (marker: string) => {
+    // `___` is read greedily as underline, so an italic marker touching an underline one needs the \r separator.
+    if (marker.startsWith("_") && out.endsWith("_") && !out.endsWith("\\_")) out += "\r";
+    out += quoteDepth > 0 ? marker.replace(/\n/g, "\n>") : marker;
+  };
+  walkEntities(formatted, {
+    text: (chunk) => {
+      const escaped = rawDepth > 0 ? escapeMarkdownV2Code(chunk) : escapeMarkdownV2(chunk);
+      out += quoteDepth > 0 ? escaped.replace(/\n/g, "\n>") : escaped;
+    },
+    open: (entity) => {
+      if (rawDepth > 0) {
+        dropped.add(entity);
+        return;
+      }
+      if (isRaw(entity)) rawDepth += 1;
+      emit(markers(entity).open);
+      if (isQuote(entity)) quoteDepth += 1;
+    },
+    close: (entity) => {
+      if (dropped.has(entity)) return;
+      if (isRaw(entity)) rawDepth -= 1;
+      if (isQuote(entity)) quoteDepth -= 1;
+      emit(markers(entity).close);
+    },
+  });
+  return out;
+};
+
+const DELIMITERS: Array<{ token: string; type: MessageEntityType }> = [
+  { token: "__", type: "underline" },
+  { token: "||", type: "spoiler" },
+  { token: "*", type: "bold" },
+  { token: "_", type: "italic" },
+  { token: "~", type: "strikethrough" },
+];
+
+const TEXT_LINK_PATTERN = /^\[((?:\\.|[^\]\\])*)\]\(((?:\\.|[^)\\])*)\)/;
+const CUSTOM_EMOJI_PATTERN = /^!\[((?:\\.|[^\]\\])*)\]\(tg:\/\/emoji\?id=(\d+)\)/;
+const PRE_LANGUAGE_PATTERN = /^[\w+#.-]*$/;
+
+const unescape = (value: string) => value.replace(/\\([\s\S])/g, "$1");
+
+/** Read up to the next unescaped `token`; returns the raw body and the index after the token, or null. */
+const readUntil = (src: string, from: number, token: string) => {
+  for (let j = from; j < src.length; j++) {
+    if (src[j] === "\\") {
+      j += 1;
+    } else if (src.startsWith(token, j)) {
+      return { body: src.slice(from, j), next: j + token.length };
+    }
+  }
+  return null;
+};
+
+const parseInline: InlineParser = (src, out) => {
+  const open: Array<{ token: string; type: MessageEntityType; offset: number }> = [];
+  const closeFrom = (index: number) => {
+    for (let k = open.length - 1; k >= index; k--) {
+      pushEntity(out, { type: open[k].type, offset: open[k].offset, length: out.text.length - open[k].offset });
+    }
+    open.length = index;
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === "\r") {
+      i += 1;
+      continue;
+    }
+    if (ch === "\\" && i + 1 < src.length) {
+      out.text += src[i + 1];
+      i += 2;
+      continue;
+    }
+    if (src.startsWith("```", i)) {
+      const block = readUntil(src, i + 3, "```");
+      if (block) {
+        const firstBreak = block.body.indexOf("\n");
+        const head = firstBreak === -1 ? "" : block.body.slice(0, firstBreak);
+        const hasHead = firstBreak !== -1 && PRE_LANGUAGE_PATTERN.test(head);
+        let body = unescape(hasHead ? block.body.slice(firstBreak + 1) : block.body);
+        if (body.endsWith("\n")) body = body.slice(0, -1);
+        appendEntity(out, "pre", body, hasHead && head ? { language: head } : {});
+        i = block.next;
+        continue;
+      }
+    }
+    if (ch === "`") {
+      const code = readUntil(src, i + 1, "`");
+      if (code) {
+        appendEntity(out, "code", unescape(code.body));
+        i = code.next;
+        continue;
+      }
+    }
+    if (ch === "!") {
+      const match = CUSTOM_EMOJI_PATTERN.exec(src.slice(i));
+      if (match) {
+        appendEntity(out, "custom_emoji", unescape(match[1]), { custom_emoji_id: match[2] });
+        i += match[0].length;
+        continue;
+      }
+    }
+    if (ch === "[") {
+      const match = TEXT_LINK_PATTERN.exec(src.slice(i));
+      if (match) {
+        const offset = out.text.length;
+        parseInline(match[1], out);
+        pushEntity(out, { type: "text_link", offset, length: out.text.length - offset, url: unescape(match[2]) });
+        i += match[0].length;
+        continue;
+      }
+    }
+    const delimiter = DELIMITERS.find(({ token }) => src.startsWith(token, i));
+    if (delimiter) {
+      const openIndex = open.findIndex(({ token }) => token === delimiter.token);
+      if (openIndex !== -1) {
+        closeFrom(openIndex);
+        i += delimiter.token.length;
+        continue;
+      }
+      if (readUntil(src, i + delimiter.token.length, delimiter.token)) {
+        open.push({ ...delimiter, offset: out.text.length });
+        i += delimiter.token.length;
+        continue;
+      }
+    }
+    out.text += ch;
+    i += 1;
+  }
+  closeFrom(0);
+};
+
+/**
+ * Parse Telegram MarkdownV2 into plain text and entities. Unbalanced markers, which Telegram would reject,
+ * are kept as literal text instead of failing the import.
+ */
+export const parseMarkdownV2 = (source: string): FormattedText =>
+  parseBlocks(source, parseInline, (line) => line.replace(/^(?:\*\*)?>/, ""));
@@ -0,0 +1,187 @@
+import type { MessageEntity, MessageEntityType } from "@/types/telegram";
+import { sortEntities, type FormattedText } from "./entities";
+
+/** Telegram `parse_mode: "HTML"` tags and the entity each one produces (`span` is handled separately). */
+const TAG_ENTITY_TYPES: Record<string, MessageEntityType> = {
+  b: "bold",
+  strong: "bold",
+  i: "italic",
+  em: "italic",
+  u: "underline",
+  ins: "underline",
+  s: "strikethrough",
+  strike: "strikethrough",
+  del: "strikethrough",
+  "tg-spoiler": "spoiler",
+  a: "text_link",
+  "tg-emoji": "custom_emoji",
+  code: "code",
+  pre: "pre",
+  blockquote: "blockquote",
+};
+
+const VOID_TAGS = new Set(["br", "hr", "img", "input", "meta", "link", "wbr"]);
+
+const TAG_PATTERN = /^<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/;
+const ATTR_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+const HTML_ENTITY_PATTERN = /^&(#\d+|#x[0-9a-fA-F]+|lt|gt|amp|quot);/;
+
+const NAMED_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"' };
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#\d+|#x[0-9a-fA-F]+|lt|gt|amp|quot);/g, (match, name: string) => decodeEntity(name) ?? match);
+
+function decodeEntity(name: string) {
+  if (name.startsWith("#")) {
+    const codePoint = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : null;
+  }
+  return NAMED_ENTITIES[name] ?? null;
+}
+
+const parseAttributes = (source: string) => {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTR_PATTERN)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+};
+
+export type TelegramHtmlResult = {
+  formatted: FormattedText;
+  /** Validation errors; the formatted text is still a best-effort conversion when this is non-empty. */
+  errors: string[];
+};
+
+type OpenTag = {
+  tag: string;
+  offset: number;
+  /** Null for tags that produce no entity (unsupported tags, `<code>` merged into its `<pre>`). */
+  entity: Omit<MessageEntity, "offset" | "length"> | null;
+};
+
+/**
+ * Parse Telegram HTML into plain text and entities, reporting anything Telegram would reject:
+ * unsupported tags, missing attributes, unescaped `<` and unbalanced or crossing tags.
+ */
+export const parseTelegramHtml = (html: string): TelegramHtmlResult => {
+  const errors = new Set<string>();
+  const entities: MessageEntity[] = [];
+  const stack: OpenTag[] = [];
+  let text = "";
+
+  const closeTag = (open: OpenTag) => {
+    if (open.entity && text.length > open.offset) {
+      entities.push({ ...open.entity, offset: open.offset, length: text.length - open.offset });
+    }
+  };
+
+  const openEntity = (tag: string, attrs: Record<string, string>): OpenTag["entity"] => {
+    if (tag === "span") {
+      if (attrs.class === "tg-spoiler") return { type: "spoiler" };
+      errors.add('<span> 仅支持 class="tg-spoiler"');
+      return null;
+    }
+    const type = TAG_ENTITY_TYPES[tag];
+    if (!type) {
+      errors.add(`不支持的 HTML 标签: <${tag}>`);
+      return null;
+    }
+    if (type === "text_link") {
+      if (!attrs.href) {
+        errors.add("<a> 标签缺少 href");
+        return null;
+      }
+      return { type, url: attrs.href };
+    }
+    if (type === "custom_emoji") {
+      if (!attrs["emoji-id"]) {
+        errors.add("<tg-emoji> 标签缺少 emoji-id");
+        return null;
+      }
+      return { type, custom_emoji_id: attrs["emoji-id"] };
+    }
+    if (type === "blockquote" && "expandable" in attrs) return { type: "expandable_blockquote" };
+    return { type };
+  };
+
+  let i = 0;
+  while (i < html.length) {
+    const ch = html[i];
+    if (ch === "&") {
+      const match = HTML_ENTITY_PATTERN.exec(html.slice(i, i + 12));
+      const decoded = match ? decodeEntity(match[1]) : null;
+      if (match && decoded !== null) {
+        text += decoded;
+        i += match[0].length;
+        continue;
+      }
+    }
+    if (ch !== "<") {
+      text += ch;
+      i += 1;
+      continue;
+    }
+    const match = TAG_PATTERN.exec(html.slice(i));
+    if (!match) {
+      errors.add('存在未转义的 "<"，请写作 &lt;');
+      text += ch;
+      i += 1;
+      continue;
+    }
+    i += match[0].length;
+    const tag = match[2].toLowerCase();
+    const isClosing = match[1] === "/";
+
+    if (!isClosing) {
+      const attrs = parseAttributes(match[3]);
+      if (VOID_TAGS.has(tag) || match[4] === "/") {
+        errors.add(`不支持的 HTML 标签: <${tag}>`);
+        continue;
+      }
+      const parent = stack[stack.length - 1];
+      // <pre><code class="language-x"> is a single pre entity carrying the language.
+      if (tag === "code" && parent?.tag === "pre" && parent.entity && parent.offset === text.length) {
+        const language = attrs.class?.match(/^language-(.+)$/)?.[1];
+        if (language) parent.entity = { ...parent.entity, language };
+        stack.push({ tag, offset: text.length, entity: null });
+        continue;
+      }
+      stack.push({ tag, offset: text.length, entity: openEntity(tag, attrs) });
+      continue;
+    }
+
+    let index = stack.length - 1;
+    while (index >= 0 && stack[index].tag !== tag) index -= 1;
+    if (index === -1) {
+      errors.add(`多余的闭合标签: </${tag}>`);
+      continue;
+    }
+    if (index !== stack.length - 1) {
+      errors.add(`标签交叉嵌套: </${tag}> 之前还有未闭合的 <${stack[stack.length - 1].tag}>`);
+    }
+    while (stack.length > index) closeTag(stack.pop()!);
+  }
+
+  while (stack.length) {
+    const open = stack.pop()!;
+    errors.add(`标签未闭合: <${open.tag}>`);
+    closeTag(open);
+  }
+
+  return { formatted: { text, entities: sortEntities(entities) }, errors: [...errors] };
+};
+
+export class TelegramHtmlError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`HTML 格式验证失败: ${errors.join(", ")}`);
+    this.name = "TelegramHtmlError";
+  }
+}
+
+/** Parse Telegram HTML, throwing a TelegramHtmlError that lists every problem when the markup is invalid. */
+export const validateTelegramHtml = (html: string): FormattedText => {
+  const { formatted, errors } = parseTelegramHtml(html);
+  if (errors.length) throw new TelegramHtmlError(errors);
+  return formatted;
+};
@@ -0,0 +1,51 @@
+import type { InputStep, InputStepKind, Screen } from "@/types/telegram";
+import { parseSerializedMessage } from "@/lib/messagePayload";
+import { TEXT_INPUT_STEP_KINDS } from "@/lib/validation";
+
+export const INPUT_STEP_LABELS: Record<InputStepKind, string> = {
+  text: "文本",
+  number: "数字",
+  email: "邮箱",
+  phone: "手机号",
+  photo: "图片",
+  location: "位置",
+  contact: "联系人",
+};
+
+/**
+ * Checks a reply of these kinds must pass before the step's own pattern. The generated code uses the same
+ * sources, so they stick to syntax JavaScript and Python `re` read the same way.
+ */
+export const BUILTIN_INPUT_PATTERNS: Partial<Record<InputStepKind, string>> = {
+  number: "-?\\d+(?:[.,]\\d+)?",
+  email: "[^\\s@]+@[^\\s@]+\\.[^\\s@]+",
+  phone: "\\+?\\d[\\d ()-]{4,19}",
+};
+
+export const isTextInput = (kind: InputStepKind) => TEXT_INPUT_STEP_KINDS.includes(kind);
+
+/** Patterns a (trimmed) text reply must match in full; empty for photo, location and contact replies. */
+export const inputPatterns = (step: InputStep) =>
+  isTextInput(step.expect) ? [BUILTIN_INPUT_PATTERNS[step.expect], step.pattern?.trim()].filter((pattern): pattern is string => !!pattern) : [];
+
+/** A reply typed or attached in the preview's reply box. */
+export type SimulatedReply = { kind: "text"; text: string } | { kind: Exclude<InputStepKind, "text" | "number" | "email" | "phone"> };
+
+const fullMatch = (pattern: string, text: string) => {
+  try {
+    return new RegExp(`^(?:${pattern})$`).test(text);
+  } catch {
+    return false;
+  }
+};
+
+/** Whether a reply is accepted: photo, location and contact steps take that attachment, the others non-empty text matching every pattern. */
+export const acceptsReply = (step: InputStep, reply: SimulatedReply) => {
+  if (!isTextInput(step.expect)) return reply.kind === step.expect;
+  if (reply.kind !== "text") return false;
+  const text = reply.text.trim();
+  return !!text && inputPatterns(step).every((pattern) => fullMatch(pattern, text));
+};
+
+/** Input step of a saved screen, or null when the screen doesn't wait for a reply. */
+export const screenInputStep = (screen: Pick<Screen, "message_content">) => parseSerializedMessage(screen.message_content)?.input_step ?? null;
@@ -0,0 +1,96 @@
+import type { KeyboardButton } from "@/types/telegram";
+
+/** Bot API action fields of an InlineKeyboardButton, in the order Telegram documents them. */
+export const INLINE_BUTTON_ACTIONS = [
+  "url",
+  "callback_data",
+  "web_app",
+  "login_url",
+  "switch_inline_query",
+  "switch_inline_query_current_chat",
+  "switch_inline_query_chosen_chat",
+  "copy_text",
+  "callback_game",
+  "pay",
+] as const;
+
+export type InlineButtonAction = (typeof INLINE_BUTTON_ACTIONS)[number];
+
+/** Action kind as edited in the workbench; `link` is a callback that navigates to another screen. */
+export type ButtonActionKind = InlineButtonAction | "link";
+
+/** Buttons of these kinds must be the first button of the first row. */
+export const FIRST_BUTTON_ONLY_ACTIONS: InlineButtonAction[] = ["callback_game", "pay"];
+
+/** Actions a reply keyboard button may carry besides its text. */
+export const REPLY_BUTTON_ACTIONS: InlineButtonAction[] = ["web_app"];
+
+/** Any button-shaped value, including schema-parsed input whose nested fields are still loose. */
+type ButtonActionFields = { [K in InlineButtonAction]?: unknown } & { linked_screen_id?: string };
+
+const hasAction = (button: ButtonActionFields, action: InlineButtonAction) => {
+  const value = button[action];
+  switch (action) {
+    case "url":
+    case "callback_data":
+      return typeof value === "string" && value !== "";
+    case "pay":
+      return value === true;
+    default:
+      // switch_inline_query(_current_chat) may legitimately be an empty string.
+      return value !== undefined && value !== null;
+  }
+};
+
+/**
+ * All action fields set on a button.
+ * `linked_screen_id` exports as callback_data, so it shares that slot.
+ */
+export const getButtonActions = (button: ButtonActionFields): InlineButtonAction[] =>
+  INLINE_BUTTON_ACTIONS.filter(
+    (action) => hasAction(button, action) || (action === "callback_data" && !!button.linked_screen_id),
+  );
+
+/**
+ * The action a button performs when exported.
+ * Buttons without any action fall back to a text-derived callback_data.
+ */
+export const getButtonActionKind = (button: Partial<KeyboardButton>): ButtonActionKind => {
+  if (hasAction(button, "url")) return "url";
+  if (button.linked_screen_id) return "link";
+  return INLINE_BUTTON_ACTIONS.find((action) => hasAction(button, action)) ?? "callback_data";
+};
+
+/** Copy only the Bot API action fields (plus the internal link) from an imported button. */
+export const pickButtonActionFields = (button: Partial<KeyboardButton>): Partial<KeyboardButton> => {
+  const picked: Partial<KeyboardButton> = {};
+  for (const action of INLINE_BUTTON_ACTIONS) {
+    if (button[action] !== undefined) {
+      (picked as Record<string, unknown>)[action] = button[action];
+    }
+  }
+  if (button.linked_screen_id !== undefined) picked.linked_screen_id = button.linked_screen_id;
+  return picked;
+};
+
+/**
+ * Before buttons were limited to one action, the editor let a URL button keep its `linked_screen_id`; the URL won
+ * on export, so the stale link is dropped. Anything that is not such a button is returned unchanged.
+ */
+export const dropLegacyLink = <T>(button: T): T => {
+  if (!button || typeof button !== "object") return button;
+  const fields = button as ButtonActionFields;
+  if (!fields.linked_screen_id || !hasAction(fields, "url")) return button;
+  const { linked_screen_id: _link, ...rest } = fields;
+  return rest as T;
+};
+
+/** Applies `dropLegacyLink` to every button of a stored keyboard (rows of `{ buttons }`); other values pass through. */
+export const normalizeLegacyKeyboard = <T>(keyboard: T): T => {
+  if (!Array.isArray(keyboard)) return keyboard;
+  return keyboard.map((row) =>
+    row && typeof row === "object" && Array.isArray((row as { buttons?: unknown }).buttons)
+      ? { ...row, buttons: (row as { buttons: unknown[] }).buttons.map(dropLegacyLink) }
+      : row,
+  ) as T;
+};
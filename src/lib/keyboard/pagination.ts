@@ -0,0 +1,89 @@
+import { CallbackFactory } from "../../../telegram-callback-factory/src";
+import type { KeyboardButton, KeyboardRow, PaginatedKeyboard, PaginationItem } from "@/types/telegram";
+import { CALLBACK_DATA_MAX_BYTES } from "@/lib/validation";
+
+const factory = new CallbackFactory({ maxLength: CALLBACK_DATA_MAX_BYTES });
+
+/** callback_data of the counter button between ◀ and ▶; it does nothing. */
+export const PAGE_COUNTER_CALLBACK = "noop";
+
+/**
+ * callback_data of a page button, `CallbackFactory.make("page", "nav", { page })` without a nonce, so the same
+ * page always gets the same data (`page:nav:eyJwYWdlIjoyfQ:` for page 2).
+ */
+export const pageCallbackData = (page: number) => factory.make("page", "nav", { page }, { nonce: false });
+
+/** Page a page button points to, or null when the data is not a page button's. */
+export const parsePageCallbackData = (data?: string) => {
+  const match = /^page:nav:([A-Za-z0-9_-]+):/.exec(data ?? "");
+  if (!match) return null;
+  try {
+    const base64 = match[1].replace(/-/g, "+").replace(/_/g, "/");
+    const { page } = JSON.parse(atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4))) as { page?: unknown };
+    return typeof page === "number" && Number.isInteger(page) && page > 0 ? page : null;
+  } catch {
+    return null;
+  }
+};
+
+export const pageCount = (block: PaginatedKeyboard) => Math.max(1, Math.ceil(block.items.length / Math.max(1, block.page_size)));
+
+export const itemCallbackData = (item: PaginationItem, index: number) => item.callback_data?.trim() || `item_${index + 1}`;
+
+/**
+ * Keyboard of one page (clamped to the existing pages): the page's items `columns` per row, then the navigation
+ * row, ◀ (from page 2 on), the `page/total` counter and ▶ (up to the last page but one).
+ * `linkPage` turns the page buttons into links to generated screens.
+ */
+export const buildPageKeyboard = (block: PaginatedKeyboard, page: number, linkPage?: (page: number) => string): KeyboardRow[] => {
+  const total = pageCount(block);
+  const current = Math.min(Math.max(1, Math.floor(page) || 1), total);
+  const start = (current - 1) * block.page_size;
+  const items = block.items.slice(start, start + block.page_size);
+  const columns = Math.max(1, block.columns);
+  const rows: KeyboardRow[] = [];
+  for (let i = 0; i < items.length; i += columns) {
+    rows.push({
+      id: `page-${current}-row-${rows.length + 1}`,
+      buttons: items.slice(i, i + columns).map((item, offset) => ({
+        id: `page-${current}-item-${start + i + offset + 1}`,
+        text: item.text,
+        callback_data: itemCallbackData(item, start + i + offset),
+      })),
+    });
+  }
+  const pageButton = (target: number, text: string): KeyboardButton => ({
+    id: `page-${current}-nav-${target}`,
+    text,
+    callback_data: pageCallbackData(target),
+    ...(linkPage && { linked_screen_id: linkPage(target) }),
+  });
+  const nav: KeyboardButton[] = [
+    ...(current > 1 ? [pageButton(current - 1, "◀")] : []),
+    { id: `page-${current}-counter`, text: `${current}/${total}`, callback_data: PAGE_COUNTER_CALLBACK },
+    ...(current < total ? [pageButton(current + 1, "▶")] : []),
+  ];
+  rows.push({ id: `page-${current}-nav`, buttons: nav });
+  return rows;
+};
+
+/** Keyboards of all pages for generated screens, the page buttons linking to `screenIds[page - 1]`. */
+export const expandPagination = (block: PaginatedKeyboard, screenIds: string[]) =>
+  Array.from({ length: pageCount(block) }, (_, index) => buildPageKeyboard(block, index + 1, (page) => screenIds[page - 1]));
+
+/** Items from the editor's one-per-line `text|callback_data` form; blank lines are skipped. */
+export const parsePaginationItems = (source: string): PaginationItem[] =>
+  source
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const separator = line.lastIndexOf("|");
+      if (separator === -1) return { text: line };
+      const text = line.slice(0, separator).trim();
+      const data = line.slice(separator + 1).trim();
+      return data ? { text, callback_data: data } : { text };
+    });
+
+export const formatPaginationItems = (items: PaginationItem[]) =>
+  items.map((item) => (item.callback_data ? `${item.text}|${item.callback_data}` : item.text)).join("\n");
@@ -0,0 +1,128 @@
+import type { KeyboardButton, KeyboardKind, KeyboardRow, ReplyKeyboardOptions } from "@/types/telegram";
+import { getButtonActionKind, type InlineButtonAction } from "./buttonActions";
+import { linkCallbackData } from "./transitions";
+
+export type InlineMarkupButton = { text: string } & Partial<Pick<KeyboardButton, InlineButtonAction>>;
+export type ReplyMarkupButton = { text: string } & Partial<Pick<KeyboardButton, "web_app">>;
+
+/** Bot API `reply_markup`; exactly one of the markup fields is set. */
+export type ReplyMarkup = ReplyKeyboardOptions & {
+  inline_keyboard?: InlineMarkupButton[][];
+  keyboard?: ReplyMarkupButton[][];
+  remove_keyboard?: true;
+  force_reply?: true;
+};
+
+export type ImportedMarkupButton = Partial<KeyboardButton> & { text?: string };
+
+export type ParsedReplyMarkup = {
+  kind: KeyboardKind;
+  rows?: ImportedMarkupButton[][];
+  options: ReplyKeyboardOptions;
+};
+
+const BOOLEAN_OPTION_KEYS = ["resize_keyboard", "one_time_keyboard", "is_persistent", "selective"] as const;
+
+/** Options Telegram accepts for each markup kind (inline markup takes none). */
+const OPTION_KEYS_BY_KIND: Record<KeyboardKind, Array<keyof ReplyKeyboardOptions>> = {
+  inline: [],
+  reply: ["resize_keyboard", "one_time_keyboard", "is_persistent", "input_field_placeholder", "selective"],
+  remove: ["selective"],
+  force_reply: ["input_field_placeholder", "selective"],
+};
+
+export const pickReplyKeyboardOptions = (kind: KeyboardKind, options: ReplyKeyboardOptions = {}): ReplyKeyboardOptions => {
+  const picked: ReplyKeyboardOptions = {};
+  for (const key of OPTION_KEYS_BY_KIND[kind]) {
+    const value = options[key];
+    if (key === "input_field_placeholder") {
+      if (typeof value === "string" && value.trim()) picked.input_field_placeholder = value;
+    } else if (value === true) {
+      picked[key] = true;
+    }
+  }
+  return picked;
+};
+
+const toInlineButton = (btn: KeyboardButton): InlineMarkupButton => {
+  const kind = getButtonActionKind(btn);
+  if (kind === "link") {
+    return { text: btn.text, callback_data: linkCallbackData(btn) };
+  }
+  if (kind === "callback_data") {
+    return { text: btn.text, callback_data: btn.callback_data || btn.text.toLowerCase().replace(/\s+/g, "_") };
+  }
+  return { text: btn.text, [kind]: btn[kind] };
+};
+
+/**
+ * Build the Bot API `reply_markup` for a screen.
+ * Returns undefined when there is nothing to attach (e.g. an empty inline/reply keyboard).
+ */
+export const buildReplyMarkup = (
+  keyboard: KeyboardRow[],
+  kind: KeyboardKind = "inline",
+  options: ReplyKeyboardOptions = {},
+): ReplyMarkup | undefined => {
+  const picked = pickReplyKeyboardOptions(kind, options);
+  if (kind === "remove") {
+    return { remove_keyboard: true, ...picked };
+  }
+  if (kind === "force_reply") {
+    return { force_reply: true, ...picked };
+  }
+  if (keyboard.length === 0) return undefined;
+  if (kind === "reply") {
+    return {
+      keyboard: keyboard.map((row) =>
+        row.buttons.map((btn): ReplyMarkupButton => (btn.web_app ? { text: btn.text, web_app: btn.web_app } : { text: btn.text })),
+      ),
+      ...picked,
+    };
+  }
+  return { inline_keyboard: keyboard.map((row) => row.buttons.map(toInlineButton)) };
+};
+
+const normalizeRows = (value: unknown): ImportedMarkupButton[][] =>
+  (value as unknown[]).map((row) =>
+    Array.isArray(row)
+      ? row.map((btn) => (typeof btn === "string" ? { text: btn } : ((btn ?? {}) as ImportedMarkupButton)))
+      : [],
+  );
+
+const readOptions = (source: Record<string, unknown>): ReplyKeyboardOptions => {
+  const options: ReplyKeyboardOptions = {};
+  for (const key of BOOLEAN_OPTION_KEYS) {
+    if (typeof source[key] === "boolean") options[key] = source[key] as boolean;
+  }
+  if (typeof source.input_field_placeholder === "string") {
+    options.input_field_placeholder = source.input_field_placeholder;
+  }
+  return options;
+};
+
+/**
+ * Detect the markup kind of an imported Bot API `reply_markup`.
+ * Returns null for anything that is not a recognised markup object.
+ */
+export const parseReplyMarkup = (raw: unknown): ParsedReplyMarkup | null => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const markup = raw as Record<string, unknown>;
+  if (Array.isArray(markup.inline_keyboard)) {
+    return { kind: "inline", rows: normalizeRows(markup.inline_keyboard), options: {} };
+  }
+  if (Array.isArray(markup.keyboard)) {
+    return {
+      kind: "reply",
+      rows: normalizeRows(markup.keyboard),
+      options: pickReplyKeyboardOptions("reply", readOptions(markup)),
+    };
+  }
+  if (markup.remove_keyboard === true) {
+    return { kind: "remove", options: pickReplyKeyboardOptions("remove", readOptions(markup)) };
+  }
+  if (markup.force_reply === true) {
+    return { kind: "force_reply", options: pickReplyKeyboardOptions("force_reply", readOptions(markup)) };
+  }
+  return null;
+};
@@ -0,0 +1,37 @@
+import type { ButtonTransition, KeyboardButton } from "@/types/telegram";
+
+export const BUTTON_TRANSITIONS = ["edit", "send", "replace"] as const satisfies readonly ButtonTransition[];
+
+export const BUTTON_TRANSITION_LABELS: Record<ButtonTransition, string> = {
+  edit: "编辑当前消息",
+  send: "发送新消息",
+  replace: "删除后重新发送",
+};
+
+/** Prefix of the callback_data linked buttons export. */
+export const GOTO_SCREEN_PREFIX = "goto_screen_";
+
+type TransitionFields = Pick<KeyboardButton, "linked_screen_id" | "transition" | "callback_answer">;
+
+export const buttonTransition = (button: Pick<KeyboardButton, "transition">): ButtonTransition => button.transition ?? "edit";
+
+/** Whether a linked button needs more than the default navigation (edit in place, empty answer). */
+export const hasCustomTransition = (button: TransitionFields) =>
+  !!button.linked_screen_id && (buttonTransition(button) !== "edit" || !!button.callback_answer?.text);
+
+/**
+ * Short key derived from the button id (FNV-1a, base 36), so the bot can look the button's transition up:
+ * `goto_screen_<uuid>:<key>` stays within the 64-byte callback_data limit.
+ */
+export const transitionKey = (buttonId: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < buttonId.length; i += 1) {
+    hash ^= buttonId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/** callback_data of a linked button: `goto_screen_<id>`, plus `:<key>` when it has a custom transition. */
+export const linkCallbackData = (button: TransitionFields & Pick<KeyboardButton, "id">) =>
+  `${GOTO_SCREEN_PREFIX}${button.linked_screen_id}${hasCustomTransition(button) ? `:${transitionKey(button.id)}` : ""}`;
@@ -0,0 +1,34 @@
+import type { LinkPreviewOptions } from "@/types/telegram";
+import { parseMarkup } from "@/lib/formatting/entities";
+
+const BOOLEAN_OPTION_KEYS = ["prefer_small_media", "prefer_large_media", "show_above_text"] as const;
+
+const BARE_URL_PATTERN = /\bhttps?:\/\/[^\s<>"']+/i;
+
+/**
+ * Options worth sending: true flags and a non-empty preview URL. A disabled preview drops everything else,
+ * and an empty result means Telegram's default preview.
+ */
+export const pickLinkPreviewOptions = (options: LinkPreviewOptions = {}): LinkPreviewOptions => {
+  if (options.is_disabled) return { is_disabled: true };
+  const picked: LinkPreviewOptions = {};
+  const url = options.url?.trim();
+  if (url) picked.url = url;
+  for (const key of BOOLEAN_OPTION_KEYS) {
+    if (options[key] === true) picked[key] = true;
+  }
+  return picked;
+};
+
+/** First link of a message the way Telegram picks it: bare URLs and `[text](url)` links, by position. */
+export const findFirstLink = (markup: string): string | null => {
+  const { text, entities } = parseMarkup(markup);
+  const bare = BARE_URL_PATTERN.exec(text);
+  const linked = entities.find((entity) => entity.type === "text_link" && entity.url);
+  if (bare && (!linked || bare.index < linked.offset)) return bare[0].replace(/[.,;:!?)]+$/, "");
+  return linked?.url ?? null;
+};
+
+/** URL the preview is generated for, or null when the preview is disabled or the message has no link. */
+export const resolvePreviewUrl = (markup: string, options: LinkPreviewOptions = {}) =>
+  options.is_disabled ? null : options.url?.trim() || findFirstLink(markup);
@@ -0,0 +1,277 @@
+import type { InputStep, KeyboardKind, KeyboardRow, LinkPreviewOptions, PaginatedKeyboard, ReplyKeyboardOptions, Screen } from "@/types/telegram";
+import type { MediaGroupItem, MediaGroupItemType, MediaMessageType, MessageType, ParseMode } from "@/types/templates";
+import { KEYBOARD_KINDS, MESSAGE_TYPES, validateLinkPreviewOptions, validateMediaGroup } from "@/lib/validation";
+import { buildReplyMarkup, pickReplyKeyboardOptions, type ReplyMarkup } from "@/lib/keyboard/replyMarkup";
+import { parseMarkup, toMarkup } from "@/lib/formatting/entities";
+import { toTelegramHtml } from "@/lib/formatting/html";
+import { parseMarkdownV2, toMarkdownV2 } from "@/lib/formatting/markdownV2";
+import { validateTelegramHtml } from "@/lib/formatting/telegramHtml";
+import { pickLinkPreviewOptions } from "@/lib/linkPreview";
+
+type PayloadOptions = {
+  parse_mode: ParseMode;
+  reply_markup?: ReplyMarkup;
+};
+
+/** `send<Type>` payload for a single media message, e.g. `{ document, caption, parse_mode }`. */
+export type MediaExportPayload<K extends MediaMessageType = MediaMessageType> = K extends MediaMessageType
+  ? { [P in K]: string } & { caption?: string } & PayloadOptions
+  : never;
+
+/** Bot API `InputMedia*` item of a media group. */
+export type InputMediaPayload = {
+  type: MediaGroupItemType;
+  media: string;
+  caption?: string;
+  parse_mode?: ParseMode;
+};
+
+/** Link previews only apply to text messages; media captions never get one. */
+type TextPayload = { text: string; link_preview_options?: LinkPreviewOptions } & PayloadOptions;
+
+export type TelegramExportPayload =
+  | TextPayload
+  | MediaExportPayload
+  /** Albums can't carry a keyboard, so the message text and keyboard follow the album as a separate message. */
+  | ({ media_group: InputMediaPayload[] } & TextPayload);
+
+/** Shape stored in `screens.message_content` when a screen carries more than plain HTML text. */
+export type SerializedMessage = {
+  type: MessageType;
+  text: string;
+  mediaUrl?: string;
+  media_group?: MediaGroupItem[];
+  parse_mode: ParseMode;
+  keyboard_kind?: KeyboardKind;
+  reply_keyboard_options?: ReplyKeyboardOptions;
+  link_preview_options?: LinkPreviewOptions;
+  /** Dynamic paginated keyboard; `keyboard` holds its first page. */
+  pagination?: PaginatedKeyboard;
+  /** Set when the screen waits for the user's reply. */
+  input_step?: InputStep;
+};
+
+export type MessageState = {
+  text: string;
+  parseMode: ParseMode;
+  messageType: MessageType;
+  mediaUrl: string;
+  mediaGroup: MediaGroupItem[];
+  keyboard: KeyboardRow[];
+  keyboardKind: KeyboardKind;
+  replyKeyboardOptions: ReplyKeyboardOptions;
+  linkPreviewOptions: LinkPreviewOptions;
+  pagination?: PaginatedKeyboard;
+  inputStep?: InputStep;
+};
+
+export const isKeyboardKind = (value: unknown): value is KeyboardKind =>
+  typeof value === "string" && (KEYBOARD_KINDS as readonly string[]).includes(value);
+
+export const isMessageType = (value: unknown): value is MessageType =>
+  typeof value === "string" && (MESSAGE_TYPES as readonly string[]).includes(value);
+
+export const MEDIA_MESSAGE_TYPES = MESSAGE_TYPES.filter(
+  (type): type is MediaMessageType => type !== "text" && type !== "media_group"
+);
+
+export const isMediaMessageType = (value: unknown): value is MediaMessageType =>
+  isMessageType(value) && (MEDIA_MESSAGE_TYPES as readonly string[]).includes(value);
+
+/**
+ * Parse a serialized `message_content`.
+ * Returns null for plain text (legacy rows and the HTML/text shortcut).
+ */
+export const parseSerializedMessage = (raw: string): Partial<SerializedMessage> | null => {
+  try {
+    const parsed = JSON.parse(raw) as Partial<SerializedMessage>;
+    if (parsed && typeof parsed === "object" && parsed.type && parsed.text !== undefined) {
+      return parsed;
+    }
+  } catch {
+    // plain text
+  }
+  return null;
+};
+
+/** Serialize editor markup for the given parse mode; both go through the entity model in `@/lib/formatting`. */
+export const formatMessageText = (text: string, mode: ParseMode) => {
+  const formatted = parseMarkup(text);
+  return mode === "HTML" ? toTelegramHtml(formatted) : toMarkdownV2(formatted);
+};
+
+export type ImportedMessageFields = {
+  text?: unknown;
+  caption?: unknown;
+  message_content?: unknown;
+  parse_mode?: unknown;
+};
+
+/**
+ * Link preview options of an imported payload; the deprecated `disable_web_page_preview` flag maps to `is_disabled`.
+ */
+export const importLinkPreviewOptions = (data: {
+  link_preview_options?: unknown;
+  disable_web_page_preview?: unknown;
+}): LinkPreviewOptions => {
+  if (data.link_preview_options !== undefined) {
+    return pickLinkPreviewOptions(validateLinkPreviewOptions(data.link_preview_options));
+  }
+  return data.disable_web_page_preview === true ? { is_disabled: true } : {};
+};
+
+/**
+ * Editor markup for an imported message, or null when the payload carries none.
+ * Bot API `text`/`caption` are written in their parse mode; `message_content` is already editor markup.
+ * Throws a TelegramHtmlError when HTML text uses tags Telegram rejects or is unbalanced.
+ */
+export const importMessageText = (data: ImportedMessageFields): string | null => {
+  const raw = typeof data.text === "string" ? data.text : typeof data.caption === "string" ? data.caption : null;
+  if (raw !== null) {
+    if (data.parse_mode === "MarkdownV2") return toMarkup(parseMarkdownV2(raw));
+    if (data.parse_mode === "HTML") return toMarkup(validateTelegramHtml(raw));
+    return raw;
+  }
+  return typeof data.message_content === "string" ? data.message_content : null;
+};
+
+export type ImportedMedia = {
+  messageType: MessageType;
+  mediaUrl: string;
+  mediaGroup: MediaGroupItem[];
+};
+
+/**
+ * Message type and media of an imported payload: our `media_group` export, a Bot API `sendMediaGroup` body
+ * (`media`), or a single `photo`/`document`/... field. Album captions are converted back to editor markup.
+ */
+export const importMessageMedia = (
+  data: ImportedMessageFields & Partial<Record<MediaMessageType | "media_group" | "media", unknown>>
+): ImportedMedia => {
+  const group = Array.isArray(data.media_group) ? data.media_group : Array.isArray(data.media) ? data.media : null;
+  if (group) {
+    const items = group.map((item: Partial<InputMediaPayload>) => {
+      const caption = importMessageText({ text: item?.caption, parse_mode: item?.parse_mode ?? data.parse_mode });
+      return { type: item?.type, media: item?.media, ...(caption && { caption }) };
+    });
+    return { messageType: "media_group", mediaUrl: "", mediaGroup: validateMediaGroup(items) as MediaGroupItem[] };
+  }
+  const kind = MEDIA_MESSAGE_TYPES.find((type) => typeof data[type] === "string");
+  return kind
+    ? { messageType: kind, mediaUrl: data[kind] as string, mediaGroup: [] }
+    : { messageType: "text", mediaUrl: "", mediaGroup: [] };
+};
+
+const toInputMedia = (item: MediaGroupItem, parseMode: ParseMode): InputMediaPayload => ({
+  type: item.type,
+  media: item.media,
+  ...(item.caption?.trim() && { caption: formatMessageText(item.caption, parseMode), parse_mode: parseMode }),
+});
+
+export const buildTelegramPayload = (state: MessageState): TelegramExportPayload => {
+  const formattedText = formatMessageText(state.text, state.parseMode);
+  const reply_markup = buildReplyMarkup(state.keyboard, state.keyboardKind, state.replyKeyboardOptions);
+  const linkPreview = pickLinkPreviewOptions(state.linkPreviewOptions);
+  const link_preview_options = Object.keys(linkPreview).length > 0 ? linkPreview : undefined;
+
+  if (state.messageType === "media_group" && state.mediaGroup.length) {
+    return {
+      media_group: state.mediaGroup.map((item) => toInputMedia(item, state.parseMode)),
+      text: formattedText,
+      parse_mode: state.parseMode,
+      ...(link_preview_options && { link_preview_options }),
+      ...(reply_markup && { reply_markup }),
+    };
+  }
+  if (isMediaMessageType(state.messageType) && state.mediaUrl) {
+    return {
+      [state.messageType]: state.mediaUrl,
+      // Video notes are round videos without a caption.
+      ...(state.messageType !== "video_note" && { caption: formattedText }),
+      parse_mode: state.parseMode,
+      ...(reply_markup && { reply_markup }),
+    } as MediaExportPayload;
+  }
+  return {
+    text: formattedText,
+    parse_mode: state.parseMode,
+    ...(link_preview_options && { link_preview_options }),
+    ...(reply_markup && { reply_markup }),
+  };
+};
+
+/**
+ * `message_content` of a screen: the plain text for a default text message, the JSON form (see SerializedMessage)
+ * once it has media, another parse mode or keyboard kind, link preview options, pagination or an input step.
+ */
+export const serializeMessageState = (state: Omit<MessageState, "keyboard">): string => {
+  const keyboardOptions = pickReplyKeyboardOptions(state.keyboardKind, state.replyKeyboardOptions);
+  const previewOptions = pickLinkPreviewOptions(state.linkPreviewOptions);
+  const hasPreviewOptions = Object.keys(previewOptions).length > 0;
+  if (
+    state.messageType === "text" &&
+    !state.mediaUrl &&
+    state.parseMode === "HTML" &&
+    state.keyboardKind === "inline" &&
+    !hasPreviewOptions &&
+    !state.pagination &&
+    !state.inputStep
+  ) {
+    return state.text;
+  }
+  const payload: SerializedMessage = {
+    type: state.messageType,
+    text: state.text,
+    mediaUrl: state.mediaUrl || undefined,
+    ...(state.messageType === "media_group" && { media_group: state.mediaGroup }),
+    parse_mode: state.parseMode,
+    ...(state.keyboardKind !== "inline" && { keyboard_kind: state.keyboardKind }),
+    ...(Object.keys(keyboardOptions).length > 0 && { reply_keyboard_options: keyboardOptions }),
+    ...(hasPreviewOptions && { link_preview_options: previewOptions }),
+    ...(state.keyboardKind === "inline" && state.pagination && { pagination: state.pagination }),
+    ...(state.inputStep && { input_step: state.inputStep }),
+  };
+  return JSON.stringify(payload);
+};
+
+/** Typed `screens` columns mirrored from a message; `message_content` keeps carrying them for older clients. */
+export type MessageColumns = {
+  parse_mode: ParseMode;
+  message_type: MessageType;
+  media_url: string | null;
+};
+
+/** Columns of a serialized `message_content`; plain text is an HTML text message. */
+export const messageColumns = (content: string): MessageColumns => {
+  const parsed = parseSerializedMessage(content);
+  return {
+    parse_mode: parsed?.parse_mode === "MarkdownV2" ? "MarkdownV2" : "HTML",
+    message_type: isMessageType(parsed?.type) ? parsed.type : "text",
+    media_url: parsed?.mediaUrl || null,
+  };
+};
+
+/**
+ * Fill in the message columns of a row that writes `message_content` without them, such as offline writes
+ * queued before the columns existed; other rows are returned unchanged.
+ */
+export const withMessageColumns = <T extends { message_content?: string; parse_mode?: string | null }>(row: T): T =>
+  typeof row.message_content === "string" && row.parse_mode === undefined ? { ...row, ...messageColumns(row.message_content) } : row;
+
+/** Resolve a saved screen into editor state, mirroring what the workbench shows when the screen is opened. */
+export const screenToMessageState = (screen: Screen): MessageState => {
+  const parsed = parseSerializedMessage(screen.message_content);
+  return {
+    text: parsed ? parsed.text || "" : screen.message_content,
+    parseMode: screen.parse_mode ?? (parsed?.parse_mode as ParseMode) ?? "HTML",
+    messageType: screen.message_type ?? (parsed?.type as MessageType) ?? "text",
+    mediaUrl: screen.media_url || parsed?.mediaUrl || "",
+    mediaGroup: parsed?.media_group ?? [],
+    keyboard: (screen.keyboard as KeyboardRow[]) ?? [],
+    keyboardKind: isKeyboardKind(parsed?.keyboard_kind) ? parsed.keyboard_kind : "inline",
+    replyKeyboardOptions: parsed?.reply_keyboard_options ?? {},
+    linkPreviewOptions: screen.link_preview_options ?? parsed?.link_preview_options ?? {},
+    ...(parsed?.pagination && { pagination: parsed.pagination }),
+    ...(parsed?.input_step && { inputStep: parsed.input_step }),
+  };
+};
@@ -10,12 +10,16 @@ import { toast } from "sonner";
  * - Storage key: `pending_ops_v2_<userId|anon>` (see `buildKey`)
  * - Items are JSON-serialized; code changes here can affect data durability.
  * - `update` operations are de-duped by screen id to ensure replay applies the latest state.
+ * - `entry` operations (entry screen choice) are de-duped by project id (`null` = screens without a project).
  * - Version bumps must include a migration path and tests (see `reviveLegacy` and `src/lib/__tests__/pendingQueue.test.ts`).
+ * - Payloads carry `parse_mode`/`message_type`/`media_url` next to `message_content`; older items without them
+ *   get them from `message_content` on replay (`withMessageColumns`).
  *
  * This module is intentionally UI-light; queue trim warnings surface here to avoid silent data loss.
  */
 export type SavePayload = TablesInsert<"screens">;
 export type UpdatePayload = { id: string; update: TablesUpdate<"screens"> };
+export type EntryPayload = { project_id: string | null; screen_id: string | null };
 
 export type PendingFailure = { at: number; message: string; requestId?: string };
 
@@ -36,6 +40,10 @@ export type PendingItem =
   | (PendingBase & {
       kind: "update";
       payload: UpdatePayload;
+    })
+  | (PendingBase & {
+      kind: "entry";
+      payload: EntryPayload;
     });
 
 const STORAGE_VERSION = "v2";
@@ -323,6 +331,25 @@ export const enqueueUpdateOperation = async (payload: UpdatePayload, userId?: st
   });
 };
 
+export const enqueueEntryOperation = async (payload: EntryPayload, userId?: string | null): Promise<PendingItem> => {
+  return withLock(() => {
+    const queue = readPendingOps(userId);
+    // Only the latest entry choice per project matters
+    const nextQueue = queue.filter((item) => !(item.kind === "entry" && item.payload.project_id === payload.project_id));
+    const op: PendingItem = {
+      id: genId(),
+      kind: "entry",
+      payload,
+      createdAt: now(),
+      attempts: 0,
+      failures: [],
+    };
+    nextQueue.push(op);
+    persist(nextQueue, userId);
+    return op;
+  });
+};
+
 type ProcessOptions = {
   userId?: string | null;
   maxAttempts?: number;
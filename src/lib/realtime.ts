@@ -0,0 +1,128 @@
+import type { Database } from "@/integrations/supabase/types";
+import type { Screen } from "@/types/telegram";
+
+type ScreenRow = Database["public"]["Tables"]["screens"]["Row"];
+type LayoutRow = Database["public"]["Tables"]["screen_layouts"]["Row"];
+
+export type RemoteChangeType = "INSERT" | "UPDATE" | "DELETE";
+
+/** A Realtime `postgres_changes` event; `old` only carries the primary key on deletes. */
+export type RemoteChange<Row> = {
+  eventType: RemoteChangeType;
+  new: Partial<Row>;
+  old: Partial<Row>;
+};
+export type RemoteScreenChange = RemoteChange<ScreenRow>;
+export type RemoteLayoutChange = RemoteChange<LayoutRow>;
+
+/** What each open tab announces on the project channel. */
+export type PresencePayload = {
+  tab_id: string;
+  user_id: string;
+  email: string | null;
+  /** Screen open in the editor; null when none is. */
+  screen_id: string | null;
+  online_at: string;
+};
+
+/**
+ * A pointer on the flow diagram. Every user keeps their own node layout, so the position is sent relative to the
+ * nearest node (`anchor`) and placed next to that node in the receiver's layout.
+ */
+export type CursorPayload = {
+  tab_id: string;
+  user_id: string;
+  email: string | null;
+  /** Null: the pointer left the diagram. */
+  anchor: string | null;
+  dx: number;
+  dy: number;
+};
+export type RemoteCursor = CursorPayload & { anchor: string; at: number };
+
+/** A layout row changed in another tab; `seq` orders the updates so each is applied once. */
+export type RemoteLayoutUpdate = { seq: number; screen_id: string; x: number; y: number };
+
+/** The screen open in the editor was changed (`updated`) or removed from the project (`deleted`) elsewhere. */
+export type RemoteConflict = { screenId: string; kind: "updated" | "deleted" };
+
+/** Cursors that stop moving disappear after this long. */
+export const CURSOR_TTL_MS = 5000;
+
+/**
+ * One channel per project, shared by its members. Screens without a project are private, so their channel is
+ * per user and only connects the user's own tabs.
+ */
+export const realtimeChannelName = (userId: string, projectId: string | null) =>
+  projectId ? `project:${projectId}` : `user:${userId}:ungrouped`;
+
+/**
+ * Applies a remote insert, update or delete to the screens of `projectId` (null: the screens without a project).
+ * Rows moved to another project are dropped; unchanged lists are returned as is.
+ */
+export const mergeRemoteScreen = (screens: Screen[], change: RemoteScreenChange, projectId: string | null): Screen[] => {
+  if (change.eventType === "DELETE") {
+    const id = change.old.id;
+    return id && screens.some((screen) => screen.id === id) ? screens.filter((screen) => screen.id !== id) : screens;
+  }
+  const row = change.new;
+  if (!row.id) return screens;
+  const index = screens.findIndex((screen) => screen.id === row.id);
+  if ((row.project_id ?? null) !== projectId) {
+    return index === -1 ? screens : screens.filter((screen) => screen.id !== row.id);
+  }
+  const remote = row as unknown as Screen;
+  if (index === -1) return [...screens, remote];
+  const next = screens.slice();
+  next[index] = { ...screens[index], ...remote };
+  return next;
+};
+
+/** Appends saved screens; ones a Realtime insert event already added are not listed twice. */
+export const appendScreens = (screens: Screen[], added: Screen[]) => {
+  const known = new Set(screens.map((screen) => screen.id));
+  const fresh = added.filter((screen) => !known.has(screen.id));
+  return fresh.length > 0 ? [...screens, ...fresh] : screens;
+};
+
+/** Whether a remote row leaves the editor content of the screen (message and keyboard) unchanged. */
+export const isSameScreenContent = (
+  local: Pick<Screen, "message_content" | "keyboard">,
+  remote: { message_content?: string; keyboard?: unknown },
+) =>
+  local.message_content === remote.message_content && JSON.stringify(local.keyboard) === JSON.stringify(remote.keyboard);
+
+/** Other tabs on the channel, oldest first; the tab itself is left out. */
+export const listViewers = (state: Record<string, PresencePayload[]>, selfTabId: string): PresencePayload[] =>
+  Object.values(state)
+    .flat()
+    .filter((presence) => presence.tab_id !== selfTabId)
+    .sort((a, b) => a.online_at.localeCompare(b.online_at));
+
+/** Replaces the cursor of the sending tab, or removes it when the pointer left the diagram. */
+export const upsertCursor = (cursors: RemoteCursor[], payload: CursorPayload, now: number): RemoteCursor[] => {
+  const others = cursors.filter((cursor) => cursor.tab_id !== payload.tab_id);
+  return payload.anchor ? [...others, { ...payload, anchor: payload.anchor, at: now }] : others;
+};
+
+export const pruneCursors = (cursors: RemoteCursor[], now: number, liveTabIds?: Set<string>) => {
+  const kept = cursors.filter(
+    (cursor) => now - cursor.at < CURSOR_TTL_MS && (!liveTabIds || liveTabIds.has(cursor.tab_id)),
+  );
+  return kept.length === cursors.length ? cursors : kept;
+};
+
+/** The node closest to a diagram position, with the offset from it; null without nodes. */
+export const anchorToNearestNode = (
+  point: { x: number; y: number },
+  nodes: { id: string; position: { x: number; y: number } }[],
+) => {
+  let best: { anchor: string; dx: number; dy: number; distance: number } | null = null;
+  for (const node of nodes) {
+    const dx = point.x - node.position.x;
+    const dy = point.y - node.position.y;
+    const distance = dx * dx + dy * dy;
+    if (!best || distance < best.distance) best = { anchor: node.id, dx, dy, distance };
+  }
+  return best ? { anchor: best.anchor, dx: best.dx, dy: best.dy } : null;
+};
@@ -1,5 +1,22 @@
 import { z } from 'zod';
-import type { KeyboardRow } from '@/types/telegram';
+import type {
+  FlowVariable,
+  InputStep,
+  KeyboardKind,
+  KeyboardRow,
+  PaginatedKeyboard,
+  Project,
+  Workspace,
+  WorkspaceInvite,
+} from '@/types/telegram';
+import type { MessageType } from '@/types/templates';
+import type { SimulatorScript } from '@/lib/flowSimulator';
+import { FIRST_BUTTON_ONLY_ACTIONS, INLINE_BUTTON_ACTIONS, REPLY_BUTTON_ACTIONS, dropLegacyLink, getButtonActions } from '@/lib/keyboard/buttonActions';
+import { parseMarkup } from '@/lib/formatting/entities';
+import { ConditionError, parseCondition } from '@/lib/conditions';
+import { BUTTON_TRANSITIONS } from '@/lib/keyboard/transitions';
+import { UnsupportedFlowVersionError, migrateFlowExport } from '@/lib/flowMigrations';
+import { VARIABLE_NAME_PATTERN, collectVariableUsages, findUndeclaredVariables, isReservedVariableName } from '@/lib/variables';
 
 const FORBIDDEN_URL_PROTOCOLS = new Set(["javascript:", "data:", "vbscript:"]);
 
@@ -32,7 +49,8 @@ export const isUrlProtocolAllowed = (rawUrl: string): boolean => {
 };
 
 const trimStringValue = (value: unknown) => (typeof value === "string" ? value.trim() : value);
-const countGraphemes = (value: string) => {
+/** 按用户看到的字符计数：emoji 和组合字符只算一个 */
+export const countGraphemes = (value: string) => {
   if (typeof Intl !== "undefined" && typeof Intl.Segmenter === "function") {
     const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
     let count = 0;
@@ -42,6 +60,25 @@ const countGraphemes = (value: string) => {
   return [...value].length;
 };
 
+/**
+ * Telegram 计算长度的方式：去掉格式标记后的纯文本，按 UTF-16 code unit 计数（emoji 通常占 2）
+ */
+export const getTelegramTextLength = (content: string) => parseMarkup(content).text.length;
+
+const refineMaxTelegramLength =
+  (max: number, label: string) =>
+  (value: string, ctx: z.RefinementCtx) => {
+    if (getTelegramTextLength(value) > max) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.too_big,
+        maximum: max,
+        type: "string",
+        inclusive: true,
+        message: `${label}最多${max}个字符`,
+      });
+    }
+  };
+
 const refineMaxGraphemes =
   (max: number, message: string) =>
   (value: string, ctx: z.RefinementCtx) => {
@@ -78,6 +115,22 @@ export const BUTTON_TEXT_MAX = 30;
 export const CALLBACK_DATA_MAX_BYTES = 64;
 export const MAX_BUTTONS_PER_ROW = 8;
 export const MAX_KEYBOARD_ROWS = 100;
+export const INPUT_FIELD_PLACEHOLDER_MAX = 64;
+export const COPY_TEXT_MAX = 256;
+export const CALLBACK_ANSWER_MAX = 200;
+export const KEYBOARD_KINDS = ["inline", "reply", "remove", "force_reply"] as const;
+export const MESSAGE_TYPES = ["text", "photo", "video", "document", "animation", "audio", "voice", "video_note", "media_group"] as const;
+export const MEDIA_GROUP_ITEM_TYPES = ["photo", "video", "document", "audio"] as const;
+export const MEDIA_GROUP_MIN_ITEMS = 2;
+export const MEDIA_GROUP_MAX_ITEMS = 10;
+export const MESSAGE_TEXT_MAX = 4096;
+export const CAPTION_MAX = 1024;
+
+/**
+ * 消息文本的长度上限：媒体消息的文本作为说明文字发送（1024），文本消息与相册后的文字消息为 4096
+ */
+export const getMessageTextLimit = (messageType: MessageType = "text") =>
+  messageType === "text" || messageType === "media_group" ? MESSAGE_TEXT_MAX : CAPTION_MAX;
 export const CALLBACK_DATA_ERROR_MESSAGE = `callback_data 最多 ${CALLBACK_DATA_MAX_BYTES} 字节`;
 const SENSITIVE_DATA_PATTERN = /\b0x[a-fA-F0-9]{40}\b|\bT[1-9A-HJ-NP-Za-km-z]{33}\b|\b(?:bc1|[13])[a-zA-HJ-NP-Z0-9]{25,39}\b/i;
 
@@ -106,10 +159,16 @@ const formatKeyboardIssue = (issue: z.ZodIssue) => {
   return issue.message;
 };
 
+const HttpsUrlSchema = z.preprocess(
+  trimStringValue,
+  z.string().url("无效的URL格式").refine((value) => /^https:\/\//i.test(value), { message: "仅支持 HTTPS 链接" })
+);
+
 /**
- * 按钮数据验证 Schema
+ * 按钮数据验证 Schema（最多设置一种操作；未设置时导出为基于文本的 callback_data）
+ * 旧版本保存的 URL 按钮可能同时带有 linked_screen_id，校验前会去掉该链接
  */
-export const ButtonSchema = z.object({
+export const ButtonSchema = z.preprocess(dropLegacyLink, z.object({
   id: z.string(),
   text: z
     .string()
@@ -130,8 +189,74 @@ export const ButtonSchema = z.object({
     },
     { message: CALLBACK_DATA_ERROR_MESSAGE }
   ),
+  web_app: z.object({ url: HttpsUrlSchema }).optional(),
+  login_url: z
+    .object({
+      url: HttpsUrlSchema,
+      forward_text: z.string().optional(),
+      bot_username: z.string().optional(),
+      request_write_access: z.boolean().optional(),
+    })
+    .optional(),
+  switch_inline_query: z.string().optional(),
+  switch_inline_query_current_chat: z.string().optional(),
+  switch_inline_query_chosen_chat: z
+    .object({
+      query: z.string().optional(),
+      allow_user_chats: z.boolean().optional(),
+      allow_bot_chats: z.boolean().optional(),
+      allow_group_chats: z.boolean().optional(),
+      allow_channel_chats: z.boolean().optional(),
+    })
+    .optional(),
+  copy_text: z
+    .object({
+      text: z
+        .string()
+        .min(1, "复制文本不能为空")
+        .superRefine(refineMaxGraphemes(COPY_TEXT_MAX, `复制文本最多${COPY_TEXT_MAX}个字符`)),
+    })
+    .optional(),
+  callback_game: z.object({}).strict().optional(),
+  pay: z.boolean().optional(),
   linked_screen_id: z.string().optional(),
-});
+  visible_if: z.string().optional().superRefine((condition, ctx) => {
+    if (!condition?.trim()) return;
+    try {
+      parseCondition(condition);
+    } catch (error) {
+      if (!(error instanceof ConditionError)) throw error;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `显示条件无效：${error.message}` });
+    }
+  }),
+  transition: z.enum(BUTTON_TRANSITIONS, { errorMap: () => ({ message: "不支持的切换方式" }) }).optional(),
+  callback_answer: z
+    .object({
+      text: z
+        .string()
+        .trim()
+        .min(1, "回调应答不能为空")
+        .superRefine(refineMaxGraphemes(CALLBACK_ANSWER_MAX, `回调应答最多${CALLBACK_ANSWER_MAX}个字符`)),
+      show_alert: z.boolean().optional(),
+    })
+    .optional(),
+}).superRefine((button, ctx) => {
+  const actions = getButtonActions(button);
+  if (actions.length > 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [actions[1]],
+      message: `只能设置一种按钮操作（当前: ${actions.join(", ")}）`,
+    });
+  }
+  if ((button.transition || button.callback_answer) && !button.linked_screen_id) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [button.transition ? "transition" : "callback_answer"],
+      message: "只有链接模版的按钮可以设置切换方式和回调应答",
+    });
+  }
+}));
 
 /**
  * 键盘行验证 Schema
@@ -144,7 +269,254 @@ export const KeyboardRowSchema = z.object({
 /**
  * 键盘验证 Schema
  */
-export const KeyboardSchema = z.array(KeyboardRowSchema).max(MAX_KEYBOARD_ROWS, `最多${MAX_KEYBOARD_ROWS}行按钮`);
+export const KeyboardSchema = z
+  .array(KeyboardRowSchema)
+  .max(MAX_KEYBOARD_ROWS, `最多${MAX_KEYBOARD_ROWS}行按钮`)
+  .superRefine((rows, ctx) => {
+    rows.forEach((row, rowIdx) => {
+      row.buttons.forEach((button, btnIdx) => {
+        if (rowIdx === 0 && btnIdx === 0) return;
+        const action = getButtonActions(button).find((item) => FIRST_BUTTON_ONLY_ACTIONS.includes(item));
+        if (action) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [rowIdx, "buttons", btnIdx, action],
+            message: `${action} 按钮必须位于第一行第一个`,
+          });
+        }
+      });
+    });
+  });
+
+const REPLY_UNSUPPORTED_ACTIONS = INLINE_BUTTON_ACTIONS.filter((action) => !REPLY_BUTTON_ACTIONS.includes(action));
+
+/**
+ * 回复键盘验证 Schema（按钮只发送文本或打开 Web App，不支持其它内联操作）
+ */
+export const ReplyKeyboardSchema = KeyboardSchema.superRefine((rows, ctx) => {
+  rows.forEach((row, rowIdx) => {
+    row.buttons.forEach((button, btnIdx) => {
+      // Linked buttons navigate by their text in reply keyboards; their derived callback_data is not exported.
+      const actions = getButtonActions(button).filter((item) => !(item === "callback_data" && button.linked_screen_id));
+      for (const action of actions.filter((item) => REPLY_UNSUPPORTED_ACTIONS.includes(item))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [rowIdx, "buttons", btnIdx, action],
+          message: `回复键盘按钮不支持 ${action === "url" ? "URL" : action}`,
+        });
+      }
+      // Reply keyboard buttons send their text; there is no callback query to answer or message to edit.
+      if (button.transition || button.callback_answer) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [rowIdx, "buttons", btnIdx, button.transition ? "transition" : "callback_answer"],
+          message: "回复键盘按钮不支持切换方式和回调应答",
+        });
+      }
+      // Reply keyboards are sent as-is; only inline markups are built per user in generated code.
+      if (button.visible_if?.trim()) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [rowIdx, "buttons", btnIdx, "visible_if"],
+          message: "回复键盘按钮不支持显示条件",
+        });
+      }
+    });
+  });
+});
+
+const getKeyboardSchema = (kind: KeyboardKind) => (kind === "reply" ? ReplyKeyboardSchema : KeyboardSchema);
+
+/**
+ * 键盘类型验证 Schema
+ */
+export const KeyboardKindSchema = z.enum(KEYBOARD_KINDS);
+
+/**
+ * 回复键盘选项验证 Schema
+ */
+export const ReplyKeyboardOptionsSchema = z.object({
+  resize_keyboard: z.boolean().optional(),
+  one_time_keyboard: z.boolean().optional(),
+  is_persistent: z.boolean().optional(),
+  input_field_placeholder: z
+    .string()
+    .superRefine(refineMaxGraphemes(INPUT_FIELD_PLACEHOLDER_MAX, `输入框占位文本最多${INPUT_FIELD_PLACEHOLDER_MAX}个字符`))
+    .optional(),
+  selective: z.boolean().optional(),
+});
+
+/**
+ * 链接预览选项验证 Schema：小图与大图只能二选一
+ */
+export const LinkPreviewOptionsSchema = z
+  .object({
+    is_disabled: z.boolean().optional(),
+    url: z.preprocess(
+      trimStringValue,
+      z.union([
+        z.literal(''),
+        z.string().url("无效的预览链接").refine(isUrlProtocolAllowed, { message: "禁止的URL协议" }),
+      ])
+    ).optional(),
+    prefer_small_media: z.boolean().optional(),
+    prefer_large_media: z.boolean().optional(),
+    show_above_text: z.boolean().optional(),
+  })
+  .refine((options) => !(options.prefer_small_media && options.prefer_large_media), {
+    message: "预览不能同时使用小图和大图",
+  });
+
+export const FLOW_VARIABLE_TYPES = ["string", "number", "boolean"] as const;
+
+/**
+ * 流程变量验证 Schema：变量名需可作为代码参数名，示例值需符合变量类型
+ */
+export const FlowVariableSchema = z
+  .object({
+    name: z.preprocess(
+      trimStringValue,
+      z
+        .string()
+        .min(1, "变量名不能为空")
+        .max(32, "变量名最多32个字符")
+        .regex(VARIABLE_NAME_PATTERN, "变量名只能包含字母、数字和下划线，且不能以数字开头")
+        .refine((name) => !isReservedVariableName(name), { message: "变量名为保留字" })
+    ),
+    type: z.enum(FLOW_VARIABLE_TYPES, { errorMap: () => ({ message: "不支持的变量类型" }) }),
+    sample: z.string().max(256, "示例值最多256个字符"),
+  })
+  .superRefine((variable, ctx) => {
+    if (variable.type === "number" && (!variable.sample.trim() || !Number.isFinite(Number(variable.sample)))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "数字变量的示例值必须是数字", path: ["sample"] });
+    }
+    if (variable.type === "boolean" && variable.sample !== "true" && variable.sample !== "false") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "布尔变量的示例值必须是 true 或 false", path: ["sample"] });
+    }
+  });
+
+export const FlowVariablesSchema = z.array(FlowVariableSchema).superRefine((variables, ctx) => {
+  const seen = new Set<string>();
+  variables.forEach((variable, index) => {
+    if (seen.has(variable.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "变量名重复", path: [index, "name"] });
+    }
+    seen.add(variable.name);
+  });
+});
+
+const formatFlowVariableIssue = (issue: z.ZodIssue) => {
+  const [index] = issue.path;
+  return typeof index === "number" ? `第${index + 1}个变量 ${issue.message}` : issue.message;
+};
+
+export const PAGINATION_MAX_ITEMS = 200;
+export const PAGINATION_MAX_PAGE_SIZE = 50;
+/** Telegram shows at most 8 buttons per inline keyboard row. */
+export const PAGINATION_MAX_COLUMNS = 8;
+
+/**
+ * 分页键盘验证 Schema：项目 callback_data 不能与翻页按钮（page:nav:…）冲突
+ */
+export const PaginationSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        text: z.preprocess(trimStringValue, z.string().min(1, "项目文本不能为空").max(64, "项目文本最多64个字符")),
+        callback_data: z
+          .string()
+          .refine((val) => getByteLength(val) <= CALLBACK_DATA_MAX_BYTES, { message: CALLBACK_DATA_ERROR_MESSAGE })
+          .refine((val) => !val.startsWith("page:nav:"), { message: "callback_data 不能以 page:nav: 开头（翻页按钮专用）" })
+          .optional(),
+      })
+    )
+    .min(1, "分页列表至少需要1个项目")
+    .max(PAGINATION_MAX_ITEMS, `分页列表最多${PAGINATION_MAX_ITEMS}个项目`),
+  page_size: z
+    .number({ invalid_type_error: "每页数量必须是数字" })
+    .int("每页数量必须是整数")
+    .min(1, "每页至少1个项目")
+    .max(PAGINATION_MAX_PAGE_SIZE, `每页最多${PAGINATION_MAX_PAGE_SIZE}个项目`),
+  columns: z
+    .number({ invalid_type_error: "每行列数必须是数字" })
+    .int("每行列数必须是整数")
+    .min(1, "每行至少1列")
+    .max(PAGINATION_MAX_COLUMNS, `每行最多${PAGINATION_MAX_COLUMNS}列`),
+});
+
+const formatPaginationIssue = (issue: z.ZodIssue) => {
+  const [field, itemIdx] = issue.path;
+  return field === "items" && typeof itemIdx === "number" ? `第${itemIdx + 1}个项目 ${issue.message}` : issue.message;
+};
+
+export const INPUT_STEP_KINDS = ["text", "number", "email", "phone", "photo", "location", "contact"] as const;
+/** Reply kinds that arrive as message text, so a pattern can check them. */
+export const TEXT_INPUT_STEP_KINDS: readonly InputStep["expect"][] = ["text", "number", "email", "phone"];
+export const INPUT_PATTERN_MAX = 256;
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 用户输入步骤验证 Schema：正则只适用于文本类回复，且必须能被解析
+ */
+export const InputStepSchema = z
+  .object({
+    expect: z.enum(INPUT_STEP_KINDS, { errorMap: () => ({ message: "不支持的输入类型" }) }),
+    pattern: z
+      .string()
+      .max(INPUT_PATTERN_MAX, `正则表达式最多${INPUT_PATTERN_MAX}个字符`)
+      .refine(isValidPattern, { message: "正则表达式无效" })
+      .optional(),
+    retry_message: z.preprocess(
+      trimStringValue,
+      z.string().min(1, "重试提示不能为空").superRefine(refineMaxTelegramLength(MESSAGE_TEXT_MAX, "重试提示"))
+    ),
+    next_screen_id: z.string().min(1, "下一屏不能为空").optional(),
+  })
+  .refine((step) => !step.pattern || TEXT_INPUT_STEP_KINDS.includes(step.expect), {
+    message: "只有文本、数字、邮箱和手机号输入可以设置正则表达式",
+    path: ["pattern"],
+  });
+
+/**
+ * 媒体组（相册）验证 Schema：2–10 个媒体，文件与音频只能与同类型媒体组成相册
+ */
+export const MediaGroupSchema = z
+  .array(
+    z.object({
+      type: z.enum(MEDIA_GROUP_ITEM_TYPES, { errorMap: () => ({ message: "不支持的媒体类型" }) }),
+      media: z.preprocess(
+        trimStringValue,
+        z.string().min(1, "媒体 URL 不能为空").refine(isUrlProtocolAllowed, { message: "禁止的URL协议" })
+      ),
+      caption: z.string().superRefine(refineMaxTelegramLength(CAPTION_MAX, "说明文字")).optional(),
+    })
+  )
+  .min(MEDIA_GROUP_MIN_ITEMS, `媒体组至少需要${MEDIA_GROUP_MIN_ITEMS}个媒体`)
+  .max(MEDIA_GROUP_MAX_ITEMS, `媒体组最多${MEDIA_GROUP_MAX_ITEMS}个媒体`)
+  .superRefine((items, ctx) => {
+    const types = new Set(items.map((item) => item.type));
+    for (const exclusive of ["document", "audio"] as const) {
+      if (types.has(exclusive) && types.size > 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${exclusive === "document" ? "文件" : "音频"}不能与其他类型的媒体混在同一相册`,
+        });
+      }
+    }
+  });
+
+const formatMediaGroupIssue = (issue: z.ZodIssue) => {
+  const [itemIdx] = issue.path;
+  return typeof itemIdx === "number" ? `第${itemIdx + 1}个媒体 ${issue.message}` : issue.message;
+};
 
 /**
  * 消息内容验证 Schema
@@ -152,7 +524,18 @@ export const KeyboardSchema = z.array(KeyboardRowSchema).max(MAX_KEYBOARD_ROWS,
 export const MessageContentSchema = z.string()
   .trim()
   .min(1, "消息内容不能为空")
-  .superRefine(refineMaxGraphemes(4096, "消息内容最多4096个字符"));
+  .superRefine(refineMaxTelegramLength(MESSAGE_TEXT_MAX, "消息内容"));
+
+/**
+ * 媒体说明文字验证 Schema
+ */
+export const CaptionContentSchema = z.string()
+  .trim()
+  .min(1, "消息内容不能为空")
+  .superRefine(refineMaxTelegramLength(CAPTION_MAX, "媒体说明文字"));
+
+const getMessageContentSchema = (messageType: MessageType) =>
+  getMessageTextLimit(messageType) === CAPTION_MAX ? CaptionContentSchema : MessageContentSchema;
 
 /**
  * 模版验证 Schema
@@ -171,14 +554,102 @@ export const ScreenSchema = z.object({
 });
 
 /**
- * 流程导出格式验证 Schema
+ * 项目验证 Schema（bot_username 可带 @，保存时去掉）
+ */
+export const ProjectSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "项目名称不能为空")
+    .superRefine(refineMaxGraphemes(100, "项目名称最多100个字符")),
+  bot_username: z
+    .string()
+    .trim()
+    .transform((value) => value.replace(/^@/, '') || null)
+    .pipe(z.string().regex(/^[A-Za-z][A-Za-z0-9_]{4,31}$/, "机器人用户名需为 5-32 位字母、数字或下划线，并以字母开头").nullable())
+    .nullish()
+    .transform((value) => value ?? null),
+  default_parse_mode: z.enum(["HTML", "MarkdownV2"], { errorMap: () => ({ message: "不支持的解析模式" }) }),
+  workspace_id: z.string().min(1, "团队无效").nullish(),
+});
+
+/**
+ * 团队（工作区）验证 Schema
+ */
+export const WorkspaceSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "团队名称不能为空")
+    .superRefine(refineMaxGraphemes(100, "团队名称最多100个字符")),
+});
+
+/**
+ * 成员邀请验证 Schema（邮箱统一小写；所有者不能通过邀请产生）
+ */
+export const WorkspaceInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email("邮箱格式不正确"),
+  role: z.enum(["editor", "viewer"], { errorMap: () => ({ message: "不支持的成员角色" }) }),
+});
+
+export const FlowLayoutSchema = z.object({
+  screen_id: z.string().min(1, "布局缺少模版 ID"),
+  x: z.number().finite("布局坐标无效"),
+  y: z.number().finite("布局坐标无效"),
+});
+
+/**
+ * 流程导出格式验证 Schema（validateFlowExport 先把旧版本升级到 FLOW_FORMAT_VERSION 再校验）
  */
 export const FlowExportSchema = z.object({
-  version: z.string(),
+  version: z.union([z.number().int(), z.string()]),
   entry_screen_id: z.string(),
   screens: z.array(ScreenSchema),
+  variables: FlowVariablesSchema.optional(),
+  layouts: z.array(FlowLayoutSchema).optional(),
+  pinned_ids: z.array(z.string()).optional(),
+});
+
+const expectScreen = z.string().nullable();
+
+/**
+ * 模拟器测试脚本验证 Schema
+ */
+export const SimulatorScriptSchema = z.object({
+  version: z.literal(1, { errorMap: () => ({ message: "不支持的脚本版本" }) }),
+  entry_screen_id: z.string().min(1, "入口模版不能为空"),
+  values: z.record(z.string()).default({}),
+  steps: z
+    .array(
+      z.discriminatedUnion(
+        "action",
+        [
+          z.object({ action: z.literal("start"), expect_screen: expectScreen }),
+          z.object({
+            action: z.literal("press"),
+            message_id: z.number().int().positive("消息编号无效"),
+            button: z.string().min(1, "按钮文字不能为空"),
+            expect_screen: expectScreen,
+          }),
+          z.object({ action: z.literal("tap"), button: z.string().min(1, "按钮文字不能为空"), expect_screen: expectScreen }),
+          z.object({ action: z.literal("send"), text: z.string().min(1, "消息不能为空"), expect_screen: expectScreen }),
+          z.object({
+            action: z.literal("attach"),
+            kind: z.enum(["photo", "location", "contact"], { errorMap: () => ({ message: "不支持的附件类型" }) }),
+            expect_screen: expectScreen,
+          }),
+        ],
+        { errorMap: () => ({ message: "不支持的操作" }) }
+      )
+    )
+    .min(1, "脚本至少需要一个步骤"),
 });
 
+const formatSimulatorScriptIssue = (issue: z.ZodIssue) => {
+  const [key, stepIdx] = issue.path;
+  return key === "steps" && typeof stepIdx === "number" ? `第${stepIdx + 1}步 ${issue.message}` : issue.message;
+};
+
 /**
  * 验证按钮数据
  */
@@ -208,8 +679,8 @@ export const validateCallbackData = (value: unknown) => {
 /**
  * 验证键盘数据
  */
-export const validateKeyboard = (keyboard: unknown) => {
-  const result = KeyboardSchema.safeParse(keyboard);
+export const validateKeyboard = (keyboard: unknown, kind: KeyboardKind = "inline") => {
+  const result = getKeyboardSchema(kind).safeParse(keyboard);
   if (!result.success) {
     const messages = result.error.errors.map(formatKeyboardIssue).join(', ');
     throw new Error(`键盘数据验证失败: ${messages}`);
@@ -218,14 +689,96 @@ export const validateKeyboard = (keyboard: unknown) => {
 };
 
 /**
- * 验证消息内容
+ * 验证媒体组
+ */
+export const validateMediaGroup = (items: unknown) => {
+  const result = MediaGroupSchema.safeParse(items);
+  if (!result.success) {
+    const messages = result.error.errors.map(formatMediaGroupIssue).join(', ');
+    throw new Error(`媒体组验证失败: ${messages}`);
+  }
+  return result.data;
+};
+
+/**
+ * 验证回复键盘选项
+ */
+export const validateReplyKeyboardOptions = (options: unknown) => {
+  const result = ReplyKeyboardOptionsSchema.safeParse(options ?? {});
+  if (!result.success) {
+    const messages = result.error.errors.map(e => e.message).join(', ');
+    throw new Error(`键盘选项验证失败: ${messages}`);
+  }
+  return result.data;
+};
+
+/**
+ * 验证链接预览选项
+ */
+export const validateLinkPreviewOptions = (options: unknown) => {
+  const result = LinkPreviewOptionsSchema.safeParse(options ?? {});
+  if (!result.success) {
+    const messages = result.error.errors.map(e => e.message).join(', ');
+    throw new Error(`链接预览验证失败: ${messages}`);
+  }
+  return result.data;
+};
+
+/**
+ * 验证分页键盘
+ */
+export const validatePagination = (pagination: unknown) => {
+  const result = PaginationSchema.safeParse(pagination);
+  if (!result.success) {
+    const messages = result.error.errors.map(formatPaginationIssue).join(', ');
+    throw new Error(`分页验证失败: ${messages}`);
+  }
+  return result.data as PaginatedKeyboard;
+};
+
+/**
+ * 验证用户输入步骤
+ */
+export const validateInputStep = (step: unknown) => {
+  const result = InputStepSchema.safeParse(step);
+  if (!result.success) {
+    const messages = result.error.errors.map(e => e.message).join(', ');
+    throw new Error(`输入步骤验证失败: ${messages}`);
+  }
+  return result.data as InputStep;
+};
+
+/**
+ * 验证流程变量声明
+ */
+export const validateFlowVariables = (variables: unknown) => {
+  const result = FlowVariablesSchema.safeParse(variables ?? []);
+  if (!result.success) {
+    const messages = result.error.errors.map(formatFlowVariableIssue).join(', ');
+    throw new Error(`变量验证失败: ${messages}`);
+  }
+  return result.data as FlowVariable[];
+};
+
+/**
+ * 验证模版中引用的变量均已声明
+ */
+export const validateVariableUsage = (screen: { text: string; keyboard: KeyboardRow[] }, variables: FlowVariable[]) => {
+  const messages = getUndeclaredVariableErrors(screen, variables);
+  if (messages.length) {
+    throw new Error(`变量验证失败: ${messages.join(', ')}`);
+  }
+};
+
+/**
+ * 验证消息内容（按消息类型区分文本与媒体说明的长度上限）
  */
-export const validateMessageContent = (content: unknown) => {
+export const validateMessageContent = (content: unknown, messageType: MessageType = "text") => {
   if (content === null || content === undefined) {
     throw new Error("消息内容验证失败: 消息内容不能为空");
   }
   try {
-    return MessageContentSchema.parse(content);
+    return getMessageContentSchema(messageType).parse(content);
   } catch (error) {
     if (error instanceof z.ZodError) {
       const messages = error.errors.map(e => e.message).join(', ');
@@ -250,6 +803,42 @@ export const validateScreen = (screen: unknown) => {
   }
 };
 
+/**
+ * 验证项目设置
+ */
+export const validateProject = (project: unknown) => {
+  const result = ProjectSchema.safeParse(project);
+  if (!result.success) {
+    const messages = result.error.errors.map(e => e.message).join(', ');
+    throw new Error(`项目验证失败: ${messages}`);
+  }
+  return result.data as Pick<Project, 'name' | 'bot_username' | 'default_parse_mode' | 'workspace_id'>;
+};
+
+/**
+ * 验证团队设置
+ */
+export const validateWorkspace = (workspace: unknown) => {
+  const result = WorkspaceSchema.safeParse(workspace);
+  if (!result.success) {
+    const messages = result.error.errors.map(e => e.message).join(', ');
+    throw new Error(`团队验证失败: ${messages}`);
+  }
+  return result.data as Pick<Workspace, 'name'>;
+};
+
+/**
+ * 验证成员邀请
+ */
+export const validateWorkspaceInvite = (invite: unknown) => {
+  const result = WorkspaceInviteSchema.safeParse(invite);
+  if (!result.success) {
+    const messages = result.error.errors.map(e => e.message).join(', ');
+    throw new Error(`邀请验证失败: ${messages}`);
+  }
+  return result.data as Pick<WorkspaceInvite, 'email' | 'role'>;
+};
+
 export const screenContainsSensitiveData = (messageContent: string, keyboard: KeyboardRow[] | unknown) => {
   const content = messageContent ?? "";
   if (SENSITIVE_DATA_PATTERN.test(content)) return true;
@@ -264,18 +853,120 @@ export const screenContainsSensitiveData = (messageContent: string, keyboard: Ke
 /**
  * 收集键盘校验错误（用于内联提示）
  */
-export const getKeyboardValidationErrors = (keyboard: KeyboardRow[] | unknown) => {
-  const result = KeyboardSchema.safeParse(keyboard);
+export const getKeyboardValidationErrors = (keyboard: KeyboardRow[] | unknown, kind: KeyboardKind = "inline") => {
+  const result = getKeyboardSchema(kind).safeParse(keyboard);
   if (result.success) return [];
   return result.error.errors.map(formatKeyboardIssue);
 };
 
+/**
+ * 收集消息内容校验错误（用于内联提示）
+ */
+export const getMessageContentErrors = (content: string, messageType: MessageType = "text") => {
+  const result = getMessageContentSchema(messageType).safeParse(content);
+  if (result.success) return [];
+  return result.error.errors.map((issue) => issue.message);
+};
+
+/**
+ * 收集链接预览选项校验错误（用于内联提示）
+ */
+export const getLinkPreviewValidationErrors = (options: unknown) => {
+  const result = LinkPreviewOptionsSchema.safeParse(options ?? {});
+  if (result.success) return [];
+  return result.error.errors.map((issue) => issue.message);
+};
+
+/**
+ * 收集分页键盘校验错误（用于内联提示）
+ */
+export const getPaginationValidationErrors = (pagination: unknown) => {
+  const result = PaginationSchema.safeParse(pagination);
+  if (result.success) return [];
+  return result.error.errors.map(formatPaginationIssue);
+};
+
+/**
+ * 收集用户输入步骤校验错误（用于内联提示）
+ */
+export const getInputStepValidationErrors = (step: unknown) => {
+  const result = InputStepSchema.safeParse(step);
+  if (result.success) return [];
+  return result.error.errors.map((issue) => issue.message);
+};
+
+/**
+ * 收集流程变量声明校验错误（用于内联提示）
+ */
+export const getFlowVariableValidationErrors = (variables: unknown) => {
+  const result = FlowVariablesSchema.safeParse(variables ?? []);
+  if (result.success) return [];
+  return result.error.errors.map(formatFlowVariableIssue);
+};
+
+/**
+ * 收集未声明变量的引用（用于内联提示）
+ */
+export const getUndeclaredVariableErrors = (screen: { text: string; keyboard: KeyboardRow[] }, variables: FlowVariable[]) =>
+  findUndeclaredVariables(collectVariableUsages(screen), variables).map((name) => `变量 {{${name}}} 未声明`);
+
+/**
+ * 收集媒体组校验错误（用于内联提示）
+ */
+export const getMediaGroupValidationErrors = (items: unknown) => {
+  const result = MediaGroupSchema.safeParse(items);
+  if (result.success) return [];
+  return result.error.errors.map(formatMediaGroupIssue);
+};
+
 /**
  * 验证流程导出数据
  */
+const objectKeys = (schema: z.ZodTypeAny) => {
+  let inner = schema;
+  while (inner instanceof z.ZodEffects) inner = inner.innerType();
+  return new Set(inner instanceof z.ZodObject ? Object.keys(inner.shape) : []);
+};
+
+const asRecords = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value) ? value.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && !Array.isArray(item)) : [];
+
+/**
+ * 当前版本不认识的字段路径（如 `screens[].keyboard[].buttons[].effect`），用于提示新版本导出的文件
+ */
+export const listUnsupportedFlowFields = (data: unknown): string[] => {
+  const fields = new Set<string>();
+  const collect = (records: Record<string, unknown>[], schema: z.ZodTypeAny, path: string) => {
+    const known = objectKeys(schema);
+    records.forEach((record) => Object.keys(record).forEach((key) => !known.has(key) && fields.add(`${path}${key}`)));
+  };
+  const [flow] = asRecords([data]);
+  if (!flow) return [];
+  collect([flow], FlowExportSchema, '');
+  const screens = asRecords(flow.screens);
+  collect(screens, ScreenSchema, 'screens[].');
+  const rows = screens.flatMap((screen) => asRecords(screen.keyboard));
+  collect(rows, KeyboardRowSchema, 'screens[].keyboard[].');
+  collect(rows.flatMap((row) => asRecords(row.buttons)), ButtonSchema, 'screens[].keyboard[].buttons[].');
+  collect(asRecords(flow.variables), FlowVariableSchema, 'variables[].');
+  collect(asRecords(flow.layouts), FlowLayoutSchema, 'layouts[].');
+  return [...fields];
+};
+
 export const validateFlowExport = (data: unknown) => {
+  let migrated: unknown;
+  try {
+    migrated = migrateFlowExport(data);
+  } catch (error) {
+    if (error instanceof UnsupportedFlowVersionError) {
+      const fields = listUnsupportedFlowFields(data);
+      const detail = fields.length > 0 ? `，不支持的字段: ${fields.join(', ')}` : '';
+      throw new Error(`流程数据验证失败: ${error.message}${detail}，请更新应用后再导入`);
+    }
+    throw new Error(`流程数据验证失败: ${error instanceof Error ? error.message : String(error)}`);
+  }
   try {
-    return FlowExportSchema.parse(data);
+    return FlowExportSchema.parse(migrated);
   } catch (error) {
     if (error instanceof z.ZodError) {
       const messages = error.errors.map(e => e.message).join(', ');
@@ -284,3 +975,15 @@ export const validateFlowExport = (data: unknown) => {
     throw error;
   }
 };
+
+/**
+ * 验证模拟器测试脚本
+ */
+export const validateSimulatorScript = (data: unknown) => {
+  const result = SimulatorScriptSchema.safeParse(data);
+  if (!result.success) {
+    const messages = result.error.errors.map(formatSimulatorScriptIssue).join(', ');
+    throw new Error(`测试脚本验证失败: ${messages}`);
+  }
+  return result.data as SimulatorScript;
+};
@@ -0,0 +1,94 @@
+import type { FlowVariable, KeyboardButton, KeyboardRow } from "@/types/telegram";
+import { conditionVariables, evaluateCondition } from "@/lib/conditions";
+
+/** Variable names follow identifier rules so they can become parameters in generated code. */
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Names that would break generated code once variables become handler parameters: the handlers' own arguments and
+ * locals, the module-level names and imports they refer to, and Python or JavaScript keywords.
+ */
+const RESERVED_VARIABLE_NAMES = new Set([
+  // handler arguments and locals
+  "update", "context", "ctx", "message", "msg", "edit", "query", "state", "chatId", "chat_id", "screenId", "screen_id",
+  "markup", "keyboard", "kb", "reply_markup", "rows", "row", "nav", "page", "items", "current", "handler", "reply",
+  "answers", "waiting", "transition", "track",
+  // module-level names and helpers
+  "bot", "dp", "router", "cbx", "SCREENS", "TEXT_ROUTES", "TRANSITIONS", "INPUTS", "INPUT_STATES", "GOTO_PREFIX",
+  "PAGE_ITEMS", "PAGE_SIZE", "PAGE_COUNT", "PAGE_COLUMNS", "escape_html", "escape_markdown_v2", "escapeHtml",
+  "escapeMarkdownV2", "page_keyboard", "pageKeyboard", "page_callback", "pageCallback", "parsePage",
+  // imported names
+  "Telegraf", "Markup", "Bot", "Context", "InlineKeyboard", "Keyboard", "InputMediaBuilder", "InputMediaPhoto",
+  "InputMediaVideo", "InputMediaAnimation", "InputMediaAudio", "InputMediaDocument", "TelegramBot", "Update",
+  "Message", "CallbackQuery", "ContextTypes", "InlineKeyboardButton", "InlineKeyboardMarkup", "ReplyKeyboardMarkup",
+  "ReplyKeyboardRemove", "KeyboardButton", "ForceReply", "LinkPreviewOptions", "ParseMode", "Dispatcher", "Router",
+  "Command", "F", "FSMContext", "State", "StatesGroup", "ApplicationBuilder", "CommandHandler", "CallbackQueryHandler",
+  "MessageHandler", "ConversationHandler", "filters", "app", "createCallbackManager", "json", "re", "require", "process",
+  // Python keywords
+  "False", "None", "True", "and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif",
+  "else", "except", "finally", "for", "from", "global", "if", "import", "in", "is", "lambda", "nonlocal", "not", "or",
+  "pass", "raise", "return", "try", "while", "with", "yield",
+  // JavaScript reserved words
+  "arguments", "case", "catch", "const", "debugger", "default", "delete", "do", "enum", "eval", "export", "extends",
+  "false", "function", "implements", "instanceof", "interface", "let", "new", "null", "package", "private", "protected",
+  "public", "static", "super", "switch", "this", "throw", "true", "typeof", "undefined", "var", "void",
+]);
+
+export const isReservedVariableName = (name: string) => RESERVED_VARIABLE_NAMES.has(name);
+
+/** Whether a declared name can become a parameter of a generated handler. */
+export const isUsableVariableName = (name: string) => VARIABLE_NAME_PATTERN.test(name) && !isReservedVariableName(name);
+
+export const VARIABLE_TOKEN_SOURCE = "\\{\\{\\s*([A-Za-z_][A-Za-z0-9_]*)\\s*\\}\\}";
+
+/** `{{name}}` at the start of a string, for parsers that must keep placeholders intact. */
+export const VARIABLE_TOKEN_AT_START = new RegExp(`^${VARIABLE_TOKEN_SOURCE}`);
+
+const tokenPattern = () => new RegExp(VARIABLE_TOKEN_SOURCE, "g");
+
+/** Names referenced as `{{name}}`, in order of first use. */
+export const extractVariableNames = (text: string) => [...new Set([...text.matchAll(tokenPattern())].map((match) => match[1]))];
+
+/** Replace `{{name}}` with its value; placeholders without a value are left as written. */
+export const interpolateVariables = (text: string, values: Record<string, string>) =>
+  text.replace(tokenPattern(), (token, name: string) => (Object.prototype.hasOwnProperty.call(values, name) ? values[name] : token));
+
+export const sampleValues = (variables: FlowVariable[]): Record<string, string> =>
+  Object.fromEntries(variables.filter((variable) => variable.name).map((variable) => [variable.name, variable.sample]));
+
+const buttonUrls = (button: KeyboardButton) => [button.url, button.web_app?.url, button.login_url?.url].filter((url): url is string => !!url);
+
+/** Variables used by a screen: its message text, button texts, button URLs and button visibility conditions. */
+export const collectVariableUsages = ({ text, keyboard }: { text: string; keyboard: KeyboardRow[] }) => {
+  const buttons = keyboard.flatMap((row) => row.buttons);
+  return [
+    ...new Set([
+      ...extractVariableNames([text, ...buttons.flatMap((button) => [button.text, ...buttonUrls(button)])].join("\n")),
+      ...buttons.flatMap((button) => (button.visible_if ? conditionVariables(button.visible_if) : [])),
+    ]),
+  ];
+};
+
+export const findUndeclaredVariables = (names: string[], variables: FlowVariable[]) => {
+  const declared = new Set(variables.map((variable) => variable.name));
+  return names.filter((name) => !declared.has(name));
+};
+
+/** Keyboard with sample values substituted into button texts and URLs, for the preview. */
+export const interpolateKeyboard = (keyboard: KeyboardRow[], values: Record<string, string>): KeyboardRow[] =>
+  keyboard.map((row) => ({
+    ...row,
+    buttons: row.buttons.map((button) => {
+      const next: KeyboardButton = { ...button, text: interpolateVariables(button.text, values) };
+      if (button.url) next.url = interpolateVariables(button.url, values);
+      if (button.web_app) next.web_app = { ...button.web_app, url: interpolateVariables(button.web_app.url, values) };
+      if (button.login_url) next.login_url = { ...button.login_url, url: interpolateVariables(button.login_url.url, values) };
+      return next;
+    }),
+  }));
+
+/** Keyboard without the buttons whose visibility condition fails for `values`; rows left empty are dropped. */
+export const filterVisibleButtons = (keyboard: KeyboardRow[], values: Record<string, string>, variables: FlowVariable[]): KeyboardRow[] =>
+  keyboard
+    .map((row) => ({ ...row, buttons: row.buttons.filter((button) => evaluateCondition(button.visible_if, values, variables)) }))
+    .filter((row) => row.buttons.length > 0);
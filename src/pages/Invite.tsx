@@ -0,0 +1,84 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { SupabaseDataAccess } from "@/lib/dataAccess";
+
+type InviteState = "checking" | "signed_out" | "accepting" | "error";
+
+const Invite = () => {
+  const { token } = useParams();
+  const navigate = useNavigate();
+  // Without a token there is nothing to accept, so the link is reported as invalid right away.
+  const [state, setState] = useState<InviteState>(token ? "checking" : "error");
+  const [userId, setUserId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const dataAccess = useMemo(() => new SupabaseDataAccess(supabase, { userId }), [userId]);
+
+  useEffect(() => {
+    if (!token) return;
+    supabase.auth
+      .getSession()
+      .then(({ data: { session } }) => {
+        setUserId(session?.user?.id ?? null);
+        if (!session) setState("signed_out");
+      })
+      .catch(() => {
+        setState("signed_out");
+      });
+  }, [token]);
+
+  useEffect(() => {
+    if (!userId || !token) return;
+    let cancelled = false;
+    setState("accepting");
+    dataAccess
+      .acceptWorkspaceInvite(token)
+      .then(() => {
+        if (cancelled) return;
+        toast.success("已加入团队");
+        navigate("/");
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error accepting invite:", error);
+        setErrorMessage(error instanceof Error ? error.message : null);
+        setState("error");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dataAccess, navigate, token, userId]);
+
+  if (state === "checking" || state === "accepting") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p>{state === "accepting" ? "正在加入团队..." : "加载中..."}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <div className="max-w-md w-full space-y-4 text-center bg-muted/40 border border-border rounded-xl p-6 shadow-sm">
+        <div className="text-2xl font-semibold">{state === "signed_out" ? "加入团队" : "无法接受邀请"}</div>
+        <p className="text-muted-foreground">
+          {state === "signed_out"
+            ? "请使用受邀邮箱登录后接受邀请。"
+            : errorMessage ?? "邀请无效、已过期或不是发给当前账号的，请向团队所有者确认。"}
+        </p>
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          {state === "signed_out" && (
+            <Button onClick={() => navigate(`/auth?redirect=${encodeURIComponent(`/invite/${token ?? ""}`)}`)}>前往登录</Button>
+          )}
+          <Button variant={state === "signed_out" ? "outline" : "default"} onClick={() => navigate("/")}>
+            返回首页
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Invite;
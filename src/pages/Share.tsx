@@ -1,19 +1,23 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import MessageBubble from "@/components/MessageBubble";
+import MediaPreview from "@/components/MediaPreview";
+import LinkPreviewCard from "@/components/LinkPreviewCard";
 import InlineKeyboard from "@/components/InlineKeyboard";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import type { KeyboardRow, Screen } from "@/types/telegram";
+import type { KeyboardKind, KeyboardRow, LinkPreviewOptions, ReplyKeyboardOptions, Screen } from "@/types/telegram";
+import type { MediaGroupItem, MessageType, ParseMode } from "@/types/templates";
 import type { Json } from "@/integrations/supabase/types";
 import type { User } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { SupabaseDataAccess } from "@/lib/dataAccess";
 import { withRetry } from "@/lib/supabaseRetry";
 import { makeRequestId } from "@/types/sync";
+import { resolvePreviewUrl } from "@/lib/linkPreview";
 
 type PublicScreenRow = Omit<Screen, "keyboard" | "user_id"> & { keyboard: unknown };
-type ShareScreen = Screen & { rawMessageContent: string };
+type ShareScreen = Screen & { rawMessageContent: string; media_group?: MediaGroupItem[] };
 
 const SHOULD_CONSOLE_LOG = import.meta.env.MODE !== "test";
 
@@ -34,12 +38,33 @@ const parseMessage = (raw: string) => {
   try {
     const parsed = JSON.parse(raw) as unknown;
     if (parsed && typeof parsed === "object") {
-      const typed = parsed as { text?: string; caption?: string; type?: "text" | "photo" | "video"; photo?: string; video?: string };
+      const typed = parsed as {
+        text?: string;
+        caption?: string;
+        type?: MessageType;
+        mediaUrl?: string;
+        photo?: string;
+        video?: string;
+        media_group?: MediaGroupItem[];
+        keyboard_kind?: KeyboardKind;
+        reply_keyboard_options?: ReplyKeyboardOptions;
+        link_preview_options?: LinkPreviewOptions;
+        parse_mode?: ParseMode;
+      };
       const hasContent = typed.text !== undefined || typed.caption !== undefined;
       const type = typed.type || (typed.photo ? "photo" : typed.video ? "video" : "text");
-      const mediaUrl = typed.photo || typed.video || "";
+      const mediaUrl = typed.mediaUrl || typed.photo || typed.video || "";
       if (hasContent || mediaUrl) {
-        return { text: typed.text ?? typed.caption ?? raw, mediaUrl, type };
+        return {
+          text: typed.text ?? typed.caption ?? raw,
+          mediaUrl,
+          type,
+          mediaGroup: Array.isArray(typed.media_group) ? typed.media_group : undefined,
+          keyboardKind: typed.keyboard_kind,
+          replyKeyboardOptions: typed.reply_keyboard_options,
+          linkPreviewOptions: typed.link_preview_options,
+          parseMode: typed.parse_mode,
+        };
       }
     }
   } catch {
@@ -48,15 +73,21 @@ const parseMessage = (raw: string) => {
   return { text: raw, mediaUrl: "", type: "text" as const };
 };
 
+// The typed columns win; rows saved before they existed (null) keep the values in message_content.
 export const buildShareScreen = (row: PublicScreenRow): ShareScreen => {
   const parsed = parseMessage(row.message_content);
   return {
     ...row,
     rawMessageContent: row.message_content,
     keyboard: ensureKeyboard(row.keyboard),
-    message_type: parsed.type,
-    media_url: parsed.mediaUrl,
+    parse_mode: row.parse_mode ?? ("parseMode" in parsed ? parsed.parseMode : undefined),
+    message_type: row.message_type ?? parsed.type,
+    media_url: row.message_type ? row.media_url : parsed.mediaUrl,
+    media_group: "mediaGroup" in parsed ? parsed.mediaGroup : undefined,
     message_content: parsed.text,
+    keyboard_kind: "keyboardKind" in parsed ? parsed.keyboardKind : undefined,
+    reply_keyboard_options: "replyKeyboardOptions" in parsed ? parsed.replyKeyboardOptions : undefined,
+    link_preview_options: "linkPreviewOptions" in parsed ? parsed.linkPreviewOptions : undefined,
   };
 };
 
@@ -167,6 +198,9 @@ const Share = () => {
           id: screen.id,
           name: screen.name,
           message_content: screen.rawMessageContent,
+          parse_mode: screen.parse_mode ?? null,
+          message_type: screen.message_type ?? null,
+          media_url: screen.media_url ?? null,
           keyboard: screen.keyboard as unknown as Json,
           is_public: screen.is_public,
           share_token: screen.share_token,
@@ -210,6 +244,13 @@ const Share = () => {
 
   const authorLabel = "匿名用户";
   const lastUpdatedLabel = formatDateTime(screen.updated_at || screen.created_at);
+  const previewUrl =
+    screen.message_type === "text" || screen.message_type === "media_group"
+      ? resolvePreviewUrl(screen.message_content, screen.link_preview_options)
+      : null;
+  const linkPreview = previewUrl ? (
+    <LinkPreviewCard url={previewUrl} options={screen.link_preview_options} className="my-2 bg-white/5" />
+  ) : null;
 
   return (
     <div className="min-h-screen bg-background p-4">
@@ -270,18 +311,22 @@ const Share = () => {
           </div>
 
           <div className="p-4 min-h-[500px] space-y-3">
-            {screen.message_type !== "text" && screen.media_url && (
-              <div className="w-full overflow-hidden rounded-xl border border-white/10">
-                {screen.message_type === "photo" ? (
-                  <img src={screen.media_url} alt="media" className="w-full object-cover" />
-                ) : (
-                  <video src={screen.media_url} controls className="w-full object-cover" />
-                )}
-              </div>
-            )}
+            <MediaPreview
+              type={screen.message_type ?? "text"}
+              url={screen.media_url}
+              items={screen.media_group}
+              className="border-white/10"
+            />
             <div className="inline-block max-w-[85%]">
+              {screen.link_preview_options?.show_above_text && linkPreview}
               <MessageBubble content={screen.message_content} readOnly />
-              <InlineKeyboard keyboard={screen.keyboard} readOnly />
+              {!screen.link_preview_options?.show_above_text && linkPreview}
+              <InlineKeyboard
+                keyboard={screen.keyboard}
+                kind={screen.keyboard_kind}
+                replyOptions={screen.reply_keyboard_options}
+                readOnly
+              />
             </div>
           </div>
         </div>
@@ -0,0 +1,40 @@
+import { render, screen } from "@testing-library/react";
+import { createMemoryRouter, RouterProvider } from "react-router-dom";
+import { describe, it, vi, expect } from "vitest";
+import Invite from "../Invite";
+
+const getSession = vi.hoisted(() => vi.fn().mockResolvedValue({ data: { session: null } }));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: { auth: { getSession } },
+}));
+
+vi.mock("@/lib/dataAccess", () => {
+  class FakeDataAccess {
+    async acceptWorkspaceInvite() {
+      return "w1";
+    }
+  }
+  return { SupabaseDataAccess: FakeDataAccess };
+});
+
+const renderAt = (path: string, initialEntry: string) =>
+  render(<RouterProvider router={createMemoryRouter([{ path, element: <Invite /> }], { initialEntries: [initialEntry] })} />);
+
+describe("Invite page", () => {
+  it("asks signed-out visitors to log in with the invited email", async () => {
+    renderAt("/invite/:token", "/invite/t1");
+
+    expect(await screen.findByText("请使用受邀邮箱登录后接受邀请。")).toBeTruthy();
+    expect(screen.getByRole("button", { name: "前往登录" })).toBeTruthy();
+  });
+
+  it("reports a link without a token as invalid instead of loading forever", () => {
+    getSession.mockClear();
+    renderAt("/invite", "/invite");
+
+    expect(screen.getByText("无法接受邀请")).toBeTruthy();
+    expect(screen.queryByText("加载中...")).toBeNull();
+    expect(getSession).not.toHaveBeenCalled();
+  });
+});
@@ -48,6 +48,20 @@ describe("Share page helpers", () => {
     expect(screen.message_content).toBe("hello world");
     expect(screen.message_type).toBe("photo");
     expect(screen.media_url).toBe("https://example.com/image.jpg");
+    expect(screen.parse_mode).toBe("MarkdownV2");
+  });
+
+  it("prefers the typed columns over the message_content payload", () => {
+    const payload = JSON.stringify({ type: "photo", text: "hi", mediaUrl: "https://example.com/old.jpg", parse_mode: "HTML" });
+    const screen = buildShareScreen({
+      ...baseRow,
+      message_content: payload,
+      parse_mode: "MarkdownV2",
+      message_type: "video",
+      media_url: "https://example.com/new.mp4",
+    });
+
+    expect(screen).toMatchObject({ message_content: "hi", parse_mode: "MarkdownV2", message_type: "video", media_url: "https://example.com/new.mp4" });
   });
 });
 
@@ -1,9 +1,84 @@
+import type { MessageType } from "./templates";
+
+export interface WebAppInfo {
+    url: string;
+}
+
+export interface LoginUrl {
+    url: string;
+    forward_text?: string;
+    bot_username?: string;
+    request_write_access?: boolean;
+}
+
+export interface SwitchInlineQueryChosenChat {
+    query?: string;
+    allow_user_chats?: boolean;
+    allow_bot_chats?: boolean;
+    allow_group_chats?: boolean;
+    allow_channel_chats?: boolean;
+}
+
+export interface CopyTextButton {
+    text: string;
+}
+
+/** Placeholder object; Telegram defines CallbackGame without fields. */
+export type CallbackGame = Record<string, never>;
+
+export type MessageEntityType =
+    | "bold"
+    | "italic"
+    | "underline"
+    | "strikethrough"
+    | "spoiler"
+    | "code"
+    | "pre"
+    | "text_link"
+    | "custom_emoji"
+    | "blockquote"
+    | "expandable_blockquote";
+
+/** Bot API MessageEntity; offset and length count UTF-16 code units. */
+export interface MessageEntity {
+    type: MessageEntityType;
+    offset: number;
+    length: number;
+    url?: string;
+    language?: string;
+    custom_emoji_id?: string;
+}
+
+/** How a linked inline button opens its screen: edit the message in place, send a new one, or delete it and send a new one. */
+export type ButtonTransition = "edit" | "send" | "replace";
+
+/** answerCallbackQuery sent for a button's callback query. */
+export interface CallbackAnswer {
+    text: string;
+    /** Show the text as a popup alert instead of a notification at the top of the chat. */
+    show_alert?: boolean;
+}
+
 export interface KeyboardButton {
     id: string;
     text: string;
     url?: string;
     callback_data?: string;
+    web_app?: WebAppInfo;
+    login_url?: LoginUrl;
+    switch_inline_query?: string;
+    switch_inline_query_current_chat?: string;
+    switch_inline_query_chosen_chat?: SwitchInlineQueryChosenChat;
+    copy_text?: CopyTextButton;
+    callback_game?: CallbackGame;
+    pay?: boolean;
     linked_screen_id?: string;
+    /** Expression over flow variables (e.g. `is_admin && plan == "pro"`); the button is shown only when it holds. */
+    visible_if?: string;
+    /** Linked inline buttons; unset means "edit", which falls back to sending when the message can't be edited. */
+    transition?: ButtonTransition;
+    /** Linked inline buttons: what the bot answers the callback query with. */
+    callback_answer?: CallbackAnswer;
 }
 
 export interface KeyboardRow {
@@ -11,18 +86,124 @@ export interface KeyboardRow {
     buttons: KeyboardButton[];
 }
 
+export type KeyboardKind = "inline" | "reply" | "remove" | "force_reply";
+
+export interface ReplyKeyboardOptions {
+    resize_keyboard?: boolean;
+    one_time_keyboard?: boolean;
+    is_persistent?: boolean;
+    input_field_placeholder?: string;
+    selective?: boolean;
+}
+
+export type FlowVariableType = "string" | "number" | "boolean";
+
+/** Flow-level variable, referenced as `{{name}}` in message text, button text and button URLs. */
+export interface FlowVariable {
+    name: string;
+    type: FlowVariableType;
+    /** Substituted in the preview and used as the parameter default in generated code. */
+    sample: string;
+}
+
+export interface PaginationItem {
+    text: string;
+    /** Defaults to `item_<n>` (1-based position in the list). */
+    callback_data?: string;
+}
+
+/** A long list of buttons shown `page_size` at a time, `columns` per row, with ◀ / ▶ page buttons below. */
+export interface PaginatedKeyboard {
+    items: PaginationItem[];
+    page_size: number;
+    columns: number;
+}
+
+export type InputStepKind = "text" | "number" | "email" | "phone" | "photo" | "location" | "contact";
+
+/** The screen waits for the user's reply, and opens `next_screen_id` once the reply is accepted. */
+export interface InputStep {
+    expect: InputStepKind;
+    /** Regular expression a text reply must match in full; only text, number, email and phone replies have one. */
+    pattern?: string;
+    /** Sent when the reply is of the wrong kind or doesn't match; the screen keeps waiting. */
+    retry_message: string;
+    next_screen_id?: string;
+}
+
+/** Bot API `LinkPreviewOptions`; an empty object keeps Telegram's default preview. */
+export interface LinkPreviewOptions {
+    is_disabled?: boolean;
+    url?: string;
+    prefer_small_media?: boolean;
+    prefer_large_media?: boolean;
+    show_above_text?: boolean;
+}
+
 export interface Screen {
     id: string;
     name: string;
     message_content: string;
     keyboard: KeyboardRow[];
+    keyboard_kind?: KeyboardKind;
+    reply_keyboard_options?: ReplyKeyboardOptions;
+    link_preview_options?: LinkPreviewOptions;
     lastUpdateTimestamp?: number;
-    parse_mode?: "HTML" | "MarkdownV2";
-    message_type?: "text" | "photo" | "video";
+    /** Typed columns; null or missing on rows saved before they existed, which keep them in message_content. */
+    parse_mode?: "HTML" | "MarkdownV2" | null;
+    message_type?: MessageType | null;
     media_url?: string | null;
     share_token?: string | null;
     is_public?: boolean | null;
     created_at?: string | null;
     updated_at?: string | null;
     user_id?: string | null;
+    /** Null for screens that belong to no project (listed as 未分组). */
+    project_id?: string | null;
+}
+
+/** A bot the user designs screens for. */
+export interface Project {
+    id: string;
+    name: string;
+    /** Without the leading @. */
+    bot_username: string | null;
+    /** Parse mode of new screens. */
+    default_parse_mode: "HTML" | "MarkdownV2";
+    entry_screen_id: string | null;
+    /** Workspace whose members share the project; null keeps it personal. */
+    workspace_id?: string | null;
+    created_at?: string;
+    updated_at?: string;
+    user_id?: string;
+}
+
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+
+/** A team workspace, with the current user's role in it. */
+export interface Workspace {
+    id: string;
+    name: string;
+    owner_id: string;
+    role: WorkspaceRole;
+    created_at?: string;
+}
+
+export interface WorkspaceMember {
+    workspace_id: string;
+    user_id: string;
+    email: string | null;
+    role: WorkspaceRole;
+    created_at?: string;
+}
+
+/** Pending invite; `token` goes into the invite link sent to `email`. */
+export interface WorkspaceInvite {
+    id: string;
+    workspace_id: string;
+    email: string;
+    role: Exclude<WorkspaceRole, "owner">;
+    token: string;
+    expires_at: string;
+    created_at?: string;
 }
@@ -1,14 +1,30 @@
-import type { KeyboardRow } from "./telegram";
+import type { KeyboardKind, KeyboardRow, LinkPreviewOptions, ReplyKeyboardOptions } from "./telegram";
 
 export type ParseMode = "HTML" | "MarkdownV2";
-export type MessageType = "text" | "photo" | "video";
+/** Single-media message types; each maps to a `send<Type>` Bot API method. */
+export type MediaMessageType = "photo" | "video" | "document" | "animation" | "audio" | "voice" | "video_note";
+export type MessageType = "text" | MediaMessageType | "media_group";
+
+/** Album item types: photos and videos can be mixed, documents and audio only form albums of their own type. */
+export type MediaGroupItemType = "photo" | "video" | "document" | "audio";
+
+export interface MediaGroupItem {
+  type: MediaGroupItemType;
+  media: string;
+  /** Editor markup, formatted with the screen's parse mode on export. */
+  caption?: string;
+}
 
 export interface TemplatePayload {
   message_content: string;
   keyboard: KeyboardRow[];
+  keyboard_kind?: KeyboardKind;
+  reply_keyboard_options?: ReplyKeyboardOptions;
+  link_preview_options?: LinkPreviewOptions;
   parse_mode?: ParseMode;
   message_type?: MessageType;
   media_url?: string;
+  media_group?: MediaGroupItem[];
 }
 
 export type TemplateMeta = {
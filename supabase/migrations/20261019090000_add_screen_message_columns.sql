@@ -0,0 +1,114 @@
+-- Migration: 20261019090000
+-- Promote parse_mode, message_type and media_url from the message_content JSON to typed columns.
+-- NULL means "not set on this row": clients then read the value from message_content, which keeps
+-- carrying it for older clients and flow exports.
+
+ALTER TABLE public.screens
+  ADD COLUMN IF NOT EXISTS parse_mode text,
+  ADD COLUMN IF NOT EXISTS message_type text,
+  ADD COLUMN IF NOT EXISTS media_url text;
+
+ALTER TABLE public.screens
+  DROP CONSTRAINT IF EXISTS screens_parse_mode_check;
+
+ALTER TABLE public.screens
+  ADD CONSTRAINT screens_parse_mode_check
+  CHECK (parse_mode IS NULL OR parse_mode IN ('HTML', 'MarkdownV2'));
+
+ALTER TABLE public.screens
+  DROP CONSTRAINT IF EXISTS screens_message_type_check;
+
+ALTER TABLE public.screens
+  ADD CONSTRAINT screens_message_type_check
+  CHECK (
+    message_type IS NULL
+    OR message_type IN ('text', 'photo', 'video', 'document', 'animation', 'audio', 'voice', 'video_note', 'media_group')
+  );
+
+-- message_content is either plain text or a JSON object with `type` and `text`; anything that does not
+-- parse is plain text.
+CREATE FUNCTION pg_temp.message_payload(content text)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF content !~ '^\s*\{' THEN
+    RETURN NULL;
+  END IF;
+  RETURN content::jsonb;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+-- Backfill without touching updated_at.
+ALTER TABLE public.screens DISABLE TRIGGER update_screens_updated_at;
+
+UPDATE public.screens s
+SET parse_mode = CASE WHEN p.payload->>'parse_mode' = 'MarkdownV2' THEN 'MarkdownV2' ELSE 'HTML' END,
+    message_type = CASE
+      WHEN p.payload->>'type' IN ('text', 'photo', 'video', 'document', 'animation', 'audio', 'voice', 'video_note', 'media_group')
+        THEN p.payload->>'type'
+      ELSE 'text'
+    END,
+    media_url = NULLIF(p.payload->>'mediaUrl', '')
+FROM (
+  SELECT id, pg_temp.message_payload(message_content) AS payload
+  FROM public.screens
+  WHERE parse_mode IS NULL
+) p
+WHERE s.id = p.id
+  AND p.payload ? 'type'
+  AND p.payload ? 'text';
+
+-- Plain-text rows are HTML text messages.
+UPDATE public.screens
+SET parse_mode = 'HTML',
+    message_type = 'text'
+WHERE parse_mode IS NULL
+  AND pg_temp.message_payload(message_content) IS NULL;
+
+ALTER TABLE public.screens ENABLE TRIGGER update_screens_updated_at;
+
+-- Share RPC returns the new columns.
+DROP FUNCTION IF EXISTS public.get_public_screen_by_token(text);
+
+CREATE FUNCTION public.get_public_screen_by_token(token text)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  message_content text,
+  keyboard jsonb,
+  parse_mode text,
+  message_type text,
+  media_url text,
+  is_public boolean,
+  share_token text,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.name,
+    s.message_content,
+    s.keyboard,
+    s.parse_mode,
+    s.message_type,
+    s.media_url,
+    s.is_public,
+    s.share_token,
+    s.created_at,
+    s.updated_at
+  FROM public.screens s
+  WHERE s.is_public = true
+    AND s.share_token = token
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_public_screen_by_token(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_public_screen_by_token(text) TO anon, authenticated;
@@ -0,0 +1,80 @@
+-- Migration: 20261020090000
+-- Projects: one per bot, grouping its screens. Screens without a project (everything saved before projects
+-- existed) stay listed as "未分组" until they are moved.
+
+CREATE TABLE IF NOT EXISTS public.projects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  bot_username text CHECK (bot_username IS NULL OR bot_username ~ '^[A-Za-z][A-Za-z0-9_]{4,31}$'),
+  default_parse_mode text NOT NULL DEFAULT 'HTML' CHECK (default_parse_mode IN ('HTML', 'MarkdownV2')),
+  entry_screen_id uuid REFERENCES public.screens(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS projects_select ON public.projects;
+CREATE POLICY projects_select ON public.projects
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS projects_insert ON public.projects;
+CREATE POLICY projects_insert ON public.projects
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- The entry screen must be one of the project's own screens.
+DROP POLICY IF EXISTS projects_update ON public.projects;
+CREATE POLICY projects_update ON public.projects
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      entry_screen_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.screens s
+        WHERE s.id = entry_screen_id
+          AND s.project_id = projects.id
+          AND s.user_id = auth.uid()
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS projects_delete ON public.projects;
+CREATE POLICY projects_delete ON public.projects
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_projects_user_id ON public.projects(user_id);
+
+DROP TRIGGER IF EXISTS update_projects_updated_at ON public.projects;
+CREATE TRIGGER update_projects_updated_at
+BEFORE UPDATE ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.screens
+  ADD COLUMN IF NOT EXISTS project_id uuid REFERENCES public.projects(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_screens_project_id ON public.screens(project_id);
+
+-- A screen can only be filed under a project of its owner.
+DROP POLICY IF EXISTS "Users can insert own screens" ON public.screens;
+CREATE POLICY "Users can insert own screens" ON public.screens
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      project_id IS NULL
+      OR EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update own screens" ON public.screens;
+CREATE POLICY "Users can update own screens" ON public.screens
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      project_id IS NULL
+      OR EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+    )
+  );
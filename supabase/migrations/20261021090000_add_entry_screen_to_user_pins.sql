@@ -0,0 +1,38 @@
+-- Migration: 20261021090000
+-- Entry screen of the screens without a project, stored next to the user's pins; projects keep theirs in
+-- projects.entry_screen_id. Both used to live only in the browser's localStorage.
+
+ALTER TABLE public.user_pins
+  ADD COLUMN IF NOT EXISTS entry_screen_id uuid REFERENCES public.screens(id) ON DELETE SET NULL;
+
+-- The entry screen must be one of the user's screens without a project.
+DROP POLICY IF EXISTS user_pins_upsert ON public.user_pins;
+CREATE POLICY user_pins_upsert ON public.user_pins
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      entry_screen_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.screens s
+        WHERE s.id = entry_screen_id
+          AND s.project_id IS NULL
+          AND s.user_id = auth.uid()
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS user_pins_update ON public.user_pins;
+CREATE POLICY user_pins_update ON public.user_pins
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      entry_screen_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.screens s
+        WHERE s.id = entry_screen_id
+          AND s.project_id IS NULL
+          AND s.user_id = auth.uid()
+      )
+    )
+  );
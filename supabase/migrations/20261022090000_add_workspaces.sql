@@ -0,0 +1,338 @@
+-- Migration: 20261022090000
+-- Team workspaces: members with a role (owner, editor, viewer) share the projects filed under the workspace,
+-- and with them the projects' screens. Members join through an invite sent to their email address.
+-- Personal projects (workspace_id NULL) and screens without a project stay owner-only.
+
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  owner_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+  workspace_id uuid NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Copied from the invite (or the owner's session) so members can be listed without reading auth.users.
+  email text,
+  role text NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.workspace_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  email text NOT NULL CHECK (email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$'),
+  role text NOT NULL DEFAULT 'editor' CHECK (role IN ('editor', 'viewer')),
+  token text NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  invited_by uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON public.workspace_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_workspace_invites_workspace_id ON public.workspace_invites(workspace_id);
+
+DROP TRIGGER IF EXISTS update_workspaces_updated_at ON public.workspaces;
+CREATE TRIGGER update_workspaces_updated_at
+BEFORE UPDATE ON public.workspaces
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Role of the current user in a workspace, or NULL. SECURITY DEFINER so the membership policies can use it
+-- without recursing into workspace_members' own RLS.
+CREATE OR REPLACE FUNCTION public.workspace_role(target_workspace uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.role
+  FROM public.workspace_members m
+  WHERE m.workspace_id = target_workspace
+    AND m.user_id = auth.uid();
+$$;
+
+REVOKE ALL ON FUNCTION public.workspace_role(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.workspace_role(uuid) TO authenticated;
+
+-- The creator becomes the workspace's owner member.
+CREATE OR REPLACE FUNCTION public.add_workspace_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.workspace_members (workspace_id, user_id, email, role)
+  VALUES (NEW.id, NEW.owner_id, auth.jwt() ->> 'email', 'owner');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS add_workspace_owner ON public.workspaces;
+CREATE TRIGGER add_workspace_owner
+AFTER INSERT ON public.workspaces
+FOR EACH ROW
+EXECUTE FUNCTION public.add_workspace_owner();
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS workspaces_select ON public.workspaces;
+CREATE POLICY workspaces_select ON public.workspaces
+  FOR SELECT USING (auth.uid() = owner_id OR public.workspace_role(id) IS NOT NULL);
+
+DROP POLICY IF EXISTS workspaces_insert ON public.workspaces;
+CREATE POLICY workspaces_insert ON public.workspaces
+  FOR INSERT WITH CHECK (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS workspaces_update ON public.workspaces;
+CREATE POLICY workspaces_update ON public.workspaces
+  FOR UPDATE USING (public.workspace_role(id) = 'owner')
+  WITH CHECK (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS workspaces_delete ON public.workspaces;
+CREATE POLICY workspaces_delete ON public.workspaces
+  FOR DELETE USING (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS workspace_members_select ON public.workspace_members;
+CREATE POLICY workspace_members_select ON public.workspace_members
+  FOR SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+-- Only the owner row is inserted directly (by add_workspace_owner); everyone else joins through
+-- accept_workspace_invite.
+DROP POLICY IF EXISTS workspace_members_insert ON public.workspace_members;
+CREATE POLICY workspace_members_insert ON public.workspace_members
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND role = 'owner'
+    AND EXISTS (SELECT 1 FROM public.workspaces w WHERE w.id = workspace_id AND w.owner_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS workspace_members_update ON public.workspace_members;
+CREATE POLICY workspace_members_update ON public.workspace_members
+  FOR UPDATE USING (public.workspace_role(workspace_id) = 'owner' AND role <> 'owner')
+  WITH CHECK (public.workspace_role(workspace_id) = 'owner' AND role IN ('editor', 'viewer'));
+
+-- Owners only change a member's role; moving the row to another workspace or user would skip the invite.
+CREATE OR REPLACE FUNCTION public.guard_workspace_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.workspace_id IS DISTINCT FROM OLD.workspace_id OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'workspace members cannot be moved to another workspace or user' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_workspace_member ON public.workspace_members;
+CREATE TRIGGER guard_workspace_member
+BEFORE UPDATE ON public.workspace_members
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_workspace_member();
+
+-- Owners remove members; members may leave. The owner row stays.
+DROP POLICY IF EXISTS workspace_members_delete ON public.workspace_members;
+CREATE POLICY workspace_members_delete ON public.workspace_members
+  FOR DELETE USING (
+    role <> 'owner'
+    AND (auth.uid() = user_id OR public.workspace_role(workspace_id) = 'owner')
+  );
+
+DROP POLICY IF EXISTS workspace_invites_select ON public.workspace_invites;
+CREATE POLICY workspace_invites_select ON public.workspace_invites
+  FOR SELECT USING (public.workspace_role(workspace_id) = 'owner');
+
+DROP POLICY IF EXISTS workspace_invites_insert ON public.workspace_invites;
+CREATE POLICY workspace_invites_insert ON public.workspace_invites
+  FOR INSERT WITH CHECK (auth.uid() = invited_by AND public.workspace_role(workspace_id) = 'owner');
+
+DROP POLICY IF EXISTS workspace_invites_delete ON public.workspace_invites;
+CREATE POLICY workspace_invites_delete ON public.workspace_invites
+  FOR DELETE USING (public.workspace_role(workspace_id) = 'owner');
+
+-- Joins the workspace of a pending invite addressed to the caller's email; returns the workspace id.
+CREATE OR REPLACE FUNCTION public.accept_workspace_invite(invite_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite public.workspace_invites%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO invite
+  FROM public.workspace_invites i
+  WHERE i.token = invite_token
+    AND i.accepted_at IS NULL
+    AND i.expires_at > now()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'invite not found or expired' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF lower(invite.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) THEN
+    RAISE EXCEPTION 'invite was sent to another email' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, email, role)
+  VALUES (invite.workspace_id, auth.uid(), invite.email, invite.role)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE
+    SET role = EXCLUDED.role
+    WHERE public.workspace_members.role <> 'owner';
+
+  UPDATE public.workspace_invites SET accepted_at = now() WHERE id = invite.id;
+
+  RETURN invite.workspace_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.accept_workspace_invite(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.accept_workspace_invite(text) TO authenticated;
+
+-- Projects filed under a workspace are shared with its members.
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS workspace_id uuid REFERENCES public.workspaces(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_workspace_id ON public.projects(workspace_id);
+
+-- Role of the current user on a project: the project's creator is its owner, anyone else gets their role in
+-- the project's workspace (NULL for personal projects of others).
+CREATE OR REPLACE FUNCTION public.project_role(target_project uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN p.user_id = auth.uid() THEN 'owner' ELSE public.workspace_role(p.workspace_id) END
+  FROM public.projects p
+  WHERE p.id = target_project;
+$$;
+
+-- The project's creator stays its owner, and only they move it between workspaces.
+CREATE OR REPLACE FUNCTION public.guard_project_workspace()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'a project''s owner cannot be changed' USING ERRCODE = '42501';
+  END IF;
+  IF NEW.workspace_id IS DISTINCT FROM OLD.workspace_id AND OLD.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'only the project owner can change its workspace' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_project_workspace ON public.projects;
+CREATE TRIGGER guard_project_workspace
+BEFORE UPDATE ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_project_workspace();
+
+DROP POLICY IF EXISTS projects_select ON public.projects;
+CREATE POLICY projects_select ON public.projects
+  FOR SELECT USING (auth.uid() = user_id OR public.workspace_role(workspace_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS projects_insert ON public.projects;
+CREATE POLICY projects_insert ON public.projects
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (workspace_id IS NULL OR public.workspace_role(workspace_id) IN ('owner', 'editor'))
+  );
+
+-- Editors may edit shared projects; the entry screen must be one of the project's screens.
+DROP POLICY IF EXISTS projects_update ON public.projects;
+CREATE POLICY projects_update ON public.projects
+  FOR UPDATE USING (auth.uid() = user_id OR public.workspace_role(workspace_id) IN ('owner', 'editor'))
+  WITH CHECK (
+    (auth.uid() = user_id OR public.workspace_role(workspace_id) IN ('owner', 'editor'))
+    AND (workspace_id IS NULL OR public.workspace_role(workspace_id) IN ('owner', 'editor'))
+    AND (
+      entry_screen_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.screens s
+        WHERE s.id = entry_screen_id
+          AND s.project_id = projects.id
+      )
+    )
+  );
+
+-- Screens follow their project: viewers read, editors and owners write. Screens without a project stay
+-- owner-only.
+DROP POLICY IF EXISTS "Users can view own screens" ON public.screens;
+CREATE POLICY "Users can view own screens" ON public.screens
+  FOR SELECT USING (
+    (project_id IS NULL AND auth.uid() = user_id)
+    OR public.project_role(project_id) IS NOT NULL
+  );
+
+DROP POLICY IF EXISTS "Users can insert own screens" ON public.screens;
+CREATE POLICY "Users can insert own screens" ON public.screens
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (project_id IS NULL OR public.project_role(project_id) IN ('owner', 'editor'))
+  );
+
+DROP POLICY IF EXISTS "Users can update own screens" ON public.screens;
+CREATE POLICY "Users can update own screens" ON public.screens
+  FOR UPDATE USING (
+    (project_id IS NULL AND auth.uid() = user_id)
+    OR public.project_role(project_id) IN ('owner', 'editor')
+  )
+  WITH CHECK (
+    (project_id IS NULL AND auth.uid() = user_id)
+    OR public.project_role(project_id) IN ('owner', 'editor')
+  );
+
+-- A screen keeps its creator, so editors cannot take shared screens private. Moving a screen to another
+-- project needs write access to both projects unless it is the caller's own screen (the update policy still
+-- checks the new project).
+CREATE OR REPLACE FUNCTION public.guard_screen_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'a screen''s owner cannot be changed' USING ERRCODE = '42501';
+  END IF;
+  IF NEW.project_id IS DISTINCT FROM OLD.project_id
+    AND OLD.user_id <> auth.uid()
+    AND (
+      coalesce(public.project_role(OLD.project_id), '') NOT IN ('owner', 'editor')
+      OR coalesce(public.project_role(NEW.project_id), '') NOT IN ('owner', 'editor')
+    ) THEN
+    RAISE EXCEPTION 'moving a screen needs write access to both projects' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_screen_owner ON public.screens;
+CREATE TRIGGER guard_screen_owner
+BEFORE UPDATE ON public.screens
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_screen_owner();
+
+DROP POLICY IF EXISTS "Users can delete own screens" ON public.screens;
+CREATE POLICY "Users can delete own screens" ON public.screens
+  FOR DELETE USING (
+    (project_id IS NULL AND auth.uid() = user_id)
+    OR public.project_role(project_id) IN ('owner', 'editor')
+  );
@@ -0,0 +1,63 @@
+-- Migration: 20261023090000
+-- Broadcast changes to screens and layouts over Supabase Realtime so open editors merge edits made in other
+-- tabs or by other workspace members. Realtime applies the tables' SELECT policies to every subscriber.
+-- Presence and cursors use private channels, authorized by the realtime.messages policies below.
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'screens'
+    ) THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE public.screens;
+    END IF;
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'screen_layouts'
+    ) THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE public.screen_layouts;
+    END IF;
+  END IF;
+END;
+$$;
+
+-- Channels of the editor: `project:<projectId>` for the project's members, `user:<userId>:ungrouped` for the
+-- screens of a user that belong to no project.
+CREATE OR REPLACE FUNCTION public.can_access_realtime_topic(topic text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN topic ~ '^project:[0-9a-f-]{36}$' THEN public.project_role(substr(topic, 9)::uuid) IS NOT NULL
+    WHEN topic ~ '^user:[0-9a-f-]{36}:ungrouped$' THEN split_part(topic, ':', 2) = auth.uid()::text
+    ELSE false
+  END;
+$$;
+
+REVOKE ALL ON FUNCTION public.can_access_realtime_topic(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.can_access_realtime_topic(text) TO authenticated;
+
+DO $$
+BEGIN
+  IF to_regclass('realtime.messages') IS NOT NULL THEN
+    DROP POLICY IF EXISTS "Members can receive presence and cursors" ON realtime.messages;
+    CREATE POLICY "Members can receive presence and cursors" ON realtime.messages
+      FOR SELECT TO authenticated
+      USING (
+        realtime.messages.extension IN ('presence', 'broadcast')
+        AND public.can_access_realtime_topic(realtime.topic())
+      );
+
+    DROP POLICY IF EXISTS "Members can send presence and cursors" ON realtime.messages;
+    CREATE POLICY "Members can send presence and cursors" ON realtime.messages
+      FOR INSERT TO authenticated
+      WITH CHECK (
+        realtime.messages.extension IN ('presence', 'broadcast')
+        AND public.can_access_realtime_topic(realtime.topic())
+      );
+  END IF;
+END;
+$$;